@@ -50,9 +50,9 @@ const manifest = {
 
   ],
 
-  permissions: ['storage', 'clipboardWrite'],
+  permissions: ['storage', 'clipboardWrite', 'identity'],
   // permissions: ['storage', 'scripting', 'clipboardWrite'],
-  // options_page: 'options/index.html',
+  options_page: 'options/index.html',
   background: {
     service_worker: 'background.js',
     type: 'module',
@@ -1,6 +1,13 @@
 import 'webextension-polyfill';
 import { exampleThemeStorage } from '@extension/storage';
 import { RemoteConfigManager } from './remote-config-manager';
+import { ReconnectSupervisor } from './reconnect-supervisor';
+import { MessageRouter } from './message-router';
+import { TabRegistry } from './tab-registry';
+import { PendingCalls, InterruptedCallError } from './pending-calls';
+import type { InterruptedCallRecord } from './pending-calls';
+import type { BroadcastMessage } from './tab-registry';
+import type { ReconnectState } from './reconnect-supervisor';
 import {
   runWithBackwardsCompatibility,
   isMcpServerConnected,
@@ -12,30 +19,67 @@ import {
   resetMcpConnectionStateForRecovery,
   normalizeToolsFromPrimitives as normalizeTools,
   createMcpClient,
-  type TransportType,
-  type ConnectionRequest
+  setMcpServerHeaders,
+  setMcpServerRoots,
+  getMcpTransportSelection,
+  onPrimitivesListChanged,
+  onConnectionStatusChanged,
+  getTruncatedPrimitiveLists,
+  getResourcesWithBackwardsCompatibility,
+  readResourceWithBackwardsCompatibility,
+  getPromptsWithBackwardsCompatibility,
+  getPromptWithBackwardsCompatibility,
+  authorizeServer,
+  isAuthorizationRequired,
+  setSamplingHandler,
+  setElicitationHandler,
+  noteToolCallTab,
+  setTrafficRecording,
+  isTrafficRecording,
+  getTrafficEntries,
+  clearTraffic,
+  ServerManager,
+  DEFAULT_CLIENT_CONFIG,
+  type ConnectionType,
+  type ToolCallOptions,
+  type PrimitiveListKind,
+  type ConnectionRequest,
+  type ServerDefinition,
+  type Root,
+  type SamplingHandler,
+  type ElicitationHandler,
+  type NormalizedTool,
 } from '../mcpclient/index';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { CreateMessageResult, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_REQUEST_TIMEOUT_MSEC } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { sendAnalyticsEvent, trackError, collectDemographicData } from '../../utils/analytics';
 import { analyticsService } from '../../utils/analytics-service';
 
 // Import message types for type safety
 import type {
   BaseMessage,
-  RequestMessage,
-  ResponseMessage,
-  McpMessageType,
-  CallToolRequest,
-  GetConnectionStatusRequest,
-  GetToolsRequest,
-  ForceReconnectRequest,
-  GetServerConfigRequest,
-  UpdateServerConfigRequest,
-  HeartbeatRequest,
+  GetConnectionStatusResponse,
+  CallTimeouts,
+  ServerProfile,
+  GetProfilesResponse,
+  GetServerConfigResponse,
   ConnectionStatusChangedBroadcast,
   ToolUpdateBroadcast,
+  ResourcesUpdatedBroadcast,
+  PromptsUpdatedBroadcast,
   ServerConfigUpdatedBroadcast,
+  ServersUpdatedBroadcast,
+  ReconnectStateBroadcast,
+  ToolProgressBroadcast,
+  ToolInterruptedBroadcast,
+  SamplingRequestBroadcast,
+  SamplingCancelledBroadcast,
+  ElicitationRequestBroadcast,
+  ElicitationCancelledBroadcast,
   HeartbeatResponseBroadcast
 } from '../../../pages/content/src/types/messages';
+import { ErrorCategory } from '../../../pages/content/src/types/messages';
 import { createLogger } from '@extension/shared/lib/logger';
 
 // Default MCP server URLs
@@ -47,8 +91,8 @@ const DEFAULT_WEBSOCKET_URL = 'ws://localhost:3006/message';
 const DEFAULT_STREAMABLE_HTTP_URL = 'http://localhost:3006';
 
 // Connection type management
-type ConnectionType = TransportType;
 const DEFAULT_CONNECTION_TYPE: ConnectionType = 'sse';
+const CONNECTION_TYPES: ConnectionType[] = ['auto', 'sse', 'websocket', 'streamable-http'];
 
 // Remote Config Manager
 let remoteConfigManager: RemoteConfigManager | null = null;
@@ -56,17 +100,77 @@ let remoteConfigManager: RemoteConfigManager | null = null;
 // Background script state management with connection type support
 let serverUrl: string = DEFAULT_SSE_URL;
 let connectionType: ConnectionType = DEFAULT_CONNECTION_TYPE;
+let serverHeaders: Record<string, string> = {};
+// Workspace roots the user shares with the primary server and with each additional server by id
+let serverRoots: { primary: Root[]; servers: Record<string, Root[]> } = { primary: [], servers: {} };
+let callTimeouts: CallTimeouts = { servers: {}, tools: {} };
+// Profiles as stored, the header values never leave the background
+type StoredServerProfile = Omit<ServerProfile, 'headerNames'> & { headers: Record<string, string> };
+
+// Named primary server setups, and the one in use unless the server was changed by hand
+let serverProfiles: StoredServerProfile[] = [];
+let activeProfileId: string | null = null;
 let isConnected: boolean = false;
 let connectionCount: number = 0;
 let isInitialized: boolean = false;
 
+// Additional servers connected alongside the primary one
+const serverManager = new ServerManager();
+let additionalServers: ServerDefinition[] = [];
+let primaryTools: NormalizedTool[] = [];
+
+// In-flight tool calls that the content script can still cancel, keyed by call id.
+// Tab and server let requests the server sends mid-call reach the tab that started it.
+const activeToolCalls = new Map<
+  string,
+  { controller: AbortController; tabId?: number; frameId?: number; conversationId?: string; serverUri: string }
+>();
+
+// Chat tabs receiving broadcasts, with the enabled tools and profile of each
+const tabRegistry = new TabRegistry(() => activeProfileId);
+// Every call awaiting a server response, persisted so a restarted worker knows what it lost
+const pendingCalls = new PendingCalls();
+
+// Tabs still waiting on a call the previous worker was running would otherwise never hear back
+pendingCalls.restored.then(records => records.forEach(notifyCallInterrupted));
+
+// The primary server this browser session was connected to, a worker restarted after
+// suspension finds it in chrome.storage.session and reconnects before anything else
+interface ConnectionIntent {
+  uri: string;
+  connectionType: ConnectionType;
+  connectedAt: number;
+}
+
+// Sampling and elicitation requests waiting for the user in a tab, keyed by request id
+const pendingUserRequests = new Map<
+  string,
+  { tabId: number; resolve: (result: unknown) => void; reject: (error: Error) => void }
+>();
+// The tab that last called a tool, used when no call to the requesting server is in flight
+let lastToolCallTabId: number | undefined;
+const USER_REQUEST_TIMEOUT = 10 * 60 * 1000; // The user has to read and answer the request
+// Bounds for tool call timeouts set from the UI
+const MIN_CALL_TIMEOUT = 1000;
+const MAX_CALL_TIMEOUT = 60 * 60 * 1000;
+
 /**
  * Initialize server URL from Chrome storage
  * Replaces mcpInterface initialization functionality
  */
 async function initializeServerConfig(): Promise<void> {
   try {
-    const result = await chrome.storage.local.get(['mcpServerUrl', 'mcpConnectionType']);
+    const result = await chrome.storage.local.get([
+      'mcpServerUrl',
+      'mcpConnectionType',
+      'mcpServerHeaders',
+      'mcpAdditionalServers',
+      'mcpServerRoots',
+      'mcpCallTimeouts',
+      'mcpTrafficRecording',
+      'mcpServerProfiles',
+      'mcpActiveProfileId',
+    ]);
     
     // Load connection type first to determine default URL
     connectionType = (result.mcpConnectionType as ConnectionType) || DEFAULT_CONNECTION_TYPE;
@@ -77,11 +181,25 @@ async function initializeServerConfig(): Promise<void> {
         : DEFAULT_SSE_URL;
     
     serverUrl = result.mcpServerUrl || defaultUrl;
+    serverHeaders = result.mcpServerHeaders || {};
+    additionalServers = Array.isArray(result.mcpAdditionalServers) ? result.mcpAdditionalServers : [];
+    serverRoots = { primary: [], servers: {}, ...result.mcpServerRoots };
+    callTimeouts = { servers: {}, tools: {}, ...result.mcpCallTimeouts };
+    setTrafficRecording(result.mcpTrafficRecording === true);
+    serverProfiles = Array.isArray(result.mcpServerProfiles) ? result.mcpServerProfiles : [];
+    activeProfileId = typeof result.mcpActiveProfileId === 'string' ? result.mcpActiveProfileId : null;
+    await setMcpServerHeaders(serverHeaders);
+    await setMcpServerRoots(serverRoots.primary);
+    for (const [id, roots] of Object.entries(serverRoots.servers)) {
+      await serverManager.setRoots(id, roots);
+    }
     isInitialized = true;
     
     logger.debug('[Background] Server config loaded from storage:', {
       url: serverUrl,
-      type: connectionType
+      type: connectionType,
+      headers: Object.keys(serverHeaders),
+      additionalServers: additionalServers.length,
     });
   } catch (error) {
     logger.warn('[Background] Failed to load server config from storage, using defaults:', error);
@@ -121,6 +239,61 @@ function updateServerConfig(url: string, type?: ConnectionType): void {
   logger.debug('[Background] Server config updated to:', { url, type: connectionType });
 }
 
+/**
+ * Store the primary server configuration and reconnect to it without waiting for the connection
+ */
+async function applyPrimaryServerConfig(
+  uri: string,
+  type: ConnectionType,
+  headers: Record<string, string>,
+): Promise<void> {
+  await chrome.storage.local.set({
+    mcpServerUrl: uri,
+    mcpConnectionType: type,
+    mcpServerHeaders: headers,
+  });
+  updateServerConfig(uri, type);
+  serverHeaders = headers;
+  await setMcpServerHeaders(headers);
+
+  // Broadcast config update immediately
+  broadcastConfigUpdateToContentScripts({ uri, connectionType: type, headerNames: Object.keys(headers) });
+
+  const reconnectPromise = reconnectSupervisor.runManual(async () => {
+    try {
+      logger.debug('[Background] Starting async reconnection after config update...');
+      await forceReconnectToMcpServer(uri, type);
+      const isConnected = await checkMcpServerConnection();
+      updateConnectionStatus(isConnected);
+      broadcastConnectionStatusToContentScripts(isConnected);
+      logger.debug(`Async reconnection completed, connected: ${isConnected}`);
+
+      // If connected, fetch and broadcast tools
+      if (isConnected) {
+        try {
+          const primitives = await getPrimitivesWithBackwardsCompatibility(uri, true, type);
+          const tools = normalizeTools(primitives);
+          broadcastToolsUpdateToContentScripts(tools);
+          logger.debug(`Broadcasted ${tools.length} normalized tools after config update`);
+        } catch (toolError) {
+          logger.warn('[Background] Failed to fetch tools after config update:', toolError);
+        }
+      }
+    } catch (error) {
+      logger.warn('[Background] Async reconnect after config update failed:', error);
+      const isConnected = await checkMcpServerConnection();
+      updateConnectionStatus(isConnected);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      broadcastConnectionStatusToContentScripts(isConnected, errorMessage);
+    }
+  }, isMcpServerConnected);
+
+  // Don't await the reconnection, just start it
+  reconnectPromise.catch(error => {
+    logger.error('[Background] Unhandled error in async reconnection:', error);
+  });
+}
+
 /**
  * Get connection status
  * Replaces mcpInterface.getConnectionStatus()
@@ -134,8 +307,30 @@ function getConnectionStatus(): boolean {
  * Replaces mcpInterface.updateConnectionStatus()
  */
 function updateConnectionStatus(status: boolean): void {
+  const connected = status && !isConnected;
   isConnected = status;
   logger.debug('[Background] Connection status updated to:', status);
+
+  // Losing the connection keeps the intent, the worker still wants to get back to that server
+  if (connected) {
+    const intent: ConnectionIntent = { uri: getServerUrl(), connectionType, connectedAt: Date.now() };
+    chrome.storage.session.set({ mcpConnectionIntent: intent }).catch(error => {
+      logger.warn('[Background] Failed to store the connection intent:', error);
+    });
+  }
+}
+
+/**
+ * The connection intent left by a previous worker of this browser session, if any
+ */
+async function getConnectionIntent(): Promise<ConnectionIntent | null> {
+  try {
+    const result = await chrome.storage.session.get('mcpConnectionIntent');
+    return result.mcpConnectionIntent ?? null;
+  } catch (error) {
+    logger.warn('[Background] Failed to read the connection intent:', error);
+    return null;
+  }
 }
 
 /**
@@ -160,10 +355,412 @@ function decrementConnectionCount(): void {
   connectionCount = Math.max(0, connectionCount - 1);
 }
 
+/**
+ * Validate custom HTTP headers received from the UI
+ *
+ * Header values are credentials more often than not, so error messages only
+ * ever mention header names. The UI never sees stored values, it sends null
+ * to keep the value stored for a header.
+ *
+ * @param stored - The headers stored so far, where null values are taken from
+ */
+function validateHeaders(headers: unknown, stored: Record<string, string> = {}): Record<string, string> {
+  if (headers === undefined || headers === null) {
+    return {};
+  }
+  if (typeof headers !== 'object' || Array.isArray(headers)) {
+    throw new Error('Invalid headers: expected an object of header names to values');
+  }
+
+  const validated: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+    const headerName = name.trim();
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(headerName)) {
+      throw new Error(`Invalid header name: ${name}`);
+    }
+    if (value === null) {
+      if (!(headerName in stored)) {
+        throw new Error(`No stored value for header: ${headerName}`);
+      }
+      validated[headerName] = stored[headerName];
+      continue;
+    }
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+      throw new Error(`Invalid value for header: ${headerName}`);
+    }
+    validated[headerName] = value;
+  }
+  return validated;
+}
+
+/**
+ * Validate workspace roots received from the UI
+ *
+ * The roots capability only allows file:// URIs.
+ */
+function validateRoots(roots: unknown): Root[] {
+  if (!Array.isArray(roots)) {
+    throw new Error('Invalid roots: expected an array');
+  }
+
+  return roots.map((root: Partial<Record<keyof Root, unknown>> | null) => {
+    if (!root || typeof root.uri !== 'string' || !root.uri.startsWith('file://')) {
+      throw new Error(`Invalid root URI: ${root?.uri}. Roots must be file:// URIs`);
+    }
+    try {
+      new URL(root.uri);
+    } catch {
+      throw new Error(`Invalid root URI: ${root.uri}`);
+    }
+
+    const name = typeof root.name === 'string' ? root.name.trim() : '';
+    return name ? { uri: root.uri, name } : { uri: root.uri };
+  });
+}
+
+/**
+ * Validate tool call timeouts received from the UI
+ */
+function validateTimeouts(timeouts: unknown): CallTimeouts {
+  if (!timeouts || typeof timeouts !== 'object' || Array.isArray(timeouts)) {
+    throw new Error('Invalid timeouts: expected an object');
+  }
+
+  const validateTimeout = (value: unknown, label: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < MIN_CALL_TIMEOUT || value > MAX_CALL_TIMEOUT) {
+      throw new Error(
+        `Invalid timeout for ${label}: expected ${MIN_CALL_TIMEOUT / 1000}s to ${MAX_CALL_TIMEOUT / 1000}s`,
+      );
+    }
+    return Math.round(value);
+  };
+  const validateMap = (map: unknown, label: string): Record<string, number> => {
+    if (map === undefined || map === null) {
+      return {};
+    }
+    if (typeof map !== 'object' || Array.isArray(map)) {
+      throw new Error(`Invalid ${label} timeouts: expected an object`);
+    }
+    return Object.fromEntries(
+      Object.entries(map as Record<string, unknown>).map(([key, value]) => [
+        key,
+        validateTimeout(value, `${label} '${key}'`),
+      ]),
+    );
+  };
+
+  const { primary, servers, tools } = timeouts as Partial<CallTimeouts>;
+  const validated: CallTimeouts = {
+    servers: validateMap(servers, 'server'),
+    tools: validateMap(tools, 'tool'),
+  };
+  if (primary !== undefined && primary !== null) {
+    validated.primary = validateTimeout(primary, 'the primary server');
+  }
+  return validated;
+}
+
+/**
+ * Validate a server profile received from the UI or read from a profile file
+ *
+ * Profiles without an id get a new one.
+ *
+ * @param storedHeaders - Headers that null header values are taken from
+ */
+function validateProfile(profile: unknown, storedHeaders: Record<string, string> = {}): StoredServerProfile {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    throw new Error('Invalid profile: expected an object');
+  }
+
+  const {
+    id,
+    name,
+    uri,
+    connectionType: type,
+    headers,
+    timeouts,
+    enabledTools,
+  } = profile as Partial<StoredServerProfile>;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('Invalid profile: name is required');
+  }
+  if (typeof uri !== 'string') {
+    throw new Error(`Invalid profile '${name}': uri is required`);
+  }
+  try {
+    new URL(uri);
+  } catch {
+    throw new Error(`Invalid server URI for profile '${name}': ${uri}`);
+  }
+  if (!CONNECTION_TYPES.includes(type as ConnectionType)) {
+    throw new Error(`Invalid connection type for profile '${name}': ${type}`);
+  }
+  if (timeouts !== undefined && (!timeouts || typeof timeouts !== 'object' || Array.isArray(timeouts))) {
+    throw new Error(`Invalid timeouts for profile '${name}': expected an object`);
+  }
+  if (
+    enabledTools !== undefined &&
+    (!Array.isArray(enabledTools) || enabledTools.some(tool => typeof tool !== 'string'))
+  ) {
+    throw new Error(`Invalid enabled tools for profile '${name}': expected a list of tool names`);
+  }
+
+  const { primary, tools } = validateTimeouts({ ...timeouts, servers: {} });
+  return {
+    id: typeof id === 'string' && id ? id : `profile-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    name: name.trim(),
+    uri,
+    connectionType: type as ConnectionType,
+    headers: validateHeaders(headers, storedHeaders),
+    timeouts: primary === undefined ? { tools } : { primary, tools },
+    ...(enabledTools ? { enabledTools } : {}),
+  };
+}
+
+/**
+ * Add a profile, or replace the one with the same id or else the same name
+ */
+function upsertProfile(profile: StoredServerProfile): StoredServerProfile {
+  const index = serverProfiles.findIndex(existing => existing.id === profile.id || existing.name === profile.name);
+  if (index === -1) {
+    serverProfiles = [...serverProfiles, profile];
+    return profile;
+  }
+
+  const replaced = { ...profile, id: serverProfiles[index].id };
+  serverProfiles = serverProfiles.map((existing, i) => (i === index ? replaced : existing));
+  return replaced;
+}
+
+/**
+ * Add an imported profile as a new one, renamed when the name is taken so it never replaces a local profile
+ */
+function addImportedProfile(profile: StoredServerProfile): StoredServerProfile {
+  const names = new Set(serverProfiles.map(existing => existing.name));
+  let name = profile.name;
+  for (let suffix = 2; names.has(name); suffix++) {
+    name = `${profile.name} (${suffix})`;
+  }
+
+  const added = { ...profile, name };
+  serverProfiles = [...serverProfiles, added];
+  return added;
+}
+
+async function storeProfiles(): Promise<void> {
+  await chrome.storage.local.set({ mcpServerProfiles: serverProfiles, mcpActiveProfileId: activeProfileId });
+}
+
+/**
+ * A profile as the UI sees it, with header names but not their values
+ */
+function describeProfile({ headers, ...profile }: StoredServerProfile): ServerProfile {
+  return { ...profile, headerNames: Object.keys(headers) };
+}
+
+function describeProfiles(): GetProfilesResponse {
+  return { profiles: serverProfiles.map(describeProfile), activeProfileId };
+}
+
+/**
+ * The timeout of a tool call: the tool's own, else its server's, else the default
+ */
+function getCallTimeout(toolName: string, serverId?: string): number {
+  const serverTimeout = serverId ? callTimeouts.servers[serverId] : callTimeouts.primary;
+  return callTimeouts.tools[toolName] ?? serverTimeout ?? DEFAULT_REQUEST_TIMEOUT_MSEC;
+}
+
+/**
+ * Validate additional server definitions received from the UI
+ *
+ * Ids become the tool namespace prefix, so they must be unique and must not
+ * contain the namespace separator. Null header values keep the value stored
+ * for the server with the same id.
+ */
+function validateServerDefinitions(servers: unknown): ServerDefinition[] {
+  if (!Array.isArray(servers)) {
+    throw new Error('Invalid servers: expected an array');
+  }
+
+  const seenIds = new Set<string>();
+
+  return servers.map((server: Partial<Record<keyof ServerDefinition, unknown>> | null) => {
+    if (!server || typeof server.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(server.id)) {
+      throw new Error(`Invalid server id: ${server?.id}. Use letters, numbers, '-' or '_'`);
+    }
+    if (seenIds.has(server.id)) {
+      throw new Error(`Duplicate server id: ${server.id}`);
+    }
+    seenIds.add(server.id);
+
+    if (typeof server.uri !== 'string') {
+      throw new Error(`Invalid server config for '${server.id}': uri is required`);
+    }
+    try {
+      new URL(server.uri);
+    } catch {
+      throw new Error(`Invalid server URI for '${server.id}': ${server.uri}`);
+    }
+
+    if (!CONNECTION_TYPES.includes(server.connectionType as ConnectionType)) {
+      throw new Error(`Invalid connection type for '${server.id}': ${server.connectionType}`);
+    }
+
+    return {
+      id: server.id,
+      name: typeof server.name === 'string' && server.name.trim() ? server.name.trim() : server.id,
+      uri: server.uri,
+      connectionType: server.connectionType as ConnectionType,
+      enabled: server.enabled !== false,
+      headers: validateHeaders(server.headers, additionalServers.find(existing => existing.id === server.id)?.headers),
+    };
+  });
+}
+
+// Keep content scripts in sync with the additional servers
+serverManager.on('server:status-changed', event => {
+  logger.debug(`[Background] Server '${event.serverId}' is now ${event.status}`, event.error || '');
+  broadcastServersUpdateToContentScripts();
+});
+
+serverManager.on('server:tools-updated', () => {
+  broadcastToolsUpdateToContentScripts(getConnectionStatus() ? primaryTools : []);
+});
+
+serverManager.on('server:resources-changed', () => {
+  broadcastResourcesUpdateToContentScripts();
+});
+
+serverManager.on('server:prompts-changed', () => {
+  broadcastPromptsUpdateToContentScripts();
+});
+
+/**
+ * Hand a sampling or elicitation request to a tab and wait for the user to answer it there.
+ * Rejects when no tab can take it, the server cancels it or the user never answers.
+ */
+async function askUserInTab<T extends CreateMessageResult | ElicitResult>(
+  kind: 'sampling' | 'elicitation',
+  serverUri: string,
+  signal: AbortSignal,
+  params: unknown,
+): Promise<T> {
+  const tabId = await findRequestTab(serverUri);
+  if (tabId === undefined) {
+    throw new McpError(-1, `No chat tab is open to handle the ${kind} request`);
+  }
+
+  const requestId = `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const serverName = serverManager.getStatuses().find(server => server.uri === serverUri)?.name ?? serverUri;
+  logger.debug(`[Background] ${kind} request ${requestId} from ${serverName} sent to tab ${tabId}`);
+
+  return new Promise((resolve, reject) => {
+    const cancel = (reason: string) => {
+      if (!pendingUserRequests.delete(requestId)) return;
+      clearTimeout(timeout);
+      sendUserRequestCancelledToTab(tabId, kind, { requestId, reason });
+      reject(new McpError(-1, reason));
+    };
+
+    const timeout = setTimeout(
+      () => cancel(`The ${kind} request timed out waiting for the user`),
+      USER_REQUEST_TIMEOUT,
+    );
+    signal.addEventListener('abort', () => cancel(`The ${kind} request was cancelled by the server`), { once: true });
+
+    pendingUserRequests.set(requestId, {
+      tabId,
+      resolve: result => {
+        clearTimeout(timeout);
+        // The tab answers in the shape the request asked for
+        resolve(result as T);
+      },
+      reject: error => {
+        clearTimeout(timeout);
+        reject(error);
+      },
+    });
+
+    const requestMessage: BaseMessage & { payload: SamplingRequestBroadcast | ElicitationRequestBroadcast } = {
+      type: `mcp:${kind}-request`,
+      // The page mirrors the SDK's request params
+      payload: { requestId, serverName, params } as SamplingRequestBroadcast | ElicitationRequestBroadcast,
+      origin: 'background',
+      timestamp: Date.now(),
+    };
+    chrome.tabs.sendMessage(tabId, requestMessage).catch(() => {
+      pendingUserRequests.delete(requestId);
+      clearTimeout(timeout);
+      reject(new McpError(-1, `The chat tab could not take the ${kind} request`));
+    });
+  });
+}
+
+/**
+ * Answer sampling/createMessage through the chat website: the user approves the
+ * request in the tab and the site's assistant produces the reply.
+ */
+const handleSamplingRequest: SamplingHandler = (params, { serverUri, signal }) =>
+  askUserInTab<CreateMessageResult>('sampling', serverUri, signal, params);
+
+/**
+ * Answer elicitation/create with a form the user fills in the tab
+ */
+const handleElicitationRequest: ElicitationHandler = (params, { serverUri, signal }) =>
+  askUserInTab<ElicitResult>('elicitation', serverUri, signal, params);
+
+setSamplingHandler(handleSamplingRequest);
+setElicitationHandler(handleElicitationRequest);
+
+// The primary server added or removed tools, push the refetched list to every tab
+onPrimitivesListChanged(({ kinds, primitives }) => {
+  logger.debug(`[Background] Primary server ${kinds.join(', ')} list changed`);
+  if (kinds.includes('tools')) {
+    broadcastToolsUpdateToContentScripts(primitives.tools);
+  }
+  if (kinds.includes('resources')) {
+    broadcastResourcesUpdateToContentScripts();
+  }
+  if (kinds.includes('prompts')) {
+    broadcastPromptsUpdateToContentScripts();
+  }
+}).catch(error => {
+  logger.warn('[Background] Error listening for list changes:', error);
+});
+
 // Define server connection state
 let isConnecting = false;
-let connectionAttemptCount = 0;
-const MAX_CONNECTION_ATTEMPTS = 3;
+
+// Brings the primary server back after it drops, see ReconnectSupervisor
+const reconnectSupervisor = new ReconnectSupervisor(
+  {
+    initialDelay: DEFAULT_CLIENT_CONFIG.global.reconnectDelay,
+    maxDelay: DEFAULT_CLIENT_CONFIG.global.maxReconnectDelay,
+    jitter: DEFAULT_CLIENT_CONFIG.global.reconnectJitter,
+    maxAttempts: DEFAULT_CLIENT_CONFIG.global.maxReconnectAttempts,
+  },
+  async () => {
+    resetMcpConnectionStateForRecovery();
+    return await tryConnectToServer(getServerUrl(), connectionType);
+  },
+  broadcastReconnectStateToContentScripts,
+);
+
+// A failed health check or a closed WebSocket only shows up as a status change of the client
+onConnectionStatusChanged(event => {
+  if (event.isConnected || !getConnectionStatus() || isConnecting) {
+    return;
+  }
+
+  logger.debug(`[Background] Primary server dropped: ${event.error || 'no reason given'}`);
+  updateConnectionStatus(false);
+  broadcastConnectionStatusToContentScripts(false, event.error);
+  if (!isAuthorizationRequired(getServerUrl())) {
+    reconnectSupervisor.start();
+  }
+}).catch(error => {
+  logger.warn('[Background] Error listening for connection changes:', error);
+});
 
 /**
  * Enhanced error categorization for better tool vs connection error distinction
@@ -205,6 +802,7 @@ function categorizeToolError(error: Error): { isConnectionError: boolean; isTool
     /connection failed/i,
     /transport error/i,
     /fetch failed/i,
+    /authorization required/i,
   ];
 
   // Check tool errors first (highest priority)
@@ -258,11 +856,6 @@ async function initializeExtension() {
   // Set initial connection status
   updateConnectionStatus(false);
 
-  // Initialize Remote Config Manager
-  await initializeRemoteConfig();
-
-  logger.debug('Extension initialized successfully');
-
   // After initialization is complete, attempt connection and broadcast initial status immediately
   const checkInitialConnectionStatus = async () => {
     const serverUrl = getServerUrl();
@@ -304,31 +897,50 @@ async function initializeExtension() {
     }
   };
   
-  // Run the initial connection attempt immediately
-  checkInitialConnectionStatus();
+  // A worker restarted after suspension reconnects right away instead of after the remote config
+  const intent = await getConnectionIntent();
+  const resumed = intent?.uri === serverUrl;
+  if (intent && resumed) {
+    logger.debug(
+      `Worker restarted, reconnecting to ${serverUrl} connected since ${new Date(intent.connectedAt).toISOString()}`,
+    );
+    checkInitialConnectionStatus();
+  }
+
+  // Initialize Remote Config Manager
+  await initializeRemoteConfig();
+
+  // Connect additional servers in the background, they don't block the primary connection
+  serverManager.setServers(additionalServers).catch(error => {
+    logger.warn('[Background] Error connecting additional servers:', error);
+  });
+
+  logger.debug('Extension initialized successfully');
+
+  // Otherwise connect once everything else is set up
+  if (!resumed) {
+    checkInitialConnectionStatus();
+  }
 }
 
 /**
- * Try to connect to the MCP server with retry logic
+ * Try to connect to the MCP server once
  * 
- * This function is separated from extension initialization to prevent blocking
- * and includes comprehensive error handling and retry logic with exponential backoff.
+ * This function is separated from extension initialization to prevent blocking.
+ * Failed connections are retried by the reconnect supervisor.
  * 
  * @param uri - The MCP server URI to connect to
- * @returns Promise that resolves when connection attempt is complete (success or failure)
+ * @returns Promise that resolves to whether the server is connected
  */
-async function tryConnectToServer(uri: string, type: ConnectionType = connectionType): Promise<void> {
+async function tryConnectToServer(uri: string, type: ConnectionType = connectionType): Promise<boolean> {
   if (isConnecting) {
     logger.debug('Connection attempt already in progress, skipping');
-    return;
+    return false;
   }
 
   isConnecting = true;
-  connectionAttemptCount++;
 
-  logger.debug(
-    `Attempting to connect to MCP server via ${type} (attempt ${connectionAttemptCount}/${MAX_CONNECTION_ATTEMPTS}): ${uri}`,
-  );
+  logger.debug(`Attempting to connect to MCP server via ${type}: ${uri}`);
 
   try {
     await runWithBackwardsCompatibility(uri, type);
@@ -336,6 +948,7 @@ async function tryConnectToServer(uri: string, type: ConnectionType = connection
     logger.debug('MCP client connected successfully');
     updateConnectionStatus(true);
     broadcastConnectionStatusToContentScripts(true);
+    reconnectSupervisor.stop();
     
     // Also broadcast available tools after successful connection
     try {
@@ -351,39 +964,29 @@ async function tryConnectToServer(uri: string, type: ConnectionType = connection
       logger.warn('[Background] Error broadcasting tools after connection:', toolsError);
     }
     
-    connectionAttemptCount = 0; // Reset counter on success
-  } catch (error: any) {
+    return true;
+  } catch (error) {
     const errorCategory = categorizeToolError(error instanceof Error ? error : new Error(String(error)));
+    const errorMessage = (error instanceof Error && error.message) || String(error);
 
-    logger.warn(`MCP server connection failed (${errorCategory.category}): ${error.message || String(error)}`);
+    logger.warn(`MCP server connection failed (${errorCategory.category}): ${errorMessage}`);
     logger.debug('Extension will continue to function with limited capabilities');
 
     // Only update connection status for actual connection errors
     if (errorCategory.isConnectionError) {
       updateConnectionStatus(false);
-      broadcastConnectionStatusToContentScripts(false, error.message || String(error));
+      broadcastConnectionStatusToContentScripts(false, errorMessage);
     } else {
       logger.debug('Error categorized as tool-related, not updating connection status');
     }
 
-    // Schedule another attempt if we haven't reached the limit
-    if (connectionAttemptCount < MAX_CONNECTION_ATTEMPTS) {
-      const delayMs = Math.min(5000 * connectionAttemptCount, 15000); // Exponential backoff with cap
-      logger.debug(`Scheduling next connection attempt in ${delayMs / 1000} seconds...`);
-
-      setTimeout(() => {
-        isConnecting = false; // Reset connecting flag
-        tryConnectToServer(uri).catch(() => {}); // Try again
-      }, delayMs);
-    } else {
-      logger.debug('Maximum connection attempts reached. Will try again during periodic check.');
-      // ENHANCED: Don't give up permanently - periodic checks will retry with reset state
-      isConnecting = false;
+    // Servers waiting for OAuth sign in would only fail again until the user signs in
+    if (!isAuthorizationRequired(uri)) {
+      reconnectSupervisor.start();
     }
+    return false;
   } finally {
-    if (connectionAttemptCount >= MAX_CONNECTION_ATTEMPTS) {
-      isConnecting = false;
-    }
+    isConnecting = false;
   }
 }
 
@@ -424,24 +1027,17 @@ setInterval(async () => {
     broadcastConnectionStatusToContentScripts(isConnected);
   }
 
-  // ENHANCED: If not connected and we're not in the middle of connecting, try to connect
-  // Reset connection attempt count periodically to allow recovery from permanent failure state
-  if (!isConnected && !isConnecting) {
-    connectionAttemptCount = 0; // Reset counter for periodic checks
-    logger.debug('Periodic check: MCP server not connected, attempting to connect');
-    const serverUrl = getServerUrl();
-    
-    // Reset the client's failure state periodically to prevent permanent disconnection
-    // This is critical to fix the issue where only browser restart would work
-    try {
-      logger.debug('[Background] Resetting MCP client connection state for periodic recovery attempt');
-      resetMcpConnectionStateForRecovery(); // Use recovery reset instead of full reset
-    } catch (error) {
-      logger.warn('[Background] Error resetting MCP connection state:', error);
-    }
-    
-    tryConnectToServer(serverUrl, connectionType).catch(() => {});
+  // Start a new reconnect round once the last one gave up, a running round is left alone
+  // Servers waiting for OAuth sign in would only fail again until the user signs in
+  if (!isConnected && !isAuthorizationRequired(getServerUrl())) {
+    logger.debug('Periodic check: MCP server not connected, making sure reconnects are scheduled');
+    reconnectSupervisor.start();
   }
+
+  // Additional servers recover independently of the primary one
+  serverManager.reconnectDisconnected().catch(error => {
+    logger.warn('[Background] Error reconnecting additional servers:', error);
+  });
 }, PERIODIC_CHECK_INTERVAL);
 
 // Log active connections periodically
@@ -606,6 +1202,10 @@ logger.debug("Edit 'chrome-extension/src/background/index.ts' and save to reload
 // --- Enhanced Message Handling ---
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (!message || typeof message !== 'object') {
+    return false;
+  }
+
   // Enhanced logging for debugging
   logger.debug('[Background] Received message:', {
     type: message.type || message.command,
@@ -649,321 +1249,600 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
 
   /* ------------------------------------------------------------------ */
-  /* MCP ContextBridge integration                                       */
+  /* Remote Config integration                                           */
   /* ------------------------------------------------------------------ */
-  if (typeof message.type === 'string' && message.type.startsWith('mcp:')) {
-    // Handle MCP messages asynchronously
-    handleMcpMessage(message, sender, sendResponse);
+  if (typeof message.type === 'string' && message.type.startsWith('remote-config:')) {
+    // Handle Remote Config messages asynchronously
+    handleRemoteConfigMessage(message, sender, sendResponse);
     return true; // Keep channel open for async response
   }
 
+  // Broadcasts and messages for other extension pages are not ours to answer
+  if (message.broadcast || (message.target && message.target !== 'background')) {
+    return false;
+  }
+
   /* ------------------------------------------------------------------ */
-  /* Remote Config integration                                           */
+  /* MCP ContextBridge integration                                       */
   /* ------------------------------------------------------------------ */
-  if (typeof message.type === 'string' && message.type.startsWith('remote-config:')) {
-    // Handle Remote Config messages asynchronously
-    handleRemoteConfigMessage(message, sender, sendResponse);
+  // Unknown and malformed mcp: requests get an error response from the router
+  if (typeof message.type === 'string' && message.type.startsWith('mcp:')) {
+    router.handle(message, sender, sendResponse);
     return true; // Keep channel open for async response
   }
 
-  // Fallback – message not handled here
-  logger.debug('[Background] Message not handled, ignoring:', message.type || message.command);
+  // Messages of other pages and plugins, e.g. command-style ones, are answered by their own listeners
   return false;
 });
 
 /**
- * Enhanced MCP message handler with proper error handling, type safety, and response formatting
- * 
- * @param message - The message received from the content script
- * @param sender - Chrome runtime message sender information
- * @param sendResponse - Callback function to send response back to sender
+ * Requests from content scripts, one handler per request type of the protocol
  */
-async function handleMcpMessage(
-  message: RequestMessage, 
-  sender: chrome.runtime.MessageSender, 
-  sendResponse: (response: ResponseMessage) => void
-) {
-  const startTime = Date.now();
-  const messageType = message.type as McpMessageType;
-  
-  try {
-    let result: any = null;
-    const payload = message.payload || {};
+const router = new MessageRouter(error => {
+  // Timed out calls can be retried with a longer timeout
+  if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+    return { category: ErrorCategory.TIMEOUT_ERROR, context: error.data as Record<string, unknown> };
+  }
+  if (error instanceof InterruptedCallError) {
+    const { toolName, startedAt } = error.record;
+    return { category: ErrorCategory.INTERRUPTED_ERROR, context: { reason: 'worker-restarted', toolName, startedAt } };
+  }
+  return {};
+});
 
-    logger.debug(`Processing MCP message: ${messageType}`);
+router.register('mcp:call-tool', async (payload, { sender }) => {
+  const { toolName, args, adapterName, callId, timeout, conversationId } = payload;
+  logger.debug(`Calling tool: ${toolName} from adapter: ${adapterName || 'unknown'}`);
 
-    switch (messageType) {
-      case 'mcp:call-tool': {
-        const { toolName, args, adapterName } = payload as CallToolRequest & { adapterName?: string };
-        if (!toolName) {
-          throw new Error('Tool name is required');
-        }
+  // The page retries a call whose worker was suspended mid-call, running it again could repeat its effects
+  await pendingCalls.restored;
+  const interrupted = callId ? pendingCalls.claimInterrupted(callId) : undefined;
+  if (interrupted) {
+    throw new InterruptedCallError(interrupted);
+  }
 
-        logger.debug(`Calling tool: ${toolName} from adapter: ${adapterName || 'unknown'}`);
-        result = await callToolWithBackwardsCompatibility(getServerUrl(), toolName, args || {}, adapterName);
-        logger.debug(`Tool call completed: ${toolName}`);
-        break;
-      }
+  // Tools the user disabled in the calling tab stay disabled even if the page asks for them
+  if (sender.tab?.id !== undefined && tabRegistry.isToolDisabled(sender.tab.id, toolName)) {
+    throw new Error(`Tool ${toolName} is disabled in this tab`);
+  }
 
-      case 'mcp:get-connection-status': {
-        logger.debug('[Background] Getting current connection status');
-        
-        // Double-check the connection status to ensure accuracy
-        const storedStatus = getConnectionStatus();
-        const actualStatus = await checkMcpServerConnection();
-        
-        logger.debug(`Stored status: ${storedStatus}, Actual status: ${actualStatus}`);
-        
-        // Update stored status if they don't match
-        if (storedStatus !== actualStatus) {
-          logger.debug('[Background] Status mismatch detected, updating and broadcasting...');
-          updateConnectionStatus(actualStatus);
-          broadcastConnectionStatusToContentScripts(actualStatus);
-        }
-        
-        result = { 
-          status: actualStatus ? 'connected' : 'disconnected',
-          isConnected: actualStatus,
-          timestamp: Date.now()
-        };
-        break;
-      }
+  // Namespaced tools belong to an additional server, everything else goes to the primary one.
+  // A primary tool whose name starts with a server id stays on the primary server.
+  const route = serverManager.resolveTool(
+    toolName,
+    primaryTools.map(tool => tool.name),
+  );
+  const serverUri = route
+    ? (serverManager.getStatuses().find(server => server.id === route.serverId)?.uri ?? '')
+    : getServerUrl();
 
-      case 'mcp:get-tools': {
-        const { forceRefresh = false } = payload as GetToolsRequest;
-        logger.debug(`Getting tools (forceRefresh: ${forceRefresh})`);
-        
-        try {
-          const primitives = await getPrimitivesWithBackwardsCompatibility(getServerUrl(), forceRefresh, connectionType);
-          logger.debug(`Retrieved ${primitives.length} primitives from server`);
-          
-          // Use the helper function to normalize tools with proper schema handling
-          const tools = normalizeTools(primitives);
-          logger.debug(`Returning ${tools.length} normalized tools to content script`);
-          
-          result = tools;
-        } catch (error) {
-          logger.error('[Background] Error getting tools:', error);
-          // Return empty array instead of throwing to prevent UI crashes
-          result = [];
-        }
-        break;
-      }
+  // Every progress notification restarts the timeout
+  const options: ToolCallOptions = {
+    timeout: timeout ?? getCallTimeout(toolName, route?.serverId),
+  };
 
-      case 'mcp:force-reconnect': {
-        logger.debug('[Background] Force reconnect requested via context bridge');
-        
-        try {
-          // Broadcast reconnection started status
-          broadcastConnectionStatusToContentScripts(false, 'Reconnecting...');
-          
-          logger.debug('[Background] Starting force reconnection process...');
-          
-          // ENHANCED: Reset connection state before attempting reconnection
-          // This ensures we don't get blocked by consecutive failure limits
-          resetMcpConnectionState();
-          
-          // Set a reasonable timeout for the reconnection process
-          const reconnectionPromise = forceReconnectToMcpServer(getServerUrl(), connectionType);
-          const timeoutPromise = new Promise<void>((_, reject) => 
-            setTimeout(() => reject(new Error('Reconnection timeout after 20 seconds')), 20000)
-          );
-          
-          await Promise.race([reconnectionPromise, timeoutPromise]);
-          logger.debug('[Background] Force reconnect completed successfully');
-          
-          // Update connection status
-          const isConnected = await checkMcpServerConnection();
-          updateConnectionStatus(isConnected);
-          
-          // Broadcast the new status to all content scripts
-          broadcastConnectionStatusToContentScripts(isConnected);
-          
-          // If connected, also refresh and broadcast tools
-          if (isConnected) {
-            try {
-              logger.debug('[Background] Fetching tools after successful reconnection...');
-              const primitives = await getPrimitivesWithBackwardsCompatibility(getServerUrl(), true, connectionType);
-              logger.debug(`Retrieved ${primitives.length} primitives after reconnection`);
-              
-              const tools = normalizeTools(primitives);
-              logger.debug(`Broadcasting ${tools.length} normalized tools after reconnection`);
-              
-              broadcastToolsUpdateToContentScripts(tools);
-            } catch (toolsError) {
-              logger.error('[Background] Error fetching tools after reconnect:', toolsError);
-            }
-          }
-          
-          result = { isConnected, message: 'Reconnection completed' };
-        } catch (error) {
-          logger.error('[Background] Force reconnect failed:', error);
-          
-          // Update connection status
-          const isConnected = await checkMcpServerConnection();
-          updateConnectionStatus(isConnected);
-          
-          // Broadcast the failure status
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          broadcastConnectionStatusToContentScripts(isConnected, errorMessage);
-          
-          result = { isConnected, error: errorMessage };
-        }
-        break;
-      }
-
-      case 'mcp:get-server-config': {
-        const stored = await chrome.storage.local.get(['mcpServerUrl', 'mcpConnectionType']);
-        const defaultUrl = connectionType === 'websocket' ? DEFAULT_WEBSOCKET_URL : DEFAULT_SSE_URL;
-        result = { 
-          uri: stored.mcpServerUrl || defaultUrl,
-          connectionType: stored.mcpConnectionType || connectionType
-        };
-        break;
+  // Calls with an id can be cancelled and report progress back to the tab that started them
+  if (callId) {
+    const controller = new AbortController();
+    const tabId = sender.tab?.id;
+    const frameId = sender.frameId;
+    activeToolCalls.set(callId, { controller, tabId, frameId, conversationId, serverUri });
+    lastToolCallTabId = tabId ?? lastToolCallTabId;
+    options.signal = controller.signal;
+    options.onProgress = ({ progress, total, message }) => {
+      if (tabId !== undefined) {
+        sendToolProgressToTab(tabId, frameId, { callId, progress, total, message });
       }
+    };
+  }
 
-      case 'mcp:update-server-config': {
-        const { config } = payload;
-        if (!config || typeof config.uri !== 'string') {
-          throw new Error('Invalid server config: uri is required');
-        }
+  noteToolCallTab(route ? route.toolName : toolName, sender.tab?.id);
+
+  const pendingId = callId ?? `call-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  pendingCalls.add({
+    callId: pendingId,
+    toolName,
+    serverUri,
+    tabId: sender.tab?.id,
+    frameId: sender.frameId,
+    conversationId,
+    startedAt: Date.now(),
+  });
 
-        // Auto-detect connection type from URI if not specified
-        let newType = config.connectionType as ConnectionType;
-        logger.debug(`Received connection type: ${config.connectionType}, parsed as: ${newType}`);
-        if (!newType) {
-          try {
-            const url = new URL(config.uri);
-            newType = (url.protocol === 'ws:' || url.protocol === 'wss:') ? 'websocket' : 'sse';
-          } catch {
-            newType = connectionType; // fallback to current type
-          }
-        }
-        logger.debug(`Updating server config to: ${config.uri} (${newType})`);
-        
-        // Update storage and background script state
-        await chrome.storage.local.set({ 
-          mcpServerUrl: config.uri,
-          mcpConnectionType: newType
-        });
-        updateServerConfig(config.uri, newType);
-        
-        // Broadcast config update immediately
-        broadcastConfigUpdateToContentScripts({ uri: config.uri, connectionType: newType });
-        
-        // Start async reconnection but don't block the response
-        const reconnectPromise = (async () => {
-          try {
-            logger.debug('[Background] Starting async reconnection after config update...');
-            await forceReconnectToMcpServer(config.uri, newType);
-            const isConnected = await checkMcpServerConnection();
-            updateConnectionStatus(isConnected);
-            broadcastConnectionStatusToContentScripts(isConnected);
-            logger.debug(`Async reconnection completed, connected: ${isConnected}`);
-            
-            // If connected, fetch and broadcast tools
-            if (isConnected) {
-              try {
-                const primitives = await getPrimitivesWithBackwardsCompatibility(config.uri, true, newType);
-                const tools = normalizeTools(primitives);
-                broadcastToolsUpdateToContentScripts(tools);
-                logger.debug(`Broadcasted ${tools.length} normalized tools after config update`);
-              } catch (toolError) {
-                logger.warn('[Background] Failed to fetch tools after config update:', toolError);
-              }
-            }
-          } catch (error) {
-            logger.warn('[Background] Async reconnect after config update failed:', error);
-            const isConnected = await checkMcpServerConnection();
-            updateConnectionStatus(isConnected);
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            broadcastConnectionStatusToContentScripts(isConnected, errorMessage);
-          }
-        })();
-        
-        // Don't await the reconnection, just start it
-        reconnectPromise.catch(error => {
-          logger.error('[Background] Unhandled error in async reconnection:', error);
-        });
-        
-        result = { success: true };
-        break;
-      }
+  try {
+    const result = route
+      ? await serverManager.callTool(route.serverId, route.toolName, args || {}, adapterName, options)
+      : await callToolWithBackwardsCompatibility(getServerUrl(), toolName, args || {}, adapterName, undefined, options);
+    logger.debug(`Tool call completed: ${toolName}`);
+    return result;
+  } finally {
+    pendingCalls.remove(pendingId);
+    if (callId) {
+      activeToolCalls.delete(callId);
+    }
+  }
+});
 
-      case 'mcp:heartbeat': {
-        // Handle heartbeat from content script
-        const { timestamp } = payload;
-        const isConnected = isMcpServerConnected();
-        
-        result = {
-          timestamp: Date.now(),
-          isConnected,
-          receivedTimestamp: timestamp
-        };
+router.register('mcp:cancel-tool', (payload, { sender }) => {
+  const { callId } = payload;
+  const call = activeToolCalls.get(callId);
 
-        // Also broadcast heartbeat response via context bridge
-        if (message.id) {
-          // Send heartbeat response event to all tabs
-          setTimeout(() => {
-            chrome.tabs.query({}, (tabs) => {
-              tabs.forEach(tab => {
-                if (tab.id) {
-                  chrome.tabs.sendMessage(tab.id, {
-                    type: 'mcp:heartbeat-response',
-                    payload: { timestamp: Date.now(), isConnected },
-                    origin: 'background',
-                    timestamp: Date.now()
-                  }).catch(() => {
-                    // Ignore errors for tabs that can't receive messages
-                  });
-                }
-              });
-            });
-          }, 0);
+  // Only the tab that started a call may cancel it
+  if (call && call.tabId !== sender.tab?.id) {
+    logger.warn(
+      `Ignoring cancel of tool call ${callId} from tab ${sender.tab?.id ?? 'unknown'}, it belongs to another tab`,
+    );
+    return { cancelled: false };
+  }
+
+  // The SDK sends notifications/cancelled to the server and rejects the pending call
+  if (call) {
+    logger.debug(`Cancelling tool call: ${callId}`);
+    call.controller.abort(new Error('Tool call cancelled'));
+    activeToolCalls.delete(callId);
+  }
+  return { cancelled: !!call };
+});
+
+router.register('mcp:sampling-response', (payload, { sender }) => {
+  const { requestId, result: samplingResult, error } = payload;
+  const pending = takePendingUserRequest(requestId, sender);
+
+  if (pending) {
+    if (samplingResult) {
+      logger.debug(`[Background] Sampling request ${requestId} answered`);
+      pending.resolve(samplingResult);
+    } else {
+      logger.debug(`[Background] Sampling request ${requestId} rejected: ${error}`);
+      pending.reject(new McpError(-1, error || 'User rejected sampling request'));
+    }
+  }
+  return { received: !!pending };
+});
+
+router.register('mcp:elicitation-response', (payload, { sender }) => {
+  const { requestId, action, content } = payload;
+  const pending = takePendingUserRequest(requestId, sender);
+
+  if (pending) {
+    logger.debug(`[Background] Elicitation request ${requestId} answered: ${action}`);
+    pending.resolve(action === 'accept' ? { action, content: content ?? {} } : { action });
+  }
+  return { received: !!pending };
+});
+
+router.register('mcp:get-connection-status', async (): Promise<GetConnectionStatusResponse> => {
+  logger.debug('[Background] Getting current connection status');
+
+  // Double-check the connection status to ensure accuracy
+  const storedStatus = getConnectionStatus();
+  const actualStatus = await checkMcpServerConnection();
+
+  logger.debug(`Stored status: ${storedStatus}, Actual status: ${actualStatus}`);
+
+  // Update stored status if they don't match
+  if (storedStatus !== actualStatus) {
+    logger.debug('[Background] Status mismatch detected, updating and broadcasting...');
+    updateConnectionStatus(actualStatus);
+    broadcastConnectionStatusToContentScripts(actualStatus);
+  }
+
+  return {
+    status: actualStatus ? 'connected' : 'disconnected',
+    isConnected: actualStatus,
+    authRequired: !actualStatus && isAuthorizationRequired(getServerUrl()),
+    transport: (actualStatus && getMcpTransportSelection()) || undefined,
+    reconnect: reconnectSupervisor.getState(),
+    timestamp: Date.now(),
+  };
+});
+
+router.register('mcp:get-tools', async payload => {
+  const { forceRefresh = false } = payload;
+  logger.debug(`Getting tools (forceRefresh: ${forceRefresh})`);
+
+  try {
+    const primitives = await getPrimitivesWithBackwardsCompatibility(getServerUrl(), forceRefresh, connectionType);
+    logger.debug(`Retrieved ${primitives.length} primitives from server`);
+
+    // Use the helper function to normalize tools with proper schema handling
+    primaryTools = normalizeTools(primitives);
+  } catch (error) {
+    logger.error('[Background] Error getting tools:', error);
+    // Fall back to an empty list instead of throwing to prevent UI crashes
+    primaryTools = [];
+  }
+
+  const serverTools = await serverManager.getTools(forceRefresh);
+  const tools = [...primaryTools, ...serverTools];
+  logger.debug(`Returning ${tools.length} normalized tools to content script`);
+  return { tools, truncated: getTruncatedLists() };
+});
+
+router.register('mcp:get-resources', async payload => {
+  const { forceRefresh = false } = payload;
+  logger.debug(`Getting resources (forceRefresh: ${forceRefresh})`);
+
+  const result = await getAllResources(forceRefresh);
+  logger.debug(`Returning ${result.resources.length} resources and ${result.resourceTemplates.length} templates`);
+  return result;
+});
+
+router.register('mcp:read-resource', async payload => {
+  const { uri, serverId } = payload;
+  logger.debug(`Reading resource: ${uri} from ${serverId || 'primary server'}`);
+  return serverId
+    ? await serverManager.readResource(serverId, uri)
+    : await readResourceWithBackwardsCompatibility(getServerUrl(), uri, connectionType);
+});
+
+router.register('mcp:get-prompts', async payload => {
+  const { forceRefresh = false } = payload;
+  logger.debug(`Getting prompts (forceRefresh: ${forceRefresh})`);
+
+  const prompts = await getAllPrompts(forceRefresh);
+  logger.debug(`Returning ${prompts.length} prompts`);
+  return { prompts };
+});
+
+router.register('mcp:get-prompt', async payload => {
+  const { name, arguments: args = {}, serverId } = payload;
+  logger.debug(`Getting prompt: ${name} from ${serverId || 'primary server'}`);
+  return serverId
+    ? await serverManager.getPrompt(serverId, name, args)
+    : await getPromptWithBackwardsCompatibility(getServerUrl(), name, args, connectionType);
+});
+
+router.register('mcp:force-reconnect', async () => {
+  logger.debug('[Background] Force reconnect requested via context bridge');
+
+  // Scheduled reconnects wait until this one is done
+  return reconnectSupervisor.runManual(async () => {
+    try {
+      // Broadcast reconnection started status
+      broadcastConnectionStatusToContentScripts(false, 'Reconnecting...');
+
+      logger.debug('[Background] Starting force reconnection process...');
+
+      // ENHANCED: Reset connection state before attempting reconnection
+      // This ensures we don't get blocked by consecutive failure limits
+      resetMcpConnectionState();
+
+      // Set a reasonable timeout for the reconnection process
+      const reconnectionPromise = forceReconnectToMcpServer(getServerUrl(), connectionType);
+      const timeoutPromise = new Promise<void>((_, reject) =>
+        setTimeout(() => reject(new Error('Reconnection timeout after 20 seconds')), 20000),
+      );
+
+      await Promise.race([reconnectionPromise, timeoutPromise]);
+      logger.debug('[Background] Force reconnect completed successfully');
+
+      // Update connection status
+      const isConnected = await checkMcpServerConnection();
+      updateConnectionStatus(isConnected);
+
+      // Broadcast the new status to all content scripts
+      broadcastConnectionStatusToContentScripts(isConnected);
+
+      // If connected, also refresh and broadcast tools
+      if (isConnected) {
+        try {
+          logger.debug('[Background] Fetching tools after successful reconnection...');
+          const primitives = await getPrimitivesWithBackwardsCompatibility(getServerUrl(), true, connectionType);
+          logger.debug(`Retrieved ${primitives.length} primitives after reconnection`);
+
+          const tools = normalizeTools(primitives);
+          logger.debug(`Broadcasting ${tools.length} normalized tools after reconnection`);
+
+          broadcastToolsUpdateToContentScripts(tools);
+        } catch (toolsError) {
+          logger.error('[Background] Error fetching tools after reconnect:', toolsError);
         }
-        break;
       }
 
-      default:
-        throw new Error(`Unhandled MCP message type: ${messageType}`);
+      return { isConnected, message: 'Reconnection completed' };
+    } catch (error) {
+      logger.error('[Background] Force reconnect failed:', error);
+
+      // Update connection status
+      const isConnected = await checkMcpServerConnection();
+      updateConnectionStatus(isConnected);
+
+      // Broadcast the failure status
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      broadcastConnectionStatusToContentScripts(isConnected, errorMessage);
+
+      return { isConnected, error: errorMessage };
     }
+  }, isMcpServerConnected);
+});
 
-    // Calculate processing time
-    const processingTime = Date.now() - startTime;
-    logger.debug(`MCP message ${messageType} processed in ${processingTime}ms`);
+router.register('mcp:get-server-config', async () => {
+  const stored = await chrome.storage.local.get(['mcpServerUrl', 'mcpConnectionType', 'mcpServerHeaders']);
+  const defaultUrl = connectionType === 'websocket' ? DEFAULT_WEBSOCKET_URL : DEFAULT_SSE_URL;
+  return {
+    uri: stored.mcpServerUrl || defaultUrl,
+    connectionType: stored.mcpConnectionType || connectionType,
+    headerNames: Object.keys(stored.mcpServerHeaders || {}),
+  };
+});
 
-    // Send successful response with proper structure
-    sendResponse({ 
-      type: `${messageType}:response`,
-      payload: result,
-      success: true,
-      timestamp: Date.now(),
-      processingTime,
-      origin: 'background',
-      id: message.id
-    });
-    
+router.register('mcp:update-server-config', async payload => {
+  const { config } = payload;
+  if (!config || typeof config.uri !== 'string') {
+    throw new Error('Invalid server config: uri is required');
+  }
+
+  // Auto-detect connection type from URI if not specified
+  let newType = config.connectionType as ConnectionType;
+  logger.debug(`Received connection type: ${config.connectionType}, parsed as: ${newType}`);
+  if (!newType) {
+    try {
+      const url = new URL(config.uri);
+      newType = url.protocol === 'ws:' || url.protocol === 'wss:' ? 'websocket' : 'sse';
+    } catch {
+      newType = connectionType; // fallback to current type
+    }
+  }
+  logger.debug(`Updating server config to: ${config.uri} (${newType})`);
+
+  // Headers are optional in the update, keep the stored ones when omitted
+  const newHeaders = config.headers !== undefined ? validateHeaders(config.headers, serverHeaders) : serverHeaders;
+  await applyPrimaryServerConfig(config.uri, newType, newHeaders);
+
+  // Changed by hand, so no profile describes the server any more
+  if (activeProfileId) {
+    activeProfileId = null;
+    await storeProfiles();
+  }
+
+  return { success: true };
+});
+
+router.register('mcp:get-servers', () => {
+  return serverManager.getStatuses();
+});
+
+router.register('mcp:update-servers', async payload => {
+  const { servers } = payload;
+  const definitions = validateServerDefinitions(servers);
+
+  await chrome.storage.local.set({ mcpAdditionalServers: definitions });
+  additionalServers = definitions;
+  logger.debug(`Updated additional servers: ${definitions.map(server => server.id).join(', ') || 'none'}`);
+
+  // Connecting can take a while, let the status broadcasts report progress.
+  // The manager applies updates in order, so quick edits don't race each other.
+  serverManager.setServers(definitions).catch(error => {
+    logger.warn('[Background] Error applying additional servers:', error);
+  });
+
+  return { success: true };
+});
+
+router.register('mcp:get-roots', () => {
+  return serverRoots;
+});
+
+router.register('mcp:update-roots', async payload => {
+  const { serverId, roots } = payload;
+  const validated = validateRoots(roots);
+
+  const servers = { ...serverRoots.servers };
+  if (serverId) {
+    servers[serverId] = validated;
+  }
+  const updated = { primary: serverId ? serverRoots.primary : validated, servers };
+
+  await chrome.storage.local.set({ mcpServerRoots: updated });
+  serverRoots = updated;
+  logger.debug(`Updated roots of ${serverId ?? 'primary server'}: ${validated.length} roots`);
+
+  if (serverId) {
+    await serverManager.setRoots(serverId, validated);
+  } else {
+    await setMcpServerRoots(validated);
+  }
+
+  return { success: true };
+});
+
+router.register('mcp:reconnect-server', async payload => {
+  const { serverId } = payload;
+
+  try {
+    await serverManager.connectServer(serverId);
+    return { isConnected: true };
+  } catch (error) {
+    return { isConnected: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+router.register('mcp:get-timeouts', () => {
+  return { ...callTimeouts, defaultTimeout: DEFAULT_REQUEST_TIMEOUT_MSEC };
+});
+
+router.register('mcp:update-timeouts', async payload => {
+  const { timeouts } = payload;
+  const validated = validateTimeouts(timeouts);
+
+  await chrome.storage.local.set({ mcpCallTimeouts: validated });
+  callTimeouts = validated;
+  logger.debug('Updated tool call timeouts:', validated);
+
+  return { success: true };
+});
+
+router.register('mcp:get-profiles', () => {
+  return describeProfiles();
+});
+
+router.register('mcp:save-profile', async payload => {
+  const { profile, activate } = payload;
+  // The profile is saved from the primary server, whose stored header values the UI never sees
+  const saved = upsertProfile(validateProfile(profile, serverHeaders));
+  if (activate) {
+    activeProfileId = saved.id;
+  }
+  await storeProfiles();
+  logger.debug(`Saved server profile '${saved.name}'`);
+
+  return { profile: describeProfile(saved), ...describeProfiles() };
+});
+
+router.register('mcp:delete-profile', async payload => {
+  const { profileId } = payload;
+  serverProfiles = serverProfiles.filter(profile => profile.id !== profileId);
+  if (activeProfileId === profileId) {
+    activeProfileId = null;
+  }
+  await storeProfiles();
+
+  return describeProfiles();
+});
+
+router.register('mcp:switch-profile', async (payload, { sender }) => {
+  const { profileId } = payload;
+  const profile = serverProfiles.find(existing => existing.id === profileId);
+  if (!profile) {
+    throw new Error(`Unknown server profile: ${profileId}`);
+  }
+  logger.debug(`Switching to server profile '${profile.name}'`);
+
+  callTimeouts = { ...callTimeouts, primary: profile.timeouts.primary, tools: profile.timeouts.tools };
+  activeProfileId = profile.id;
+  if (sender.tab?.id !== undefined) {
+    tabRegistry.updateState(sender.tab.id, { activeProfileId: profile.id });
+  }
+  await chrome.storage.local.set({ mcpCallTimeouts: callTimeouts });
+  await storeProfiles();
+  await applyPrimaryServerConfig(profile.uri, profile.connectionType, profile.headers);
+
+  return { profile: describeProfile(profile), ...describeProfiles() };
+});
+
+router.register('mcp:import-profiles', async payload => {
+  const { profiles } = payload;
+
+  // Validate everything first so a bad file changes nothing
+  const validated = profiles.map(profile =>
+    validateProfile({ ...(profile && typeof profile === 'object' ? profile : {}), id: undefined }),
+  );
+  validated.forEach(addImportedProfile);
+  await storeProfiles();
+  logger.debug(`Imported ${validated.length} server profiles`);
+
+  return { imported: validated.length, ...describeProfiles() };
+});
+
+router.register('mcp:get-traffic', () => {
+  return { recording: isTrafficRecording(), entries: getTrafficEntries() };
+});
+
+router.register('mcp:set-traffic-recording', async payload => {
+  const { enabled } = payload;
+
+  await chrome.storage.local.set({ mcpTrafficRecording: !!enabled });
+  setTrafficRecording(!!enabled);
+  logger.debug(`Protocol traffic recording ${enabled ? 'started' : 'stopped'}`);
+
+  return { success: true };
+});
+
+router.register('mcp:clear-traffic', () => {
+  clearTraffic();
+  return { success: true };
+});
+
+router.register('mcp:sign-in', async payload => {
+  const { serverId } = payload;
+
+  try {
+    if (serverId) {
+      await serverManager.signIn(serverId);
+      return { isConnected: true };
+    }
+
+    // Opens the authorization page and waits for the user to finish
+    await authorizeServer(getServerUrl());
+
+    resetMcpConnectionState();
+    await reconnectSupervisor.runManual(
+      () => forceReconnectToMcpServer(getServerUrl(), connectionType),
+      isMcpServerConnected,
+    );
+    const isConnected = await checkMcpServerConnection();
+    updateConnectionStatus(isConnected);
+    broadcastConnectionStatusToContentScripts(isConnected);
+
+    if (isConnected) {
+      try {
+        const primitives = await getPrimitivesWithBackwardsCompatibility(getServerUrl(), true, connectionType);
+        broadcastToolsUpdateToContentScripts(normalizeTools(primitives));
+      } catch (toolsError) {
+        logger.warn('[Background] Error fetching tools after sign in:', toolsError);
+      }
+    }
+
+    return { isConnected };
   } catch (error) {
-    const processingTime = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error);
-    
-    logger.error(`MCP message handling error (${processingTime}ms):`, error);
-    
-    // Send error response with proper structure
-    sendResponse({ 
-      type: `${messageType}:response`,
-      error: errorMessage,
-      success: false,
-      timestamp: Date.now(),
-      processingTime,
+    logger.warn(`[Background] Sign in failed: ${errorMessage}`);
+    return { isConnected: false, error: errorMessage };
+  }
+});
+
+router.register('mcp:heartbeat', async (payload, { sender }) => {
+  // Handle heartbeat from content script
+  const { timestamp } = payload;
+  const isConnected = isMcpServerConnected();
+  const tabId = sender.tab?.id;
+  await tabRegistry.restored;
+
+  // The heartbeat event only goes back to the frame that sent the heartbeat
+  if (tabId !== undefined) {
+    const heartbeatMessage: BaseMessage & { payload: HeartbeatResponseBroadcast } = {
+      type: 'mcp:heartbeat-response',
+      payload: { timestamp: Date.now(), isConnected },
       origin: 'background',
-      id: message.id
-    });
+      timestamp: Date.now(),
+    };
+    tabRegistry.sendToTab(tabId, heartbeatMessage, sender.frameId);
   }
-}
+
+  return {
+    timestamp: Date.now(),
+    isConnected,
+    receivedTimestamp: timestamp,
+    subscribed: tabId !== undefined && tabRegistry.isSubscribed(tabId),
+  };
+});
+
+router.register('mcp:subscribe', (payload, { sender }) => {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined) {
+    throw new Error('Only tabs can subscribe to broadcasts');
+  }
+  return { state: tabRegistry.subscribe(tabId, sender.frameId ?? 0, payload) };
+});
+
+router.register('mcp:update-tab-state', (payload, { sender }) => {
+  const tabId = sender.tab?.id;
+  if (tabId === undefined) {
+    throw new Error('Only tabs have tab state');
+  }
+  if (payload.visible !== undefined) {
+    tabRegistry.setVisible(tabId, payload.visible);
+  }
+  if (payload.enabledTools || payload.disabledTools) {
+    const { enabledTools, disabledTools } = payload;
+    tabRegistry.updateState(tabId, { ...(enabledTools && { enabledTools }), ...(disabledTools && { disabledTools }) });
+  }
+  return { success: true };
+});
 
 /**
- * Broadcast connection status to all content scripts via context bridge
+ * Broadcast connection status to subscribed content scripts via context bridge
  * 
  * @param isConnected - Whether the MCP server is connected
  * @param error - Optional error message if connection failed
@@ -973,83 +1852,278 @@ function broadcastConnectionStatusToContentScripts(isConnected: boolean, error?:
   
   logger.debug(`Broadcasting connection status: ${status} (connected: ${isConnected})`);
   
-  const broadcastMessage: BaseMessage & { payload: ConnectionStatusChangedBroadcast } = {
+  const broadcastMessage: BroadcastMessage & { payload: ConnectionStatusChangedBroadcast } = {
     type: 'connection:status-changed',
     payload: {
-      status: status as any, // Type assertion needed due to status calculation
+      status,
       error: error || undefined,
       isConnected,
+      authRequired: !isConnected && isAuthorizationRequired(getServerUrl()),
+      transport: (isConnected && getMcpTransportSelection()) || undefined,
       timestamp: Date.now()
     },
     origin: 'background',
     timestamp: Date.now()
   };
   
-  chrome.tabs.query({}, (tabs) => {
-    tabs.forEach(tab => {
-      if (tab.id) {
-        chrome.tabs.sendMessage(tab.id, broadcastMessage).catch(() => {
-          // Ignore errors for tabs that can't receive messages
-        });
-      }
-    });
-  });
+  tabRegistry.broadcast(broadcastMessage);
 }
 
 /**
- * Broadcast tools update to all content scripts via context bridge
+ * Broadcast the reconnect supervisor's countdown and attempt counter to subscribed content scripts
+ */
+function broadcastReconnectStateToContentScripts(state: ReconnectState) {
+  const broadcastMessage: BroadcastMessage & { payload: ReconnectStateBroadcast } = {
+    type: 'mcp:reconnect-state',
+    payload: state,
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  tabRegistry.broadcast(broadcastMessage);
+}
+
+/**
+ * Broadcast tools update to subscribed content scripts via context bridge
  * 
  * @param tools - Array of available MCP tools
  */
-function broadcastToolsUpdateToContentScripts(tools: any[]) {
-  logger.debug(`Broadcasting tools update to content scripts: ${tools.length} tools`);
+function broadcastToolsUpdateToContentScripts(tools: NormalizedTool[]) {
+  // Callers pass the primary server's tools, the additional servers' tools are appended here
+  primaryTools = tools;
+  const allTools = [...tools, ...serverManager.getCachedTools()];
+
+  logger.debug(`Broadcasting tools update to content scripts: ${allTools.length} tools`);
   
-  const broadcastMessage: BaseMessage & { payload: ToolUpdateBroadcast } = {
+  const broadcastMessage: BroadcastMessage & { payload: ToolUpdateBroadcast } = {
     type: 'mcp:tool-update',
     payload: {
-      tools
+      tools: allTools,
+      truncated: getTruncatedLists(),
     },
     origin: 'background',
     timestamp: Date.now()
   };
   
-  chrome.tabs.query({}, (tabs) => {
-    tabs.forEach(tab => {
-      if (tab.id) {
-        chrome.tabs.sendMessage(tab.id, broadcastMessage).catch(() => {
-          // Ignore errors for tabs that can't receive messages
-        });
-      }
-    });
-  });
+  tabRegistry.broadcast(broadcastMessage);
+}
+
+/**
+ * Resources and templates of the primary server and every additional one.
+ * Entries from additional servers carry the serverId needed to read them.
+ */
+async function getAllResources(forceRefresh = false): Promise<ResourcesUpdatedBroadcast> {
+  let primary: ResourcesUpdatedBroadcast = { resources: [], resourceTemplates: [] };
+  if (getConnectionStatus()) {
+    try {
+      primary = await getResourcesWithBackwardsCompatibility(getServerUrl(), forceRefresh, connectionType);
+    } catch (error) {
+      logger.error('[Background] Error getting resources:', error);
+    }
+  }
+
+  const additional = await serverManager.getResources(forceRefresh);
+  return {
+    resources: [...primary.resources, ...additional.resources],
+    resourceTemplates: [...primary.resourceTemplates, ...additional.resourceTemplates],
+  };
 }
 
 /**
- * Broadcast server config update to all content scripts via context bridge
+ * Broadcast the current resources to subscribed content scripts after a server changed them
+ */
+async function broadcastResourcesUpdateToContentScripts() {
+  const broadcastMessage: BroadcastMessage & { payload: ResourcesUpdatedBroadcast } = {
+    type: 'mcp:resources-updated',
+    payload: await getAllResources(),
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  logger.debug(
+    `Broadcasting resources update to content scripts: ${broadcastMessage.payload.resources.length} resources`,
+  );
+
+  tabRegistry.broadcast(broadcastMessage);
+}
+
+/**
+ * Prompts of the primary server and every additional one, entries from
+ * additional servers carry the serverId needed to get them.
+ */
+async function getAllPrompts(forceRefresh = false): Promise<PromptsUpdatedBroadcast['prompts']> {
+  let primary: PromptsUpdatedBroadcast['prompts'] = [];
+  if (getConnectionStatus()) {
+    try {
+      primary = await getPromptsWithBackwardsCompatibility(getServerUrl(), forceRefresh, connectionType);
+    } catch (error) {
+      logger.error('[Background] Error getting prompts:', error);
+    }
+  }
+
+  const additional = await serverManager.getPrompts(forceRefresh);
+  return [...primary, ...additional];
+}
+
+/**
+ * Broadcast the current prompts to subscribed content scripts after a server changed them
+ */
+async function broadcastPromptsUpdateToContentScripts() {
+  const broadcastMessage: BroadcastMessage & { payload: PromptsUpdatedBroadcast } = {
+    type: 'mcp:prompts-updated',
+    payload: { prompts: await getAllPrompts() },
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  logger.debug(`Broadcasting prompts update to content scripts: ${broadcastMessage.payload.prompts.length} prompts`);
+
+  tabRegistry.broadcast(broadcastMessage);
+}
+
+/**
+ * Lists cut off at the page cap, on the primary server or any additional one
+ */
+function getTruncatedLists(): PrimitiveListKind[] {
+  const kinds = new Set<PrimitiveListKind>(getConnectionStatus() ? getTruncatedPrimitiveLists() : []);
+  serverManager.getStatuses().forEach(server => server.truncated.forEach(kind => kinds.add(kind)));
+  return Array.from(kinds);
+}
+
+/**
+ * Broadcast server config update to subscribed content scripts via context bridge
  * 
  * @param config - The updated server configuration
  */
-function broadcastConfigUpdateToContentScripts(config: { uri: string; connectionType?: string }) {
+function broadcastConfigUpdateToContentScripts(config: GetServerConfigResponse) {
   logger.debug(`Broadcasting config update to content scripts: ${config.uri}`);
   
-  const broadcastMessage: BaseMessage & { payload: ServerConfigUpdatedBroadcast } = {
+  const broadcastMessage: BroadcastMessage & { payload: ServerConfigUpdatedBroadcast } = {
     type: 'mcp:server-config-updated',
     payload: {
-      config: config as any // Type assertion due to partial config structure
+      config,
     },
     origin: 'background',
     timestamp: Date.now()
   };
   
-  chrome.tabs.query({}, (tabs) => {
-    tabs.forEach(tab => {
-      if (tab.id) {
-        chrome.tabs.sendMessage(tab.id, broadcastMessage).catch(() => {
-          // Ignore errors for tabs that can't receive messages
-        });
-      }
-    });
-  });
+  tabRegistry.broadcast(broadcastMessage);
+}
+
+/**
+ * Broadcast additional server statuses to subscribed content scripts via context bridge
+ */
+function broadcastServersUpdateToContentScripts() {
+  const broadcastMessage: BroadcastMessage & { payload: ServersUpdatedBroadcast } = {
+    type: 'mcp:servers-updated',
+    payload: {
+      servers: serverManager.getStatuses(),
+    },
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  tabRegistry.broadcast(broadcastMessage);
+}
+
+/**
+ * Send a tool call progress update to the tab that started the call
+ *
+ * @param tabId - The tab waiting for the tool result
+ * @param frameId - The frame that made the call, the subscribed frame when unknown
+ * @param progress - The progress reported by the server
+ */
+function sendToolProgressToTab(tabId: number, frameId: number | undefined, progress: ToolProgressBroadcast) {
+  const progressMessage: BaseMessage & { payload: ToolProgressBroadcast } = {
+    type: 'mcp:tool-progress',
+    payload: progress,
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  tabRegistry.sendToTab(tabId, progressMessage, frameId);
+}
+
+/**
+ * Tell the tab that started a call that the previous worker stopped before it finished
+ */
+function notifyCallInterrupted(record: InterruptedCallRecord) {
+  if (record.tabId === undefined) {
+    return;
+  }
+
+  const interruptedMessage: BaseMessage & { payload: ToolInterruptedBroadcast } = {
+    type: 'mcp:tool-interrupted',
+    payload: {
+      callId: record.callId,
+      toolName: record.toolName,
+      startedAt: record.startedAt,
+      message: new InterruptedCallError(record).message,
+    },
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  tabRegistry.sendToTab(record.tabId, interruptedMessage, record.frameId);
+}
+
+/**
+ * The tab that should show a request from a server: the one with a call to that server
+ * in flight, else the tab that last called a tool, else the active tab of the focused window.
+ */
+async function findRequestTab(serverUri: string): Promise<number | undefined> {
+  const calls = Array.from(activeToolCalls.values()).reverse();
+  const candidates = [calls.find(call => call.serverUri === serverUri)?.tabId, lastToolCallTabId];
+
+  for (const tabId of candidates) {
+    if (tabId === undefined) continue;
+    try {
+      await chrome.tabs.get(tabId);
+      return tabId;
+    } catch {
+      // The tab was closed
+    }
+  }
+
+  const [activeTab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  return activeTab?.id;
+}
+
+/**
+ * Remove and return a pending sampling or elicitation request, only the tab that was asked may answer
+ */
+function takePendingUserRequest(requestId: string, sender: chrome.runtime.MessageSender) {
+  const pending = requestId ? pendingUserRequests.get(requestId) : undefined;
+  if (!pending) {
+    return undefined;
+  }
+  if (pending.tabId !== sender.tab?.id) {
+    throw new Error('The request belongs to another tab');
+  }
+
+  pendingUserRequests.delete(requestId);
+  return pending;
+}
+
+function sendUserRequestCancelledToTab(
+  tabId: number,
+  kind: 'sampling' | 'elicitation',
+  cancelled: SamplingCancelledBroadcast | ElicitationCancelledBroadcast,
+) {
+  const cancelledMessage: BaseMessage & { payload: SamplingCancelledBroadcast | ElicitationCancelledBroadcast } = {
+    type: `mcp:${kind}-cancelled`,
+    payload: cancelled,
+    origin: 'background',
+    timestamp: Date.now(),
+  };
+
+  tabRegistry.sendToTab(tabId, cancelledMessage);
+}
+
+// Requests from pages for the remote config, the type says which
+interface RemoteConfigMessage {
+  type: string;
+  payload?: { force?: boolean; flagName?: string; key?: string };
 }
 
 /**
@@ -1060,9 +2134,9 @@ function broadcastConfigUpdateToContentScripts(config: { uri: string; connection
  * @param sendResponse - Callback function to send response back to sender
  */
 async function handleRemoteConfigMessage(
-  message: any, 
-  sender: chrome.runtime.MessageSender, 
-  sendResponse: (response: any) => void
+  message: RemoteConfigMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: unknown) => void,
 ) {
   const startTime = Date.now();
   
@@ -1073,7 +2147,7 @@ async function handleRemoteConfigMessage(
       throw new Error('Remote Config Manager not initialized');
     }
     
-    let result: any = null;
+    let result: unknown = null;
 
     switch (message.type) {
       case 'remote-config:fetch': {
@@ -1171,7 +2245,8 @@ async function initializeRemoteConfig(): Promise<void> {
     
     // Make RemoteConfigManager globally accessible for testing
     if (typeof globalThis !== 'undefined') {
-      (globalThis as any).remoteConfigManager = remoteConfigManager;
+      (globalThis as typeof globalThis & { remoteConfigManager?: RemoteConfigManager }).remoteConfigManager =
+        remoteConfigManager;
       logger.debug('[Background] RemoteConfigManager is now accessible globally as window.remoteConfigManager');
     }
   } catch (error) {
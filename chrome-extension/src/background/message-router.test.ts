@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MessageRouter } from './message-router';
+import { ErrorCategory } from '../../../pages/content/src/types/messages';
+import type { ResponseMessage } from '../../../pages/content/src/types/messages';
+import { MCP_PROTOCOL_VERSION, validateRequestPayload } from '../../../pages/content/src/types/protocol';
+
+const sender = { tab: { id: 7 } } as chrome.runtime.MessageSender;
+
+const send = async (router: MessageRouter, message: unknown): Promise<ResponseMessage> => {
+  const sendResponse = vi.fn();
+  await router.handle(message, sender, sendResponse);
+  expect(sendResponse).toHaveBeenCalledTimes(1);
+  return sendResponse.mock.calls[0][0];
+};
+
+const request = (type: string, payload?: unknown) => ({
+  type,
+  payload,
+  id: 'request-1',
+  origin: 'content',
+  timestamp: Date.now(),
+  protocolVersion: MCP_PROTOCOL_VERSION,
+});
+
+describe('validateRequestPayload', () => {
+  it('accepts a payload that matches the request schema', () => {
+    expect(validateRequestPayload('mcp:call-tool', { toolName: 'search', args: { query: 'cats' } })).toEqual([]);
+  });
+
+  it('reports missing and mistyped fields', () => {
+    expect(validateRequestPayload('mcp:call-tool', { args: {} }).length).toBeGreaterThan(0);
+    expect(validateRequestPayload('mcp:cancel-tool', { callId: '' }).length).toBeGreaterThan(0);
+    expect(validateRequestPayload('mcp:set-traffic-recording', { enabled: 'yes' })).toEqual([
+      'payload.enabled: expected boolean, got string',
+    ]);
+  });
+
+  it('treats a missing payload as an empty object', () => {
+    expect(validateRequestPayload('mcp:get-servers', undefined)).toEqual([]);
+  });
+
+  it('only accepts known broadcast topics in a subscription', () => {
+    expect(
+      validateRequestPayload('mcp:subscribe', { site: 'example.com', topics: ['mcp:tool-update'], visible: true }),
+    ).toEqual([]);
+    expect(
+      validateRequestPayload('mcp:subscribe', { site: 'example.com', topics: ['mcp:everything'], visible: true })
+        .length,
+    ).toBeGreaterThan(0);
+  });
+});
+
+describe('MessageRouter', () => {
+  it('answers a valid request with the result of its handler', async () => {
+    const handler = vi.fn(() => ({ cancelled: true }));
+    const router = new MessageRouter().register('mcp:cancel-tool', handler);
+
+    const response = await send(router, request('mcp:cancel-tool', { callId: 'call-1' }));
+
+    expect(response).toMatchObject({
+      type: 'mcp:cancel-tool:response',
+      id: 'request-1',
+      success: true,
+      payload: { cancelled: true },
+    });
+    expect(handler).toHaveBeenCalledWith({ callId: 'call-1' }, expect.objectContaining({ sender }));
+  });
+
+  it('rejects an invalid payload without running the handler', async () => {
+    const handler = vi.fn(() => ({ cancelled: true }));
+    const router = new MessageRouter().register('mcp:cancel-tool', handler);
+
+    const response = await send(router, request('mcp:cancel-tool', { callId: 42 }));
+
+    expect(response.success).toBe(false);
+    expect(response.errorCategory).toBe(ErrorCategory.VALIDATION_ERROR);
+    expect(response.error).toBe('Invalid mcp:cancel-tool request: payload.callId: expected string, got integer');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed messages, unknown types and other protocol versions', async () => {
+    const router = new MessageRouter().register('mcp:get-servers', () => []);
+
+    expect((await send(router, null)).error).toBe('Malformed message: a type is required');
+    expect((await send(router, request('mcp:unknown'))).error).toBe('Unknown message type: mcp:unknown');
+    // A known type nobody handles is unknown to this background
+    expect((await send(router, request('mcp:get-roots'))).error).toBe('Unknown message type: mcp:get-roots');
+    expect(
+      (await send(router, { ...request('mcp:get-servers'), protocolVersion: MCP_PROTOCOL_VERSION + 1 })).error,
+    ).toMatch(/^Unsupported protocol version/);
+  });
+
+  it('accepts messages from senders that predate versioning', async () => {
+    const router = new MessageRouter().register('mcp:get-servers', () => []);
+
+    const response = await send(router, { ...request('mcp:get-servers'), protocolVersion: undefined });
+
+    expect(response.success).toBe(true);
+  });
+
+  it('reports handler failures with the category the background assigns', async () => {
+    const router = new MessageRouter(error =>
+      error instanceof RangeError ? { category: ErrorCategory.TIMEOUT_ERROR, context: { timeout: 5 } } : {},
+    )
+      .register('mcp:get-servers', () => {
+        throw new RangeError('took too long');
+      })
+      .register('mcp:get-roots', () => {
+        throw new Error('no roots');
+      });
+
+    expect(await send(router, request('mcp:get-servers'))).toMatchObject({
+      success: false,
+      error: 'took too long',
+      errorCategory: ErrorCategory.TIMEOUT_ERROR,
+      errorContext: { timeout: 5 },
+    });
+    expect(await send(router, request('mcp:get-roots'))).toMatchObject({
+      success: false,
+      error: 'no roots',
+      errorCategory: ErrorCategory.UNKNOWN_ERROR,
+    });
+    expect(router.getStats()['mcp:get-servers']).toMatchObject({ calls: 1, failures: 1 });
+  });
+
+  it('allows only one handler per type', () => {
+    const router = new MessageRouter().register('mcp:get-servers', () => []);
+
+    expect(() => router.register('mcp:get-servers', () => [])).toThrow(
+      'A handler for mcp:get-servers is already registered',
+    );
+  });
+});
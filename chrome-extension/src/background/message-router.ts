@@ -0,0 +1,153 @@
+import { createLogger } from '@extension/shared/lib/logger';
+import { createErrorResponse, createResponseMessage, ErrorCategory } from '../../../pages/content/src/types/messages';
+import type { McpError, RequestMessage, ResponseMessage } from '../../../pages/content/src/types/messages';
+import {
+  MCP_PROTOCOL_VERSION,
+  isRequestType,
+  isSupportedProtocolVersion,
+  validateRequestPayload,
+} from '../../../pages/content/src/types/protocol';
+import type { McpRequestPayload, McpRequestType, McpResponsePayload } from '../../../pages/content/src/types/protocol';
+
+const logger = createLogger('MessageRouter');
+
+export interface HandlerContext {
+  message: RequestMessage;
+  sender: chrome.runtime.MessageSender;
+}
+
+export type MessageHandler<T extends McpRequestType> = (
+  payload: McpRequestPayload<T>,
+  context: HandlerContext,
+) => McpResponsePayload<T> | Promise<McpResponsePayload<T>>;
+
+// One handler per request type, typed for that type
+type HandlerMap = { [T in McpRequestType]?: MessageHandler<T> };
+
+export interface HandlerStats {
+  calls: number;
+  failures: number;
+  totalTime: number;
+  maxTime: number;
+}
+
+/**
+ * Dispatches content script requests to the handler registered for their type.
+ * Requests are checked against the protocol before a handler runs, every request
+ * gets a response, failures included.
+ */
+export class MessageRouter {
+  private readonly handlers: HandlerMap = {};
+  private readonly stats = new Map<McpRequestType, HandlerStats>();
+
+  constructor(
+    // Category and context of a handler failure, validation problems are reported by the router itself
+    private readonly describeError: (error: unknown) => Partial<Pick<McpError, 'category' | 'context'>> = () => ({}),
+  ) {}
+
+  /**
+   * Handle one request type, a type can only have one handler
+   */
+  register<T extends McpRequestType>(type: T, handler: MessageHandler<T>): this {
+    if (this.handlers[type]) {
+      throw new Error(`A handler for ${type} is already registered`);
+    }
+    this.handlers[type] = handler as HandlerMap[T];
+    return this;
+  }
+
+  /**
+   * Answer a request through sendResponse
+   * @param message Message as received, anything not matching the protocol gets an error response
+   * @param sender Sender of the message
+   * @param sendResponse Callback of the runtime message listener
+   */
+  async handle(
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: ResponseMessage) => void,
+  ): Promise<void> {
+    const startTime = Date.now();
+    const request = (message && typeof message === 'object' ? message : {}) as RequestMessage;
+
+    const reject = (error: string) => {
+      logger.warn(`Rejected message ${String(request.type)}: ${error}`);
+      sendResponse(
+        createErrorResponse(
+          request,
+          { category: ErrorCategory.VALIDATION_ERROR, message: error, timestamp: Date.now() },
+          Date.now() - startTime,
+        ),
+      );
+    };
+
+    if (typeof request.type !== 'string' || !request.type) {
+      reject('Malformed message: a type is required');
+      return;
+    }
+    if (!isSupportedProtocolVersion(request.protocolVersion)) {
+      reject(
+        `Unsupported protocol version ${request.protocolVersion}, expected ${MCP_PROTOCOL_VERSION}. Reload the page to update the extension.`,
+      );
+      return;
+    }
+
+    const type = request.type;
+    const handler = isRequestType(type) ? this.getHandler(type) : undefined;
+    if (!isRequestType(type) || !handler) {
+      reject(`Unknown message type: ${type}`);
+      return;
+    }
+
+    const problems = validateRequestPayload(type, request.payload);
+    if (problems.length > 0) {
+      reject(`Invalid ${type} request: ${problems.join('; ')}`);
+      return;
+    }
+
+    try {
+      const result = await handler(request.payload ?? {}, { message: request, sender });
+      const processingTime = this.record(type, startTime, false);
+      logger.debug(`${type} handled in ${processingTime}ms`);
+      sendResponse(createResponseMessage(type, result, request, processingTime));
+    } catch (error) {
+      const processingTime = this.record(type, startTime, true);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`${type} failed after ${processingTime}ms:`, error);
+      sendResponse(
+        createErrorResponse(
+          request,
+          {
+            category: ErrorCategory.UNKNOWN_ERROR,
+            ...this.describeError(error),
+            message: errorMessage,
+            timestamp: Date.now(),
+          },
+          processingTime,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Calls and timings per request type since the background started
+   */
+  getStats(): Partial<Record<McpRequestType, HandlerStats>> {
+    return Object.fromEntries(Array.from(this.stats, ([type, stats]) => [type, { ...stats }]));
+  }
+
+  private getHandler<T extends McpRequestType>(type: T): MessageHandler<T> | undefined {
+    return this.handlers[type];
+  }
+
+  private record(type: McpRequestType, startTime: number, failed: boolean): number {
+    const elapsed = Date.now() - startTime;
+    const stats = this.stats.get(type) ?? { calls: 0, failures: 0, totalTime: 0, maxTime: 0 };
+    stats.calls++;
+    stats.failures += failed ? 1 : 0;
+    stats.totalTime += elapsed;
+    stats.maxTime = Math.max(stats.maxTime, elapsed);
+    this.stats.set(type, stats);
+    return elapsed;
+  }
+}
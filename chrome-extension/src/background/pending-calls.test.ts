@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { INTERRUPTED_CALL_TTL, PendingCalls } from './pending-calls';
+import type { InterruptedCallRecord, PendingCallRecord } from './pending-calls';
+
+let session: Record<string, unknown>;
+
+// Persisting is chained on storage promises, a macrotask lets it settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const record = (callId: string, toolName = 'write_file'): PendingCallRecord => ({
+  callId,
+  toolName,
+  serverUri: 'http://localhost:3006/sse',
+  tabId: 4,
+  startedAt: 1_000,
+});
+
+describe('PendingCalls', () => {
+  beforeEach(() => {
+    session = {};
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(100_000);
+    vi.stubGlobal('chrome', {
+      storage: {
+        session: {
+          get: vi.fn(async (keys: string[]) => Object.fromEntries(keys.map(key => [key, session[key]]))),
+          set: vi.fn(async (items: Record<string, unknown>) => {
+            Object.assign(session, items);
+          }),
+        },
+      },
+      runtime: { getPlatformInfo: vi.fn(async () => ({})) },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('persists the calls in flight', async () => {
+    const calls = new PendingCalls();
+    await calls.restored;
+
+    calls.add(record('a'));
+    calls.add(record('b'));
+    calls.remove('a');
+    await flush();
+
+    expect(calls.size).toBe(1);
+    expect(session.mcpPendingCalls).toEqual([record('b')]);
+
+    calls.remove('b');
+  });
+
+  it('marks the calls a previous worker left running as interrupted', async () => {
+    session.mcpPendingCalls = [record('a')];
+
+    const calls = new PendingCalls();
+    const restored = await calls.restored;
+    await flush();
+
+    expect(restored).toEqual([{ ...record('a'), interruptedAt: 100_000 }]);
+    expect(calls.size).toBe(0);
+    expect(session.mcpPendingCalls).toEqual([]);
+    expect(session.mcpInterruptedCalls).toEqual(restored);
+  });
+
+  it('keeps interrupted calls across restarts until they are claimed', async () => {
+    session.mcpPendingCalls = [record('b')];
+    session.mcpInterruptedCalls = [{ ...record('a'), interruptedAt: 90_000 }];
+
+    const calls = new PendingCalls();
+    // Only the newly interrupted call is announced again
+    expect((await calls.restored).map(r => r.callId)).toEqual(['b']);
+
+    expect(calls.claimInterrupted('a')).toMatchObject({ callId: 'a', interruptedAt: 90_000 });
+    expect(calls.claimInterrupted('a')).toBeUndefined();
+    await flush();
+
+    expect((session.mcpInterruptedCalls as InterruptedCallRecord[]).map(r => r.callId)).toEqual(['b']);
+  });
+
+  it('forgets interrupted calls once they expire', async () => {
+    session.mcpInterruptedCalls = [
+      { ...record('old'), interruptedAt: 100_000 - INTERRUPTED_CALL_TTL },
+      { ...record('recent'), interruptedAt: 99_000 },
+    ];
+
+    const calls = new PendingCalls();
+    await calls.restored;
+    await flush();
+
+    expect(calls.claimInterrupted('old')).toBeUndefined();
+    expect((session.mcpInterruptedCalls as InterruptedCallRecord[]).map(r => r.callId)).toEqual(['recent']);
+
+    // A record that expires while the worker runs is dropped when claimed
+    vi.setSystemTime(99_000 + INTERRUPTED_CALL_TTL);
+    expect(calls.claimInterrupted('recent')).toBeUndefined();
+  });
+
+  it('starts without interrupted calls when storage cannot be read', async () => {
+    vi.mocked(chrome.storage.session.get).mockRejectedValueOnce(new Error('no session storage'));
+
+    const calls = new PendingCalls();
+
+    expect(await calls.restored).toEqual([]);
+  });
+});
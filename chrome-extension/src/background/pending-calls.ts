@@ -0,0 +1,146 @@
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('PendingCalls');
+
+// chrome.storage.session outlives the service worker but not the browser session
+const STORAGE_KEY = 'mcpPendingCalls';
+const INTERRUPTED_STORAGE_KEY = 'mcpInterruptedCalls';
+// How long a page can still retry an interrupted call and be told it was interrupted
+export const INTERRUPTED_CALL_TTL = 10 * 60_000;
+// Extension API calls reset the idle timer, which suspends the worker after 30 seconds
+const KEEP_ALIVE_INTERVAL = 20_000;
+
+export interface PendingCallRecord {
+  callId: string;
+  toolName: string;
+  serverUri: string;
+  tabId?: number;
+  frameId?: number;
+  conversationId?: string;
+  startedAt: number;
+}
+
+export interface InterruptedCallRecord extends PendingCallRecord {
+  interruptedAt: number;
+}
+
+/**
+ * Tool calls in flight, persisted so a restarted worker knows which calls it lost.
+ * The worker is kept alive while any call is outstanding and allowed to suspend otherwise.
+ */
+export class PendingCalls {
+  private readonly calls = new Map<string, PendingCallRecord>();
+  // Calls an earlier worker did not finish, a retry of one is refused instead of run twice.
+  // Persisted too, so they survive the worker being suspended again before the page retries.
+  private readonly interrupted = new Map<string, InterruptedCallRecord>();
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+  // Resolves with the calls the previous worker was running when it stopped
+  readonly restored: Promise<InterruptedCallRecord[]>;
+
+  constructor() {
+    this.restored = this.restore();
+  }
+
+  get size(): number {
+    return this.calls.size;
+  }
+
+  add(record: PendingCallRecord): void {
+    this.calls.set(record.callId, record);
+    this.updateKeepAlive();
+    this.persist();
+  }
+
+  remove(callId: string): void {
+    if (this.calls.delete(callId)) {
+      this.updateKeepAlive();
+      this.persist();
+    }
+  }
+
+  /**
+   * Take the record of a call an earlier worker started but never answered,
+   * the page is told once and the record is dropped
+   */
+  claimInterrupted(callId: string): InterruptedCallRecord | undefined {
+    const record = this.interrupted.get(callId);
+    if (!record) {
+      return undefined;
+    }
+
+    this.interrupted.delete(callId);
+    this.persist();
+    return Date.now() - record.interruptedAt < INTERRUPTED_CALL_TTL ? record : undefined;
+  }
+
+  private async restore(): Promise<InterruptedCallRecord[]> {
+    try {
+      const result = await chrome.storage.session.get([STORAGE_KEY, INTERRUPTED_STORAGE_KEY]);
+      const pending: PendingCallRecord[] = Array.isArray(result[STORAGE_KEY]) ? result[STORAGE_KEY] : [];
+      const earlier: InterruptedCallRecord[] = Array.isArray(result[INTERRUPTED_STORAGE_KEY])
+        ? result[INTERRUPTED_STORAGE_KEY]
+        : [];
+
+      const now = Date.now();
+      const records = pending.map(record => ({ ...record, interruptedAt: now }));
+      earlier
+        .filter(record => now - record.interruptedAt < INTERRUPTED_CALL_TTL)
+        .concat(records)
+        .forEach(record => this.interrupted.set(record.callId, record));
+
+      if (records.length > 0) {
+        logger.warn(
+          `Worker restarted with ${records.length} tool calls in flight:`,
+          records.map(r => r.toolName),
+        );
+      }
+      if (records.length > 0 || earlier.length !== this.interrupted.size) {
+        this.persist();
+      }
+      return records;
+    } catch (error) {
+      logger.warn('Failed to restore pending tool calls:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    // Writes are chained so an older list never overwrites a newer one
+    this.persisting = this.persisting
+      .then(() =>
+        chrome.storage.session.set({
+          [STORAGE_KEY]: Array.from(this.calls.values()),
+          [INTERRUPTED_STORAGE_KEY]: Array.from(this.interrupted.values()),
+        }),
+      )
+      .catch(error => logger.warn('Failed to persist pending tool calls:', error));
+  }
+
+  private updateKeepAlive(): void {
+    if (this.calls.size > 0 && !this.keepAliveTimer) {
+      logger.debug('Holding the worker alive while tool calls are pending');
+      this.keepAliveTimer = setInterval(() => {
+        chrome.runtime.getPlatformInfo().catch(() => {
+          // Only the call matters, not its result
+        });
+      }, KEEP_ALIVE_INTERVAL);
+    } else if (this.calls.size === 0 && this.keepAliveTimer) {
+      logger.debug('No tool calls pending, the worker may suspend');
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+}
+
+/**
+ * A page retried a call the previous worker never answered
+ */
+export class InterruptedCallError extends Error {
+  constructor(readonly record: PendingCallRecord) {
+    super(
+      `The extension restarted while ${record.toolName} was running, it may or may not have completed on the server. Check before running it again.`,
+    );
+    this.name = 'InterruptedCallError';
+  }
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReconnectSupervisor } from './reconnect-supervisor';
+import type { ReconnectPolicy, ReconnectState } from './reconnect-supervisor';
+
+const policy: ReconnectPolicy = { initialDelay: 1_000, maxDelay: 5_000, jitter: 0, maxAttempts: 0 };
+
+let events: EventTarget;
+
+const createSupervisor = (reconnect: () => Promise<boolean>, overrides: Partial<ReconnectPolicy> = {}) => {
+  const states: ReconnectState[] = [];
+  const supervisor = new ReconnectSupervisor({ ...policy, ...overrides }, reconnect, state => states.push(state));
+  return { supervisor, states };
+};
+
+// How long until the scheduled attempt, null when none is scheduled
+const nextDelay = (supervisor: ReconnectSupervisor) => {
+  const { nextAttemptAt } = supervisor.getState();
+  return nextAttemptAt === null ? null : nextAttemptAt - Date.now();
+};
+
+describe('ReconnectSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = new EventTarget();
+    vi.stubGlobal('self', events);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay after each failed attempt up to the cap', async () => {
+    const reconnect = vi.fn(async () => false);
+    const { supervisor } = createSupervisor(reconnect);
+
+    supervisor.start();
+    const delays = [];
+    for (let i = 0; i < 5; i++) {
+      const delay = nextDelay(supervisor);
+      delays.push(delay);
+      await vi.advanceTimersByTimeAsync(delay!);
+    }
+
+    expect(delays).toEqual([1_000, 2_000, 4_000, 5_000, 5_000]);
+    expect(reconnect).toHaveBeenCalledTimes(5);
+    expect(supervisor.getState().attempt).toBe(5);
+
+    supervisor.stop();
+  });
+
+  it('spreads each delay by the jitter', () => {
+    const { supervisor } = createSupervisor(async () => false, { jitter: 0.5 });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    supervisor.start();
+    expect(nextDelay(supervisor)).toBe(500);
+
+    supervisor.stop();
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    supervisor.start();
+    expect(nextDelay(supervisor)).toBe(1_499);
+
+    supervisor.stop();
+  });
+
+  it('gives up once the attempts of a round are used up', async () => {
+    const { supervisor, states } = createSupervisor(async () => false, { maxAttempts: 2 });
+
+    supervisor.start();
+    await vi.advanceTimersByTimeAsync(1_000 + 2_000);
+
+    expect(supervisor.getState()).toMatchObject({ attempt: 2, gaveUp: true, nextAttemptAt: null });
+    expect(states.at(-1)?.gaveUp).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('starts over from the initial delay after reconnecting', async () => {
+    const reconnect = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    const { supervisor } = createSupervisor(reconnect);
+
+    supervisor.start();
+    await vi.advanceTimersByTimeAsync(1_000 + 2_000);
+
+    expect(supervisor.getState()).toMatchObject({ attempt: 0, nextAttemptAt: null, gaveUp: false });
+    expect(vi.getTimerCount()).toBe(0);
+
+    reconnect.mockResolvedValue(false);
+    supervisor.start();
+    expect(nextDelay(supervisor)).toBe(1_000);
+
+    supervisor.stop();
+  });
+
+  it('pauses while offline and tries again as soon as the browser is back online', async () => {
+    const reconnect = vi.fn(async () => false);
+    const { supervisor } = createSupervisor(reconnect);
+
+    supervisor.start();
+    await vi.advanceTimersByTimeAsync(1_000 + 2_000);
+    events.dispatchEvent(new Event('offline'));
+
+    expect(supervisor.getState()).toMatchObject({ isOffline: true, nextAttemptAt: null });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(reconnect).toHaveBeenCalledTimes(2);
+
+    events.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    // The round restarted, the next delay is the initial one doubled once
+    expect(supervisor.getState()).toMatchObject({ isOffline: false, attempt: 1 });
+    expect(nextDelay(supervisor)).toBe(2_000);
+
+    supervisor.stop();
+  });
+
+  it('holds scheduled attempts while the user reconnects and resumes if that fails', async () => {
+    const reconnect = vi.fn(async () => false);
+    const { supervisor } = createSupervisor(reconnect);
+
+    supervisor.start();
+    let finishManual: (value: string) => void = () => {};
+    const manual = supervisor.runManual(
+      () =>
+        new Promise<string>(resolve => {
+          finishManual = resolve;
+        }),
+      () => false,
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Nothing races the manual attempt
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(reconnect).not.toHaveBeenCalled();
+    supervisor.start();
+    expect(supervisor.getState().nextAttemptAt).toBeNull();
+
+    finishManual('done');
+    await expect(manual).resolves.toBe('done');
+    expect(nextDelay(supervisor)).toBe(1_000);
+
+    supervisor.stop();
+  });
+});
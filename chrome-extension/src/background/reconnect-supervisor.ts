@@ -0,0 +1,206 @@
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('ReconnectSupervisor');
+
+export interface ReconnectPolicy {
+  initialDelay: number;
+  maxDelay: number;
+  // 0.3 spreads each delay over ±30%
+  jitter: number;
+  // 0 keeps trying until stopped
+  maxAttempts: number;
+}
+
+export interface ReconnectState {
+  // Attempts made in the current round
+  attempt: number;
+  maxAttempts: number;
+  // When the next attempt starts, null when none is scheduled
+  nextAttemptAt: number | null;
+  isAttempting: boolean;
+  // Waiting for the browser to come back online
+  isOffline: boolean;
+  // The round ran out of attempts
+  gaveUp: boolean;
+}
+
+/**
+ * Reconnects the primary server after it drops, backing off exponentially
+ * with jitter. Rounds pause while the browser is offline and step aside
+ * while the user reconnects manually.
+ */
+export class ReconnectSupervisor {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isRoundActive = false;
+  private attempt = 0;
+  private nextAttemptAt: number | null = null;
+  private currentAttempt: Promise<void> | null = null;
+  private manualCount = 0;
+  private isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  private gaveUp = false;
+
+  constructor(
+    private readonly policy: ReconnectPolicy,
+    // Resolves true once connected
+    private readonly reconnect: () => Promise<boolean>,
+    private readonly onStateChange: (state: ReconnectState) => void,
+  ) {
+    self.addEventListener('offline', () => this.handleOffline());
+    self.addEventListener('online', () => this.handleOnline());
+  }
+
+  /**
+   * Start a round of attempts, unless one is already running or the user is reconnecting
+   */
+  start(): void {
+    if (this.isRoundActive || this.manualCount > 0) {
+      return;
+    }
+
+    logger.debug('Starting reconnect round');
+    this.isRoundActive = true;
+    this.attempt = 0;
+    this.gaveUp = false;
+    this.scheduleNext();
+  }
+
+  /**
+   * Stop the current round, e.g. after the connection came back
+   */
+  stop(): void {
+    this.clearTimer();
+    const changed = this.isRoundActive || this.gaveUp;
+    this.isRoundActive = false;
+    this.attempt = 0;
+    this.gaveUp = false;
+    if (changed) {
+      this.notify();
+    }
+  }
+
+  /**
+   * Run a manual reconnect without a scheduled attempt racing it. A running
+   * attempt finishes first; a new round starts afterwards if still disconnected.
+   */
+  async runManual<T>(action: () => Promise<T>, isConnected: () => boolean): Promise<T> {
+    this.manualCount++;
+    this.clearTimer();
+    this.notify();
+
+    try {
+      await this.currentAttempt;
+      return await action();
+    } finally {
+      this.manualCount--;
+      if (this.manualCount === 0) {
+        this.stop();
+        if (!isConnected()) {
+          this.start();
+        }
+      }
+    }
+  }
+
+  getState(): ReconnectState {
+    return {
+      attempt: this.attempt,
+      maxAttempts: this.policy.maxAttempts,
+      nextAttemptAt: this.nextAttemptAt,
+      isAttempting: this.currentAttempt !== null,
+      isOffline: this.isOffline,
+      gaveUp: this.gaveUp,
+    };
+  }
+
+  private scheduleNext(): void {
+    if (this.policy.maxAttempts > 0 && this.attempt >= this.policy.maxAttempts) {
+      logger.debug(`Giving up after ${this.attempt} attempts`);
+      this.isRoundActive = false;
+      this.gaveUp = true;
+      this.nextAttemptAt = null;
+      this.notify();
+      return;
+    }
+
+    // Offline rounds resume from the 'online' event
+    if (this.isOffline) {
+      this.nextAttemptAt = null;
+      this.notify();
+      return;
+    }
+
+    const delay = this.getDelay(this.attempt);
+    logger.debug(`Attempt ${this.attempt + 1} in ${Math.round(delay / 1000)}s`);
+    this.nextAttemptAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runAttempt();
+    }, delay);
+    this.notify();
+  }
+
+  private getDelay(attempt: number): number {
+    const { initialDelay, maxDelay, jitter } = this.policy;
+    const delay = Math.min(initialDelay * 2 ** attempt, maxDelay);
+    return Math.max(0, Math.round(delay * (1 + jitter * (Math.random() * 2 - 1))));
+  }
+
+  private runAttempt(): void {
+    this.attempt++;
+    this.nextAttemptAt = null;
+
+    this.currentAttempt = (async () => {
+      let connected = false;
+      try {
+        connected = await this.reconnect();
+      } catch (error) {
+        logger.debug(`Attempt ${this.attempt} failed:`, error);
+      } finally {
+        this.currentAttempt = null;
+      }
+
+      if (connected) {
+        logger.debug(`Reconnected after ${this.attempt} attempts`);
+        this.stop();
+      } else if (this.manualCount === 0) {
+        this.scheduleNext();
+      }
+    })();
+    this.notify();
+  }
+
+  private handleOffline(): void {
+    logger.debug('Browser went offline, pausing reconnects');
+    this.isOffline = true;
+    if (this.timer) {
+      this.clearTimer();
+    }
+    this.notify();
+  }
+
+  private handleOnline(): void {
+    logger.debug('Browser is back online');
+    this.isOffline = false;
+    // Whatever failed while offline says nothing about the server, start over right away
+    if ((this.isRoundActive || this.gaveUp) && !this.currentAttempt && this.manualCount === 0) {
+      this.isRoundActive = true;
+      this.attempt = 0;
+      this.gaveUp = false;
+      this.runAttempt();
+    } else {
+      this.notify();
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.nextAttemptAt = null;
+  }
+
+  private notify(): void {
+    this.onStateChange(this.getState());
+  }
+}
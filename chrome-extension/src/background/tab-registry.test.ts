@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TabRegistry } from './tab-registry';
+import type { BroadcastMessage } from './tab-registry';
+
+let session: Record<string, unknown>;
+let sendMessage: ReturnType<typeof vi.fn>;
+let onRemoved: (tabId: number) => void;
+
+// Persisting is chained on storage promises, a macrotask lets it settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const subscribe = (registry: TabRegistry, tabId: number, visible = true) =>
+  registry.subscribe(tabId, 0, { site: 'chatgpt.com', topics: ['mcp:tool-update'], visible });
+
+const toolUpdate = (id: string): BroadcastMessage => ({
+  type: 'mcp:tool-update',
+  origin: 'background',
+  id,
+  timestamp: 1_000,
+  payload: {},
+});
+
+describe('TabRegistry', () => {
+  beforeEach(() => {
+    session = {};
+    sendMessage = vi.fn(async () => {});
+    vi.stubGlobal('chrome', {
+      storage: {
+        session: {
+          get: vi.fn(async (key: string) => ({ [key]: session[key] })),
+          set: vi.fn(async (items: Record<string, unknown>) => {
+            Object.assign(session, items);
+          }),
+        },
+      },
+      tabs: {
+        sendMessage,
+        onRemoved: {
+          addListener: (listener: (tabId: number) => void) => {
+            onRemoved = listener;
+          },
+        },
+        onUpdated: { addListener: vi.fn() },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses only the tools a tab disabled, also tools added to a server later are allowed', async () => {
+    const registry = new TabRegistry(() => null);
+    await registry.restored;
+    subscribe(registry, 4);
+
+    // Nothing is refused before the tab reported its tools
+    expect(registry.isToolDisabled(4, 'delete_file')).toBe(false);
+
+    registry.updateState(4, { enabledTools: ['read_file'], disabledTools: ['delete_file'] });
+
+    expect(registry.isToolDisabled(4, 'delete_file')).toBe(true);
+    expect(registry.isToolDisabled(4, 'read_file')).toBe(false);
+    expect(registry.isToolDisabled(4, 'list_changed_tool')).toBe(false);
+    expect(registry.isToolDisabled(5, 'delete_file')).toBe(false);
+  });
+
+  it('keeps the state of a tab when the worker restarts and drops it when the tab closes', async () => {
+    const registry = new TabRegistry(() => 'work');
+    await registry.restored;
+    subscribe(registry, 4);
+    registry.updateState(4, { enabledTools: ['read_file'], disabledTools: ['delete_file'] });
+    await flush();
+
+    const restarted = new TabRegistry(() => null);
+    await restarted.restored;
+
+    expect(restarted.isSubscribed(4)).toBe(true);
+    expect(restarted.isToolDisabled(4, 'delete_file')).toBe(true);
+    expect(subscribe(restarted, 4)).toEqual({
+      activeProfileId: 'work',
+      enabledTools: ['read_file'],
+      disabledTools: ['delete_file'],
+    });
+
+    onRemoved(4);
+    expect(restarted.isSubscribed(4)).toBe(false);
+    expect(restarted.isToolDisabled(4, 'delete_file')).toBe(false);
+  });
+
+  it('skips hidden tabs and sends them the latest missed message once shown', async () => {
+    const registry = new TabRegistry(() => null);
+    await registry.restored;
+    subscribe(registry, 4);
+    subscribe(registry, 5, false);
+
+    expect(registry.broadcast(toolUpdate('first'))).toBe(1);
+    expect(registry.broadcast(toolUpdate('second'))).toBe(1);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+
+    registry.setVisible(5, true);
+
+    expect(sendMessage).toHaveBeenCalledTimes(3);
+    expect(sendMessage).toHaveBeenLastCalledWith(5, toolUpdate('second'), { frameId: 0 });
+  });
+});
@@ -0,0 +1,218 @@
+import { createLogger } from '@extension/shared/lib/logger';
+import type { BaseMessage, TabState } from '../../../pages/content/src/types/messages';
+import type { BroadcastType } from '../../../pages/content/src/types/protocol';
+
+const logger = createLogger('TabRegistry');
+
+// Kept in chrome.storage.session so tabs stay subscribed when the worker is suspended
+const STORAGE_KEY = 'mcpTabRegistry';
+
+export interface TabSubscription {
+  frameId: number;
+  // Hostname the tab subscribed from
+  site: string;
+  topics: Set<BroadcastType>;
+  visible: boolean;
+  // Topics broadcast while the tab was hidden, replayed once it is visible again
+  missed: Set<BroadcastType>;
+}
+
+export type BroadcastMessage = BaseMessage & { type: BroadcastType };
+
+interface StoredRegistry {
+  subscriptions: Array<[number, Omit<TabSubscription, 'topics' | 'missed'> & { topics: BroadcastType[] }]>;
+  states: Array<[number, TabState]>;
+}
+
+const hostnameOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Chat tabs that subscribed to background broadcasts and the state the background keeps per tab.
+ * Broadcasts skip hidden tabs and tabs that left the site they subscribed from, a hidden tab
+ * gets the latest message of every topic it missed when it is shown again.
+ */
+export class TabRegistry {
+  private readonly subscriptions = new Map<number, TabSubscription>();
+  private readonly states = new Map<number, TabState>();
+  private readonly latest = new Map<BroadcastType, BroadcastMessage>();
+  private persisting: Promise<void> = Promise.resolve();
+  readonly restored: Promise<void>;
+
+  constructor(
+    // Profile a tab starts with when it subscribes for the first time
+    private readonly getActiveProfileId: () => string | null,
+  ) {
+    chrome.tabs.onRemoved.addListener(tabId => this.remove(tabId));
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+      const subscription = this.subscriptions.get(tabId);
+      if (subscription && changeInfo.url && hostnameOf(changeInfo.url) !== subscription.site) {
+        logger.debug(`Tab ${tabId} left ${subscription.site}, unsubscribing`);
+        this.subscriptions.delete(tabId);
+        this.persist();
+      }
+    });
+    this.restored = this.restore();
+  }
+
+  /**
+   * Subscribe a tab, replacing its previous subscription, e.g. after a reload
+   * @returns The state kept for the tab
+   */
+  subscribe(
+    tabId: number,
+    frameId: number,
+    options: { site: string; topics: BroadcastType[]; visible: boolean },
+  ): TabState {
+    this.subscriptions.set(tabId, {
+      frameId,
+      site: options.site,
+      topics: new Set(options.topics),
+      visible: options.visible,
+      missed: new Set(),
+    });
+    logger.debug(`Tab ${tabId} subscribed from ${options.site} to ${options.topics.length} topics`);
+    const state = this.getState(tabId);
+    this.persist();
+    return state;
+  }
+
+  isSubscribed(tabId: number): boolean {
+    return this.subscriptions.has(tabId);
+  }
+
+  getState(tabId: number): TabState {
+    let state = this.states.get(tabId);
+    if (!state) {
+      state = { activeProfileId: this.getActiveProfileId() };
+      this.states.set(tabId, state);
+    }
+    return { ...state };
+  }
+
+  updateState(tabId: number, changes: Partial<TabState>): void {
+    this.states.set(tabId, { ...this.getState(tabId), ...changes });
+    this.persist();
+  }
+
+  /**
+   * Whether the user disabled a tool in the tab, tools the tab has not reported on are not
+   */
+  isToolDisabled(tabId: number, toolName: string): boolean {
+    return this.states.get(tabId)?.disabledTools?.includes(toolName) ?? false;
+  }
+
+  /**
+   * Record whether the tab is shown, a tab that becomes visible gets what it missed
+   */
+  setVisible(tabId: number, visible: boolean): void {
+    const subscription = this.subscriptions.get(tabId);
+    if (!subscription || subscription.visible === visible) {
+      return;
+    }
+
+    subscription.visible = visible;
+    this.persist();
+    if (visible && subscription.missed.size > 0) {
+      logger.debug(`Replaying ${subscription.missed.size} missed topics to tab ${tabId}`);
+      subscription.missed.forEach(topic => {
+        const message = this.latest.get(topic);
+        if (message) {
+          this.deliver(tabId, subscription, message);
+        }
+      });
+      subscription.missed.clear();
+    }
+  }
+
+  /**
+   * Send a message to every visible tab subscribed to its type
+   * @returns Number of tabs the message was sent to
+   */
+  broadcast(message: BroadcastMessage): number {
+    this.latest.set(message.type, message);
+
+    let sent = 0;
+    this.subscriptions.forEach((subscription, tabId) => {
+      if (!subscription.topics.has(message.type)) {
+        return;
+      }
+      if (!subscription.visible) {
+        subscription.missed.add(message.type);
+        return;
+      }
+      this.deliver(tabId, subscription, message);
+      sent++;
+    });
+    return sent;
+  }
+
+  /**
+   * Send a message to one tab, to the frame that subscribed unless a frame is given
+   */
+  sendToTab(tabId: number, message: BaseMessage, frameId?: number): void {
+    const options = { frameId: frameId ?? this.subscriptions.get(tabId)?.frameId ?? 0 };
+    chrome.tabs.sendMessage(tabId, message, options).catch(() => {
+      // Ignore errors if the tab was closed or navigated away
+    });
+  }
+
+  remove(tabId: number): void {
+    const unsubscribed = this.subscriptions.delete(tabId);
+    if (this.states.delete(tabId) || unsubscribed) {
+      this.persist();
+    }
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const result = await chrome.storage.session.get(STORAGE_KEY);
+      const stored: StoredRegistry | undefined = result[STORAGE_KEY];
+      stored?.subscriptions.forEach(([tabId, subscription]) => {
+        // A subscription made while restoring is newer than the stored one
+        if (!this.subscriptions.has(tabId)) {
+          this.subscriptions.set(tabId, { ...subscription, topics: new Set(subscription.topics), missed: new Set() });
+        }
+      });
+      stored?.states.forEach(([tabId, state]) => {
+        if (!this.states.has(tabId)) {
+          this.states.set(tabId, state);
+        }
+      });
+      if (stored) {
+        logger.debug(`Restored ${stored.subscriptions.length} tab subscriptions`);
+      }
+    } catch (error) {
+      logger.warn('Failed to restore tab subscriptions:', error);
+    }
+  }
+
+  private persist(): void {
+    const stored: StoredRegistry = {
+      subscriptions: Array.from(this.subscriptions, ([tabId, { frameId, site, topics, visible }]) => [
+        tabId,
+        { frameId, site, topics: Array.from(topics), visible },
+      ]),
+      states: Array.from(this.states),
+    };
+    // Writes are chained so an older snapshot never overwrites a newer one
+    this.persisting = this.persisting
+      .then(() => chrome.storage.session.set({ [STORAGE_KEY]: stored }))
+      .catch(error => logger.warn('Failed to persist tab subscriptions:', error));
+  }
+
+  private deliver(tabId: number, subscription: TabSubscription, message: BroadcastMessage): void {
+    chrome.tabs.sendMessage(tabId, message, { frameId: subscription.frameId }).catch(() => {
+      // The content script is gone, it subscribes again when it loads
+      if (this.subscriptions.get(tabId) === subscription) {
+        this.subscriptions.delete(tabId);
+        this.persist();
+      }
+    });
+  }
+}
@@ -0,0 +1,214 @@
+import { auth, UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('ExtensionOAuthProvider');
+
+const STORAGE_PREFIX = 'mcpOAuth:';
+
+interface StoredOAuthState {
+  clientInformation?: OAuthClientInformationMixed;
+  tokens?: OAuthTokens;
+  codeVerifier?: string;
+}
+
+/**
+ * OAuth 2.1 client provider for a single MCP server, backed by chrome.storage.local.
+ *
+ * The transports call into it when the server answers 401. Instead of opening the
+ * authorization page right away, the URL is kept until the user clicks "Sign in",
+ * see {@link authorizeServer}.
+ */
+export class ExtensionOAuthProvider implements OAuthClientProvider {
+  private readonly storageKey: string;
+  private authorizationUrl: URL | null = null;
+  private expectedState: string | null = null;
+
+  constructor(readonly serverUrl: string) {
+    this.storageKey = STORAGE_PREFIX + getServerKey(serverUrl);
+  }
+
+  get redirectUrl(): string {
+    return chrome.identity.getRedirectURL('oauth');
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'MCP SuperAssistant',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  state(): string {
+    this.expectedState = crypto.randomUUID();
+    return this.expectedState;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformationMixed | undefined> {
+    return (await this.load()).clientInformation;
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationMixed): Promise<void> {
+    await this.save({ clientInformation });
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return (await this.load()).tokens;
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await this.save({ tokens });
+    this.authorizationUrl = null;
+    logger.debug(`Tokens saved for ${this.serverUrl}`);
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    logger.debug(`Authorization required for ${this.serverUrl}`);
+    this.authorizationUrl = authorizationUrl;
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    await this.save({ codeVerifier });
+  }
+
+  async codeVerifier(): Promise<string> {
+    const { codeVerifier } = await this.load();
+    if (!codeVerifier) {
+      throw new Error('No PKCE code verifier saved for this server');
+    }
+    return codeVerifier;
+  }
+
+  async invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): Promise<void> {
+    logger.debug(`Invalidating ${scope} credentials for ${this.serverUrl}`);
+    if (scope === 'all') {
+      await chrome.storage.local.remove(this.storageKey);
+      return;
+    }
+
+    const state = await this.load();
+    if (scope === 'client') delete state.clientInformation;
+    if (scope === 'tokens') delete state.tokens;
+    if (scope === 'verifier') delete state.codeVerifier;
+    await chrome.storage.local.set({ [this.storageKey]: state });
+  }
+
+  /**
+   * Whether the last connection attempt stopped at the authorization step
+   */
+  isAuthorizationPending(): boolean {
+    return this.authorizationUrl !== null;
+  }
+
+  /**
+   * Open the authorization page and wait for the redirect back to the extension.
+   * Returns the authorization code.
+   */
+  async requestAuthorizationCode(): Promise<string> {
+    if (!this.authorizationUrl) {
+      throw new Error('No pending authorization for this server');
+    }
+
+    const responseUrl = await chrome.identity.launchWebAuthFlow({
+      url: this.authorizationUrl.toString(),
+      interactive: true,
+    });
+    if (!responseUrl) {
+      throw new Error('Authorization was cancelled');
+    }
+
+    const params = new URL(responseUrl).searchParams;
+    const error = params.get('error');
+    if (error) {
+      throw new Error(`Authorization failed: ${params.get('error_description') || error}`);
+    }
+    if (this.expectedState && params.get('state') !== this.expectedState) {
+      throw new Error('Authorization failed: state mismatch');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('Authorization failed: no authorization code returned');
+    }
+    return code;
+  }
+
+  private async load(): Promise<StoredOAuthState> {
+    const result = await chrome.storage.local.get(this.storageKey);
+    return result[this.storageKey] || {};
+  }
+
+  private async save(update: Partial<StoredOAuthState>): Promise<void> {
+    const state = await this.load();
+    await chrome.storage.local.set({ [this.storageKey]: { ...state, ...update } });
+  }
+}
+
+const providers = new Map<string, ExtensionOAuthProvider>();
+
+/**
+ * Tokens belong to the server endpoint, ignore query strings and fragments
+ */
+function getServerKey(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  return `${url.origin}${url.pathname}`;
+}
+
+/**
+ * Get the shared OAuth provider for a server URL
+ */
+export function getOAuthProvider(serverUrl: string): ExtensionOAuthProvider {
+  const key = getServerKey(serverUrl);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new ExtensionOAuthProvider(serverUrl);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Whether the server rejected the last connection and is waiting for the user to sign in
+ */
+export function isAuthorizationRequired(serverUrl: string): boolean {
+  try {
+    return providers.get(getServerKey(serverUrl))?.isAuthorizationPending() ?? false;
+  } catch {
+    return false;
+  }
+}
+
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof UnauthorizedError;
+}
+
+/**
+ * Run the interactive OAuth flow for a server: discovery, dynamic client
+ * registration and the PKCE authorization code exchange are handled by the SDK.
+ * The caller is expected to reconnect afterwards.
+ */
+export async function authorizeServer(serverUrl: string): Promise<void> {
+  const provider = getOAuthProvider(serverUrl);
+
+  // Refreshes stored tokens when possible, otherwise prepares a new authorization URL
+  const result = await auth(provider, { serverUrl });
+  if (result === 'AUTHORIZED') {
+    logger.debug(`Already authorized for ${serverUrl}`);
+    return;
+  }
+
+  const authorizationCode = await provider.requestAuthorizationCode();
+  const exchangeResult = await auth(provider, { serverUrl, authorizationCode });
+  if (exchangeResult !== 'AUTHORIZED') {
+    throw new Error('Authorization failed: token exchange did not complete');
+  }
+  logger.debug(`Authorized for ${serverUrl}`);
+}
@@ -32,7 +32,11 @@ export const GLOBAL_DEFAULTS = {
   maxRetries: 3,
   healthCheckInterval: 60000,
   reconnectDelay: 2000,
-  logLevel: 'info' as const
+  maxReconnectDelay: 60000,
+  reconnectJitter: 0.3,
+  maxReconnectAttempts: 10,
+  logLevel: 'info' as const,
+  maxListPages: 50,
 };
 
 export function getDefaultUri(type: 'websocket' | 'sse' | 'streamable-http'): string {
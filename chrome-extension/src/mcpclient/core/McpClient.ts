@@ -1,23 +1,72 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  ElicitRequestFormParams,
+  GetPromptResult,
+  ReadResourceResult,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { jsonSchemaValidator, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/index.js';
 
 import { EventEmitter } from './EventEmitter.js';
 import { PluginRegistry } from './PluginRegistry.js';
 import { SSEPlugin } from '../plugins/sse/SSEPlugin.js';
 import { WebSocketPlugin } from '../plugins/websocket/WebSocketPlugin.js';
 import { StreamableHttpPlugin } from '../plugins/streamable-http/StreamableHttpPlugin.js';
-import type { ClientConfig, ConnectionRequest } from '../types/config.js';
+import type { ClientConfig, ConnectionRequest, Root } from '../types/config.js';
 import { DEFAULT_CLIENT_CONFIG } from '../types/config.js';
-import type { TransportType, ITransportPlugin, PluginConfig } from '../types/plugin.js';
-import type { Primitive, NormalizedTool, PrimitivesResponse } from '../types/primitives.js';
+import type {
+  ConnectionType,
+  TransportSelection,
+  TransportType,
+  ITransportPlugin,
+  PluginConfig,
+  PluginMetadata,
+} from '../types/plugin.js';
+import type {
+  Primitive,
+  NormalizedTool,
+  PrimitiveListKind,
+  PrimitivesResponse,
+  ToolCallOptions,
+} from '../types/primitives.js';
 import type { AllEvents } from '../types/events.js';
+import { isAuthorizationRequired, isUnauthorizedError } from '../auth/ExtensionOAuthProvider.js';
+import {
+  TRANSPORT_LABELS,
+  getRememberedTransport,
+  getTransportCandidates,
+  rememberTransport,
+} from './transportNegotiation.js';
+import type { TransportCandidate } from './transportNegotiation.js';
+import { getSamplingHandler } from '../sampling/samplingHandler.js';
+import { getElicitationHandler } from '../elicitation/elicitationHandler.js';
+import { recordTraffic } from '../inspector/trafficRecorder.js';
+import { listAllPages } from '../plugins/listAllPages.js';
 import { createLogger } from '@extension/shared/lib/logger';
 import { analyticsService } from '../../../utils/analytics-service.js';
 
 
 const logger = createLogger('McpClient');
 
+// Structured tool output is checked where the result is shown, so a mismatch warns
+// instead of failing the call. The SDK's default validator, Ajv, generates code at
+// runtime, which the extension's content security policy does not allow.
+const deferredOutputValidation: jsonSchemaValidator = {
+  getValidator<T>(): JsonSchemaValidator<T> {
+    return input => ({ valid: true, data: input as T, errorMessage: undefined });
+  },
+};
+
 export class McpClient extends EventEmitter<AllEvents> {
   private registry: PluginRegistry;
   private config: ClientConfig;
@@ -29,7 +78,17 @@ export class McpClient extends EventEmitter<AllEvents> {
   private healthCheckTimer: NodeJS.Timeout | null = null;
   private primitivesCache: PrimitivesResponse | null = null;
   private primitivesCacheTime: number = 0;
+  // Resource templates are listed on demand, so their page cap is tracked apart from the cache
+  private resourceTemplatesTruncated = false;
   private readonly CACHE_TTL = 300000; // 5 minutes
+  private pendingListChanges = new Set<PrimitiveListKind>();
+  private listChangedTimer: NodeJS.Timeout | null = null;
+  private readonly LIST_CHANGED_DEBOUNCE = 250; // Servers often send several notifications in a row
+  private roots: Root[] = [];
+  // The connection type asked for, which differs from the plugin's transport for 'auto'
+  private requestedType: ConnectionType | null = null;
+  private transportSelection: TransportSelection | null = null;
+  private readonly PROBE_TIMEOUT = 10000; // A server on another transport usually fails fast
 
   constructor(config: Partial<ClientConfig> = {}) {
     super();
@@ -93,7 +152,7 @@ export class McpClient extends EventEmitter<AllEvents> {
 
   async connect(request: ConnectionRequest): Promise<void> {
     // If same connection type and already connected, skip
-    if (this.isConnectedFlag && this.activePlugin?.metadata.transportType === request.type) {
+    if (this.isConnectedFlag && this.requestedType === request.type) {
       logger.debug(`Already connected via ${request.type}, skipping`);
       return;
     }
@@ -104,11 +163,11 @@ export class McpClient extends EventEmitter<AllEvents> {
       try {
         await this.connectionPromise;
         // Check if the completed connection is what we wanted
-        if (this.isConnectedFlag && this.activePlugin?.metadata.transportType === request.type) {
+        if (this.isConnectedFlag && this.requestedType === request.type) {
           logger.debug('[McpClient] Existing connection matches request');
           return;
         }
-      } catch (error) {
+      } catch {
         logger.debug('[McpClient] Previous connection failed, starting new one');
         // Clear the failed promise to allow new connection
         this.connectionPromise = null;
@@ -116,12 +175,12 @@ export class McpClient extends EventEmitter<AllEvents> {
     }
 
     // Disconnect from current connection if switching types
-    if (this.isConnectedFlag && this.activePlugin?.metadata.transportType !== request.type) {
-      logger.debug(`Switching from ${this.activePlugin?.metadata.transportType} to ${request.type}`);
+    if (this.isConnectedFlag && this.requestedType !== request.type) {
+      logger.debug(`Switching from ${this.requestedType} to ${request.type}`);
       await this.disconnect();
     }
 
-    this.connectionPromise = this.performConnection(request);
+    this.connectionPromise = this.negotiateConnection(request);
 
     try {
       await this.connectionPromise;
@@ -130,8 +189,67 @@ export class McpClient extends EventEmitter<AllEvents> {
     }
   }
 
-  private async performConnection(request: ConnectionRequest): Promise<void> {
+  /**
+   * Try the candidate transports for the request in order and keep the first that connects.
+   * Only the last failure is reported as a connection error, earlier ones are probes.
+   */
+  private async negotiateConnection(request: ConnectionRequest): Promise<void> {
+    const { uri, type, config: pluginConfig } = request;
+    const fallbackToSSE = !!{ ...this.config.plugins['streamable-http'], ...pluginConfig }.fallbackToSSE;
+    const candidates = getTransportCandidates(uri, type, fallbackToSSE);
+
+    const remembered = type === 'auto' ? await getRememberedTransport(uri) : null;
+    if (remembered) {
+      candidates.sort((a, b) => Number(isSameCandidate(b, remembered)) - Number(isSameCandidate(a, remembered)));
+    }
+
+    const failures: string[] = [];
+    for (const [index, candidate] of candidates.entries()) {
+      const isLast = index === candidates.length - 1;
+      try {
+        await this.performConnection(
+          { uri: candidate.uri, type: candidate.type, config: pluginConfig },
+          isLast ? undefined : this.PROBE_TIMEOUT,
+        );
+      } catch (error) {
+        // Signing in is needed whichever transport is used
+        if (isLast || isAuthorizationRequired(candidate.uri)) {
+          throw failures.length > 0 ? new Error(`${failures.join('; ')}; ${describeFailure(candidate, error)}`) : error;
+        }
+        failures.push(describeFailure(candidate, error));
+        continue;
+      }
+
+      this.requestedType = type;
+      this.transportSelection = {
+        ...candidate,
+        reason: describeSelection(candidate, type, failures, !!remembered && isSameCandidate(candidate, remembered)),
+      };
+      logger.debug(`Transport selected: ${this.transportSelection.reason}`);
+
+      if (type === 'auto') {
+        await rememberTransport(uri, candidate);
+      }
+      this.emit('connection:status-changed', {
+        isConnected: true,
+        type: candidate.type,
+        error: undefined,
+        transport: this.transportSelection,
+      });
+      return;
+    }
+  }
+
+  /**
+   * Connect over a single transport. With a probe timeout a failure is not
+   * reported, the caller moves on to the next candidate.
+   */
+  private async performConnection(
+    request: TransportCandidate & { config?: PluginConfig },
+    probeTimeout?: number,
+  ): Promise<void> {
     const { uri, type, config: pluginConfig } = request;
+    const isProbe = probeTimeout !== undefined;
 
     try {
       logger.debug(`Connecting to ${uri} via ${type}`);
@@ -156,11 +274,11 @@ export class McpClient extends EventEmitter<AllEvents> {
       }
 
       // Get transport from plugin (plugin creates but doesn't connect)
-      const transport = await plugin.connect(uri);
+      const transport = recordTraffic(await plugin.connect(uri), { uri, type });
 
       // Set up disconnection callback for WebSocket plugin
-      if (type === 'websocket' && 'setDisconnectionCallback' in plugin) {
-        (plugin as any).setDisconnectionCallback((reason: string, code?: number, details?: string) => {
+      if (plugin instanceof WebSocketPlugin) {
+        plugin.setDisconnectionCallback((reason: string, code?: number, details?: string) => {
           logger.debug(`WebSocket disconnection detected: ${reason} (code: ${code})`);
           
           // Mark as disconnected immediately
@@ -181,24 +299,56 @@ export class McpClient extends EventEmitter<AllEvents> {
       }
 
       // Create MCP client
+      const samplingHandler = getSamplingHandler();
+      const elicitationHandler = getElicitationHandler();
       this.client = new Client(
         {
           name: `mcp-client-${type}`,
           version: '1.0.0',
         },
-        { capabilities: {} },
+        {
+          capabilities: {
+            // Always advertised so roots can be added later without reconnecting
+            roots: { listChanged: true },
+            ...(samplingHandler ? { sampling: {} } : {}),
+            ...(elicitationHandler ? { elicitation: { form: {} } } : {}),
+          },
+          jsonSchemaValidator: deferredOutputValidation,
+        },
       );
 
+      if (samplingHandler) {
+        this.client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+          samplingHandler(request.params, { serverUri: uri, signal: extra.signal }),
+        );
+      }
+
+      this.client.setRequestHandler(ListRootsRequestSchema, () => ({ roots: this.roots }));
+
+      // The SDK already rejects URL mode requests since only form mode is advertised
+      if (elicitationHandler) {
+        this.client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+          elicitationHandler(request.params as ElicitRequestFormParams, { serverUri: uri, signal: extra.signal }),
+        );
+      }
+
       // Set up logging notification handler
       this.client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
         logger.debug(`Server log:`, notification.params.data);
       });
 
+      // Refetch primitives when the server announces that a list changed
+      this.client.setNotificationHandler(ToolListChangedNotificationSchema, () => this.handleListChanged('tools'));
+      this.client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+        this.handleListChanged('resources'),
+      );
+      this.client.setNotificationHandler(PromptListChangedNotificationSchema, () => this.handleListChanged('prompts'));
+
       // Connect client to transport (this will start the transport)
       logger.debug(`Starting MCP client connection to transport...`);
 
       // Add timeout to prevent hanging
-      const connectionTimeout = 30000; // 30 seconds
+      const connectionTimeout = probeTimeout ?? this.config.global.timeout;
       const connectionPromise = this.client.connect(transport);
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => {
@@ -220,13 +370,9 @@ export class McpClient extends EventEmitter<AllEvents> {
       // Start health monitoring
       this.startHealthMonitoring();
 
+      // connection:status-changed follows once negotiateConnection has recorded the selection
       logger.debug(`Successfully connected via ${type}`);
       this.emit('client:connected', { uri, type });
-      this.emit('connection:status-changed', {
-        isConnected: true,
-        type,
-        error: undefined,
-      });
 
       // Track successful connection
       analyticsService.trackConnectionChange({
@@ -236,13 +382,22 @@ export class McpClient extends EventEmitter<AllEvents> {
       }).catch((error: unknown) => {
         logger.warn('[McpClient] Analytics tracking failed:', error);
       });
-    } catch (error) {
+    } catch (caughtError) {
+      // A 401 stops at the authorization step until the user signs in, see authorizeServer()
+      const error = isUnauthorizedError(caughtError)
+        ? new Error(`Authorization required for ${uri}: sign in to connect`)
+        : caughtError;
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Connection failed:`, error);
 
       // Clean up partial connection state
       await this.cleanup();
 
+      if (isProbe) {
+        logger.debug(`Probe of ${type} at ${uri} failed: ${errorMessage}`);
+        throw error;
+      }
+
       this.emit('client:error', {
         error: error instanceof Error ? error : new Error(errorMessage),
         context: 'connection',
@@ -303,6 +458,13 @@ export class McpClient extends EventEmitter<AllEvents> {
     // Stop health monitoring
     this.stopHealthMonitoring();
 
+    // Drop list changes that arrived for the old connection
+    if (this.listChangedTimer) {
+      clearTimeout(this.listChangedTimer);
+      this.listChangedTimer = null;
+    }
+    this.pendingListChanges.clear();
+
     // Close client connection
     if (this.client) {
       try {
@@ -325,10 +487,24 @@ export class McpClient extends EventEmitter<AllEvents> {
 
     this.activeTransport = null;
     this.isConnectedFlag = false;
+    this.requestedType = null;
+    this.transportSelection = null;
     this.clearPrimitivesCache();
   }
 
-  async callTool(toolName: string, args: Record<string, any>, adapterName?: string): Promise<any> {
+  /**
+   * The transport the current connection uses and why it was chosen
+   */
+  getTransportSelection(): TransportSelection | null {
+    return this.transportSelection;
+  }
+
+  async callTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    adapterName?: string,
+    options?: ToolCallOptions,
+  ): Promise<unknown> {
     if (!this.isConnectedFlag || !this.activePlugin || !this.client) {
       throw new Error('Not connected to any MCP server');
     }
@@ -338,7 +514,7 @@ export class McpClient extends EventEmitter<AllEvents> {
 
     try {
       logger.debug(`Calling tool: ${toolName}`);
-      const result = await this.activePlugin.callTool(this.client, toolName, args);
+      const result = await this.activePlugin.callTool(this.client, toolName, args, options);
 
       const duration = Date.now() - startTime;
       this.emit('tool:call-completed', { toolName, result, duration });
@@ -402,7 +578,9 @@ export class McpClient extends EventEmitter<AllEvents> {
 
     try {
       logger.debug('[McpClient] Fetching primitives from server...');
-      const primitives = await this.activePlugin.getPrimitives(this.client);
+      const { primitives, truncated } = await this.activePlugin.getPrimitives(this.client, {
+        maxPages: this.config.global.maxListPages,
+      });
 
       // Normalize tools
       const tools = this.normalizeTools(primitives.filter(p => p.type === 'tool'));
@@ -413,6 +591,7 @@ export class McpClient extends EventEmitter<AllEvents> {
         tools,
         resources,
         prompts,
+        truncated,
         timestamp: Date.now(),
       };
 
@@ -458,6 +637,73 @@ export class McpClient extends EventEmitter<AllEvents> {
     }
   }
 
+  /**
+   * Lists from the last fetch that were cut off at the page cap
+   */
+  getTruncatedLists(): PrimitiveListKind[] {
+    const truncated = this.primitivesCache?.truncated ?? [];
+    // Templates are shown with the resources
+    return this.resourceTemplatesTruncated && !truncated.includes('resources')
+      ? [...truncated, 'resources']
+      : truncated;
+  }
+
+  /**
+   * Resource templates are not part of getPrimitives, list them on demand
+   */
+  async getResourceTemplates(): Promise<ResourceTemplate[]> {
+    if (!this.isConnectedFlag || !this.client) {
+      throw new Error('Not connected to any MCP server');
+    }
+
+    if (!this.client.getServerCapabilities()?.resources) {
+      return [];
+    }
+
+    const { items: templates, truncated } = await listAllPages(
+      this.client,
+      'resourceTemplates',
+      this.config.global.maxListPages,
+    );
+    this.resourceTemplatesTruncated = truncated;
+
+    logger.debug(`Retrieved ${templates.length} resource templates`);
+    return templates as ResourceTemplate[];
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    if (!this.isConnectedFlag || !this.client) {
+      throw new Error('Not connected to any MCP server');
+    }
+
+    logger.debug(`Reading resource: ${uri}`);
+    return await this.client.readResource({ uri });
+  }
+
+  /**
+   * Replace the roots offered to the server, a connected server is told to list them again
+   */
+  async setRoots(roots: Root[]): Promise<void> {
+    this.roots = roots;
+
+    if (this.isConnectedFlag && this.client) {
+      logger.debug(`Roots changed, ${roots.length} roots`);
+      // The new list is already in place, the server just reads it on its next roots/list
+      await this.client.sendRootsListChanged().catch(error => {
+        logger.warn('Failed to send roots list_changed notification:', error);
+      });
+    }
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    if (!this.isConnectedFlag || !this.client) {
+      throw new Error('Not connected to any MCP server');
+    }
+
+    logger.debug(`Getting prompt: ${name}`);
+    return await this.client.getPrompt({ name, arguments: args });
+  }
+
   private normalizeTools(toolPrimitives: Primitive[]): NormalizedTool[] {
     return toolPrimitives.map(p => {
       const tool = p.value;
@@ -472,13 +718,40 @@ export class McpClient extends EventEmitter<AllEvents> {
             : '{}',
         ...(tool.uri && { uri: tool.uri }),
         ...(tool.arguments && { arguments: tool.arguments }),
+        ...(tool.outputSchema && { output_schema: tool.outputSchema }),
+        ...(tool.annotations && { annotations: tool.annotations }),
       };
     });
   }
 
+  private handleListChanged(kind: PrimitiveListKind): void {
+    logger.debug(`Server reported ${kind} list changed`);
+    this.clearPrimitivesCache();
+    this.pendingListChanges.add(kind);
+
+    if (this.listChangedTimer) {
+      clearTimeout(this.listChangedTimer);
+    }
+
+    this.listChangedTimer = setTimeout(() => {
+      this.listChangedTimer = null;
+      const kinds = Array.from(this.pendingListChanges);
+      this.pendingListChanges.clear();
+
+      this.getPrimitives(true)
+        .then(primitives => {
+          this.emit('primitives:list-changed', { kinds, primitives });
+        })
+        .catch(error => {
+          logger.warn(`[McpClient] Failed to refetch primitives after ${kinds.join(', ')} list changed:`, error);
+        });
+    }, this.LIST_CHANGED_DEBOUNCE);
+  }
+
   private clearPrimitivesCache(): void {
     this.primitivesCache = null;
     this.primitivesCacheTime = 0;
+    this.resourceTemplatesTruncated = false;
   }
 
   private isCacheValid(): boolean {
@@ -506,7 +779,7 @@ export class McpClient extends EventEmitter<AllEvents> {
     isConnected: boolean;
     type: TransportType | null;
     uri: string | null;
-    pluginInfo: any;
+    pluginInfo: PluginMetadata | null;
   } {
     return {
       isConnected: this.isConnectedFlag,
@@ -598,3 +871,33 @@ export class McpClient extends EventEmitter<AllEvents> {
     logger.debug('[McpClient] Configuration updated');
   }
 }
+
+function isSameCandidate(a: TransportCandidate, b: TransportCandidate): boolean {
+  return a.type === b.type && a.uri === b.uri;
+}
+
+function describeFailure(candidate: TransportCandidate, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return `${TRANSPORT_LABELS[candidate.type]} at ${candidate.uri} failed: ${message}`;
+}
+
+function describeSelection(
+  candidate: TransportCandidate,
+  requested: ConnectionType,
+  failures: string[],
+  wasRemembered: boolean,
+): string {
+  const label = TRANSPORT_LABELS[candidate.type];
+  if (requested !== 'auto' && failures.length === 0) {
+    return `${label} as configured`;
+  }
+  if (failures.length > 0) {
+    return `Using ${label} at ${candidate.uri} after ${failures.join('; ')}`;
+  }
+  if (wasRemembered) {
+    return `Using ${label} at ${candidate.uri}, which worked last time`;
+  }
+  return candidate.type === 'websocket'
+    ? `Using ${label} for a ${new URL(candidate.uri).protocol} URL`
+    : `Using ${label} at ${candidate.uri}, the server accepted it first`;
+}
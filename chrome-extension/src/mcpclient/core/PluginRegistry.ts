@@ -56,8 +56,9 @@ export class PluginRegistry extends EventEmitter<RegistryEvents> {
       throw new Error(`Plugin for transport '${type}' not found`);
     }
 
-    // Initialize plugin if not already initialized
-    if (!this.initialized.has(type)) {
+    // Initialize plugin if not already initialized, or re-initialize when a connection
+    // brings its own config (e.g. per-server headers)
+    if (!this.initialized.has(type) || config) {
       const pluginConfig = config || plugin.getDefaultConfig();
       await plugin.initialize(pluginConfig);
       this.initialized.add(type);
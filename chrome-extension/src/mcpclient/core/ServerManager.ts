@@ -0,0 +1,433 @@
+import type {
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { EventEmitter } from './EventEmitter.js';
+import { McpClient } from './McpClient.js';
+import { authorizeServer, isAuthorizationRequired } from '../auth/ExtensionOAuthProvider.js';
+import type { ClientConfig, Root, ServerDefinition } from '../types/config.js';
+import type { ServerConnectionStatus, ServerEvents } from '../types/events.js';
+import type { NormalizedTool, PrimitiveListKind, ToolCallOptions } from '../types/primitives.js';
+import type { TransportSelection } from '../types/plugin.js';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('ServerManager');
+
+export const TOOL_NAMESPACE_SEPARATOR = '.';
+
+// Header values stay in the background, status reports only name the headers
+export interface ServerStatusInfo extends Omit<ServerDefinition, 'headers'> {
+  headerNames: string[];
+  status: ServerConnectionStatus;
+  error?: string;
+  toolCount: number;
+  // The server answered 401 and waits for the user to sign in
+  authRequired: boolean;
+  // Lists cut off at the page cap
+  truncated: PrimitiveListKind[];
+  // How the transport was chosen while connected
+  transport?: TransportSelection;
+}
+
+// Resources and prompts of additional servers, tagged with the server that serves them
+export type WithServerId<T> = T & { serverId: string };
+
+interface ManagedServer {
+  definition: ServerDefinition;
+  client: McpClient;
+  initialized: boolean;
+  status: ServerConnectionStatus;
+  error?: string;
+  tools: NormalizedTool[];
+}
+
+/**
+ * Keeps one McpClient per additional server so each has its own transport,
+ * health monitoring and primitives cache. Tools are namespaced with the
+ * server id so calls can be routed back to the server that owns them.
+ */
+export class ServerManager extends EventEmitter<ServerEvents> {
+  private servers = new Map<string, ManagedServer>();
+  // Kept apart from the servers so roots survive a server being re-created
+  private roots = new Map<string, Root[]>();
+  private clientConfig: Partial<ClientConfig>;
+  // Updates run one after another so quick edits connect and disconnect in order
+  private pendingUpdate: Promise<void> = Promise.resolve();
+
+  constructor(clientConfig: Partial<ClientConfig> = {}) {
+    super();
+    this.clientConfig = clientConfig;
+  }
+
+  /**
+   * Replace the set of managed servers. Servers whose definition is unchanged
+   * keep their live connection; removed or edited ones are disconnected.
+   */
+  setServers(definitions: ServerDefinition[]): Promise<void> {
+    const update = this.pendingUpdate.then(() => this.applyServers(definitions));
+    this.pendingUpdate = update.catch(() => {});
+    return update;
+  }
+
+  private async applyServers(definitions: ServerDefinition[]): Promise<void> {
+    const next = new Map(definitions.map(definition => [definition.id, definition]));
+
+    for (const [id, server] of this.servers) {
+      const definition = next.get(id);
+      if (!definition || !isSameConnection(server.definition, definition)) {
+        await this.removeServer(id);
+      } else {
+        server.definition = definition;
+        if (!definition.enabled && server.status !== 'disconnected') {
+          await this.disconnectServer(id);
+        }
+      }
+    }
+
+    for (const definition of definitions) {
+      if (!this.servers.has(definition.id)) {
+        this.servers.set(definition.id, this.createServer(definition));
+      }
+    }
+
+    await Promise.all(
+      definitions
+        .filter(definition => definition.enabled && this.servers.get(definition.id)?.status !== 'connected')
+        .map(definition => this.connectServer(definition.id).catch(() => {})),
+    );
+  }
+
+  async connectServer(id: string): Promise<void> {
+    const server = this.getServer(id);
+    const { uri, connectionType, headers } = server.definition;
+
+    this.setStatus(server, 'connecting');
+
+    try {
+      if (!server.initialized) {
+        await server.client.initialize();
+        server.initialized = true;
+      }
+      if (server.client.isConnected()) {
+        await server.client.disconnect();
+      }
+      await server.client.connect({ uri, type: connectionType, config: { headers: headers || {} } });
+      this.setStatus(server, 'connected');
+      await this.refreshTools(id, true);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to connect to server '${id}' at ${uri}: ${errorMessage}`);
+      server.tools = [];
+      this.setStatus(server, 'error', errorMessage);
+      throw error;
+    }
+  }
+
+  async disconnectServer(id: string): Promise<void> {
+    const server = this.getServer(id);
+
+    try {
+      await server.client.disconnect();
+    } catch (error) {
+      logger.warn(`Error disconnecting server '${id}':`, error);
+    }
+
+    server.tools = [];
+    this.setStatus(server, 'disconnected');
+    this.emit('server:tools-updated', { serverId: id, tools: [] });
+  }
+
+  /**
+   * Run the OAuth flow for a server that requires sign in, then connect to it.
+   */
+  async signIn(id: string): Promise<void> {
+    const server = this.getServer(id);
+    await authorizeServer(server.definition.uri);
+    await this.connectServer(id);
+  }
+
+  /**
+   * Reconnect every enabled server that is not currently connected.
+   */
+  async reconnectDisconnected(): Promise<void> {
+    // Servers waiting for sign in would only fail again
+    const pending = Array.from(this.servers.values()).filter(
+      server =>
+        server.definition.enabled &&
+        server.status !== 'connected' &&
+        server.status !== 'connecting' &&
+        !isAuthorizationRequired(server.definition.uri),
+    );
+
+    await Promise.all(pending.map(server => this.connectServer(server.definition.id).catch(() => {})));
+  }
+
+  async refreshTools(id: string, forceRefresh = false): Promise<NormalizedTool[]> {
+    const server = this.getServer(id);
+    const response = await server.client.getPrimitives(forceRefresh);
+
+    this.setTools(server, response.tools);
+    return server.tools;
+  }
+
+  /**
+   * Namespaced tools from every connected server.
+   */
+  async getTools(forceRefresh = false): Promise<NormalizedTool[]> {
+    const connected = Array.from(this.servers.values()).filter(server => server.status === 'connected');
+
+    await Promise.all(
+      connected.map(server =>
+        this.refreshTools(server.definition.id, forceRefresh).catch(error => {
+          logger.warn(`Failed to list tools for server '${server.definition.id}':`, error);
+        }),
+      ),
+    );
+
+    return this.getCachedTools();
+  }
+
+  getCachedTools(): NormalizedTool[] {
+    return Array.from(this.servers.values()).flatMap(server => (server.status === 'connected' ? server.tools : []));
+  }
+
+  /**
+   * Split a namespaced tool name into the owning server and the server-local
+   * tool name. Returns null when the prefix is not a managed server, or when
+   * the name belongs to a primary server tool that happens to share the prefix.
+   */
+  resolveTool(toolName: string, primaryToolNames: string[] = []): { serverId: string; toolName: string } | null {
+    if (primaryToolNames.includes(toolName)) {
+      return null;
+    }
+
+    const separatorIndex = toolName.indexOf(TOOL_NAMESPACE_SEPARATOR);
+    if (separatorIndex <= 0) {
+      return null;
+    }
+
+    const serverId = toolName.substring(0, separatorIndex);
+    if (!this.servers.has(serverId)) {
+      return null;
+    }
+
+    return { serverId, toolName: toolName.substring(separatorIndex + 1) };
+  }
+
+  async callTool(
+    id: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    adapterName?: string,
+    options?: ToolCallOptions,
+  ): Promise<unknown> {
+    const server = this.getServer(id);
+
+    if (server.status !== 'connected') {
+      throw new Error(`Server '${server.definition.name}' is not connected`);
+    }
+
+    try {
+      return await server.client.callTool(toolName, args, adapterName, options);
+    } finally {
+      if (!server.client.isConnected()) {
+        this.setStatus(server, 'error', 'Connection lost during tool call');
+      }
+    }
+  }
+
+  /**
+   * Resources and resource templates from every connected server, tagged with
+   * the id of the server that serves them.
+   */
+  async getResources(
+    forceRefresh = false,
+  ): Promise<{ resources: WithServerId<Resource>[]; resourceTemplates: WithServerId<ResourceTemplate>[] }> {
+    const connected = Array.from(this.servers.values()).filter(server => server.status === 'connected');
+
+    const results = await Promise.all(
+      connected.map(async server => {
+        const serverId = server.definition.id;
+        try {
+          const [primitives, templates] = await Promise.all([
+            server.client.getPrimitives(forceRefresh),
+            server.client.getResourceTemplates(),
+          ]);
+          return {
+            resources: primitives.resources.map(resource => ({ ...resource, serverId })),
+            resourceTemplates: templates.map(template => ({ ...template, serverId })),
+          };
+        } catch (error) {
+          logger.warn(`Failed to list resources for server '${serverId}':`, error);
+          return { resources: [], resourceTemplates: [] };
+        }
+      }),
+    );
+
+    return {
+      resources: results.flatMap(result => result.resources),
+      resourceTemplates: results.flatMap(result => result.resourceTemplates),
+    };
+  }
+
+  async readResource(id: string, uri: string): Promise<ReadResourceResult> {
+    const server = this.getServer(id);
+
+    if (server.status !== 'connected') {
+      throw new Error(`Server '${server.definition.name}' is not connected`);
+    }
+
+    return await server.client.readResource(uri);
+  }
+
+  /**
+   * Prompts from every connected server, tagged with the id of the server that serves them.
+   */
+  async getPrompts(forceRefresh = false): Promise<WithServerId<Prompt>[]> {
+    const connected = Array.from(this.servers.values()).filter(server => server.status === 'connected');
+
+    const results = await Promise.all(
+      connected.map(async server => {
+        const serverId = server.definition.id;
+        try {
+          const primitives = await server.client.getPrimitives(forceRefresh);
+          return primitives.prompts.map(prompt => ({ ...prompt, serverId }));
+        } catch (error) {
+          logger.warn(`Failed to list prompts for server '${serverId}':`, error);
+          return [];
+        }
+      }),
+    );
+
+    return results.flat();
+  }
+
+  async getPrompt(id: string, name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    const server = this.getServer(id);
+
+    if (server.status !== 'connected') {
+      throw new Error(`Server '${server.definition.name}' is not connected`);
+    }
+
+    return await server.client.getPrompt(name, args);
+  }
+
+  async setRoots(id: string, roots: Root[]): Promise<void> {
+    this.roots.set(id, roots);
+
+    const server = this.servers.get(id);
+    if (server) {
+      await server.client.setRoots(roots);
+    }
+  }
+
+  getStatuses(): ServerStatusInfo[] {
+    return Array.from(this.servers.values()).map(server => {
+      const { headers, ...definition } = server.definition;
+      return {
+        ...definition,
+        headerNames: Object.keys(headers || {}),
+        status: server.status,
+        error: server.error,
+        toolCount: server.tools.length,
+        authRequired: server.status !== 'connected' && isAuthorizationRequired(server.definition.uri),
+        truncated: server.status === 'connected' ? server.client.getTruncatedLists() : [],
+        transport: (server.status === 'connected' && server.client.getTransportSelection()) || undefined,
+      };
+    });
+  }
+
+  async disconnectAll(): Promise<void> {
+    await Promise.all(Array.from(this.servers.keys()).map(id => this.disconnectServer(id)));
+  }
+
+  private async removeServer(id: string): Promise<void> {
+    const server = this.servers.get(id);
+    if (!server) {
+      return;
+    }
+
+    await this.disconnectServer(id);
+    server.client.removeAllListeners();
+    this.servers.delete(id);
+  }
+
+  private createServer(definition: ServerDefinition): ManagedServer {
+    const server: ManagedServer = {
+      definition,
+      client: new McpClient(this.clientConfig),
+      initialized: false,
+      status: 'disconnected',
+      tools: [],
+    };
+    server.client.setRoots(this.roots.get(definition.id) ?? []);
+
+    // Health monitoring inside the client reports lost connections here
+    server.client.on('connection:status-changed', event => {
+      if (!event.isConnected && server.status === 'connected') {
+        server.tools = [];
+        this.setStatus(server, 'error', event.error || 'Connection lost');
+        this.emit('server:tools-updated', { serverId: definition.id, tools: [] });
+      }
+    });
+
+    // The client already refetched after a list_changed notification
+    server.client.on('primitives:list-changed', ({ kinds, primitives }) => {
+      if (server.status !== 'connected') {
+        return;
+      }
+      if (kinds.includes('tools')) {
+        this.setTools(server, primitives.tools);
+      }
+      if (kinds.includes('resources')) {
+        this.emit('server:resources-changed', { serverId: server.definition.id });
+      }
+      if (kinds.includes('prompts')) {
+        this.emit('server:prompts-changed', { serverId: server.definition.id });
+      }
+    });
+
+    return server;
+  }
+
+  private setTools(server: ManagedServer, tools: NormalizedTool[]): void {
+    const { id } = server.definition;
+    server.tools = tools.map(tool => ({
+      ...tool,
+      name: `${id}${TOOL_NAMESPACE_SEPARATOR}${tool.name}`,
+      serverId: id,
+    }));
+
+    this.emit('server:tools-updated', { serverId: id, tools: server.tools });
+  }
+
+  private getServer(id: string): ManagedServer {
+    const server = this.servers.get(id);
+    if (!server) {
+      throw new Error(`Unknown MCP server: ${id}`);
+    }
+    return server;
+  }
+
+  private setStatus(server: ManagedServer, status: ServerConnectionStatus, error?: string): void {
+    if (server.status === status && server.error === error) {
+      return;
+    }
+
+    server.status = status;
+    server.error = error;
+
+    this.emit('server:status-changed', { serverId: server.definition.id, status, error });
+  }
+}
+
+function isSameConnection(a: ServerDefinition, b: ServerDefinition): boolean {
+  return (
+    a.uri === b.uri &&
+    a.connectionType === b.connectionType &&
+    JSON.stringify(a.headers || {}) === JSON.stringify(b.headers || {})
+  );
+}
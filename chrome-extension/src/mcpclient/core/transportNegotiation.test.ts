@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRememberedTransport, getTransportCandidates, rememberTransport } from './transportNegotiation.js';
+
+describe('getTransportCandidates', () => {
+  it('uses an explicit transport as given', () => {
+    expect(getTransportCandidates('http://localhost:3006/sse', 'sse')).toEqual([
+      { type: 'sse', uri: 'http://localhost:3006/sse' },
+    ]);
+    expect(getTransportCandidates('http://localhost:3006/mcp', 'streamable-http')).toEqual([
+      { type: 'streamable-http', uri: 'http://localhost:3006/mcp' },
+    ]);
+  });
+
+  it('falls back from Streamable HTTP to SSE on the same URL when allowed', () => {
+    expect(getTransportCandidates('http://localhost:3006/mcp', 'streamable-http', true)).toEqual([
+      { type: 'streamable-http', uri: 'http://localhost:3006/mcp' },
+      { type: 'sse', uri: 'http://localhost:3006/mcp' },
+    ]);
+  });
+
+  it('tries Streamable HTTP before SSE for an auto URL with a path', () => {
+    expect(getTransportCandidates('https://example.com/server', 'auto')).toEqual([
+      { type: 'streamable-http', uri: 'https://example.com/server' },
+      { type: 'sse', uri: 'https://example.com/server' },
+    ]);
+  });
+
+  it('also tries the conventional paths for a bare origin', () => {
+    expect(getTransportCandidates('http://localhost:3006', 'auto')).toEqual([
+      { type: 'streamable-http', uri: 'http://localhost:3006' },
+      { type: 'streamable-http', uri: 'http://localhost:3006/mcp' },
+      { type: 'sse', uri: 'http://localhost:3006' },
+      { type: 'sse', uri: 'http://localhost:3006/sse' },
+    ]);
+  });
+
+  it('only tries WebSocket for ws URLs', () => {
+    expect(getTransportCandidates('wss://example.com/ws', 'auto')).toEqual([
+      { type: 'websocket', uri: 'wss://example.com/ws' },
+    ]);
+  });
+
+  it('rejects an invalid auto URL', () => {
+    expect(() => getTransportCandidates('not a url', 'auto')).toThrow('Invalid server URL: not a url');
+  });
+});
+
+describe('remembered transports', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: async (key: string) => (key in stored ? { [key]: stored[key] } : {}),
+          set: async (items: Record<string, unknown>) => Object.assign(stored, items),
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns null for a URL that never connected', async () => {
+    expect(await getRememberedTransport('http://localhost:3006')).toBeNull();
+  });
+
+  it('remembers the endpoint that worked per URL', async () => {
+    await rememberTransport('http://localhost:3006', { type: 'sse', uri: 'http://localhost:3006/sse' });
+    await rememberTransport('https://example.com', { type: 'streamable-http', uri: 'https://example.com/mcp' });
+
+    expect(await getRememberedTransport('http://localhost:3006')).toEqual({
+      type: 'sse',
+      uri: 'http://localhost:3006/sse',
+    });
+    expect(await getRememberedTransport('https://example.com')).toEqual({
+      type: 'streamable-http',
+      uri: 'https://example.com/mcp',
+    });
+  });
+
+  it('returns null when storage cannot be read', async () => {
+    vi.stubGlobal('chrome', { storage: { local: { get: () => Promise.reject(new Error('unavailable')) } } });
+
+    expect(await getRememberedTransport('http://localhost:3006')).toBeNull();
+  });
+});
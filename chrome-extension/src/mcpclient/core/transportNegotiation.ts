@@ -0,0 +1,76 @@
+import type { ConnectionType, TransportType } from '../types/plugin.js';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('transportNegotiation');
+
+const STORAGE_KEY = 'mcpNegotiatedTransports';
+
+export interface TransportCandidate {
+  type: TransportType;
+  uri: string;
+}
+
+export const TRANSPORT_LABELS: Record<TransportType, string> = {
+  'streamable-http': 'Streamable HTTP',
+  sse: 'SSE',
+  websocket: 'WebSocket',
+};
+
+/**
+ * Endpoints to try for a connection, in order. Explicit transports are tried
+ * as given, Streamable HTTP falls back to SSE on the same URL when allowed.
+ * For 'auto' a bare origin also tries the conventional /mcp and /sse paths.
+ */
+export function getTransportCandidates(uri: string, type: ConnectionType, fallbackToSSE = false): TransportCandidate[] {
+  if (type !== 'auto') {
+    return type === 'streamable-http' && fallbackToSSE
+      ? [
+          { type, uri },
+          { type: 'sse', uri },
+        ]
+      : [{ type, uri }];
+  }
+
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid server URL: ${uri}`);
+  }
+
+  if (url.protocol === 'ws:' || url.protocol === 'wss:') {
+    return [{ type: 'websocket', uri }];
+  }
+
+  const candidates: TransportCandidate[] = [
+    { type: 'streamable-http', uri },
+    { type: 'sse', uri },
+  ];
+  if (url.pathname === '/' || url.pathname === '') {
+    candidates.splice(1, 0, { type: 'streamable-http', uri: new URL('/mcp', url).toString() });
+    candidates.push({ type: 'sse', uri: new URL('/sse', url).toString() });
+  }
+  return candidates;
+}
+
+/**
+ * The endpoint that last worked for a URL connected with 'auto'
+ */
+export async function getRememberedTransport(uri: string): Promise<TransportCandidate | null> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return result[STORAGE_KEY]?.[uri] ?? null;
+  } catch (error) {
+    logger.warn('Failed to read remembered transports:', error);
+    return null;
+  }
+}
+
+export async function rememberTransport(uri: string, candidate: TransportCandidate): Promise<void> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    await chrome.storage.local.set({ [STORAGE_KEY]: { ...result[STORAGE_KEY], [uri]: candidate } });
+  } catch (error) {
+    logger.warn('Failed to remember transport:', error);
+  }
+}
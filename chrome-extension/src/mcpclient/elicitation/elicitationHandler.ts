@@ -0,0 +1,27 @@
+import type { ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ElicitationContext {
+  // URI of the server that sent the request
+  serverUri: string;
+  // Aborted when the server cancels the request or the connection closes
+  signal: AbortSignal;
+}
+
+export type ElicitationHandler = (
+  params: ElicitRequestFormParams,
+  context: ElicitationContext,
+) => Promise<ElicitResult>;
+
+let elicitationHandler: ElicitationHandler | null = null;
+
+/**
+ * Register the handler that answers form mode elicitation/create requests. Clients only
+ * advertise the elicitation capability when a handler is set before they connect.
+ */
+export function setElicitationHandler(handler: ElicitationHandler | null): void {
+  elicitationHandler = handler;
+}
+
+export function getElicitationHandler(): ElicitationHandler | null {
+  return elicitationHandler;
+}
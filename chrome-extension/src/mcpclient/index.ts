@@ -2,6 +2,17 @@
 import { McpClient } from './core/McpClient.js';
 import { PluginRegistry } from './core/PluginRegistry.js';
 import { EventEmitter } from './core/EventEmitter.js';
+import { ServerManager, TOOL_NAMESPACE_SEPARATOR } from './core/ServerManager.js';
+import { authorizeServer, isAuthorizationRequired } from './auth/ExtensionOAuthProvider.js';
+import { setSamplingHandler } from './sampling/samplingHandler.js';
+import { setElicitationHandler } from './elicitation/elicitationHandler.js';
+import {
+  noteToolCallTab,
+  setTrafficRecording,
+  isTrafficRecording,
+  getTrafficEntries,
+  clearTraffic,
+} from './inspector/trafficRecorder.js';
 
 // Plugin implementations
 import { SSEPlugin } from './plugins/sse/SSEPlugin.js';
@@ -10,13 +21,40 @@ import { WebSocketTransport } from './plugins/websocket/WebSocketTransport.js';
 
 // Configuration
 import { DEFAULT_CLIENT_CONFIG } from './types/config.js';
+import type { ClientConfig, Root } from './types/config.js';
+import type { ConnectionType, TransportSelection, TransportType } from './types/plugin.js';
+import type { AllEvents } from './types/events.js';
+import type { NormalizedTool, Primitive, PrimitiveListKind, ToolCallOptions } from './types/primitives.js';
+import type {
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
 import { createLogger } from '@extension/shared/lib/logger';
 
 // Export core classes
 
 const logger = createLogger('mcp_client');
 
-export { McpClient, PluginRegistry, EventEmitter };
+export { McpClient, PluginRegistry, EventEmitter, ServerManager, TOOL_NAMESPACE_SEPARATOR };
+
+// OAuth
+export { authorizeServer, isAuthorizationRequired };
+export type { ServerStatusInfo } from './core/ServerManager.js';
+
+// Sampling
+export { setSamplingHandler };
+export type { SamplingHandler, SamplingContext } from './sampling/samplingHandler.js';
+
+// Elicitation
+export { setElicitationHandler };
+export type { ElicitationHandler, ElicitationContext } from './elicitation/elicitationHandler.js';
+
+// Protocol traffic recording
+export { noteToolCallTab, setTrafficRecording, isTrafficRecording, getTrafficEntries, clearTraffic };
+export type { TrafficEntry, TrafficDirection, TrafficKind } from './inspector/trafficRecorder.js';
 
 // Export plugins
 export { SSEPlugin, WebSocketPlugin, WebSocketTransport };
@@ -25,16 +63,20 @@ export { SSEPlugin, WebSocketPlugin, WebSocketTransport };
 export { DEFAULT_CLIENT_CONFIG };
 
 // Re-export types
-export type { 
-  ITransportPlugin, 
-  PluginMetadata, 
-  PluginConfig, 
-  TransportType 
+export type {
+  ITransportPlugin,
+  PluginMetadata,
+  PluginConfig,
+  TransportType,
+  ConnectionType,
+  TransportSelection,
 } from './types/plugin.js';
 
 export type { 
   ClientConfig, 
   ConnectionRequest, 
+  ServerDefinition,
+  Root,
   SSEPluginConfig, 
   WebSocketPluginConfig, 
   GlobalConfig 
@@ -42,13 +84,19 @@ export type {
 
 export type { 
   Primitive, 
+  PrimitiveListKind,
   NormalizedTool, 
+  ToolAnnotations,
   PrimitivesResponse, 
+  PrimitiveListResult,
+  ListPrimitivesOptions,
   ToolCallRequest, 
-  ToolCallResult 
+  ToolCallResult,
+  ToolCallOptions,
+  ToolCallProgress,
 } from './types/primitives.js';
 
-export type { AllEvents } from './types/events.js';
+export type { AllEvents, ServerConnectionStatus } from './types/events.js';
 
 // Singleton client instance for backward compatibility
 let globalClient: McpClient | null = null;
@@ -115,10 +163,31 @@ function setupGlobalClientEventListeners(client: McpClient): void {
   });
 }
 
+/**
+ * Listen for primitives the global client refetched after a list_changed notification
+ */
+export async function onPrimitivesListChanged(
+  listener: (event: AllEvents['primitives:list-changed']) => void,
+): Promise<void> {
+  const client = await getGlobalClient();
+  client.on('primitives:list-changed', listener);
+}
+
+/**
+ * Listen for connection changes of the global client, including a failed
+ * health check or a closed WebSocket
+ */
+export async function onConnectionStatusChanged(
+  listener: (event: AllEvents['connection:status-changed']) => void,
+): Promise<void> {
+  const client = await getGlobalClient();
+  client.on('connection:status-changed', listener);
+}
+
 /**
  * Create a new MCP client instance
  */
-export async function createMcpClient(config?: Partial<import('./types/config.js').ClientConfig>): Promise<McpClient> {
+export async function createMcpClient(config?: Partial<ClientConfig>): Promise<McpClient> {
   const client = new McpClient(config);
   await client.initialize();
   return client;
@@ -127,7 +196,7 @@ export async function createMcpClient(config?: Partial<import('./types/config.js
 /**
  * Auto-detect transport type from URI
  */
-function detectTransportType(uri: string): import('./types/plugin.js').TransportType {
+function detectTransportType(uri: string): TransportType {
   try {
     const url = new URL(uri);
     if (url.protocol === 'ws:' || url.protocol === 'wss:') {
@@ -165,8 +234,9 @@ export async function callToolWithBackwardsCompatibility(
   toolName: string,
   args: { [key: string]: unknown },
   adapterName?: string,
-  transportType?: import('./types/plugin.js').TransportType
-): Promise<any> {
+  transportType?: ConnectionType,
+  options?: ToolCallOptions,
+): Promise<unknown> {
   const client = await getGlobalClient();
   const type = transportType || detectTransportType(uri);
 
@@ -174,14 +244,14 @@ export async function callToolWithBackwardsCompatibility(
     await client.connect({ uri, type });
   }
 
-  return await client.callTool(toolName, args, adapterName);
+  return await client.callTool(toolName, args, adapterName, options);
 }
 
 export async function getPrimitivesWithBackwardsCompatibility(
   uri: string,
   forceRefresh: boolean = false,
-  transportType?: import('./types/plugin.js').TransportType
-): Promise<any[]> {
+  transportType?: ConnectionType,
+): Promise<Primitive[]> {
   const client = await getGlobalClient();
   const type = transportType || detectTransportType(uri);
   
@@ -192,7 +262,7 @@ export async function getPrimitivesWithBackwardsCompatibility(
   const response = await client.getPrimitives(forceRefresh);
   
   // Convert back to old format
-  const primitives: any[] = [];
+  const primitives: Primitive[] = [];
   
   response.tools.forEach(tool => {
     primitives.push({ type: 'tool', value: tool });
@@ -209,7 +279,93 @@ export async function getPrimitivesWithBackwardsCompatibility(
   return primitives;
 }
 
-export async function forceReconnectToMcpServer(uri: string, transportType?: import('./types/plugin.js').TransportType): Promise<void> {
+/**
+ * Resources and resource templates of the primary server
+ */
+export async function getResourcesWithBackwardsCompatibility(
+  uri: string,
+  forceRefresh: boolean = false,
+  transportType?: ConnectionType,
+): Promise<{ resources: Resource[]; resourceTemplates: ResourceTemplate[] }> {
+  const client = await getGlobalClient();
+  const type = transportType || detectTransportType(uri);
+
+  if (!client.isConnected()) {
+    await client.connect({ uri, type });
+  }
+
+  const [response, resourceTemplates] = await Promise.all([
+    client.getPrimitives(forceRefresh),
+    client.getResourceTemplates(),
+  ]);
+  return { resources: response.resources, resourceTemplates };
+}
+
+export async function readResourceWithBackwardsCompatibility(
+  uri: string,
+  resourceUri: string,
+  transportType?: ConnectionType,
+): Promise<ReadResourceResult> {
+  const client = await getGlobalClient();
+  const type = transportType || detectTransportType(uri);
+
+  if (!client.isConnected()) {
+    await client.connect({ uri, type });
+  }
+
+  return await client.readResource(resourceUri);
+}
+
+/**
+ * Prompts of the primary server
+ */
+export async function getPromptsWithBackwardsCompatibility(
+  uri: string,
+  forceRefresh: boolean = false,
+  transportType?: ConnectionType,
+): Promise<Prompt[]> {
+  const client = await getGlobalClient();
+  const type = transportType || detectTransportType(uri);
+
+  if (!client.isConnected()) {
+    await client.connect({ uri, type });
+  }
+
+  const response = await client.getPrimitives(forceRefresh);
+  return response.prompts;
+}
+
+export async function getPromptWithBackwardsCompatibility(
+  uri: string,
+  promptName: string,
+  args: Record<string, string> = {},
+  transportType?: ConnectionType,
+): Promise<GetPromptResult> {
+  const client = await getGlobalClient();
+  const type = transportType || detectTransportType(uri);
+
+  if (!client.isConnected()) {
+    await client.connect({ uri, type });
+  }
+
+  return await client.getPrompt(promptName, args);
+}
+
+/**
+ * How the primary server's transport was chosen, null while disconnected
+ */
+export function getMcpTransportSelection(): TransportSelection | null {
+  return globalClient?.getTransportSelection() ?? null;
+}
+
+/**
+ * Lists of the primary server that were cut off at the page cap on the last fetch
+ */
+export function getTruncatedPrimitiveLists(): PrimitiveListKind[] {
+  return globalClient?.getTruncatedLists() ?? [];
+}
+
+export async function forceReconnectToMcpServer(uri: string, transportType?: ConnectionType): Promise<void> {
   const client = await getGlobalClient();
   const type = transportType || detectTransportType(uri);
   
@@ -220,7 +376,7 @@ export async function forceReconnectToMcpServer(uri: string, transportType?: imp
   await client.connect({ uri, type });
 }
 
-export async function runWithBackwardsCompatibility(uri: string, transportType?: import('./types/plugin.js').TransportType): Promise<void> {
+export async function runWithBackwardsCompatibility(uri: string, transportType?: ConnectionType): Promise<void> {
   const client = await getGlobalClient();
   const type = transportType || detectTransportType(uri);
   
@@ -230,6 +386,31 @@ export async function runWithBackwardsCompatibility(uri: string, transportType?:
   logger.debug(`Connected, found ${response.tools.length} tools, ${response.resources.length} resources, ${response.prompts.length} prompts`);
 }
 
+/**
+ * Set custom HTTP headers (e.g. Authorization) sent by the global client's
+ * SSE and Streamable HTTP transports. Takes effect on the next connection.
+ */
+export async function setMcpServerHeaders(headers: Record<string, string>): Promise<void> {
+  const client = await getGlobalClient();
+  const { plugins } = client.getConfig();
+
+  client.updateConfig({
+    plugins: {
+      sse: { ...plugins.sse, headers },
+      'streamable-http': { ...plugins['streamable-http'], headers },
+    },
+  });
+}
+
+/**
+ * Set the roots the global client answers to roots/list. Unlike headers these
+ * apply right away, a connected server is notified that the list changed.
+ */
+export async function setMcpServerRoots(roots: Root[]): Promise<void> {
+  const client = await getGlobalClient();
+  await client.setRoots(roots);
+}
+
 export function resetMcpConnectionState(): void {
   if (globalClient && globalClient.isConnected()) {
     globalClient.disconnect().catch(error => {
@@ -256,7 +437,7 @@ export const getPrimitivesWithSSE = getPrimitivesWithBackwardsCompatibility;
 export const runWithSSE = runWithBackwardsCompatibility;
 
 // WebSocket-specific functions
-export async function connectWithWebSocket(uri: string, config?: Partial<import('./types/config.js').ClientConfig>): Promise<McpClient> {
+export async function connectWithWebSocket(uri: string, config?: Partial<ClientConfig>): Promise<McpClient> {
   const client = new McpClient(config);
   await client.initialize();
   await client.connect({ uri, type: 'websocket' });
@@ -267,22 +448,19 @@ export async function callToolWithWebSocket(
   uri: string,
   toolName: string,
   args: { [key: string]: unknown }
-): Promise<any> {
+): Promise<unknown> {
   const client = await getGlobalClient();
   await client.connect({ uri, type: 'websocket' });
   return await client.callTool(toolName, args);
 }
 
-export async function getPrimitivesWithWebSocket(
-  uri: string,
-  forceRefresh: boolean = false
-): Promise<any[]> {
+export async function getPrimitivesWithWebSocket(uri: string, forceRefresh: boolean = false): Promise<Primitive[]> {
   const client = await getGlobalClient();
   await client.connect({ uri, type: 'websocket' });
   
   const response = await client.getPrimitives(forceRefresh);
   
-  const primitives: any[] = [];
+  const primitives: Primitive[] = [];
   response.tools.forEach(tool => primitives.push({ type: 'tool', value: tool }));
   response.resources.forEach(resource => primitives.push({ type: 'resource', value: resource }));
   response.prompts.forEach(prompt => primitives.push({ type: 'prompt', value: prompt }));
@@ -291,7 +469,7 @@ export async function getPrimitivesWithWebSocket(
 }
 
 // Utility function for normalizing tools
-export function normalizeToolsFromPrimitives(primitives: any[]): any[] {
+export function normalizeToolsFromPrimitives(primitives: Primitive[]): NormalizedTool[] {
   return primitives
     .filter(p => p.type === 'tool')
     .map(p => {
@@ -303,7 +481,9 @@ export function normalizeToolsFromPrimitives(primitives: any[]): any[] {
         schema: tool.inputSchema ? JSON.stringify(tool.inputSchema) : 
                 tool.input_schema ? JSON.stringify(tool.input_schema) : '{}',
         ...(tool.uri && { uri: tool.uri }),
-        ...(tool.arguments && { arguments: tool.arguments })
+        ...(tool.arguments && { arguments: tool.arguments }),
+        ...(tool.outputSchema && { output_schema: tool.outputSchema }),
+        ...(tool.annotations && { annotations: tool.annotations }),
       };
     });
 }
\ No newline at end of file
@@ -0,0 +1,182 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { TransportType } from '../types/plugin.js';
+
+export type TrafficDirection = 'outgoing' | 'incoming';
+export type TrafficKind = 'request' | 'response' | 'error' | 'notification';
+
+export interface TrafficSource {
+  uri: string;
+  type: TransportType;
+}
+
+export interface TrafficEntry {
+  seq: number;
+  timestamp: number;
+  direction: TrafficDirection;
+  kind: TrafficKind;
+  serverUri: string;
+  transportType: TransportType;
+  // For responses and errors, the method of the request they answer
+  method?: string;
+  requestId?: string | number;
+  toolName?: string;
+  // Tab whose tool call caused the request, when known
+  tabId?: number;
+  // Milliseconds between a request and its response
+  durationMs?: number;
+  message: JSONRPCMessage;
+}
+
+interface PendingRequest {
+  timestamp: number;
+  method: string;
+  toolName?: string;
+  tabId?: number;
+}
+
+// Oldest entries are dropped beyond this
+export const TRAFFIC_BUFFER_SIZE = 1000;
+
+let recording = false;
+let nextSeq = 1;
+let entries: TrafficEntry[] = [];
+// Requests waiting for a response, keyed by direction, server and request id
+const pendingRequests = new Map<string, PendingRequest>();
+// Tabs of tool calls about to be sent, in call order per tool name
+const pendingToolCallTabs = new Map<string, number[]>();
+// Transports pass a message through every chained onmessage handler, it is recorded once
+const recordedMessages = new WeakSet<object>();
+
+const getKind = (message: JSONRPCMessage): TrafficKind => {
+  if ('method' in message) return 'id' in message ? 'request' : 'notification';
+  return 'error' in message ? 'error' : 'response';
+};
+
+const pendingKey = (direction: TrafficDirection, source: TrafficSource, id: string | number): string =>
+  `${direction}:${source.uri}:${id}`;
+
+const takeToolCallTab = (toolName: string): number | undefined => {
+  const tabs = pendingToolCallTabs.get(toolName);
+  const tabId = tabs?.shift();
+  if (tabs && tabs.length === 0) pendingToolCallTabs.delete(toolName);
+  return tabId;
+};
+
+const record = (source: TrafficSource, direction: TrafficDirection, message: JSONRPCMessage): void => {
+  if (!recording || recordedMessages.has(message)) return;
+  recordedMessages.add(message);
+
+  const timestamp = Date.now();
+  const kind = getKind(message);
+  const entry: TrafficEntry = {
+    seq: nextSeq++,
+    timestamp,
+    direction,
+    kind,
+    serverUri: source.uri,
+    transportType: source.type,
+    message,
+  };
+
+  if ('method' in message) {
+    entry.method = message.method;
+    if (message.method === 'tools/call' && typeof message.params?.name === 'string') {
+      entry.toolName = message.params.name;
+      if (direction === 'outgoing') entry.tabId = takeToolCallTab(entry.toolName);
+    }
+  }
+
+  if ('id' in message && message.id !== undefined) {
+    entry.requestId = message.id;
+    if (kind === 'request') {
+      pendingRequests.set(pendingKey(direction, source, message.id), {
+        timestamp,
+        method: entry.method!,
+        toolName: entry.toolName,
+        tabId: entry.tabId,
+      });
+    } else {
+      // A response travels the other way than its request
+      const key = pendingKey(direction === 'incoming' ? 'outgoing' : 'incoming', source, message.id);
+      const request = pendingRequests.get(key);
+      if (request) {
+        pendingRequests.delete(key);
+        entry.method = request.method;
+        entry.toolName = request.toolName;
+        entry.tabId = request.tabId;
+        entry.durationMs = timestamp - request.timestamp;
+      }
+    }
+  }
+
+  entries.push(entry);
+  if (entries.length > TRAFFIC_BUFFER_SIZE) {
+    entries = entries.slice(-TRAFFIC_BUFFER_SIZE);
+  }
+};
+
+/**
+ * Record the JSON-RPC messages a transport sends and receives while recording is on.
+ * The transport is patched in place so transport specific members keep working.
+ * @param transport Transport returned by a plugin, before the client starts it
+ * @param source Server and transport type the messages are recorded under
+ */
+export function recordTraffic<T extends Transport>(transport: T, source: TrafficSource): T {
+  const send = transport.send.bind(transport);
+  transport.send = (message, options) => {
+    record(source, 'outgoing', message);
+    return send(message, options);
+  };
+
+  const existingHandler = transport.onmessage;
+  let onmessage: Transport['onmessage'];
+  Object.defineProperty(transport, 'onmessage', {
+    configurable: true,
+    enumerable: true,
+    get: () => onmessage,
+    set: (handler: Transport['onmessage']) => {
+      onmessage = handler
+        ? (message, extra) => {
+            record(source, 'incoming', message);
+            handler(message, extra);
+          }
+        : undefined;
+    },
+  });
+  transport.onmessage = existingHandler;
+
+  return transport;
+}
+
+/**
+ * Attribute the next recorded call of a tool to a tab
+ * @param toolName Tool name as sent to the server
+ * @param tabId Tab that asked for the call
+ */
+export function noteToolCallTab(toolName: string, tabId: number | undefined): void {
+  if (!recording || tabId === undefined) return;
+  pendingToolCallTabs.set(toolName, [...(pendingToolCallTabs.get(toolName) ?? []), tabId]);
+}
+
+export function setTrafficRecording(enabled: boolean): void {
+  recording = enabled;
+  if (!enabled) {
+    pendingRequests.clear();
+    pendingToolCallTabs.clear();
+  }
+}
+
+export function isTrafficRecording(): boolean {
+  return recording;
+}
+
+export function getTrafficEntries(): TrafficEntry[] {
+  return [...entries];
+}
+
+export function clearTraffic(): void {
+  entries = [];
+  pendingRequests.clear();
+  pendingToolCallTabs.clear();
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { listAllPages, listAllPrimitives } from './listAllPages.js';
+
+// A client whose tools/list answers with the given pages, each page's cursor is its index
+const pagedClient = (pages: Array<{ tools: Array<{ name: string }>; nextCursor?: string }>) => {
+  const listTools = vi.fn(async (params?: { cursor?: string }) => pages[params?.cursor ? Number(params.cursor) : 0]);
+  return { client: { listTools } as unknown as Client, listTools };
+};
+
+describe('listAllPages', () => {
+  it('follows nextCursor until the last page', async () => {
+    const { client, listTools } = pagedClient([
+      { tools: [{ name: 'a' }], nextCursor: '1' },
+      { tools: [{ name: 'b' }], nextCursor: '2' },
+      { tools: [{ name: 'c' }] },
+    ]);
+
+    const result = await listAllPages(client, 'tools');
+
+    expect(result).toEqual({ items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }], truncated: false });
+    expect(listTools.mock.calls.map(([params]) => params)).toEqual([undefined, { cursor: '1' }, { cursor: '2' }]);
+  });
+
+  it('stops at the page cap and flags the list as truncated', async () => {
+    const { client, listTools } = pagedClient([
+      { tools: [{ name: 'a' }], nextCursor: '1' },
+      { tools: [{ name: 'b' }], nextCursor: '2' },
+      { tools: [{ name: 'c' }] },
+    ]);
+
+    const result = await listAllPages(client, 'tools', 2);
+
+    expect(result).toEqual({ items: [{ name: 'a' }, { name: 'b' }], truncated: true });
+    expect(listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the server repeats a cursor', async () => {
+    const { client, listTools } = pagedClient([
+      { tools: [{ name: 'a' }], nextCursor: '1' },
+      { tools: [{ name: 'b' }], nextCursor: '1' },
+    ]);
+
+    const result = await listAllPages(client, 'tools');
+
+    expect(result).toEqual({ items: [{ name: 'a' }, { name: 'b' }], truncated: true });
+    expect(listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists resource templates with listResourceTemplates', async () => {
+    const listResourceTemplates = vi.fn(async (params?: { cursor?: string }) =>
+      params?.cursor
+        ? { resourceTemplates: [{ name: 'second', uriTemplate: 'file:///{b}' }] }
+        : { resourceTemplates: [{ name: 'first', uriTemplate: 'file:///{a}' }], nextCursor: 'next' },
+    );
+    const client = { listResourceTemplates } as unknown as Client;
+
+    const result = await listAllPages(client, 'resourceTemplates');
+
+    expect(result.items).toEqual([
+      { name: 'first', uriTemplate: 'file:///{a}' },
+      { name: 'second', uriTemplate: 'file:///{b}' },
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+});
+
+describe('listAllPrimitives', () => {
+  it('wraps every item as a primitive of the listed kind', async () => {
+    const { client } = pagedClient([{ tools: [{ name: 'a' }], nextCursor: '1' }, { tools: [{ name: 'b' }] }]);
+
+    const result = await listAllPrimitives(client, 'tools');
+
+    expect(result).toEqual({
+      primitives: [
+        { type: 'tool', value: { name: 'a' } },
+        { type: 'tool', value: { name: 'b' } },
+      ],
+      truncated: false,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Primitive, PrimitiveListKind, PrimitiveType } from '../types/primitives.js';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('listAllPages');
+
+export const DEFAULT_MAX_LIST_PAGES = 50;
+
+// Resource templates page the same way, but are listed on demand rather than with the primitives
+export type PagedListKind = PrimitiveListKind | 'resourceTemplates';
+
+const PRIMITIVE_TYPES: Record<PrimitiveListKind, PrimitiveType> = {
+  tools: 'tool',
+  resources: 'resource',
+  prompts: 'prompt',
+};
+
+interface ListPage {
+  items: unknown[];
+  nextCursor?: string;
+}
+
+async function listPage(client: Client, kind: PagedListKind, cursor?: string): Promise<ListPage> {
+  const params = cursor ? { cursor } : undefined;
+
+  switch (kind) {
+    case 'tools': {
+      const { tools, nextCursor } = await client.listTools(params);
+      return { items: tools, nextCursor };
+    }
+    case 'resources': {
+      const { resources, nextCursor } = await client.listResources(params);
+      return { items: resources, nextCursor };
+    }
+    case 'resourceTemplates': {
+      const { resourceTemplates, nextCursor } = await client.listResourceTemplates(params);
+      return { items: resourceTemplates, nextCursor };
+    }
+    case 'prompts': {
+      const { prompts, nextCursor } = await client.listPrompts(params);
+      return { items: prompts, nextCursor };
+    }
+  }
+}
+
+/**
+ * List every item of a paged list by following `nextCursor` until the server
+ * has no more pages. Stops after `maxPages` pages, or when the server repeats a
+ * cursor, so a misbehaving server cannot keep us paging forever. The result is
+ * then flagged as truncated.
+ */
+export async function listAllPages(
+  client: Client,
+  kind: PagedListKind,
+  maxPages: number = DEFAULT_MAX_LIST_PAGES,
+): Promise<{ items: unknown[]; truncated: boolean }> {
+  const items: unknown[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const { items: pageItems, nextCursor } = await listPage(client, kind, cursor);
+    items.push(...pageItems);
+
+    if (!nextCursor) {
+      return { items, truncated: false };
+    }
+    if (nextCursor === cursor) {
+      logger.warn(`Server returned the same ${kind} cursor twice, stopping`);
+      return { items, truncated: true };
+    }
+    cursor = nextCursor;
+  }
+
+  logger.warn(`Stopped listing ${kind} after ${maxPages} pages, the list is incomplete`);
+  return { items, truncated: true };
+}
+
+/**
+ * List tools, resources or prompts as primitives, see listAllPages
+ */
+export async function listAllPrimitives(
+  client: Client,
+  kind: PrimitiveListKind,
+  maxPages: number = DEFAULT_MAX_LIST_PAGES,
+): Promise<{ primitives: Primitive[]; truncated: boolean }> {
+  const { items, truncated } = await listAllPages(client, kind, maxPages);
+  const type = PRIMITIVE_TYPES[kind];
+  return { primitives: items.map(value => ({ type, value: value as Primitive['value'] })), truncated };
+}
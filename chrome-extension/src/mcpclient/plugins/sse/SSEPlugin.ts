@@ -4,7 +4,10 @@ import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 
 import type { ITransportPlugin, PluginMetadata, PluginConfig } from '../../types/plugin.js';
+import type { ListPrimitivesOptions, PrimitiveListResult, ToolCallOptions } from '../../types/primitives.js';
+import { listAllPrimitives } from '../listAllPages.js';
 import type { SSEPluginConfig } from '../../types/config.js';
+import { getOAuthProvider } from '../../auth/ExtensionOAuthProvider.js';
 import { createLogger } from '@extension/shared/lib/logger';
 
 
@@ -32,7 +35,8 @@ export class SSEPlugin implements ITransportPlugin {
       ...config,
     } as SSEPluginConfig;
 
-    logger.debug(`Initialized with config:`, this.config);
+    // Header values usually carry credentials, only log their names
+    logger.debug(`Initialized with config:`, { ...this.config, headers: Object.keys(this.config.headers || {}) });
   }
 
   async connect(uri: string): Promise<Transport> {
@@ -55,8 +59,13 @@ export class SSEPlugin implements ITransportPlugin {
       const url = new URL(uri);
       logger.debug(`Creating SSE transport for: ${url.toString()}`);
 
-      // Create SSE transport
-      const transport = new SSEClientTransport(url);
+      // Create SSE transport, custom headers apply to the event stream and every POST
+      // The OAuth provider only kicks in when the server answers 401
+      const headers = this.config.headers;
+      const transport = new SSEClientTransport(url, {
+        requestInit: headers && Object.keys(headers).length > 0 ? { headers } : undefined,
+        authProvider: getOAuthProvider(url.toString()),
+      });
 
       // Return the transport without testing
       // The main client will handle the connection test
@@ -142,7 +151,7 @@ export class SSEPlugin implements ITransportPlugin {
     }
   }
 
-  async callTool(client: Client, toolName: string, args: any): Promise<any> {
+  async callTool(client: Client, toolName: string, args: any, options?: ToolCallOptions): Promise<any> {
     if (!this.isConnected()) {
       throw new Error('SSE Plugin: Not connected');
     }
@@ -150,7 +159,12 @@ export class SSEPlugin implements ITransportPlugin {
     logger.debug(`Calling tool: ${toolName}`);
 
     try {
-      const result = await client.callTool({ name: toolName, arguments: args });
+      const result = await client.callTool({ name: toolName, arguments: args }, undefined, {
+        signal: options?.signal,
+        onprogress: options?.onProgress,
+        resetTimeoutOnProgress: true,
+        timeout: options?.timeout,
+      });
       logger.debug(`Tool call completed: ${toolName}`);
       return result;
     } catch (error) {
@@ -159,7 +173,7 @@ export class SSEPlugin implements ITransportPlugin {
     }
   }
 
-  async getPrimitives(client: Client): Promise<any[]> {
+  async getPrimitives(client: Client, options?: ListPrimitivesOptions): Promise<PrimitiveListResult> {
     if (!this.isConnected()) {
       throw new Error('SSE Plugin: Not connected');
     }
@@ -168,36 +182,13 @@ export class SSEPlugin implements ITransportPlugin {
 
     try {
       const capabilities = client.getServerCapabilities();
-      const primitives: any[] = [];
-      const promises: Promise<void>[] = [];
-
-      if (capabilities?.resources) {
-        promises.push(
-          client.listResources().then(({ resources }) => {
-            resources.forEach(item => primitives.push({ type: 'resource', value: item }));
-          }),
-        );
-      }
-
-      if (capabilities?.tools) {
-        promises.push(
-          client.listTools().then(({ tools }) => {
-            tools.forEach(item => primitives.push({ type: 'tool', value: item }));
-          }),
-        );
-      }
-
-      if (capabilities?.prompts) {
-        promises.push(
-          client.listPrompts().then(({ prompts }) => {
-            prompts.forEach(item => primitives.push({ type: 'prompt', value: item }));
-          }),
-        );
-      }
+      const kinds = (['resources', 'tools', 'prompts'] as const).filter(kind => capabilities?.[kind]);
+      const results = await Promise.all(kinds.map(kind => listAllPrimitives(client, kind, options?.maxPages)));
 
-      await Promise.all(promises);
+      const primitives = results.flatMap(result => result.primitives);
+      const truncated = kinds.filter((_, index) => results[index].truncated);
       logger.debug(`Retrieved ${primitives.length} primitives`);
-      return primitives;
+      return { primitives, truncated };
     } catch (error) {
       logger.error('[SSEPlugin] Failed to get primitives:', error);
       throw error;
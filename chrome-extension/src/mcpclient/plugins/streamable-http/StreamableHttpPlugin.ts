@@ -2,6 +2,10 @@ import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import type { ITransportPlugin, PluginMetadata, PluginConfig } from '../../types/plugin.js';
+import type { ListPrimitivesOptions, PrimitiveListResult, ToolCallOptions } from '../../types/primitives.js';
+import { listAllPrimitives } from '../listAllPages.js';
+import type { StreamableHttpPluginConfig } from '../../types/config.js';
+import { getOAuthProvider } from '../../auth/ExtensionOAuthProvider.js';
 import { createLogger } from '@extension/shared/lib/logger';
 
 
@@ -16,11 +20,14 @@ export class StreamableHttpPlugin implements ITransportPlugin {
     author: 'MCP SuperAssistant'
   };
 
+  private config: StreamableHttpPluginConfig = {};
   private transport: Transport | null = null;
 
   async initialize(config: PluginConfig): Promise<void> {
-    // Configuration can be used for future enhancements
-    logger.debug(`Initialized with config:`, config);
+    this.config = { ...config } as StreamableHttpPluginConfig;
+
+    // Header values usually carry credentials, only log their names
+    logger.debug(`Initialized with config:`, { ...this.config, headers: Object.keys(this.config.headers || {}) });
   }
 
   async connect(uri: string): Promise<Transport> {
@@ -43,8 +50,13 @@ export class StreamableHttpPlugin implements ITransportPlugin {
       const url = new URL(uri);
       logger.debug(`Creating Streamable HTTP transport for: ${url.toString()}`);
 
-      // Create streamable HTTP transport
-      const transport = new StreamableHTTPClientTransport(url);
+      // Create streamable HTTP transport with any custom headers
+      // The OAuth provider only kicks in when the server answers 401
+      const headers = this.config.headers;
+      const transport = new StreamableHTTPClientTransport(url, {
+        requestInit: headers && Object.keys(headers).length > 0 ? { headers } : undefined,
+        authProvider: getOAuthProvider(url.toString()),
+      });
 
       // Return the transport without testing
       // The main client will handle the connection test
@@ -125,7 +137,7 @@ export class StreamableHttpPlugin implements ITransportPlugin {
     }
   }
 
-  async callTool(client: Client, toolName: string, args: any): Promise<any> {
+  async callTool(client: Client, toolName: string, args: any, options?: ToolCallOptions): Promise<any> {
     if (!this.isConnected()) {
       throw new Error('StreamableHttpPlugin: Not connected');
     }
@@ -133,7 +145,12 @@ export class StreamableHttpPlugin implements ITransportPlugin {
     logger.debug(`Calling tool: ${toolName}`);
 
     try {
-      const result = await client.callTool({ name: toolName, arguments: args });
+      const result = await client.callTool({ name: toolName, arguments: args }, undefined, {
+        signal: options?.signal,
+        onprogress: options?.onProgress,
+        resetTimeoutOnProgress: true,
+        timeout: options?.timeout,
+      });
       logger.debug(`Tool call completed: ${toolName}`);
       return result;
     } catch (error) {
@@ -142,7 +159,7 @@ export class StreamableHttpPlugin implements ITransportPlugin {
     }
   }
 
-  async getPrimitives(client: Client): Promise<any[]> {
+  async getPrimitives(client: Client, options?: ListPrimitivesOptions): Promise<PrimitiveListResult> {
     if (!this.isConnected()) {
       throw new Error('StreamableHttpPlugin: Not connected');
     }
@@ -151,45 +168,23 @@ export class StreamableHttpPlugin implements ITransportPlugin {
 
     try {
       const capabilities = client.getServerCapabilities();
-      const primitives: any[] = [];
-      const promises: Promise<void>[] = [];
-
-      if (capabilities?.resources) {
-        promises.push(
-          client.listResources().then(({ resources }) => {
-            resources.forEach(item => primitives.push({ type: 'resource', value: item }));
-          }).catch(error => {
-            logger.warn('[StreamableHttpPlugin] Failed to list resources:', error);
-          }),
-        );
-      }
-
-      if (capabilities?.tools) {
-        promises.push(
-          client.listTools().then(({ tools }) => {
-            tools.forEach(item => primitives.push({ type: 'tool', value: item }));
-          }).catch(error => {
-            logger.warn('[StreamableHttpPlugin] Failed to list tools:', error);
+      const kinds = (['resources', 'tools', 'prompts'] as const).filter(kind => capabilities?.[kind]);
+      const results = await Promise.all(
+        kinds.map(kind =>
+          listAllPrimitives(client, kind, options?.maxPages).catch(error => {
+            logger.warn(`[StreamableHttpPlugin] Failed to list ${kind}:`, error);
+            return { primitives: [], truncated: false };
           }),
-        );
-      }
-
-      if (capabilities?.prompts) {
-        promises.push(
-          client.listPrompts().then(({ prompts }) => {
-            prompts.forEach(item => primitives.push({ type: 'prompt', value: item }));
-          }).catch(error => {
-            logger.warn('[StreamableHttpPlugin] Failed to list prompts:', error);
-          }),
-        );
-      }
+        ),
+      );
 
-      await Promise.all(promises);
+      const primitives = results.flatMap(result => result.primitives);
+      const truncated = kinds.filter((_, index) => results[index].truncated);
       logger.debug(`Retrieved ${primitives.length} primitives`);
-      return primitives;
+      return { primitives, truncated };
     } catch (error) {
       logger.error('[StreamableHttpPlugin] Failed to get primitives:', error);
-      return [];
+      return { primitives: [], truncated: [] };
     }
   }
 }
\ No newline at end of file
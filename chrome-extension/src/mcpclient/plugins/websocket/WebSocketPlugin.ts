@@ -3,6 +3,8 @@ import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 
 import type { ITransportPlugin, PluginMetadata, PluginConfig } from '../../types/plugin.js';
+import type { ListPrimitivesOptions, PrimitiveListResult, ToolCallOptions } from '../../types/primitives.js';
+import { listAllPrimitives } from '../listAllPages.js';
 import type { WebSocketPluginConfig } from '../../types/config.js';
 import { WebSocketTransport } from './WebSocketTransport.js';
 import { createLogger } from '@extension/shared/lib/logger';
@@ -188,7 +190,7 @@ export class WebSocketPlugin implements ITransportPlugin {
     }
   }
 
-  async callTool(client: Client, toolName: string, args: any): Promise<any> {
+  async callTool(client: Client, toolName: string, args: any, options?: ToolCallOptions): Promise<any> {
     if (!this.isConnected()) {
       throw new Error('WebSocket Plugin: Not connected');
     }
@@ -196,7 +198,12 @@ export class WebSocketPlugin implements ITransportPlugin {
     logger.debug(`Calling tool: ${toolName}`);
 
     try {
-      const result = await client.callTool({ name: toolName, arguments: args });
+      const result = await client.callTool({ name: toolName, arguments: args }, undefined, {
+        signal: options?.signal,
+        onprogress: options?.onProgress,
+        resetTimeoutOnProgress: true,
+        timeout: options?.timeout,
+      });
       logger.debug(`Tool call completed: ${toolName}`);
       return result;
     } catch (error) {
@@ -212,7 +219,7 @@ export class WebSocketPlugin implements ITransportPlugin {
     }
   }
 
-  async getPrimitives(client: Client): Promise<any[]> {
+  async getPrimitives(client: Client, options?: ListPrimitivesOptions): Promise<PrimitiveListResult> {
     if (!this.isConnected()) {
       throw new Error('WebSocket Plugin: Not connected');
     }
@@ -221,36 +228,13 @@ export class WebSocketPlugin implements ITransportPlugin {
 
     try {
       const capabilities = client.getServerCapabilities();
-      const primitives: any[] = [];
-      const promises: Promise<void>[] = [];
-
-      if (capabilities?.resources) {
-        promises.push(
-          client.listResources().then(({ resources }) => {
-            resources.forEach(item => primitives.push({ type: 'resource', value: item }));
-          }),
-        );
-      }
-
-      if (capabilities?.tools) {
-        promises.push(
-          client.listTools().then(({ tools }) => {
-            tools.forEach(item => primitives.push({ type: 'tool', value: item }));
-          }),
-        );
-      }
-
-      if (capabilities?.prompts) {
-        promises.push(
-          client.listPrompts().then(({ prompts }) => {
-            prompts.forEach(item => primitives.push({ type: 'prompt', value: item }));
-          }),
-        );
-      }
+      const kinds = (['resources', 'tools', 'prompts'] as const).filter(kind => capabilities?.[kind]);
+      const results = await Promise.all(kinds.map(kind => listAllPrimitives(client, kind, options?.maxPages)));
 
-      await Promise.all(promises);
+      const primitives = results.flatMap(result => result.primitives);
+      const truncated = kinds.filter((_, index) => results[index].truncated);
       logger.debug(`Retrieved ${primitives.length} primitives`);
-      return primitives;
+      return { primitives, truncated };
     } catch (error) {
       logger.error('[WebSocketPlugin] Failed to get primitives:', error);
 
@@ -0,0 +1,27 @@
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+
+export interface SamplingContext {
+  // URI of the server that sent the request
+  serverUri: string;
+  // Aborted when the server cancels the request or the connection closes
+  signal: AbortSignal;
+}
+
+export type SamplingHandler = (
+  params: CreateMessageRequest['params'],
+  context: SamplingContext,
+) => Promise<CreateMessageResult>;
+
+let samplingHandler: SamplingHandler | null = null;
+
+/**
+ * Register the handler that answers sampling/createMessage requests. Clients only
+ * advertise the sampling capability when a handler is set before they connect.
+ */
+export function setSamplingHandler(handler: SamplingHandler | null): void {
+  samplingHandler = handler;
+}
+
+export function getSamplingHandler(): SamplingHandler | null {
+  return samplingHandler;
+}
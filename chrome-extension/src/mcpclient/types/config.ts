@@ -1,11 +1,19 @@
-import type { TransportType, PluginConfig } from './plugin.js';
+import type { ConnectionType, TransportType, PluginConfig } from './plugin.js';
 
 export interface GlobalConfig {
   timeout: number;
   maxRetries: number;
   healthCheckInterval: number;
   reconnectDelay: number;
+  // Backoff of the background reconnect supervisor, starting from reconnectDelay
+  maxReconnectDelay: number;
+  // Fraction of each delay that is randomized so clients don't retry in lockstep
+  reconnectJitter: number;
+  // Attempts before the supervisor waits for the periodic check, 0 keeps trying
+  maxReconnectAttempts: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  // Pages followed per tools/resources/prompts list before giving up
+  maxListPages: number;
 }
 
 export interface SSEPluginConfig extends PluginConfig {
@@ -45,10 +53,32 @@ export interface ClientConfig {
 
 export interface ConnectionRequest {
   uri: string;
-  type: TransportType;
+  type: ConnectionType;
   config?: PluginConfig;
 }
 
+/**
+ * An additional MCP server connected alongside the primary one.
+ * Its tools are exposed to the page as `<id>.<toolName>`.
+ */
+export interface ServerDefinition {
+  id: string;
+  name: string;
+  uri: string;
+  connectionType: ConnectionType;
+  enabled: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A directory or file the user lets a server work in, answered to roots/list
+ */
+export interface Root {
+  // Always a file:// URI
+  uri: string;
+  name?: string;
+}
+
 export const DEFAULT_CLIENT_CONFIG: ClientConfig = {
   defaultTransport: 'sse',
   defaultUri: 'http://localhost:3006/sse',
@@ -78,6 +108,10 @@ export const DEFAULT_CLIENT_CONFIG: ClientConfig = {
     maxRetries: 3,
     healthCheckInterval: 60000,
     reconnectDelay: 2000,
+    maxReconnectDelay: 60000,
+    reconnectJitter: 0.3,
+    maxReconnectAttempts: 10,
     logLevel: 'info',
+    maxListPages: 50,
   },
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
-import type { ITransportPlugin, TransportType } from './plugin.js';
+import type { ConnectionType, ITransportPlugin, TransportSelection, TransportType } from './plugin.js';
+import type { NormalizedTool, PrimitiveListKind, PrimitivesResponse } from './primitives.js';
 
 export interface ClientEvents {
   'client:initialized': { config: any };
@@ -7,7 +8,7 @@ export interface ClientEvents {
   'client:disconnecting': { type: TransportType };
   'client:disconnected': { type: TransportType };
   'client:error': { error: Error; context?: string };
-  'client:plugin-switched': { from: TransportType | null; to: TransportType };
+  'client:plugin-switched': { from: TransportType | null; to: ConnectionType };
 }
 
 export interface RegistryEvents {
@@ -21,6 +22,8 @@ export interface ConnectionEvents {
     isConnected: boolean; 
     type: TransportType | null;
     error?: string;
+    // Set when connected, how the transport was chosen
+    transport?: TransportSelection;
   };
   'connection:health-check': { 
     healthy: boolean; 
@@ -39,6 +42,20 @@ export interface ToolEvents {
   'tool:call-completed': { toolName: string; result: any; duration: number };
   'tool:call-failed': { toolName: string; error: Error; duration: number };
   'tools:list-updated': { tools: any[]; type: TransportType };
+  'primitives:list-changed': { kinds: PrimitiveListKind[]; primitives: PrimitivesResponse };
+}
+
+export type ServerConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'error';
+
+export interface ServerEvents {
+  'server:status-changed': {
+    serverId: string;
+    status: ServerConnectionStatus;
+    error?: string;
+  };
+  'server:tools-updated': { serverId: string; tools: NormalizedTool[] };
+  'server:resources-changed': { serverId: string };
+  'server:prompts-changed': { serverId: string };
 }
 
 export type AllEvents = ClientEvents & RegistryEvents & ConnectionEvents & ToolEvents;
\ No newline at end of file
@@ -1,8 +1,21 @@
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ListPrimitivesOptions, PrimitiveListResult, ToolCallOptions } from './primitives.js';
 
 export type TransportType = 'sse' | 'websocket' | 'streamable-http';
 
+// What the user configures, 'auto' probes the transports the URL allows
+export type ConnectionType = TransportType | 'auto';
+
+/**
+ * The transport a connection ended up on, with a reason that can be shown to the user
+ */
+export interface TransportSelection {
+  type: TransportType;
+  uri: string;
+  reason: string;
+}
+
 export interface PluginConfig {
   [key: string]: any;
 }
@@ -29,8 +42,8 @@ export interface ITransportPlugin {
   isHealthy(): Promise<boolean>;
   
   // Tool operations
-  callTool(client: Client, toolName: string, args: any): Promise<any>;
-  getPrimitives(client: Client): Promise<any[]>;
+  callTool(client: Client, toolName: string, args: any, options?: ToolCallOptions): Promise<any>;
+  getPrimitives(client: Client, options?: ListPrimitivesOptions): Promise<PrimitiveListResult>;
 }
 
 export interface PluginEvents {
@@ -1,5 +1,8 @@
 export type PrimitiveType = 'resource' | 'tool' | 'prompt';
 
+// Lists a server can announce changes for with notifications/<kind>/list_changed
+export type PrimitiveListKind = 'tools' | 'resources' | 'prompts';
+
 export interface PrimitiveValue {
   name: string;
   description?: string;
@@ -8,6 +11,8 @@ export interface PrimitiveValue {
   input_schema?: any;  // snake_case variant for compatibility
   arguments?: any[];
   schema?: string;     // JSON string representation for legacy compatibility
+  outputSchema?: Record<string, unknown>;
+  annotations?: ToolAnnotations;
 }
 
 export interface Primitive {
@@ -15,6 +20,15 @@ export interface Primitive {
   value: PrimitiveValue;
 }
 
+// Hints from tools/list about how a tool behaves, servers are not bound by them
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 export interface NormalizedTool {
   name: string;
   description: string;
@@ -22,6 +36,10 @@ export interface NormalizedTool {
   schema: string;
   uri?: string;
   arguments?: any[];
+  // JSON Schema the tool's structuredContent follows
+  output_schema?: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+  serverId?: string; // Set on tools that come from an additional server
 }
 
 export interface ToolCallRequest {
@@ -29,14 +47,41 @@ export interface ToolCallRequest {
   arguments: Record<string, any>;
 }
 
+export interface ToolCallProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface ToolCallOptions {
+  // Aborting sends notifications/cancelled to the server
+  signal?: AbortSignal;
+  // Requests progress notifications, the SDK attaches a progress token when this is set
+  onProgress?: (progress: ToolCallProgress) => void;
+  // Milliseconds to wait for a result, restarted by every progress notification
+  timeout?: number;
+}
+
 export interface ToolCallResult {
   content: any[];
   isError?: boolean;
 }
 
+export interface ListPrimitivesOptions {
+  // Safety cap on the number of pages followed per list
+  maxPages?: number;
+}
+
+export interface PrimitiveListResult {
+  primitives: Primitive[];
+  // Lists that still had a nextCursor when the page cap was reached
+  truncated: PrimitiveListKind[];
+}
+
 export interface PrimitivesResponse {
   tools: NormalizedTool[];
   resources: any[];
   prompts: any[];
+  truncated: PrimitiveListKind[];
   timestamp: number;
 }
\ No newline at end of file
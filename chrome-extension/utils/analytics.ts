@@ -13,6 +13,7 @@ const MEASUREMENT_ID = import.meta.env.CEB_GA_MEASUREMENT_ID;
 const API_SECRET = import.meta.env.CEB_GA_API_SECRET;
 
 import { createLogger } from '@extension/shared/lib/logger';
+import { analyticsConsentStorage } from '@extension/storage';
 
 const logger = createLogger('AnalyticsService');
 
@@ -118,6 +119,12 @@ export async function sendAnalyticsEvent(
     return;
   }
 
+  // Users can opt out of analytics on the options page
+  if (!(await analyticsConsentStorage.get())) {
+    logger.debug(`[GA4] Skipping event ${name}, analytics consent withdrawn`);
+    return;
+  }
+
   try {
     const clientId = await getOrCreateClientId();
     const sessionId = await getOrCreateSessionId();
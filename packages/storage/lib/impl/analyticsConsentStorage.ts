@@ -0,0 +1,19 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+
+type AnalyticsConsentStorage = BaseStorage<boolean> & {
+  toggle: () => Promise<void>;
+};
+
+// Whether anonymous usage events may be sent, users opt out from the options page
+const storage = createStorage<boolean>('mcp-analytics-consent', true, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const analyticsConsentStorage: AnalyticsConsentStorage = {
+  ...storage,
+  toggle: async () => {
+    await storage.set(consent => !consent);
+  },
+};
@@ -0,0 +1,40 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+
+/**
+ * What happens with a tool call once it is detected, delays are in seconds
+ */
+export type AutomationSettings = {
+  autoInsert: boolean;
+  autoSubmit: boolean;
+  autoExecute: boolean;
+  autoInsertDelay: number;
+  autoSubmitDelay: number;
+  autoExecuteDelay: number;
+};
+
+export const DEFAULT_AUTOMATION_SETTINGS: AutomationSettings = {
+  autoInsert: false,
+  autoSubmit: false,
+  autoExecute: false,
+  autoInsertDelay: 2,
+  autoSubmitDelay: 2,
+  autoExecuteDelay: 2,
+};
+
+type AutomationStorage = BaseStorage<AutomationSettings | null> & {
+  update: (changes: Partial<AutomationSettings>) => Promise<void>;
+};
+
+// null until the settings are saved once, tabs then seed it from the sidebar settings they had
+const storage = createStorage<AutomationSettings | null>('mcp-automation-settings', null, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const automationStorage: AutomationStorage = {
+  ...storage,
+  update: async changes => {
+    await storage.set(current => ({ ...DEFAULT_AUTOMATION_SETTINGS, ...current, ...changes }));
+  },
+};
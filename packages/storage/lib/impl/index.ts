@@ -1 +1,5 @@
 export * from './exampleThemeStorage.js';
+export * from './automationStorage.js';
+export * from './instructionStorage.js';
+export * from './toolEnablementStorage.js';
+export * from './analyticsConsentStorage.js';
@@ -0,0 +1,75 @@
+import type { BaseStorage } from '../base/index.js';
+import { createStorage, StorageEnum } from '../base/index.js';
+
+export type InstructionTemplate = {
+  id: string;
+  name: string;
+  content: string;
+};
+
+/**
+ * Custom instructions appended to the generated tool instructions, the active template is the one in use
+ */
+export type InstructionSettings = {
+  enabled: boolean;
+  activeTemplateId: string | null;
+  templates: InstructionTemplate[];
+};
+
+export const DEFAULT_INSTRUCTION_SETTINGS: InstructionSettings = {
+  enabled: false,
+  activeTemplateId: null,
+  templates: [],
+};
+
+type InstructionStorage = BaseStorage<InstructionSettings | null> & {
+  update: (changes: Partial<InstructionSettings>) => Promise<void>;
+  saveTemplate: (template: InstructionTemplate) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
+};
+
+const storage = createStorage<InstructionSettings | null>('mcp-instruction-settings', null, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+const withDefaults = (settings: InstructionSettings | null): InstructionSettings => ({
+  ...DEFAULT_INSTRUCTION_SETTINGS,
+  ...settings,
+});
+
+export const instructionStorage: InstructionStorage = {
+  ...storage,
+  update: async changes => {
+    await storage.set(current => ({ ...withDefaults(current), ...changes }));
+  },
+  // Adds the template or replaces the one with its id
+  saveTemplate: async template => {
+    await storage.set(current => {
+      const settings = withDefaults(current);
+      const exists = settings.templates.some(candidate => candidate.id === template.id);
+      return {
+        ...settings,
+        templates: exists
+          ? settings.templates.map(candidate => (candidate.id === template.id ? template : candidate))
+          : [...settings.templates, template],
+      };
+    });
+  },
+  deleteTemplate: async id => {
+    await storage.set(current => {
+      const settings = withDefaults(current);
+      return {
+        ...settings,
+        activeTemplateId: settings.activeTemplateId === id ? null : settings.activeTemplateId,
+        templates: settings.templates.filter(candidate => candidate.id !== id),
+      };
+    });
+  },
+};
+
+/**
+ * The template whose content is in use, if any
+ */
+export const getActiveTemplate = (settings: InstructionSettings | null): InstructionTemplate | undefined =>
+  settings?.templates.find(template => template.id === settings.activeTemplateId);
@@ -0,0 +1,7 @@
+import { createStorage, StorageEnum } from '../base/index.js';
+
+// Names of the enabled tools shared by all tabs, tabs enable every tool while the list is empty
+export const toolEnablementStorage = createStorage<string[]>('mcp_tool_enablement', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
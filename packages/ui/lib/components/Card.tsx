@@ -0,0 +1,22 @@
+import type { ComponentPropsWithoutRef } from 'react';
+import { cn } from '../utils';
+
+type CardProps = Omit<ComponentPropsWithoutRef<'section'>, 'title'> & {
+  title: string;
+  description?: string;
+};
+
+export const Card = ({ title, description, className, children, ...props }: CardProps) => {
+  return (
+    <section
+      className={cn(
+        'rounded-lg border border-slate-200 bg-white p-5 shadow-sm dark:border-slate-700 dark:bg-slate-800',
+        className,
+      )}
+      {...props}>
+      <h2 className="text-base font-semibold text-slate-800 dark:text-slate-100">{title}</h2>
+      {description && <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{description}</p>}
+      <div className="mt-4">{children}</div>
+    </section>
+  );
+};
@@ -0,0 +1,30 @@
+import type { ComponentPropsWithoutRef } from 'react';
+import { cn } from '../utils';
+
+type SwitchProps = Omit<ComponentPropsWithoutRef<'button'>, 'onChange'> & {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+};
+
+export const Switch = ({ checked, onCheckedChange, className, ...props }: SwitchProps) => {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      className={cn(
+        'relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors disabled:opacity-50',
+        checked ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-600',
+        className,
+      )}
+      onClick={() => onCheckedChange(!checked)}
+      {...props}>
+      <span
+        className={cn(
+          'inline-block h-4 w-4 rounded-full bg-white shadow transition-transform',
+          checked ? 'translate-x-4' : 'translate-x-0.5',
+        )}
+      />
+    </button>
+  );
+};
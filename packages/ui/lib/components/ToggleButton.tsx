@@ -1,7 +1,7 @@
 import { exampleThemeStorage } from '@extension/storage';
 import { useStorage } from '@extension/shared';
 import type { ComponentPropsWithoutRef } from 'react';
-import { cn } from '@/lib/utils';
+import { cn } from '../utils';
 
 type ToggleButtonProps = ComponentPropsWithoutRef<'button'>;
 
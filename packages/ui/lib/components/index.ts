@@ -1 +1,3 @@
 export * from './ToggleButton';
+export * from './Card';
+export * from './Switch';
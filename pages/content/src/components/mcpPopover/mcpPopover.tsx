@@ -1,7 +1,8 @@
 import type React from 'react';
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { useCurrentAdapter, useUserPreferences, useMCPState } from '../../hooks';
+import { useCurrentAdapter, useUserPreferences, useMCPState, useServerProfiles } from '../../hooks';
+import { useMcpCommunication } from '../../hooks/useMcpCommunication';
 import PopoverPortal from './PopoverPortal';
 import { instructionsState } from '../sidebar/Instructions/InstructionManager';
 import { AutomationService } from '../../services/automation.service';
@@ -632,6 +633,8 @@ export const MCPPopover: React.FC<MCPPopoverProps> = ({ toggleStateManager, adap
   
   // Use MCP state hook to get persistent MCP toggle state
   const { mcpEnabled: mcpEnabledFromStore, setMCPEnabled } = useMCPState();
+  const { profiles, activeProfileId } = useServerProfiles();
+  const { switchProfile } = useMcpCommunication();
 
   // Debug: Log adapter state changes
   useEffect(() => {
@@ -851,6 +854,15 @@ export const MCPPopover: React.FC<MCPPopoverProps> = ({ toggleStateManager, adap
     AutomationService.getInstance().updateAutomationStateOnWindow().catch(console.error);
   };
 
+  const handleProfileChange = async (profileId: string) => {
+    if (!profileId || profileId === activeProfileId) return;
+    try {
+      await switchProfile(profileId);
+    } catch (error) {
+      logger.error('Failed to switch server profile:', error);
+    }
+  };
+
   // Action buttons
   const handleCopy = async () => {
     try {
@@ -892,6 +904,7 @@ export const MCPPopover: React.FC<MCPPopoverProps> = ({ toggleStateManager, adap
         logger.debug(`Attempting to insert text using ${activePlugin.name} adapter`);
         const success = await insertText(instructions);
         if (success) {
+          instructionsState.markInserted();
           setInsertStatus('Inserted!');
           logger.debug(`Text inserted successfully using ${activePlugin.name} adapter`);
         } else {
@@ -984,18 +997,19 @@ export const MCPPopover: React.FC<MCPPopoverProps> = ({ toggleStateManager, adap
       const fileName = `mcp_superassistant_instructions${fileExtension}`;
       const file = new File([instructions], fileName, { type: fileType });
       try {
-      logger.debug(`Attempting to attach file using ${activePlugin.name} adapter`);
-      const success = await attachFile(file);
-      if (success) {
-        setAttachStatus('Attached!');
-        logger.debug(`File attached successfully using ${activePlugin.name} adapter`);
-      } else {
-        setAttachStatus('Error');
-        logger.warn(`File attachment failed using ${activePlugin.name} adapter`);
-      }
+        logger.debug(`Attempting to attach file using ${activePlugin.name} adapter`);
+        const success = await attachFile(file);
+        if (success) {
+          instructionsState.markInserted();
+          setAttachStatus('Attached!');
+          logger.debug(`File attached successfully using ${activePlugin.name} adapter`);
+        } else {
+          setAttachStatus('Error');
+          logger.warn(`File attachment failed using ${activePlugin.name} adapter`);
+        }
       } catch (error) {
-      logger.error(`Error attaching file:`, error);
-      setAttachStatus('Error');
+        logger.error(`Error attaching file:`, error);
+        setAttachStatus('Error');
       }
     } else {
       setAttachStatus('No File');
@@ -1299,6 +1313,34 @@ export const MCPPopover: React.FC<MCPPopoverProps> = ({ toggleStateManager, adap
               disabled={autoExecuteDisabled}
               onChange={handleAutoExecute}
             />
+            {profiles.length > 0 && (
+              <select
+                id="mcp-profile-select"
+                aria-label="Server profile"
+                value={activeProfileId ?? ''}
+                onChange={e => handleProfileChange(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '4px 6px',
+                  fontSize: 12,
+                  borderRadius: 6,
+                  border: `1px solid ${theme.borderColor}`,
+                  backgroundColor: theme.secondaryBackground,
+                  color: theme.primaryText,
+                  boxSizing: 'border-box',
+                }}>
+                {activeProfileId === null && (
+                  <option value="" disabled>
+                    Custom server
+                  </option>
+                )}
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
           {/* Instruction panel column */}
           <div
@@ -1,12 +1,13 @@
 import type React from 'react';
 import { useState, useEffect, useMemo } from 'react';
 import type { Tool } from '@src/types/mcp';
-import { useAvailableTools, useToolExecution, useToolEnablement } from '../../../hooks';
+import { useAvailableTools, useToolExecution, useToolEnablement, useAdditionalServers } from '../../../hooks';
 import { logMessage } from '@src/utils/helpers';
 import { Typography, Icon, Button } from '../ui';
 import { cn } from '@src/lib/utils';
 import { Card, CardHeader, CardContent } from '@src/components/ui/card';
 import { createLogger } from '@extension/shared/lib/logger';
+import ToolAnnotationBadges from './ToolAnnotationBadges';
 
 
 const logger = createLogger('AvailableTools');
@@ -26,9 +27,10 @@ interface AvailableToolsProps {
 
 const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRefresh, isRefreshing }) => {
   // Use Zustand hooks for tool management
-  const { tools: storeTools } = useAvailableTools();
+  const { tools: storeTools, truncatedLists } = useAvailableTools();
   const { executions, isExecuting } = useToolExecution();
   const { enabledTools, enableTool, disableTool, enableAllTools, disableAllTools, isToolEnabled, loadToolEnablementState, isLoadingEnablement } = useToolEnablement();
+  const { servers: additionalServers } = useAdditionalServers();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedTools, setExpandedTools] = useState<Set<string>>(new Set());
@@ -343,6 +345,14 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
             </div>
           </div>
 
+          {truncatedLists.length > 0 && (
+            <div className="mb-4 px-3 py-2 rounded bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+              <Typography variant="small" className="text-amber-700 dark:text-amber-400">
+                The server returned more {truncatedLists.join(', ')} than the page limit allows, some are not shown.
+              </Typography>
+            </div>
+          )}
+
           {(isRefreshing || isLoadingEnablement) && (
             <div className="flex items-center justify-center py-8 text-slate-500 dark:text-slate-400">
               <Icon name="refresh" className="w-8 h-8 animate-spin mr-3" />
@@ -408,6 +418,8 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
                 const groupEnabled = isGroupEnabled(tools);
                 const groupPartiallyEnabled = isGroupPartiallyEnabled(tools);
                 const groupExpanded = expandedTools.has(serverName);
+                // Groups named after an additional server show that server's connection status
+                const groupServer = additionalServers.find(server => server.id === serverName);
                 
                 return (
                   <div key={serverName} className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
@@ -437,14 +449,32 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
                             onChange={() => handleToggleGroup(serverName, tools)}
                             className="w-4 h-4 mr-3 text-blue-600 bg-white border-slate-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-slate-800 focus:ring-2 dark:bg-slate-700 dark:border-slate-600"
                           />
+                          {groupServer && (
+                            <span
+                              className={cn(
+                                'w-2 h-2 mr-2 rounded-full',
+                                groupServer.status === 'connected'
+                                  ? 'bg-emerald-500'
+                                  : groupServer.status === 'error'
+                                    ? 'bg-rose-500'
+                                    : 'bg-slate-400',
+                              )}
+                              title={groupServer.error || groupServer.status}
+                            />
+                          )}
                           <Typography variant="subtitle" className="text-slate-800 dark:text-slate-200 font-semibold">
-                            {serverName}
+                            {groupServer?.name || serverName}
                           </Typography>
                           <Typography variant="small" className="ml-2 text-slate-500 dark:text-slate-400">
                             ({tools.length} tools)
                           </Typography>
                         </div>
                         <div className="flex items-center gap-2">
+                          {groupServer && groupServer.status !== 'connected' && (
+                            <span className="px-2 py-1 text-xs bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300 rounded">
+                              {groupServer.status === 'error' ? 'Error' : 'Offline'}
+                            </span>
+                          )}
                           {groupPartiallyEnabled && (
                             <span className="px-2 py-1 text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 rounded">
                               Partial
@@ -509,6 +539,7 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
                                     )}>
                                     {displayName}
                                   </Typography>
+                                  <ToolAnnotationBadges annotations={tool.annotations} className="ml-2" />
                                   {!isEnabled && (
                                     <span className="ml-2 px-2 py-0.5 text-xs bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-400 rounded">
                                       Disabled
@@ -522,6 +553,13 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
                                   "p-3 bg-slate-50 dark:bg-slate-800/50",
                                   !isEnabled && "opacity-60"
                                 )}>
+                                  {tool.annotations?.title && (
+                                    <Typography
+                                      variant="body"
+                                      className="mb-1 font-medium text-slate-700 dark:text-slate-200">
+                                      {tool.annotations.title}
+                                    </Typography>
+                                  )}
                                   {tool.description && (
                                     <Typography 
                                       variant="body" 
@@ -634,6 +672,7 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
                                 )}>
                                 {tool.name}
                               </Typography>
+                              <ToolAnnotationBadges annotations={tool.annotations} className="ml-2" />
                               {!isEnabled && (
                                 <span className="ml-2 px-2 py-0.5 text-xs bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-400 rounded">
                                   Disabled
@@ -647,6 +686,13 @@ const AvailableTools: React.FC<AvailableToolsProps> = ({ tools, onExecute, onRef
                               "p-3 bg-slate-50 dark:bg-slate-800/50",
                               !isEnabled && "opacity-60"
                             )}>
+                              {tool.annotations?.title && (
+                                <Typography
+                                  variant="body"
+                                  className="mb-1 font-medium text-slate-700 dark:text-slate-200">
+                                  {tool.annotations.title}
+                                </Typography>
+                              )}
                               {tool.description && (
                                 <Typography 
                                   variant="body" 
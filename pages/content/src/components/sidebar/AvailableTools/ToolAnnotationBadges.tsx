@@ -0,0 +1,70 @@
+import type React from 'react';
+import type { ToolAnnotations } from '@src/types/stores';
+import { isDestructiveTool } from '@src/utils/helpers';
+import { cn } from '@src/lib/utils';
+
+interface ToolAnnotationBadgesProps {
+  annotations?: ToolAnnotations;
+  className?: string;
+}
+
+interface Badge {
+  label: string;
+  hint: string;
+  className: string;
+}
+
+/**
+ * Badges for the behaviour hints a server gives for a tool
+ */
+const ToolAnnotationBadges: React.FC<ToolAnnotationBadgesProps> = ({ annotations, className }) => {
+  if (!annotations) {
+    return null;
+  }
+
+  const badges: Badge[] = [];
+  if (annotations.readOnlyHint) {
+    badges.push({
+      label: 'Read-only',
+      hint: 'Does not modify its environment',
+      className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300',
+    });
+  }
+  if (isDestructiveTool(annotations)) {
+    badges.push({
+      label: 'Destructive',
+      hint: 'May delete or overwrite data, Auto Execute asks before running it',
+      className: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300',
+    });
+  }
+  if (annotations.idempotentHint) {
+    badges.push({
+      label: 'Idempotent',
+      hint: 'Repeating a call with the same arguments has no further effect',
+      className: 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-400',
+    });
+  }
+  if (annotations.openWorldHint) {
+    badges.push({
+      label: 'Open world',
+      hint: 'Interacts with external systems such as the web',
+      className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+    });
+  }
+
+  if (badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <span className={cn('inline-flex flex-wrap items-center gap-1', className)}>
+      {badges.map(badge => (
+        <span key={badge.label} title={badge.hint} className={cn('px-1.5 py-0.5 text-[10px] rounded', badge.className)}>
+          {badge.label}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default ToolAnnotationBadges;
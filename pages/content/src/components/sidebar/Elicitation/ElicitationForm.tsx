@@ -0,0 +1,284 @@
+import type React from 'react';
+import { useState } from 'react';
+import { useElicitationRequests } from '../../../hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { ElicitationField, ElicitationRequest, ElicitationValue } from '@src/types/stores';
+import { Typography, Icon, Button } from '../ui';
+import { Card, CardContent } from '@src/components/ui/card';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('ElicitationForm');
+
+// Numbers are kept as typed text until the form is submitted
+type FieldValue = string | boolean | string[];
+
+const INPUT_TYPES: Record<NonNullable<ElicitationField['format']>, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100';
+
+const getOptions = (field: ElicitationField): { value: string; label: string }[] | null => {
+  const titled = field.type === 'array' ? field.items?.anyOf : field.oneOf;
+  if (titled) {
+    return titled.map(option => ({ value: option.const, label: option.title }));
+  }
+
+  const values = field.type === 'array' ? field.items?.enum : field.enum;
+  return values ? values.map((value, index) => ({ value, label: field.enumNames?.[index] ?? value })) : null;
+};
+
+const initialValue = (field: ElicitationField): FieldValue => {
+  if (field.type === 'boolean') return field.default === true;
+  if (field.type === 'array') return Array.isArray(field.default) ? field.default : [];
+  return field.default !== undefined ? String(field.default) : '';
+};
+
+const isEmpty = (value: FieldValue) => value === '' || (Array.isArray(value) && value.length === 0);
+
+const validateField = (field: ElicitationField, value: FieldValue, required: boolean): string | null => {
+  if (isEmpty(value)) {
+    return required ? 'Required' : null;
+  }
+
+  if (Array.isArray(value)) {
+    if (field.minItems !== undefined && value.length < field.minItems) return `Pick at least ${field.minItems}`;
+    if (field.maxItems !== undefined && value.length > field.maxItems) return `Pick at most ${field.maxItems}`;
+    return null;
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  if (field.type === 'number' || field.type === 'integer') {
+    const number = Number(value);
+    if (Number.isNaN(number)) return 'Enter a number';
+    if (field.type === 'integer' && !Number.isInteger(number)) return 'Enter a whole number';
+    if (field.minimum !== undefined && number < field.minimum) return `Must be at least ${field.minimum}`;
+    if (field.maximum !== undefined && number > field.maximum) return `Must be at most ${field.maximum}`;
+    return null;
+  }
+
+  if (field.minLength !== undefined && value.length < field.minLength) return `At least ${field.minLength} characters`;
+  if (field.maxLength !== undefined && value.length > field.maxLength) return `At most ${field.maxLength} characters`;
+  if (field.format === 'email' && !/^[^\s@]+@[^\s@]+$/.test(value)) return 'Enter an email address';
+  if (field.format === 'uri') {
+    try {
+      new URL(value);
+    } catch {
+      return 'Enter a URL';
+    }
+  }
+  return null;
+};
+
+const toContentValue = (field: ElicitationField, value: FieldValue): ElicitationValue => {
+  if (typeof value !== 'string') return value;
+  if (field.type === 'number' || field.type === 'integer') return Number(value);
+  if (field.format === 'date-time') return new Date(value).toISOString();
+  return value;
+};
+
+interface ElicitationRequestCardProps {
+  request: ElicitationRequest;
+  queuedCount: number;
+}
+
+const ElicitationRequestCard: React.FC<ElicitationRequestCardProps> = ({ request, queuedCount }) => {
+  const { respondToElicitation } = useMcpCommunication();
+  const { requestId, serverName, params } = request;
+  const fields = Object.entries(params.requestedSchema.properties ?? {});
+  const required = new Set(params.requestedSchema.required ?? []);
+
+  const [values, setValues] = useState<Record<string, FieldValue>>(() =>
+    Object.fromEntries(fields.map(([name, field]) => [name, initialValue(field)])),
+  );
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = Object.fromEntries(
+    fields.map(([name, field]) => [name, validateField(field, values[name], required.has(name))]),
+  );
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const respond = async (response: Parameters<typeof respondToElicitation>[1]) => {
+    try {
+      await respondToElicitation(requestId, response);
+    } catch (err) {
+      logger.error(`Failed to answer elicitation request ${requestId}:`, err);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (hasErrors) {
+      setShowErrors(true);
+      return;
+    }
+
+    const content = Object.fromEntries(
+      fields
+        .filter(([name]) => !isEmpty(values[name]))
+        .map(([name, field]) => [name, toContentValue(field, values[name])]),
+    );
+    respond({ action: 'accept', content });
+  };
+
+  const setValue = (name: string, value: FieldValue) => setValues(prev => ({ ...prev, [name]: value }));
+
+  const renderInput = (name: string, field: ElicitationField) => {
+    const value = values[name];
+    const options = getOptions(field);
+
+    if (field.type === 'boolean') {
+      return (
+        <label className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300">
+          <input type="checkbox" checked={value === true} onChange={e => setValue(name, e.target.checked)} />
+          {field.description || field.title || name}
+        </label>
+      );
+    }
+
+    if (field.type === 'array' && options) {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="space-y-1">
+          {options.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={e =>
+                  setValue(
+                    name,
+                    e.target.checked
+                      ? [...selected, option.value]
+                      : selected.filter(current => current !== option.value),
+                  )
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    if (options) {
+      return (
+        <select value={String(value)} onChange={e => setValue(name, e.target.value)} className={inputClassName}>
+          <option value="">Select...</option>
+          {options.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    const isNumber = field.type === 'number' || field.type === 'integer';
+    return (
+      <input
+        type={isNumber ? 'number' : field.format ? INPUT_TYPES[field.format] : 'text'}
+        value={String(value)}
+        min={field.minimum}
+        max={field.maximum}
+        step={field.type === 'integer' ? 1 : isNumber ? 'any' : undefined}
+        onChange={e => setValue(name, e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <Card className="sidebar-card border-indigo-300 dark:border-indigo-700 dark:bg-slate-800 flex-shrink-0 overflow-hidden rounded-lg shadow-sm">
+      <CardContent className="p-3">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex items-start gap-2">
+            <Icon name="info" size="sm" className="mt-0.5 text-indigo-600 dark:text-indigo-400" />
+            <div className="min-w-0 flex-1">
+              <Typography variant="subtitle" className="font-medium text-slate-800 dark:text-slate-100">
+                {serverName} needs your input
+              </Typography>
+              <Typography variant="small" className="block whitespace-pre-wrap text-slate-600 dark:text-slate-400">
+                {params.message}
+              </Typography>
+              {queuedCount > 0 && (
+                <Typography variant="small" className="block text-slate-500 dark:text-slate-400">
+                  {queuedCount} more waiting
+                </Typography>
+              )}
+            </div>
+          </div>
+
+          {fields.map(([name, field]) => (
+            <div key={name}>
+              {field.type !== 'boolean' && (
+                <>
+                  <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    {field.title || name}
+                    {required.has(name) && <span className="ml-0.5 text-red-500">*</span>}
+                  </label>
+                  {field.description && (
+                    <Typography variant="small" className="block mb-1 text-slate-500 dark:text-slate-400">
+                      {field.description}
+                    </Typography>
+                  )}
+                </>
+              )}
+              {renderInput(name, field)}
+              {showErrors && errors[name] && (
+                <Typography variant="small" className="block text-red-600 dark:text-red-400">
+                  {errors[name]}
+                </Typography>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Button type="submit" size="sm" variant="outline" className="h-7 px-3 text-xs">
+              Submit
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => respond({ action: 'decline' })}
+              className="h-7 px-3 text-xs">
+              Decline
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => respond({ action: 'cancel' })}
+              className="h-7 px-3 text-xs">
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * Forms for elicitation/create requests, answered one at a time in arrival order
+ */
+const ElicitationForm: React.FC = () => {
+  const { requests } = useElicitationRequests();
+  const [current] = requests;
+
+  if (!current) {
+    return null;
+  }
+
+  return <ElicitationRequestCard key={current.requestId} request={current} queuedCount={requests.length - 1} />;
+};
+
+export default ElicitationForm;
@@ -16,6 +16,8 @@ const logger = createLogger('InstructionManager');
 export const instructionsState = {
   instructions: '',
   updating: false, // Flag to prevent circular updates
+  // Instructions last inserted or attached into the chat, null until the first insert
+  insertedInstructions: null as string | null,
   setInstructions: (newInstructions: string) => {
     // Don't update if the value hasn't changed
     if (instructionsState.instructions === newInstructions) {
@@ -32,22 +34,33 @@ export const instructionsState = {
     instructionsState.updating = true;
     instructionsState.instructions = newInstructions;
 
-    logger.debug(`Broadcasting instruction update to ${instructionsState.listeners.length} listeners`);
-
-    // Call all registered listeners when instructions change
     try {
-      instructionsState.listeners.forEach((listener, index) => {
-        try {
-          listener(newInstructions);
-        } catch (error) {
-          logger.error(`Error in listener ${index}:`, error);
-        }
-      });
+      instructionsState.notify();
     } finally {
       // Reset flag immediately after all listeners have been called
       instructionsState.updating = false;
     }
   },
+  // Remember what the chat has seen so tool changes can flag it as outdated
+  markInserted: () => {
+    instructionsState.insertedInstructions = instructionsState.instructions;
+    instructionsState.notify();
+  },
+  isOutdated: () =>
+    instructionsState.insertedInstructions !== null &&
+    instructionsState.insertedInstructions !== instructionsState.instructions,
+  notify: () => {
+    logger.debug(`Broadcasting instruction update to ${instructionsState.listeners.length} listeners`);
+
+    // Call all registered listeners when instructions change
+    instructionsState.listeners.forEach((listener, index) => {
+      try {
+        listener(instructionsState.instructions);
+      } catch (error) {
+        logger.error(`Error in listener ${index}:`, error);
+      }
+    });
+  },
   listeners: [] as ((instructions: string) => void)[],
   subscribe: (listener: (instructions: string) => void) => {
     instructionsState.listeners.push(listener);
@@ -117,6 +130,7 @@ const InstructionManager: React.FC<InstructionManagerProps> = ({ adapter, tools
   const [copySuccess, setCopySuccess] = useState(false);
   const [insertSuccess, setInsertSuccess] = useState(false);
   const [attachSuccess, setAttachSuccess] = useState(false);
+  const [isOutdated, setIsOutdated] = useState(instructionsState.isOutdated());
 
   // Custom instructions state - get from preferences
   const [customInstructions, setCustomInstructions] = useState(preferences.customInstructions || '');
@@ -259,6 +273,7 @@ const InstructionManager: React.FC<InstructionManagerProps> = ({ adapter, tools
         logMessage('[InstructionManager] Syncing instructions from global state');
         setInstructions(newInstructions);
       }
+      setIsOutdated(instructionsState.isOutdated());
     });
 
     return unsubscribe;
@@ -272,6 +287,7 @@ const InstructionManager: React.FC<InstructionManagerProps> = ({ adapter, tools
     try {
       logMessage('Inserting instructions into chat');
       adapter.insertTextIntoInput(instructions);
+      instructionsState.markInserted();
       setInsertSuccess(true);
       setTimeout(() => setInsertSuccess(false), 2000);
     } catch (error) {
@@ -313,6 +329,7 @@ const InstructionManager: React.FC<InstructionManagerProps> = ({ adapter, tools
       logMessage(`Attaching instructions as ${fileName}`);
       const file = new File([instructions], fileName, { type: fileType });
       await adapter.attachFile(file);
+      instructionsState.markInserted();
       setAttachSuccess(true);
       setTimeout(() => setAttachSuccess(false), 2000);
     } catch (error) {
@@ -464,6 +481,21 @@ const InstructionManager: React.FC<InstructionManagerProps> = ({ adapter, tools
           </div>
         </div>
 
+        {isOutdated && !isEditing && (
+          <div className="px-3 py-2 flex items-center justify-between gap-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800">
+            <span className="text-xs text-amber-700 dark:text-amber-400">
+              Instructions changed after they were inserted into the chat, e.g. the server's tools changed.
+            </span>
+            <ActionButton
+              onClick={handleInsertInChat}
+              loading={isInserting}
+              success={insertSuccess}
+              color="amber"
+              label="Insert"
+            />
+          </div>
+        )}
+
         <div className="p-3 bg-white dark:bg-slate-900">
           {isEditing ? (
             <textarea
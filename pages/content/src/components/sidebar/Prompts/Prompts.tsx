@@ -0,0 +1,270 @@
+import type React from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { usePrompts, useAdditionalServers, useConnectionStatus } from '../../../hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { Prompt } from '@src/types/stores';
+import type { SidebarAdapter } from '@src/types/plugins';
+import { logMessage, messagesToChatInput } from '@src/utils/helpers';
+import { Typography, Icon, Button } from '../ui';
+import { cn } from '@src/lib/utils';
+import { Card, CardHeader, CardContent } from '@src/components/ui/card';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('Prompts');
+
+interface PromptsProps {
+  adapter: SidebarAdapter;
+}
+
+const promptKey = (prompt: Prompt) => `${prompt.serverId ?? ''}|${prompt.name}`;
+
+const Prompts: React.FC<PromptsProps> = ({ adapter }) => {
+  const { prompts, isLoading, error } = usePrompts();
+  const { servers: additionalServers } = useAdditionalServers();
+  const { isConnected } = useConnectionStatus();
+  const { getPrompts, getPrompt } = useMcpCommunication();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [argumentValues, setArgumentValues] = useState<Record<string, Record<string, string>>>({});
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [promptError, setPromptError] = useState<string | null>(null);
+  const [actionStatus, setActionStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    (forceRefresh: boolean) => {
+      getPrompts(forceRefresh).catch(err => {
+        logger.error('Failed to load prompts:', err);
+      });
+    },
+    [getPrompts],
+  );
+
+  // Load once connected, later changes arrive through list_changed broadcasts
+  useEffect(() => {
+    if (isConnected) {
+      refresh(false);
+    }
+  }, [isConnected, refresh]);
+
+  const serverName = useCallback(
+    (serverId?: string) => additionalServers.find(server => server.id === serverId)?.name ?? serverId,
+    [additionalServers],
+  );
+
+  const term = searchTerm.toLowerCase();
+  const filteredPrompts = useMemo(
+    () =>
+      prompts.filter(
+        prompt =>
+          prompt.name.toLowerCase().includes(term) ||
+          prompt.title?.toLowerCase().includes(term) ||
+          prompt.description?.toLowerCase().includes(term),
+      ),
+    [prompts, term],
+  );
+
+  const handleSelect = (prompt: Prompt) => {
+    const key = promptKey(prompt);
+    setSelectedKey(selectedKey === key ? null : key);
+    setPromptError(null);
+  };
+
+  const showActionStatus = (message: string) => {
+    setActionStatus(message);
+    setTimeout(() => setActionStatus(null), 2000);
+  };
+
+  const handleInsert = async (prompt: Prompt) => {
+    const key = promptKey(prompt);
+    const values = argumentValues[key] ?? {};
+    const args = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+
+    setPendingKey(key);
+    setPromptError(null);
+    try {
+      const { messages } = await getPrompt(prompt.name, args, prompt.serverId);
+      const canAttach = adapter.supportsFileUpload();
+      const { text, files } = messagesToChatInput(messages, canAttach);
+
+      if (!text && files.length === 0) {
+        setPromptError('The prompt returned no content that can be inserted');
+        return;
+      }
+
+      logMessage(`[Prompts] Inserting prompt ${prompt.name}: ${text.length} characters, ${files.length} files`);
+      if (text) {
+        await adapter.insertTextIntoInput(text);
+      }
+      for (const file of files) {
+        await adapter.attachFile(file);
+      }
+      showActionStatus(files.length > 0 ? `Inserted with ${files.length} attachment(s)` : 'Inserted');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error(`Failed to get prompt ${prompt.name}:`, err);
+      setPromptError(message);
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const renderArgumentForm = (prompt: Prompt) => {
+    const key = promptKey(prompt);
+    const values = argumentValues[key] ?? {};
+    const promptArguments = prompt.arguments ?? [];
+    const missingRequired = promptArguments.some(argument => argument.required && !values[argument.name]);
+    const isPending = pendingKey === key;
+
+    return (
+      <div className="space-y-2">
+        {promptArguments.map(argument => (
+          <div key={argument.name}>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
+              {argument.name}
+              {argument.required && <span className="ml-0.5 text-red-500">*</span>}
+            </label>
+            {argument.description && (
+              <Typography variant="small" className="block mb-1 text-slate-500 dark:text-slate-400">
+                {argument.description}
+              </Typography>
+            )}
+            <textarea
+              rows={1}
+              value={values[argument.name] ?? ''}
+              onChange={e =>
+                setArgumentValues(prev => ({ ...prev, [key]: { ...values, [argument.name]: e.target.value } }))
+              }
+              className="w-full px-2 py-1.5 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 resize-y"
+            />
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleInsert(prompt)}
+            disabled={missingRequired || isPending}
+            className="h-7 px-3 text-xs">
+            {isPending ? 'Loading...' : 'Insert'}
+          </Button>
+          {actionStatus && (
+            <Typography variant="small" className="text-slate-500 dark:text-slate-400">
+              {actionStatus}
+            </Typography>
+          )}
+        </div>
+        {promptError && (
+          <Typography variant="small" className="block text-red-600 dark:text-red-400">
+            {promptError}
+          </Typography>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
+      <CardHeader className="p-4 pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Typography variant="h4" className="font-semibold text-slate-800 dark:text-slate-100">
+              Prompts
+            </Typography>
+            <Typography variant="small" className="text-slate-500 dark:text-slate-400">
+              {prompts.length} prompts
+            </Typography>
+          </div>
+          <Button
+            onClick={() => refresh(true)}
+            disabled={isLoading}
+            size="sm"
+            variant="outline"
+            className={cn(
+              'h-9 w-9 p-0',
+              isLoading ? 'opacity-50' : 'bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600',
+            )}
+            aria-label="Refresh prompts">
+            <Icon
+              name="refresh"
+              size="sm"
+              className={cn('text-slate-700 dark:text-slate-300', isLoading ? 'animate-spin' : '')}
+            />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-0 bg-white dark:bg-slate-900">
+        <div className="relative mb-4">
+          <input
+            type="text"
+            placeholder="Search prompts..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full px-3 py-2 pl-10 border border-slate-300 dark:border-slate-600 rounded text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+          />
+          <div className="absolute left-3 top-2.5">
+            <Icon name="search" size="sm" className="text-slate-400 dark:text-slate-500" />
+          </div>
+        </div>
+
+        {error && (
+          <Typography variant="small" className="block mb-3 text-red-600 dark:text-red-400">
+            {error}
+          </Typography>
+        )}
+
+        {!isLoading && prompts.length === 0 && (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            <Icon name="file-text" className="w-12 h-12 mx-auto mb-3" />
+            <Typography variant="body">No prompts available</Typography>
+            <Typography variant="small" className="mt-1">
+              Connected servers do not expose any prompts
+            </Typography>
+          </div>
+        )}
+
+        {filteredPrompts.length > 0 && (
+          <div className="space-y-1">
+            {filteredPrompts.map(prompt => {
+              const key = promptKey(prompt);
+              const isSelected = selectedKey === key;
+              return (
+                <div key={key} className="rounded border border-slate-200 dark:border-slate-700">
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(prompt)}
+                    className="w-full flex items-start gap-2 p-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800">
+                    <Icon
+                      name={isSelected ? 'chevron-down' : 'chevron-right'}
+                      size="sm"
+                      className="mt-0.5 text-slate-400"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <Typography variant="body" className="text-sm font-medium text-slate-800 dark:text-slate-200">
+                        {prompt.title || prompt.name}
+                        {prompt.serverId && (
+                          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                            {serverName(prompt.serverId)}
+                          </span>
+                        )}
+                      </Typography>
+                      {prompt.description && (
+                        <Typography variant="small" className="block text-slate-600 dark:text-slate-400">
+                          {prompt.description}
+                        </Typography>
+                      )}
+                    </div>
+                  </button>
+                  {isSelected && <div className="px-2 pb-2">{renderArgumentForm(prompt)}</div>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Prompts;
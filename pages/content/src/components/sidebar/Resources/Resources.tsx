@@ -0,0 +1,482 @@
+import type React from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useResources, useAdditionalServers, useConnectionStatus } from '../../../hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { Resource, ResourceTemplate, ResourceContents } from '@src/types/stores';
+import type { SidebarAdapter } from '@src/types/plugins';
+import { logMessage, resourceContentsToFile } from '@src/utils/helpers';
+import { Typography, Icon, Button } from '../ui';
+import { cn } from '@src/lib/utils';
+import { Card, CardHeader, CardContent } from '@src/components/ui/card';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('Resources');
+
+// Longer text is cut in the preview, insert and attach still use the full content
+const PREVIEW_CHAR_LIMIT = 5000;
+
+interface ResourcesProps {
+  adapter: SidebarAdapter;
+}
+
+interface ReadState {
+  uri: string;
+  contents?: ResourceContents[];
+  error?: string;
+  isLoading: boolean;
+}
+
+const resourceKey = (uri: string, serverId?: string) => `${serverId ?? ''}|${uri}`;
+
+/**
+ * Variable names used in a URI template, e.g. `file:///{+path}{?version}` gives path and version
+ */
+const getTemplateVariables = (uriTemplate: string): string[] => {
+  const names: string[] = [];
+  for (const [, expression] of uriTemplate.matchAll(/\{[+#./;?&]?([^}]+)\}/g)) {
+    for (const spec of expression.split(',')) {
+      const name = spec.replace(/\*$|:\d+$/, '').trim();
+      if (name && !names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+};
+
+/**
+ * Expand an RFC 6570 URI template, without the list and map forms servers rarely use
+ */
+const expandUriTemplate = (uriTemplate: string, values: Record<string, string>): string =>
+  uriTemplate.replace(/\{([+#./;?&]?)([^}]+)\}/g, (_, operator: string, expression: string) => {
+    const names = expression.split(',').map(spec => spec.replace(/\*$|:\d+$/, '').trim());
+    const defined = names.filter(name => values[name]);
+    const encode = (value: string) =>
+      operator === '+' || operator === '#' ? encodeURI(value) : encodeURIComponent(value);
+
+    switch (operator) {
+      case '?':
+      case '&':
+        return defined.length > 0 ? operator + defined.map(name => `${name}=${encode(values[name])}`).join('&') : '';
+      case ';':
+        return defined.map(name => `;${name}=${encode(values[name])}`).join('');
+      case '.':
+      case '/':
+        return defined.map(name => operator + encode(values[name])).join('');
+      case '#':
+        return defined.length > 0 ? '#' + defined.map(name => encode(values[name])).join(',') : '';
+      default:
+        return defined.map(name => encode(values[name])).join(',');
+    }
+  });
+
+const ContentsPreview: React.FC<{ contents: ResourceContents[] }> = ({ contents }) => {
+  if (contents.length === 0) {
+    return (
+      <Typography variant="small" className="text-slate-500 dark:text-slate-400">
+        The server returned no contents
+      </Typography>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {contents.map((content, index) => {
+        if (content.text !== undefined) {
+          const isCut = content.text.length > PREVIEW_CHAR_LIMIT;
+          return (
+            <div key={index}>
+              <pre className="max-h-48 overflow-auto p-2 text-xs whitespace-pre-wrap break-words rounded bg-slate-50 dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700">
+                {isCut ? content.text.slice(0, PREVIEW_CHAR_LIMIT) : content.text}
+              </pre>
+              {isCut && (
+                <Typography variant="small" className="text-slate-500 dark:text-slate-400">
+                  Preview shows {PREVIEW_CHAR_LIMIT} of {content.text.length} characters
+                </Typography>
+              )}
+            </div>
+          );
+        }
+
+        const blob = content.blob ?? '';
+        if (content.mimeType?.startsWith('image/')) {
+          return (
+            <img
+              key={index}
+              src={`data:${content.mimeType};base64,${blob}`}
+              alt={content.uri}
+              className="max-h-48 max-w-full rounded border border-slate-200 dark:border-slate-700"
+            />
+          );
+        }
+
+        return (
+          <Typography key={index} variant="small" className="text-slate-600 dark:text-slate-400">
+            Binary content, {Math.floor((blob.length * 3) / 4)} bytes ({content.mimeType || 'unknown type'})
+          </Typography>
+        );
+      })}
+    </div>
+  );
+};
+
+const Resources: React.FC<ResourcesProps> = ({ adapter }) => {
+  const { resources, resourceTemplates, isLoading, error } = useResources();
+  const { servers: additionalServers } = useAdditionalServers();
+  const { isConnected } = useConnectionStatus();
+  const { getResources, readResource } = useMcpCommunication();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [reads, setReads] = useState<Record<string, ReadState>>({});
+  const [templateValues, setTemplateValues] = useState<Record<string, Record<string, string>>>({});
+  const [actionStatus, setActionStatus] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    (forceRefresh: boolean) => {
+      getResources(forceRefresh).catch(err => {
+        logger.error('Failed to load resources:', err);
+      });
+    },
+    [getResources],
+  );
+
+  // Load once connected, later changes arrive through list_changed broadcasts
+  useEffect(() => {
+    if (isConnected) {
+      refresh(false);
+    }
+  }, [isConnected, refresh]);
+
+  const serverName = useCallback(
+    (serverId?: string) => additionalServers.find(server => server.id === serverId)?.name ?? serverId,
+    [additionalServers],
+  );
+
+  const term = searchTerm.toLowerCase();
+  const filteredResources = useMemo(
+    () =>
+      resources.filter(
+        resource =>
+          resource.name.toLowerCase().includes(term) ||
+          resource.uri.toLowerCase().includes(term) ||
+          resource.description?.toLowerCase().includes(term),
+      ),
+    [resources, term],
+  );
+  const filteredTemplates = useMemo(
+    () =>
+      resourceTemplates.filter(
+        template =>
+          template.name.toLowerCase().includes(term) ||
+          template.uriTemplate.toLowerCase().includes(term) ||
+          template.description?.toLowerCase().includes(term),
+      ),
+    [resourceTemplates, term],
+  );
+
+  const read = useCallback(
+    async (key: string, uri: string, serverId?: string) => {
+      setReads(prev => ({ ...prev, [key]: { uri, isLoading: true } }));
+      try {
+        const contents = await readResource(uri, serverId);
+        setReads(prev => ({ ...prev, [key]: { uri, contents, isLoading: false } }));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        logger.error(`Failed to read resource ${uri}:`, err);
+        setReads(prev => ({ ...prev, [key]: { uri, error: message, isLoading: false } }));
+      }
+    },
+    [readResource],
+  );
+
+  const handleSelectResource = (resource: Resource) => {
+    const key = resourceKey(resource.uri, resource.serverId);
+    if (selectedKey === key) {
+      setSelectedKey(null);
+      return;
+    }
+    setSelectedKey(key);
+    if (!reads[key]?.contents) {
+      read(key, resource.uri, resource.serverId);
+    }
+  };
+
+  const handleSelectTemplate = (template: ResourceTemplate) => {
+    const key = resourceKey(template.uriTemplate, template.serverId);
+    setSelectedKey(selectedKey === key ? null : key);
+  };
+
+  const handleReadTemplate = (template: ResourceTemplate) => {
+    const key = resourceKey(template.uriTemplate, template.serverId);
+    const uri = expandUriTemplate(template.uriTemplate, templateValues[key] ?? {});
+    read(key, uri, template.serverId);
+  };
+
+  const showActionStatus = (message: string) => {
+    setActionStatus(message);
+    setTimeout(() => setActionStatus(null), 2000);
+  };
+
+  const handleInsert = async (contents: ResourceContents[]) => {
+    const text = contents
+      .filter(content => content.text !== undefined)
+      .map(content => content.text)
+      .join('\n\n');
+    if (!text) return;
+
+    try {
+      logMessage(`[Resources] Inserting ${text.length} characters into chat`);
+      await adapter.insertTextIntoInput(text);
+      showActionStatus('Inserted');
+    } catch (err) {
+      logger.error('Error inserting resource:', err);
+      showActionStatus('Insert failed');
+    }
+  };
+
+  const handleAttach = async (contents: ResourceContents[], name: string) => {
+    if (!adapter.supportsFileUpload()) return;
+
+    try {
+      for (const content of contents) {
+        const file = resourceContentsToFile(content, name);
+        logMessage(`[Resources] Attaching ${file.name} (${file.type})`);
+        await adapter.attachFile(file);
+      }
+      showActionStatus('Attached');
+    } catch (err) {
+      logger.error('Error attaching resource:', err);
+      showActionStatus('Attach failed');
+    }
+  };
+
+  const renderReadResult = (key: string, name: string) => {
+    const state = reads[key];
+    if (!state) return null;
+
+    if (state.isLoading) {
+      return (
+        <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400">
+          <Icon name="refresh" size="sm" className="animate-spin" />
+          <Typography variant="small">Reading {state.uri}...</Typography>
+        </div>
+      );
+    }
+
+    if (state.error) {
+      return (
+        <Typography variant="small" className="text-red-600 dark:text-red-400">
+          {state.error}
+        </Typography>
+      );
+    }
+
+    const contents = state.contents ?? [];
+    const hasText = contents.some(content => content.text !== undefined);
+
+    return (
+      <div className="space-y-2">
+        <ContentsPreview contents={contents} />
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleInsert(contents)}
+            disabled={!hasText}
+            className="h-7 px-3 text-xs">
+            Insert
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleAttach(contents, name)}
+            disabled={contents.length === 0 || !adapter.supportsFileUpload()}
+            className="h-7 px-3 text-xs">
+            Attach
+          </Button>
+          {actionStatus && (
+            <Typography variant="small" className="text-slate-500 dark:text-slate-400">
+              {actionStatus}
+            </Typography>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const isEmpty = resources.length === 0 && resourceTemplates.length === 0;
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
+      <CardHeader className="p-4 pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Typography variant="h4" className="font-semibold text-slate-800 dark:text-slate-100">
+              Resources
+            </Typography>
+            <Typography variant="small" className="text-slate-500 dark:text-slate-400">
+              {resources.length} resources, {resourceTemplates.length} templates
+            </Typography>
+          </div>
+          <Button
+            onClick={() => refresh(true)}
+            disabled={isLoading}
+            size="sm"
+            variant="outline"
+            className={cn(
+              'h-9 w-9 p-0',
+              isLoading ? 'opacity-50' : 'bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600',
+            )}
+            aria-label="Refresh resources">
+            <Icon
+              name="refresh"
+              size="sm"
+              className={cn('text-slate-700 dark:text-slate-300', isLoading ? 'animate-spin' : '')}
+            />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-4 pt-0 bg-white dark:bg-slate-900">
+        <div className="relative mb-4">
+          <input
+            type="text"
+            placeholder="Search resources..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full px-3 py-2 pl-10 border border-slate-300 dark:border-slate-600 rounded text-sm bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+          />
+          <div className="absolute left-3 top-2.5">
+            <Icon name="search" size="sm" className="text-slate-400 dark:text-slate-500" />
+          </div>
+        </div>
+
+        {error && (
+          <Typography variant="small" className="block mb-3 text-red-600 dark:text-red-400">
+            {error}
+          </Typography>
+        )}
+
+        {!isLoading && isEmpty && (
+          <div className="text-center py-8 text-slate-500 dark:text-slate-400">
+            <Icon name="file-text" className="w-12 h-12 mx-auto mb-3" />
+            <Typography variant="body">No resources available</Typography>
+            <Typography variant="small" className="mt-1">
+              Connected servers do not expose any resources
+            </Typography>
+          </div>
+        )}
+
+        {filteredResources.length > 0 && (
+          <div className="space-y-1 mb-4">
+            {filteredResources.map(resource => {
+              const key = resourceKey(resource.uri, resource.serverId);
+              const isSelected = selectedKey === key;
+              return (
+                <div key={key} className="rounded border border-slate-200 dark:border-slate-700">
+                  <button
+                    type="button"
+                    onClick={() => handleSelectResource(resource)}
+                    className="w-full flex items-start gap-2 p-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800">
+                    <Icon
+                      name={isSelected ? 'chevron-down' : 'chevron-right'}
+                      size="sm"
+                      className="mt-0.5 text-slate-400"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <Typography variant="body" className="text-sm font-medium text-slate-800 dark:text-slate-200">
+                        {resource.title || resource.name}
+                        {resource.serverId && (
+                          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                            {serverName(resource.serverId)}
+                          </span>
+                        )}
+                      </Typography>
+                      <Typography variant="small" className="block truncate text-slate-500 dark:text-slate-400">
+                        {resource.uri}
+                        {resource.mimeType && ` · ${resource.mimeType}`}
+                      </Typography>
+                      {resource.description && (
+                        <Typography variant="small" className="block text-slate-600 dark:text-slate-400">
+                          {resource.description}
+                        </Typography>
+                      )}
+                    </div>
+                  </button>
+                  {isSelected && <div className="px-2 pb-2">{renderReadResult(key, resource.name)}</div>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {filteredTemplates.length > 0 && (
+          <div>
+            <Typography variant="small" className="block mb-2 font-medium text-slate-600 dark:text-slate-300">
+              Templates
+            </Typography>
+            <div className="space-y-1">
+              {filteredTemplates.map(template => {
+                const key = resourceKey(template.uriTemplate, template.serverId);
+                const isSelected = selectedKey === key;
+                const values = templateValues[key] ?? {};
+                return (
+                  <div key={key} className="rounded border border-slate-200 dark:border-slate-700">
+                    <button
+                      type="button"
+                      onClick={() => handleSelectTemplate(template)}
+                      className="w-full flex items-start gap-2 p-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800">
+                      <Icon
+                        name={isSelected ? 'chevron-down' : 'chevron-right'}
+                        size="sm"
+                        className="mt-0.5 text-slate-400"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <Typography variant="body" className="text-sm font-medium text-slate-800 dark:text-slate-200">
+                          {template.title || template.name}
+                          {template.serverId && (
+                            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                              {serverName(template.serverId)}
+                            </span>
+                          )}
+                        </Typography>
+                        <Typography variant="small" className="block truncate text-slate-500 dark:text-slate-400">
+                          {template.uriTemplate}
+                        </Typography>
+                      </div>
+                    </button>
+                    {isSelected && (
+                      <div className="px-2 pb-2 space-y-2">
+                        {getTemplateVariables(template.uriTemplate).map(name => (
+                          <input
+                            key={name}
+                            type="text"
+                            placeholder={name}
+                            value={values[name] ?? ''}
+                            onChange={e =>
+                              setTemplateValues(prev => ({ ...prev, [key]: { ...values, [name]: e.target.value } }))
+                            }
+                            className="w-full px-2 py-1.5 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+                          />
+                        ))}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReadTemplate(template)}
+                          className="h-7 px-3 text-xs">
+                          Read
+                        </Button>
+                        {renderReadResult(key, template.name)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Resources;
@@ -0,0 +1,215 @@
+import type React from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSamplingRequests } from '../../../hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { SamplingRequest } from '@src/types/stores';
+import type { SidebarAdapter } from '@src/types/plugins';
+import { logMessage, messagesToChatInput } from '@src/utils/helpers';
+import { Typography, Icon, Button } from '../ui';
+import { Card, CardContent } from '@src/components/ui/card';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('SamplingApproval');
+
+interface SamplingApprovalProps {
+  adapter: SidebarAdapter;
+}
+
+interface SamplingRequestCardProps {
+  adapter: SidebarAdapter;
+  request: SamplingRequest;
+  queuedCount: number;
+}
+
+type Phase = 'review' | 'waiting' | 'reply';
+
+/**
+ * One sampling request: the user reviews and edits the prompt, the chat answers it,
+ * then the user reviews the reply before it goes back to the server.
+ */
+const SamplingRequestCard: React.FC<SamplingRequestCardProps> = ({ adapter, request, queuedCount }) => {
+  const { respondToSampling } = useMcpCommunication();
+  const { params, serverName, requestId } = request;
+
+  const canAttach = adapter.supportsFileUpload();
+  const canReadReplies = adapter.supportsResponseReading();
+  const initial = useMemo(() => {
+    const { text, files } = messagesToChatInput(params.messages, canAttach);
+    return { text: params.systemPrompt ? `${params.systemPrompt}\n\n${text}` : text, files };
+  }, [params, canAttach]);
+
+  const [phase, setPhase] = useState<Phase>('review');
+  const [promptText, setPromptText] = useState(initial.text);
+  const [replyText, setReplyText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop watching the page when the request goes away, e.g. the server cancelled it
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const respond = async (response: Parameters<typeof respondToSampling>[1]) => {
+    abortRef.current?.abort();
+    try {
+      await respondToSampling(requestId, response);
+    } catch (err) {
+      logger.error(`Failed to answer sampling request ${requestId}:`, err);
+    }
+  };
+
+  const handleSend = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setPhase('waiting');
+
+    try {
+      // Start watching before submitting so the new reply is not missed
+      const reply = adapter.waitForResponse({ signal: controller.signal });
+      reply.catch(() => {});
+
+      logMessage(`[SamplingApproval] Sending sampling request ${requestId} to the chat`);
+      await adapter.insertTextIntoInput(promptText);
+      for (const file of initial.files) {
+        await adapter.attachFile(file);
+      }
+      await adapter.triggerSubmission();
+
+      setReplyText(await reply);
+      setPhase('reply');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      logger.error(`Sampling request ${requestId} failed:`, err);
+      setError(err instanceof Error ? err.message : String(err));
+      setPhase('review');
+    }
+  };
+
+  const handleReturn = () =>
+    respond({
+      result: {
+        role: 'assistant',
+        content: { type: 'text', text: replyText },
+        model: window.location.hostname,
+        stopReason: 'endTurn',
+      },
+    });
+
+  const handleReject = () => respond({ error: 'User rejected sampling request' });
+
+  const modelHints = params.modelPreferences?.hints?.map(hint => hint.name).filter(Boolean) ?? [];
+
+  return (
+    <Card className="sidebar-card border-amber-300 dark:border-amber-700 dark:bg-slate-800 flex-shrink-0 overflow-hidden rounded-lg shadow-sm">
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-start gap-2">
+          <Icon name="alert-triangle" size="sm" className="mt-0.5 text-amber-600 dark:text-amber-400" />
+          <div className="min-w-0 flex-1">
+            <Typography variant="subtitle" className="font-medium text-slate-800 dark:text-slate-100">
+              {serverName} wants to ask the chat's model
+            </Typography>
+            <Typography variant="small" className="block text-slate-500 dark:text-slate-400">
+              Up to {params.maxTokens} tokens
+              {modelHints.length > 0 && `, prefers ${modelHints.join(', ')}`}
+              {queuedCount > 0 && ` · ${queuedCount} more waiting`}
+            </Typography>
+          </div>
+        </div>
+
+        {phase === 'reply' ? (
+          <div>
+            <Typography variant="small" className="block mb-1 font-medium text-slate-600 dark:text-slate-300">
+              Reply returned to the server
+            </Typography>
+            <textarea
+              rows={6}
+              value={replyText}
+              onChange={e => setReplyText(e.target.value)}
+              className="w-full px-2 py-1.5 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 resize-y"
+            />
+          </div>
+        ) : (
+          <div>
+            <Typography variant="small" className="block mb-1 font-medium text-slate-600 dark:text-slate-300">
+              Message sent to the chat
+            </Typography>
+            <textarea
+              rows={6}
+              value={promptText}
+              onChange={e => setPromptText(e.target.value)}
+              disabled={phase === 'waiting'}
+              className="w-full px-2 py-1.5 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 resize-y disabled:opacity-60"
+            />
+            {initial.files.length > 0 && (
+              <Typography variant="small" className="block text-slate-500 dark:text-slate-400">
+                {initial.files.length} attachment(s) will be added
+              </Typography>
+            )}
+          </div>
+        )}
+
+        {!canReadReplies && (
+          <Typography variant="small" className="block text-amber-700 dark:text-amber-300">
+            This site's adapter cannot read assistant replies, so the request can only be rejected
+          </Typography>
+        )}
+
+        {error && (
+          <Typography variant="small" className="block text-red-600 dark:text-red-400">
+            {error}
+          </Typography>
+        )}
+
+        <div className="flex items-center gap-2">
+          {phase === 'review' && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleSend}
+              disabled={!canReadReplies || !promptText.trim()}
+              className="h-7 px-3 text-xs">
+              Send to chat
+            </Button>
+          )}
+          {phase === 'waiting' && (
+            <div className="flex items-center gap-2 text-slate-500 dark:text-slate-400">
+              <Icon name="refresh" size="sm" className="animate-spin" />
+              <Typography variant="small">Waiting for the reply...</Typography>
+            </div>
+          )}
+          {phase === 'reply' && (
+            <Button size="sm" variant="outline" onClick={handleReturn} className="h-7 px-3 text-xs">
+              Return to server
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleReject}
+            className="h-7 px-3 text-xs text-red-600 dark:text-red-400">
+            Reject
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const SamplingApproval: React.FC<SamplingApprovalProps> = ({ adapter }) => {
+  const { requests } = useSamplingRequests();
+  const [current] = requests;
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <SamplingRequestCard
+      key={current.requestId}
+      adapter={adapter}
+      request={current}
+      queuedCount={requests.length - 1}
+    />
+  );
+};
+
+export default SamplingApproval;
@@ -0,0 +1,381 @@
+import type React from 'react';
+import { useState } from 'react';
+import type { AdditionalServer, AdditionalServerStatus, ConnectionType, HeaderUpdate } from '../../../types/stores';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import { logMessage } from '@src/utils/helpers';
+import { Typography, Icon, Button } from '../ui';
+import { cn } from '@src/lib/utils';
+import HeadersEditor, { entriesToHeaders, headerNamesToEntries, keepStoredHeaders } from './HeadersEditor';
+import type { HeaderEntry } from './HeadersEditor';
+import ServerConfigImport from './ServerConfigImport';
+import type { ImportedServer } from '@src/utils/mcpServersConfig';
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200';
+
+const statusDotClassName: Record<string, string> = {
+  connected: 'bg-emerald-500',
+  connecting: 'bg-amber-400 animate-pulse',
+  reconnecting: 'bg-amber-400 animate-pulse',
+  error: 'bg-rose-500',
+  disconnected: 'bg-slate-400',
+};
+
+/**
+ * Build a namespace id from a display name. Tools of the server are exposed as `<id>.<tool>`.
+ */
+const createServerId = (name: string, existingIds: string[]): string => {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'server';
+
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+};
+
+const toDefinition = ({
+  id,
+  name,
+  uri,
+  connectionType,
+  enabled,
+  headerNames,
+}: AdditionalServerStatus): AdditionalServer => ({
+  id,
+  name,
+  uri,
+  connectionType,
+  enabled,
+  headers: keepStoredHeaders(headerNames),
+});
+
+const AdditionalServers: React.FC = () => {
+  const { additionalServers, updateAdditionalServers, reconnectServer, signIn } = useMcpCommunication();
+
+  const [newName, setNewName] = useState('');
+  const [newUri, setNewUri] = useState('');
+  const [newType, setNewType] = useState<ConnectionType>('sse');
+  const [newHeaders, setNewHeaders] = useState<HeaderEntry[]>([]);
+  const [editingHeadersId, setEditingHeadersId] = useState<string | null>(null);
+  const [editedHeaders, setEditedHeaders] = useState<HeaderEntry[]>([]);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [reconnectingId, setReconnectingId] = useState<string | null>(null);
+  const [signingInId, setSigningInId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const saveServers = async (servers: AdditionalServer[]) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await updateAdditionalServers(servers);
+      return true;
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : String(saveError);
+      logMessage(`[AdditionalServers] Failed to save servers: ${message}`);
+      setError(message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    const uri = newUri.trim();
+
+    if (!name || !uri) {
+      setError('Name and URI are required');
+      return;
+    }
+
+    try {
+      new URL(uri);
+    } catch {
+      setError(`Invalid URI: ${uri}`);
+      return;
+    }
+
+    let headers: HeaderUpdate;
+    try {
+      headers = entriesToHeaders(newHeaders);
+    } catch (headerError) {
+      setError(headerError instanceof Error ? headerError.message : String(headerError));
+      return;
+    }
+
+    const existing = additionalServers.map(toDefinition);
+    const server: AdditionalServer = {
+      id: createServerId(
+        name,
+        existing.map(item => item.id),
+      ),
+      name,
+      uri,
+      connectionType: newType,
+      enabled: true,
+      headers,
+    };
+
+    if (await saveServers([...existing, server])) {
+      setNewName('');
+      setNewUri('');
+      setNewHeaders([]);
+    }
+  };
+
+  const handleImport = (servers: ImportedServer[]) => {
+    const existing = additionalServers.map(toDefinition);
+    const ids = existing.map(item => item.id);
+    const imported = servers.map(server => {
+      const id = createServerId(server.name, ids);
+      ids.push(id);
+      return { ...server, id };
+    });
+    return saveServers([...existing, ...imported]);
+  };
+
+  const handleEditHeaders = (server: AdditionalServerStatus) => {
+    if (editingHeadersId === server.id) {
+      setEditingHeadersId(null);
+      return;
+    }
+    setEditingHeadersId(server.id);
+    setEditedHeaders(headerNamesToEntries(server.headerNames));
+  };
+
+  const handleSaveHeaders = async (serverId: string) => {
+    let headers: HeaderUpdate;
+    try {
+      headers = entriesToHeaders(editedHeaders);
+    } catch (headerError) {
+      setError(headerError instanceof Error ? headerError.message : String(headerError));
+      return;
+    }
+
+    const saved = await saveServers(
+      additionalServers.map(server =>
+        server.id === serverId ? { ...toDefinition(server), headers } : toDefinition(server),
+      ),
+    );
+    if (saved) {
+      setEditingHeadersId(null);
+    }
+  };
+
+  const handleToggle = (serverId: string) => {
+    saveServers(
+      additionalServers.map(server =>
+        server.id === serverId ? { ...toDefinition(server), enabled: !server.enabled } : toDefinition(server),
+      ),
+    );
+  };
+
+  const handleRemove = (serverId: string) => {
+    saveServers(additionalServers.filter(server => server.id !== serverId).map(toDefinition));
+  };
+
+  const handleSignIn = async (serverId: string) => {
+    setSigningInId(serverId);
+    setError('');
+    try {
+      await signIn(serverId);
+    } catch (signInError) {
+      const message = signInError instanceof Error ? signInError.message : String(signInError);
+      logMessage(`[AdditionalServers] Sign in failed: ${message}`);
+      setError(message);
+    } finally {
+      setSigningInId(null);
+    }
+  };
+
+  const handleReconnect = async (serverId: string) => {
+    setReconnectingId(serverId);
+    try {
+      await reconnectServer(serverId);
+    } catch (reconnectError) {
+      logMessage(
+        `[AdditionalServers] Reconnect failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
+      );
+    } finally {
+      setReconnectingId(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+      <Typography variant="h4" className="mb-1 text-slate-800 dark:text-slate-100 font-semibold">
+        Additional Servers
+      </Typography>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        Connected alongside the server above. Their tools are named <code>server-id.tool</code>.{' '}
+        {!isImporting && (
+          <button
+            type="button"
+            onClick={() => setIsImporting(true)}
+            className="font-medium text-blue-600 hover:underline dark:text-blue-400">
+            Import from JSON config
+          </button>
+        )}
+      </p>
+
+      {isImporting && (
+        <ServerConfigImport
+          existingUris={additionalServers.map(server => server.uri)}
+          disabled={isSaving}
+          onImport={handleImport}
+          onClose={() => setIsImporting(false)}
+        />
+      )}
+
+      {additionalServers.length > 0 && (
+        <div className="mb-3 space-y-2">
+          {additionalServers.map(server => (
+            <div key={server.id} className="p-2 rounded-lg border border-slate-200 dark:border-slate-700">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span
+                    className={cn(
+                      'w-2 h-2 rounded-full flex-shrink-0',
+                      server.enabled ? statusDotClassName[server.status] || 'bg-slate-400' : 'bg-slate-300',
+                    )}
+                    title={server.error || server.status}
+                  />
+                  <div className="min-w-0">
+                    <div className="font-medium text-slate-700 dark:text-slate-200 truncate">
+                      {server.name} <span className="text-slate-400">({server.id})</span>
+                    </div>
+                    <div className="text-slate-500 dark:text-slate-400 truncate" title={server.uri}>
+                      {server.uri}
+                    </div>
+                    {server.enabled && server.status === 'connected' && (
+                      <div className="text-emerald-600 dark:text-emerald-400">{server.toolCount} tools</div>
+                    )}
+                    {server.enabled && server.transport && (
+                      <div className="text-slate-500 dark:text-slate-400 break-words">{server.transport.reason}</div>
+                    )}
+                    {server.enabled && server.error && (
+                      <div className="text-rose-600 dark:text-rose-400 break-words">{server.error}</div>
+                    )}
+                    {server.enabled && server.authRequired && (
+                      <button
+                        onClick={() => handleSignIn(server.id)}
+                        disabled={signingInId === server.id}
+                        className="mt-1 text-xs font-medium text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">
+                        {signingInId === server.id ? 'Signing in...' : 'Sign in'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={server.enabled}
+                    onChange={() => handleToggle(server.id)}
+                    disabled={isSaving}
+                    title={server.enabled ? 'Disable server' : 'Enable server'}
+                    className="w-4 h-4 text-blue-600 bg-white border-slate-300 rounded focus:ring-blue-500 dark:bg-slate-700 dark:border-slate-600"
+                  />
+                  <button
+                    onClick={() => handleReconnect(server.id)}
+                    disabled={!server.enabled || reconnectingId === server.id}
+                    className="p-1 rounded text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-900/30 disabled:opacity-50"
+                    aria-label={`Reconnect ${server.name}`}
+                    title="Reconnect">
+                    <Icon name="refresh" size="sm" className={cn(reconnectingId === server.id && 'animate-spin')} />
+                  </button>
+                  <button
+                    onClick={() => handleEditHeaders(server)}
+                    className={cn(
+                      'p-1 rounded text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-700',
+                      editingHeadersId === server.id && 'bg-slate-100 dark:bg-slate-700',
+                    )}
+                    aria-label={`Edit headers for ${server.name}`}
+                    title={`Headers (${server.headerNames.length})`}>
+                    <Icon name="settings" size="sm" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(server.id)}
+                    disabled={isSaving}
+                    className="p-1 rounded text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/30 disabled:opacity-50"
+                    aria-label={`Remove ${server.name}`}
+                    title="Remove">
+                    <Icon name="x" size="sm" />
+                  </button>
+                </div>
+              </div>
+              {editingHeadersId === server.id && (
+                <div className="mt-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+                  <HeadersEditor
+                    entries={editedHeaders}
+                    onChange={setEditedHeaders}
+                    connectionType={server.connectionType}
+                    disabled={isSaving}
+                  />
+                  <div className="flex justify-end mt-2">
+                    <Button
+                      onClick={() => handleSaveHeaders(server.id)}
+                      variant="outline"
+                      size="sm"
+                      disabled={isSaving}
+                      className="h-7 px-3 text-xs font-medium">
+                      Save Headers
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="Name (e.g. GitHub)"
+          className={inputClassName}
+        />
+        <div className="flex gap-2">
+          <select
+            value={newType}
+            onChange={e => setNewType(e.target.value as ConnectionType)}
+            className={cn(inputClassName, 'w-auto')}>
+            <option value="auto">Auto</option>
+            <option value="sse">SSE</option>
+            <option value="websocket">WebSocket</option>
+            <option value="streamable-http">Streamable HTTP</option>
+          </select>
+          <input
+            type="text"
+            value={newUri}
+            onChange={e => setNewUri(e.target.value)}
+            placeholder="http://localhost:3007/sse"
+            className={inputClassName}
+          />
+        </div>
+        <HeadersEditor entries={newHeaders} onChange={setNewHeaders} connectionType={newType} disabled={isSaving} />
+        {error && <p className="text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+        <div className="flex justify-end">
+          <Button
+            onClick={handleAdd}
+            variant="outline"
+            size="sm"
+            disabled={isSaving}
+            className="h-8 px-3 text-xs font-medium">
+            Add Server
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdditionalServers;
@@ -0,0 +1,138 @@
+import type React from 'react';
+import { useState } from 'react';
+import type { ConnectionType, HeaderUpdate } from '../../../types/stores';
+import { Icon } from '../ui';
+import { cn } from '@src/lib/utils';
+
+export interface HeaderEntry {
+  name: string;
+  value: string;
+  // The background has a value for this header, which the page never gets to see
+  stored?: boolean;
+}
+
+const inputClassName =
+  'min-w-0 px-2 py-1.5 text-xs border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200';
+
+export const headerNamesToEntries = (names?: string[]): HeaderEntry[] =>
+  (names || []).map(name => ({ name, value: '', stored: true }));
+
+/**
+ * Keep the stored value of every header, for updates that don't touch the headers
+ */
+export const keepStoredHeaders = (names?: string[]): HeaderUpdate =>
+  Object.fromEntries((names || []).map(name => [name, null]));
+
+/**
+ * Convert editor rows back to a header update, dropping rows without a name.
+ * Stored headers left empty keep their value. Throws when a name is not a valid HTTP header token.
+ */
+export const entriesToHeaders = (entries: HeaderEntry[]): HeaderUpdate => {
+  const headers: HeaderUpdate = {};
+  for (const entry of entries) {
+    const name = entry.name.trim();
+    if (!name) continue;
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      throw new Error(`Invalid header name: ${name}`);
+    }
+    headers[name] = entry.stored && !entry.value ? null : entry.value;
+  }
+  return headers;
+};
+
+interface HeadersEditorProps {
+  entries: HeaderEntry[];
+  onChange: (entries: HeaderEntry[]) => void;
+  connectionType: ConnectionType;
+  disabled?: boolean;
+}
+
+const HeadersEditor: React.FC<HeadersEditorProps> = ({ entries, onChange, connectionType, disabled }) => {
+  const [visibleRows, setVisibleRows] = useState<number[]>([]);
+
+  // A renamed header has no stored value to keep, so name changes pass stored: false
+  const updateEntry = (index: number, patch: Partial<HeaderEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(entries.filter((_, i) => i !== index));
+    setVisibleRows([]);
+  };
+
+  const toggleVisible = (index: number) => {
+    setVisibleRows(rows => (rows.includes(index) ? rows.filter(row => row !== index) : [...rows, index]));
+  };
+
+  const hasAuthorization = entries.some(entry => entry.name.trim().toLowerCase() === 'authorization');
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={entry.name}
+            onChange={e => updateEntry(index, { name: e.target.value, stored: false })}
+            placeholder="Header"
+            disabled={disabled}
+            className={cn(inputClassName, 'w-2/5')}
+          />
+          <input
+            type={visibleRows.includes(index) ? 'text' : 'password'}
+            value={entry.value}
+            onChange={e => updateEntry(index, { value: e.target.value })}
+            placeholder={entry.stored ? 'Saved, type to replace' : 'Value'}
+            autoComplete="off"
+            disabled={disabled}
+            className={cn(inputClassName, 'flex-1')}
+          />
+          <button
+            type="button"
+            onClick={() => toggleVisible(index)}
+            className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-700"
+            aria-label={visibleRows.includes(index) ? 'Hide value' : 'Show value'}
+            title={visibleRows.includes(index) ? 'Hide value' : 'Show value'}>
+            <Icon name={visibleRows.includes(index) ? 'eye-off' : 'eye'} size="sm" />
+          </button>
+          <button
+            type="button"
+            onClick={() => removeEntry(index)}
+            disabled={disabled}
+            className="p-1 rounded text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/30 disabled:opacity-50"
+            aria-label="Remove header"
+            title="Remove header">
+            <Icon name="x" size="sm" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([...entries, { name: '', value: '' }])}
+          disabled={disabled}
+          className="text-xs text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">
+          + Add header
+        </button>
+        {!hasAuthorization && (
+          <button
+            type="button"
+            onClick={() => onChange([...entries, { name: 'Authorization', value: 'Bearer ' }])}
+            disabled={disabled}
+            className="text-xs text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">
+            + Bearer token
+          </button>
+        )}
+      </div>
+
+      {connectionType === 'websocket' && entries.length > 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          Browsers cannot send custom headers on WebSocket connections, these headers are ignored.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default HeadersEditor;
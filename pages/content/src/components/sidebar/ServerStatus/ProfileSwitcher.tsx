@@ -0,0 +1,75 @@
+import type React from 'react';
+import { useState } from 'react';
+import { useServerProfiles } from '@src/hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import { cn } from '@src/lib/utils';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('ProfileSwitcher');
+
+interface ProfileSwitcherProps {
+  className?: string;
+}
+
+// Selected while the server was changed by hand
+const CUSTOM = '';
+
+/**
+ * Switch the primary server between saved profiles, hidden until a profile exists
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ className }) => {
+  const { profiles, activeProfileId } = useServerProfiles();
+  const { switchProfile } = useMcpCommunication();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const handleChange = async (profileId: string) => {
+    if (!profileId || profileId === activeProfileId) return;
+    setError(null);
+    setIsSwitching(true);
+    try {
+      await switchProfile(profileId);
+    } catch (switchError) {
+      logger.error('Failed to switch profile:', switchError);
+      setError(switchError instanceof Error ? switchError.message : String(switchError));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <label htmlFor="server-profile" className="text-xs font-medium text-slate-600 dark:text-slate-400">
+        Profile
+      </label>
+      <select
+        id="server-profile"
+        value={activeProfileId ?? CUSTOM}
+        onChange={e => handleChange(e.target.value)}
+        disabled={isSwitching}
+        className="min-w-0 flex-1 px-2 py-1 text-xs border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none disabled:opacity-60">
+        {activeProfileId === null && (
+          <option value={CUSTOM} disabled>
+            Custom server
+          </option>
+        )}
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      {error && (
+        <span className="truncate text-xs text-rose-600 dark:text-rose-400" title={error}>
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
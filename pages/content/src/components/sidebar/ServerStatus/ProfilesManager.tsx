@@ -0,0 +1,212 @@
+import type React from 'react';
+import { useRef, useState } from 'react';
+import { useServerConfig, useServerProfiles, useToolEnablement } from '@src/hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { ServerProfile } from '@src/types/messages';
+import { keepStoredHeaders } from './HeadersEditor';
+import { Typography, Icon, Button } from '../ui';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('ProfilesManager');
+
+const PROFILE_FILE_VERSION = 1;
+
+const inputClassName =
+  'min-w-0 flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200';
+
+/**
+ * Profiles in a profile file. Files hold { version, profiles }, a bare list or a single profile.
+ */
+const readProfileFile = (text: string): unknown[] => {
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object' && Array.isArray(parsed.profiles)) return parsed.profiles;
+  if (parsed && typeof parsed === 'object') return [parsed];
+  throw new Error('Not a profile file');
+};
+
+/**
+ * Download profiles as a file others can import. Ids are local to this browser and left out,
+ * header values are credentials so only the header names are kept for whoever imports the file.
+ */
+const exportProfiles = (profiles: ServerProfile[]): void => {
+  const file = {
+    version: PROFILE_FILE_VERSION,
+    profiles: profiles.map(({ name, uri, connectionType, headerNames, timeouts, enabledTools }) => ({
+      name,
+      uri,
+      connectionType,
+      headers: Object.fromEntries(headerNames.map(header => [header, ''])),
+      timeouts,
+      enabledTools,
+    })),
+  };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = profiles.length === 1 ? `${profiles[0].name}.mcp-profile.json` : 'mcp-profiles.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ProfilesManager: React.FC = () => {
+  const { profiles, activeProfileId } = useServerProfiles();
+  const { config } = useServerConfig();
+  const { enabledTools } = useToolEnablement();
+  const { getTimeouts, saveProfile, deleteProfile, importProfiles } = useMcpCommunication();
+
+  const [name, setName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setError(null);
+    setStatus(null);
+    setIsBusy(true);
+    try {
+      const message = await action();
+      if (message) {
+        setStatus(message);
+        setTimeout(() => setStatus(null), 3000);
+      }
+    } catch (actionError) {
+      logger.error('Profile action failed:', actionError);
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveCurrent = () =>
+    run(async () => {
+      const timeouts = await getTimeouts();
+      const profile = await saveProfile(
+        {
+          name: name.trim(),
+          uri: config.uri,
+          connectionType: config.connectionType,
+          headers: keepStoredHeaders(config.headerNames),
+          timeouts: { primary: timeouts.primary, tools: timeouts.tools },
+          enabledTools: Array.from(enabledTools),
+        },
+        true,
+      );
+      setName('');
+      return `Saved '${profile.name}'`;
+    });
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      const imported = await importProfiles(readProfileFile(await file.text()));
+      return `Imported ${imported} ${imported === 1 ? 'profile' : 'profiles'}`;
+    });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+      <Typography variant="h4" className="mb-1 text-slate-800 dark:text-slate-100 font-semibold">
+        Profiles
+      </Typography>
+      <p className="mb-3 text-xs text-slate-500 dark:text-slate-400">
+        Save the server above with its headers, timeouts and enabled tools under a name to switch back to it later.
+        Exported files leave header values such as tokens empty.
+      </p>
+
+      {profiles.length > 0 && (
+        <div className="mb-3 space-y-1">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              className="flex items-center justify-between gap-2 p-2 rounded-lg border border-slate-200 dark:border-slate-700">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-700 dark:text-slate-200 truncate">
+                  {profile.name}
+                  {profile.id === activeProfileId && (
+                    <span className="ml-1 text-emerald-600 dark:text-emerald-400">(active)</span>
+                  )}
+                </div>
+                <div className="text-slate-500 dark:text-slate-400 truncate" title={profile.uri}>
+                  {profile.uri}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => exportProfiles([profile])}
+                  className="px-1 text-xs text-blue-600 hover:underline dark:text-blue-400"
+                  title={`Export ${profile.name} as a profile file`}>
+                  Export
+                </button>
+                <button
+                  type="button"
+                  onClick={() => run(() => deleteProfile(profile.id))}
+                  disabled={isBusy}
+                  className="p-1 rounded text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/30 disabled:opacity-50"
+                  aria-label={`Delete ${profile.name}`}
+                  title="Delete profile">
+                  <Icon name="x" size="sm" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mb-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Profile name, e.g. Staging"
+          disabled={isBusy}
+          className={inputClassName}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSaveCurrent}
+          disabled={isBusy || !name.trim()}
+          className="h-8 px-3 text-xs">
+          Save current
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="h-7 px-3 text-xs">
+          Import
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => exportProfiles(profiles)}
+          disabled={profiles.length === 0}
+          className="h-7 px-3 text-xs">
+          Export all
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+        {status && <span className="text-xs text-slate-500 dark:text-slate-400">{status}</span>}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfilesManager;
@@ -0,0 +1,54 @@
+import type React from 'react';
+import { useState, useEffect } from 'react';
+import type { ReconnectState } from '../../../types/stores';
+import { Typography } from '../ui';
+
+interface ReconnectCountdownProps {
+  reconnect: ReconnectState | null;
+}
+
+/**
+ * What the background's automatic reconnect is doing, with a live countdown to the next attempt
+ */
+const ReconnectCountdown: React.FC<ReconnectCountdownProps> = ({ reconnect }) => {
+  const [now, setNow] = useState(Date.now());
+  const nextAttemptAt = reconnect?.nextAttemptAt ?? null;
+
+  useEffect(() => {
+    if (nextAttemptAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextAttemptAt]);
+
+  if (!reconnect) {
+    return null;
+  }
+
+  const { attempt, maxAttempts, isAttempting, isOffline, gaveUp } = reconnect;
+  const attemptLabel = (count: number) => (maxAttempts > 0 ? `attempt ${count} of ${maxAttempts}` : `attempt ${count}`);
+
+  let message: string | null = null;
+  if (isOffline) {
+    message = 'Browser is offline, reconnecting once the network is back';
+  } else if (isAttempting) {
+    message = `Reconnecting (${attemptLabel(attempt)})...`;
+  } else if (nextAttemptAt !== null) {
+    const seconds = Math.max(0, Math.ceil((nextAttemptAt - now) / 1000));
+    message = `Reconnecting in ${seconds}s (${attemptLabel(attempt + 1)})`;
+  } else if (gaveUp) {
+    message = `Stopped after ${attempt} attempts, trying again within a minute`;
+  }
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Typography variant="small" className="block text-rose-500 dark:text-rose-300 mt-1 text-xs">
+      {message}
+    </Typography>
+  );
+};
+
+export default ReconnectCountdown;
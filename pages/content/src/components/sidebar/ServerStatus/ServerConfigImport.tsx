@@ -0,0 +1,176 @@
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { parseMcpServersConfig } from '@src/utils/mcpServersConfig';
+import type { ImportedServer, ServerConfigEntry } from '@src/utils/mcpServersConfig';
+import { Button, Icon } from '../ui';
+
+interface ServerConfigImportProps {
+  // Addresses already configured, entries pointing at them are skipped
+  existingUris: string[];
+  disabled?: boolean;
+  onImport: (servers: ImportedServer[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `{
+  "mcpServers": {
+    "remote": { "url": "https://example.com/mcp", "headers": { "Authorization": "Bearer ..." } },
+    "local": { "command": "npx", "args": ["-y", "some-mcp-server"] }
+  }
+}`;
+
+const CopyButton: React.FC<{ text: string }> = ({ text }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1200);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="flex-shrink-0 text-xs text-blue-600 hover:underline dark:text-blue-400">
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+};
+
+const StdioGuidance: React.FC<{ entry: ServerConfigEntry }> = ({ entry }) => {
+  const stdio = entry.stdio!;
+  return (
+    <div className="mt-1 space-y-1 text-slate-600 dark:text-slate-300">
+      <p>
+        Runs as a local process (<code className="break-all">{stdio.commandLine}</code>), which the browser cannot
+        start. Expose it over the network with one of these and add the address it serves:
+      </p>
+      {stdio.bridges.map(bridge => (
+        <div key={bridge.label} className="rounded bg-slate-100 p-1.5 dark:bg-slate-800">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{bridge.label}</span>
+            <CopyButton text={bridge.command} />
+          </div>
+          <code className="block break-all text-[11px]">{bridge.command}</code>
+          <div className="text-slate-500 dark:text-slate-400">then add {bridge.uri}</div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <span>The proxy reads this server from config.json</span>
+        <CopyButton text={stdio.config} />
+      </div>
+      {stdio.env.length > 0 && <p>Set {stdio.env.join(', ')} where the bridge runs.</p>}
+    </div>
+  );
+};
+
+/**
+ * Paste a desktop client `mcpServers` config to add its remote servers, stdio servers get bridge instructions
+ */
+const ServerConfigImport: React.FC<ServerConfigImportProps> = ({ existingUris, disabled, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [expandedStdio, setExpandedStdio] = useState<string | null>(null);
+
+  const { entries, parseError } = useMemo(() => {
+    if (!text.trim()) return { entries: [] as ServerConfigEntry[], parseError: null };
+    try {
+      return { entries: parseMcpServersConfig(text), parseError: null };
+    } catch (error) {
+      return { entries: [] as ServerConfigEntry[], parseError: error instanceof Error ? error.message : String(error) };
+    }
+  }, [text]);
+
+  const importable = entries.filter(entry => entry.server && !existingUris.includes(entry.server.uri));
+
+  const handleImport = async () => {
+    if (await onImport(importable.map(entry => entry.server!))) {
+      setText('');
+      onClose();
+    }
+  };
+
+  const describe = (entry: ServerConfigEntry): { label: string; className: string } => {
+    if (entry.error) return { label: entry.error, className: 'text-rose-600 dark:text-rose-400' };
+    if (entry.stdio) return { label: 'stdio, needs a bridge', className: 'text-amber-600 dark:text-amber-400' };
+    if (existingUris.includes(entry.server!.uri)) {
+      return { label: 'already added', className: 'text-slate-500 dark:text-slate-400' };
+    }
+    return {
+      label: `${entry.server!.connectionType}, ${entry.server!.uri}`,
+      className: 'text-emerald-600 dark:text-emerald-400',
+    };
+  };
+
+  return (
+    <div className="mb-3 p-2 rounded-lg border border-slate-200 dark:border-slate-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-700 dark:text-slate-200">Import from JSON config</span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-700"
+          aria-label="Close import">
+          <Icon name="x" size="sm" />
+        </button>
+      </div>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={6}
+        spellCheck={false}
+        disabled={disabled}
+        className="w-full px-2 py-1.5 font-mono text-[11px] border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none"
+      />
+
+      {parseError && <p className="text-xs text-rose-600 dark:text-rose-400">{parseError}</p>}
+
+      {entries.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {entries.map(entry => {
+            const { label, className } = describe(entry);
+            return (
+              <li key={entry.name} className="min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="min-w-0 truncate">
+                    <span className="font-medium text-slate-700 dark:text-slate-200">{entry.name}</span>{' '}
+                    <span className={className} title={label}>
+                      {label}
+                    </span>
+                  </span>
+                  {entry.stdio && (
+                    <button
+                      type="button"
+                      onClick={() => setExpandedStdio(expandedStdio === entry.name ? null : entry.name)}
+                      className="flex-shrink-0 text-blue-600 hover:underline dark:text-blue-400">
+                      {expandedStdio === entry.name ? 'Hide' : 'How to connect'}
+                    </button>
+                  )}
+                </div>
+                {entry.stdio && expandedStdio === entry.name && <StdioGuidance entry={entry} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleImport}
+          variant="outline"
+          size="sm"
+          disabled={disabled || importable.length === 0}
+          className="h-7 px-3 text-xs font-medium">
+          {importable.length === 1 ? 'Add 1 server' : `Add ${importable.length} servers`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ServerConfigImport;
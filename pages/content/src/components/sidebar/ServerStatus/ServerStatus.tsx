@@ -1,4 +1,4 @@
-import type { ConnectionType } from '../../../types/stores';
+import type { ConnectionType, HeaderUpdate } from '../../../types/stores';
 import type React from 'react';
 import { useState, useEffect, useCallback } from 'react';
 import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
@@ -8,6 +8,12 @@ import { eventBus } from '@src/events/event-bus';
 import { Typography, Icon, Button } from '../ui';
 import { cn } from '@src/lib/utils';
 import { Card, CardContent } from '@src/components/ui/card';
+import AdditionalServers from './AdditionalServers';
+import HeadersEditor, { entriesToHeaders, headerNamesToEntries } from './HeadersEditor';
+import ReconnectCountdown from './ReconnectCountdown';
+import ProfileSwitcher from './ProfileSwitcher';
+import ProfilesManager from './ProfilesManager';
+import type { HeaderEntry } from './HeadersEditor';
 import { createLogger } from '@extension/shared/lib/logger';
 
 
@@ -23,7 +29,10 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
     status: connectionStatus,
     isConnected,
     isReconnecting: storeIsReconnecting,
-    error: connectionError
+    error: connectionError,
+    authRequired,
+    transport,
+    reconnect,
   } = useConnectionStatus();
 
   const { config: serverConfig, setConfig: setServerConfig } = useServerConfig();
@@ -35,6 +44,7 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
   const [lastReconnectTime, setLastReconnectTime] = useState<string>('');
   const [serverUri, setServerUri] = useState<string>(serverConfig.uri || '');
   const [connectionType, setConnectionType] = useState<ConnectionType>(serverConfig.connectionType || 'sse');
+  const [headerEntries, setHeaderEntries] = useState<HeaderEntry[]>(headerNamesToEntries(serverConfig.headerNames));
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [hasBackgroundError, setHasBackgroundError] = useState<boolean>(false);
   const [isEditingUri, setIsEditingUri] = useState<boolean>(false);
@@ -46,6 +56,7 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
   const [settingsAnimating, setSettingsAnimating] = useState(false);
   const [detailsAnimating, setDetailsAnimating] = useState(false);
+  const [isSigningIn, setIsSigningIn] = useState(false);
 
   // Get communication methods with error handling (still needed for some operations)
   const communicationMethods = useMcpCommunication();
@@ -108,7 +119,7 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
   );
 
   const updateServerConfig = useCallback(
-    async (config: { uri: string; connectionType: ConnectionType }) => {
+    async (config: { uri: string; connectionType: ConnectionType; headers?: HeaderUpdate }) => {
       try {
         if (!communicationMethods.updateServerConfig) {
           throw new Error('Communication method unavailable');
@@ -138,6 +149,11 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
     }
   }, [serverConfig.uri, serverConfig.connectionType, isEditingUri, isEditingConnectionType]);
 
+  // Headers follow the stored config as well, e.g. after switching profiles
+  useEffect(() => {
+    setHeaderEntries(headerNamesToEntries(serverConfig.headerNames));
+  }, [serverConfig.headerNames]);
+
   // Force immediate connection status check on mount
   useEffect(() => {
     const checkImmediateStatus = async () => {
@@ -280,6 +296,7 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
             setConnectionType(config.connectionType);
             logMessage(`[ServerStatus] Initial connection type loaded: ${config.connectionType}`);
           }
+          setHeaderEntries(headerNamesToEntries(config.headerNames));
           setConfigFetched(true);
         } else {
           logMessage('[ServerStatus] No valid server configuration received from background storage');
@@ -336,6 +353,28 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
     }
   }, [status, hasBackgroundError, isReconnecting]);
 
+  const handleSignIn = async () => {
+    if (!communicationMethods.signIn) {
+      return;
+    }
+
+    setIsSigningIn(true);
+    setLastErrorMessage('');
+    setStatusMessage('Waiting for sign in to complete...');
+
+    try {
+      const success = await communicationMethods.signIn();
+      setStatusMessage(success ? 'Signed in and connected to MCP server' : 'Signed in, but the connection failed');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logMessage(`[ServerStatus] Sign in failed: ${errorMessage}`);
+      setLastErrorMessage(errorMessage);
+      setStatusMessage('Sign in failed');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
   const handleReconnect = async () => {
     const startTime = Date.now();
     const minDisplayDuration = 1200; // Minimum display time for smooth UX
@@ -497,12 +536,13 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
 
     try {
       logMessage(`[ServerStatus] Saving server URI: ${serverUri} with connection type: ${connectionType}`);
+      const headers = entriesToHeaders(headerEntries);
 
-      // Update server config using Zustand store
-      setServerConfig({ uri: serverUri, connectionType });
+      // Update server config using Zustand store, which only keeps the header names
+      setServerConfig({ uri: serverUri, connectionType, headerNames: Object.keys(headers) });
 
       // Also update via background communication for backward compatibility
-      await updateServerConfig({ uri: serverUri, connectionType });
+      await updateServerConfig({ uri: serverUri, connectionType, headers });
       logMessage('[ServerStatus] Server config updated successfully');
 
       // Clear the editing flags since we successfully saved
@@ -729,6 +769,8 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
         </div>
       </div>
 
+      <ProfileSwitcher className="mt-2" />
+
       {/* Add prominent alert for disconnected/error states with detailed error message */}
       {isDisconnectedOrError && (
         <div className="mt-2 p-2 bg-rose-100 dark:bg-rose-900/20 rounded-md border border-rose-200 dark:border-rose-800/50">
@@ -736,9 +778,11 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
             <Icon name="alert-triangle" size="sm" className="text-rose-600 dark:text-rose-400" />
             <div className="flex-1">
               <Typography variant="small" className="text-rose-600 dark:text-rose-400 font-medium">
-                {status === 'disconnected'
-                  ? 'Server connection lost. Click the refresh button to reconnect.'
-                  : 'Server connection error. Check your configuration and try again.'}
+                {authRequired
+                  ? 'This server requires you to sign in.'
+                  : status === 'disconnected'
+                    ? 'Server connection lost. Click the refresh button to reconnect.'
+                    : 'Server connection error. Check your configuration and try again.'}
               </Typography>
               {/* Show detailed error message if available - prefer background error over local error */}
               {(backgroundConnectionError || lastErrorMessage) && (
@@ -746,7 +790,18 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
                   Details: {backgroundConnectionError || lastErrorMessage}
                 </Typography>
               )}
+              {!authRequired && <ReconnectCountdown reconnect={reconnect} />}
             </div>
+            {authRequired && (
+              <Button
+                onClick={handleSignIn}
+                variant="default"
+                size="sm"
+                disabled={isSigningIn}
+                className="h-7 px-3 text-xs font-medium bg-blue-600 hover:bg-blue-700 text-white">
+                {isSigningIn ? 'Signing in...' : 'Sign in'}
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -783,16 +838,19 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
                   onBlur={handleConnectionTypeBlur}
                   className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200 hover:border-slate-400 dark:hover:border-slate-500"
                 >
+                  <option value="auto">Auto (detect transport)</option>
                   <option value="sse">Server-Sent Events (SSE)</option>
                   <option value="websocket">WebSocket</option>
                   <option value="streamable-http">Streamable HTTP</option>
                 </select>
                 <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                  {connectionType === 'sse' 
-                    ? 'HTTP-based streaming connection (traditional)' 
-                    : connectionType === 'websocket'
-                      ? 'Full-duplex WebSocket connection (faster, more features)'
-                      : 'Advanced HTTP streaming (modern MCP protocol)'}
+                  {connectionType === 'auto'
+                    ? 'Tries Streamable HTTP, then SSE (WebSocket for ws:// URLs) and remembers what worked'
+                    : connectionType === 'sse'
+                      ? 'HTTP-based streaming connection (traditional)'
+                      : connectionType === 'websocket'
+                        ? 'Full-duplex WebSocket connection (faster, more features)'
+                        : 'Advanced HTTP streaming (modern MCP protocol)'}
                 </p>
               </div>
 
@@ -807,11 +865,15 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
                   onChange={handleServerUriChange}
                   onFocus={handleServerUriFocus}
                   onBlur={handleServerUriBlur}
-                  placeholder={connectionType === 'sse' 
-                    ? "http://localhost:3006/sse" 
-                    : connectionType === 'websocket'
-                      ? "ws://localhost:3006/message"
-                      : "http://localhost:3006/mcp"}
+                  placeholder={
+                    connectionType === 'auto'
+                      ? 'http://localhost:3006'
+                      : connectionType === 'sse'
+                        ? 'http://localhost:3006/sse'
+                        : connectionType === 'websocket'
+                          ? 'ws://localhost:3006/message'
+                          : 'http://localhost:3006/mcp'
+                  }
                   className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200 hover:border-slate-400 dark:hover:border-slate-500"
                 />
                 <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
@@ -851,6 +913,20 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
                   </div>
                 </div>
               </div>
+              <div className="mb-4">
+                <span className="block mb-2 text-slate-600 dark:text-slate-400 font-medium">HTTP Headers</span>
+                <HeadersEditor
+                  entries={headerEntries}
+                  onChange={setHeaderEntries}
+                  connectionType={connectionType}
+                  disabled={isReconnecting}
+                />
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  Sent with every request, e.g. <code>Authorization: Bearer &lt;token&gt;</code>. Values stay in the
+                  extension and are never shown again, type a new one to replace it.
+                </p>
+              </div>
+
               <div className="flex justify-end gap-2">
                 <Button
                   onClick={() => {
@@ -864,6 +940,7 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
                     if (serverConfig.connectionType) {
                       setConnectionType(serverConfig.connectionType);
                     }
+                    setHeaderEntries(headerNamesToEntries(serverConfig.headerNames));
                   }}
                   variant="outline"
                   size="sm"
@@ -895,6 +972,10 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
                   </div>
                 </div>
               )}
+
+              <ProfilesManager />
+
+              <AdditionalServers />
             </CardContent>
           </Card>
         </div>
@@ -934,18 +1015,32 @@ const ServerStatus: React.FC<ServerStatusProps> = ({ status: initialStatus }) =>
 
                 <div className="flex justify-between items-center py-1">
                   <span className="font-medium text-slate-700 dark:text-slate-200">Connection Type:</span>
-                  <span className={cn(
-                    'px-2 py-1 rounded-full text-xs font-medium',
-                    connectionType === 'websocket' 
-                      ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400'
-                      : connectionType === 'streamable-http'
-                        ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400'
-                        : 'bg-gray-100 text-gray-700 dark:bg-gray-900/20 dark:text-gray-400',
-                  )}>
-                    {connectionType === 'websocket' ? 'WebSocket' : connectionType === 'streamable-http' ? 'Streamable HTTP' : 'SSE'}
+                  <span
+                    className={cn(
+                      'px-2 py-1 rounded-full text-xs font-medium',
+                      connectionType === 'websocket'
+                        ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400'
+                        : connectionType === 'streamable-http'
+                          ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+                          : 'bg-gray-100 text-gray-700 dark:bg-gray-900/20 dark:text-gray-400',
+                    )}>
+                    {connectionType === 'auto'
+                      ? 'Auto'
+                      : connectionType === 'websocket'
+                        ? 'WebSocket'
+                        : connectionType === 'streamable-http'
+                          ? 'Streamable HTTP'
+                          : 'SSE'}
                   </span>
                 </div>
 
+                {isConnected && transport && (
+                  <div className="py-1">
+                    <span className="font-medium text-slate-700 dark:text-slate-200">Transport:</span>
+                    <p className="mt-1 text-slate-600 dark:text-slate-300 break-words">{transport.reason}</p>
+                  </div>
+                )}
+
                 <div className="flex justify-between items-center py-1">
                   <span className="font-medium text-slate-700 dark:text-slate-200">Last updated:</span>
                   <span className="text-slate-600 dark:text-slate-300">{new Date().toLocaleTimeString()}</span>
@@ -0,0 +1,183 @@
+import type React from 'react';
+import { useState, useEffect } from 'react';
+import { useAdditionalServers } from '@src/hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { Root } from '@src/types/stores';
+import type { GetRootsResponse } from '@src/types/messages';
+import { Card, CardContent } from '@src/components/ui/card';
+import { Typography, Icon, Button } from '../ui';
+import { cn } from '@src/lib/utils';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('RootsManager');
+
+// Empty string selects the primary server
+const PRIMARY = '';
+
+interface RootEntry {
+  name: string;
+  uri: string;
+}
+
+const inputClassName =
+  'min-w-0 px-2 py-1.5 text-xs border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200';
+
+/**
+ * Convert editor rows to roots, dropping empty rows.
+ * Absolute paths are accepted and turned into file:// URIs.
+ */
+const entriesToRoots = (entries: RootEntry[]): Root[] =>
+  entries
+    .filter(entry => entry.uri.trim())
+    .map(entry => {
+      let uri = entry.uri.trim();
+      if (uri.startsWith('/')) {
+        uri = `file://${encodeURI(uri)}`;
+      }
+      if (!uri.startsWith('file://')) {
+        throw new Error(`Not a file:// URI or absolute path: ${uri}`);
+      }
+      const name = entry.name.trim();
+      return name ? { uri, name } : { uri };
+    });
+
+const RootsManager: React.FC = () => {
+  const { servers: additionalServers } = useAdditionalServers();
+  const { getRoots, updateRoots } = useMcpCommunication();
+
+  const [allRoots, setAllRoots] = useState<GetRootsResponse>({ primary: [], servers: {} });
+  const [serverId, setServerId] = useState(PRIMARY);
+  const [entries, setEntries] = useState<RootEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRoots()
+      .then(setAllRoots)
+      .catch(err => logger.warn('Failed to load roots:', err));
+  }, [getRoots]);
+
+  // Show the saved roots of the selected server, unsaved edits are dropped when switching
+  useEffect(() => {
+    const roots = serverId === PRIMARY ? allRoots.primary : (allRoots.servers[serverId] ?? []);
+    setEntries(roots.map(root => ({ name: root.name ?? '', uri: root.uri })));
+    setError(null);
+  }, [serverId, allRoots]);
+
+  const updateEntry = (index: number, patch: Partial<RootEntry>) => {
+    setEntries(entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    let roots: Root[];
+    try {
+      roots = entriesToRoots(entries);
+    } catch (entryError) {
+      setError(entryError instanceof Error ? entryError.message : String(entryError));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateRoots(roots, serverId || undefined);
+      setAllRoots(prev =>
+        serverId === PRIMARY
+          ? { ...prev, primary: roots }
+          : { ...prev, servers: { ...prev.servers, [serverId]: roots } },
+      );
+      setStatus('Saved');
+      setTimeout(() => setStatus(null), 2000);
+    } catch (saveError) {
+      logger.error('Failed to save roots:', saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
+      <CardContent className="p-4">
+        <Typography variant="h4" className="mb-1 text-slate-700 dark:text-slate-300">
+          Workspace Roots
+        </Typography>
+        <p className="mb-4 text-xs text-slate-500 dark:text-slate-400">
+          Folders a server may work in. Servers that support roots are told when the list changes.
+        </p>
+
+        <div className="space-y-3">
+          <select
+            value={serverId}
+            onChange={e => setServerId(e.target.value)}
+            disabled={isSaving}
+            className={cn(inputClassName, 'w-full')}
+            aria-label="Server">
+            <option value={PRIMARY}>Primary server</option>
+            {additionalServers.map(server => (
+              <option key={server.id} value={server.id}>
+                {server.name}
+              </option>
+            ))}
+          </select>
+
+          <div className="space-y-2">
+            {entries.map((entry, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={entry.name}
+                  onChange={e => updateEntry(index, { name: e.target.value })}
+                  placeholder="Name"
+                  disabled={isSaving}
+                  className={cn(inputClassName, 'w-1/3')}
+                />
+                <input
+                  type="text"
+                  value={entry.uri}
+                  onChange={e => updateEntry(index, { uri: e.target.value })}
+                  placeholder="file:///path/to/project"
+                  disabled={isSaving}
+                  className={cn(inputClassName, 'flex-1')}
+                />
+                <button
+                  type="button"
+                  onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+                  disabled={isSaving}
+                  className="p-1 rounded text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/30 disabled:opacity-50"
+                  aria-label="Remove root"
+                  title="Remove root">
+                  <Icon name="x" size="sm" />
+                </button>
+              </div>
+            ))}
+
+            {entries.length === 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">No roots shared with this server</p>
+            )}
+
+            <button
+              type="button"
+              onClick={() => setEntries([...entries, { name: '', uri: '' }])}
+              disabled={isSaving}
+              className="text-xs text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">
+              + Add root
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving} className="h-7 px-3 text-xs">
+              {isSaving ? 'Saving...' : 'Save roots'}
+            </Button>
+            {status && <span className="text-xs text-slate-500 dark:text-slate-400">{status}</span>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RootsManager;
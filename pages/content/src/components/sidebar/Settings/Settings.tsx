@@ -1,21 +1,17 @@
-import React from 'react';
+import type React from 'react';
 import { useUserPreferences } from '@src/hooks';
 import { Card, CardContent } from '@src/components/ui/card';
 import { Typography } from '../ui';
 import { AutomationService } from '@src/services/automation.service';
 import { cn } from '@src/lib/utils';
 import { createLogger } from '@extension/shared/lib/logger';
-
-// Default delay values in seconds
+import RootsManager from './RootsManager';
+import TimeoutsManager from './TimeoutsManager';
+import TrafficInspector from './TrafficInspector';
+import { DEFAULT_OFFLINE_QUEUE_TTL } from '@src/stores/ui.store';
 
 const logger = createLogger('Settings');
 
-const DEFAULT_DELAYS = {
-  autoInsertDelay: 2,
-  autoSubmitDelay: 2,
-  autoExecuteDelay: 2
-} as const;
-
 const Settings: React.FC = () => {
   const { preferences, updatePreferences } = useUserPreferences();
 
@@ -27,41 +23,10 @@ const Settings: React.FC = () => {
     // Update user preferences store with the new delay
     updatePreferences({ [`${type}Delay`]: delay });
 
-    // Store in localStorage
-    try {
-      const storedDelays = JSON.parse(localStorage.getItem('mcpDelaySettings') || '{}');
-      localStorage.setItem('mcpDelaySettings', JSON.stringify({
-        ...storedDelays,
-        [`${type}Delay`]: delay
-      }));
-    } catch (error) {
-      logger.error('[Settings] Error storing delay settings:', error);
-    }
-
     // Update automation state on window
     AutomationService.getInstance().updateAutomationStateOnWindow().catch(console.error);
   };
 
-  // Load stored delays on component mount, set default to 2 seconds if not set
-  React.useEffect(() => {
-    try {
-      const storedDelays = JSON.parse(localStorage.getItem('mcpDelaySettings') || '{}');
-      // If no stored delays, use defaults
-      if (Object.keys(storedDelays).length === 0) {
-        updatePreferences(DEFAULT_DELAYS);
-        localStorage.setItem('mcpDelaySettings', JSON.stringify(DEFAULT_DELAYS));
-      } else {
-        // Use stored delays
-        updatePreferences(storedDelays);
-      }
-    } catch (error) {
-      logger.error('[Settings] Error loading stored delay settings:', error);
-      // Set defaults on error
-      updatePreferences(DEFAULT_DELAYS);
-      localStorage.setItem('mcpDelaySettings', JSON.stringify(DEFAULT_DELAYS));
-    }
-  }, [updatePreferences]);
-
   return (
     <div className="p-4 space-y-4">
       <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
@@ -154,6 +119,60 @@ const Settings: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
+        <CardContent className="p-4">
+          <Typography variant="h4" className="mb-4 text-slate-700 dark:text-slate-300">
+            Offline Queue
+          </Typography>
+
+          <div className="space-y-4">
+            <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={!!preferences.queueOfflineCalls}
+                onChange={e => updatePreferences({ queueOfflineCalls: e.target.checked })}
+                className="mt-0.5"
+              />
+              <span>
+                Queue tool calls while the server is disconnected
+                <span className="block text-xs text-slate-500 dark:text-slate-400">
+                  Queued calls run in order once the server is back, destructive tools ask first
+                </span>
+              </span>
+            </label>
+
+            <div>
+              <label
+                htmlFor="offline-queue-ttl"
+                className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Expire Queued Calls After (minutes)
+              </label>
+              <input
+                id="offline-queue-ttl"
+                type="number"
+                min="1"
+                value={preferences.offlineQueueTtl || DEFAULT_OFFLINE_QUEUE_TTL}
+                onChange={e => updatePreferences({ offlineQueueTtl: Math.max(1, parseInt(e.target.value) || 1) })}
+                disabled={!preferences.queueOfflineCalls}
+                className={cn(
+                  'w-full p-2 text-sm border rounded-md',
+                  'bg-white dark:bg-slate-900',
+                  'border-slate-300 dark:border-slate-600',
+                  'text-slate-900 dark:text-slate-100',
+                  'disabled:opacity-50',
+                )}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <RootsManager />
+
+      <TimeoutsManager />
+
+      <TrafficInspector />
     </div>
   );
 };
@@ -0,0 +1,211 @@
+import type React from 'react';
+import { useState, useEffect } from 'react';
+import { useAdditionalServers, useAvailableTools } from '@src/hooks';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { CallTimeouts } from '@src/types/messages';
+import { Card, CardContent } from '@src/components/ui/card';
+import { Typography, Icon, Button } from '../ui';
+import { cn } from '@src/lib/utils';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('TimeoutsManager');
+
+// Empty string is the primary server
+const PRIMARY = '';
+
+interface ToolTimeoutEntry {
+  toolName: string;
+  seconds: string;
+}
+
+const inputClassName =
+  'min-w-0 px-2 py-1.5 text-xs border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 placeholder:text-slate-400 dark:placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none transition-all duration-200';
+
+const toSeconds = (ms: number | undefined): string => (ms === undefined ? '' : String(ms / 1000));
+
+/**
+ * Milliseconds from a seconds field, undefined when left empty
+ */
+const parseSeconds = (value: string, label: string): number | undefined => {
+  if (!value.trim()) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 1 || seconds > 3600) {
+    throw new Error(`Timeout for ${label} must be between 1 and 3600 seconds`);
+  }
+  return Math.round(seconds * 1000);
+};
+
+const TimeoutsManager: React.FC = () => {
+  const { servers: additionalServers } = useAdditionalServers();
+  const { tools } = useAvailableTools();
+  const { getTimeouts, updateTimeouts } = useMcpCommunication();
+
+  const [defaultTimeout, setDefaultTimeout] = useState(60_000);
+  const [serverSeconds, setServerSeconds] = useState<Record<string, string>>({});
+  const [toolEntries, setToolEntries] = useState<ToolTimeoutEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTimeouts()
+      .then(timeouts => {
+        setDefaultTimeout(timeouts.defaultTimeout);
+        const seconds: Record<string, string> = { [PRIMARY]: toSeconds(timeouts.primary) };
+        for (const [id, ms] of Object.entries(timeouts.servers)) {
+          seconds[id] = toSeconds(ms);
+        }
+        setServerSeconds(seconds);
+        setToolEntries(Object.entries(timeouts.tools).map(([toolName, ms]) => ({ toolName, seconds: toSeconds(ms) })));
+      })
+      .catch(err => logger.warn('Failed to load timeouts:', err));
+  }, [getTimeouts]);
+
+  const updateToolEntry = (index: number, patch: Partial<ToolTimeoutEntry>) => {
+    setToolEntries(toolEntries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    let timeouts: CallTimeouts;
+    try {
+      timeouts = {
+        primary: parseSeconds(serverSeconds[PRIMARY] ?? '', 'the primary server'),
+        servers: {},
+        tools: {},
+      };
+      for (const server of additionalServers) {
+        const ms = parseSeconds(serverSeconds[server.id] ?? '', server.name);
+        if (ms !== undefined) {
+          timeouts.servers[server.id] = ms;
+        }
+      }
+      for (const entry of toolEntries) {
+        const ms = entry.toolName ? parseSeconds(entry.seconds, entry.toolName) : undefined;
+        if (ms !== undefined) {
+          timeouts.tools[entry.toolName] = ms;
+        }
+      }
+    } catch (entryError) {
+      setError(entryError instanceof Error ? entryError.message : String(entryError));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateTimeouts(timeouts);
+      setStatus('Saved');
+      setTimeout(() => setStatus(null), 2000);
+    } catch (saveError) {
+      logger.error('Failed to save timeouts:', saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const servers = [{ id: PRIMARY, name: 'Primary server' }, ...additionalServers];
+  // Tools that already have a row, plus names that are no longer listed but still configured
+  const toolNames = Array.from(new Set([...tools.map(tool => tool.name), ...toolEntries.map(entry => entry.toolName)]))
+    .filter(Boolean)
+    .sort();
+  const placeholder = `${defaultTimeout / 1000}`;
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
+      <CardContent className="p-4">
+        <Typography variant="h4" className="mb-1 text-slate-700 dark:text-slate-300">
+          Call Timeouts
+        </Typography>
+        <p className="mb-4 text-xs text-slate-500 dark:text-slate-400">
+          Seconds a tool call may run without a result. Progress updates from the server restart the clock. Empty fields
+          use the server's timeout, or {placeholder}s.
+        </p>
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            {servers.map(server => (
+              <div key={server.id} className="flex items-center gap-2">
+                <span className="flex-1 truncate text-xs text-slate-700 dark:text-slate-300">{server.name}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={3600}
+                  value={serverSeconds[server.id] ?? ''}
+                  onChange={e => setServerSeconds({ ...serverSeconds, [server.id]: e.target.value })}
+                  placeholder={placeholder}
+                  disabled={isSaving}
+                  className={cn(inputClassName, 'w-20')}
+                  aria-label={`Timeout for ${server.name} in seconds`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Typography variant="small" className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+              Per tool
+            </Typography>
+            {toolEntries.map((entry, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <select
+                  value={entry.toolName}
+                  onChange={e => updateToolEntry(index, { toolName: e.target.value })}
+                  disabled={isSaving}
+                  className={cn(inputClassName, 'flex-1')}
+                  aria-label="Tool">
+                  <option value="">Select a tool</option>
+                  {toolNames.map(name => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={3600}
+                  value={entry.seconds}
+                  onChange={e => updateToolEntry(index, { seconds: e.target.value })}
+                  placeholder="Seconds"
+                  disabled={isSaving}
+                  className={cn(inputClassName, 'w-20')}
+                />
+                <button
+                  type="button"
+                  onClick={() => setToolEntries(toolEntries.filter((_, i) => i !== index))}
+                  disabled={isSaving}
+                  className="p-1 rounded text-rose-600 hover:bg-rose-50 dark:text-rose-400 dark:hover:bg-rose-900/30 disabled:opacity-50"
+                  aria-label="Remove tool timeout"
+                  title="Remove tool timeout">
+                  <Icon name="x" size="sm" />
+                </button>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={() => setToolEntries([...toolEntries, { toolName: '', seconds: '' }])}
+              disabled={isSaving}
+              className="text-xs text-blue-600 hover:underline dark:text-blue-400 disabled:opacity-50">
+              + Add tool timeout
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving} className="h-7 px-3 text-xs">
+              {isSaving ? 'Saving...' : 'Save timeouts'}
+            </Button>
+            {status && <span className="text-xs text-slate-500 dark:text-slate-400">{status}</span>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimeoutsManager;
@@ -0,0 +1,233 @@
+import type React from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
+import type { TrafficEntry } from '@src/types/messages';
+import { Card, CardContent } from '@src/components/ui/card';
+import { Typography, Button } from '../ui';
+import { cn } from '@src/lib/utils';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('TrafficInspector');
+
+// How often the list refreshes while recording
+const REFRESH_INTERVAL = 2000;
+
+const ALL = '';
+
+const selectClassName =
+  'min-w-0 flex-1 px-2 py-1.5 text-xs border border-slate-300 rounded-lg bg-white dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-600 focus:border-transparent outline-none';
+
+const kindClassNames: Record<TrafficEntry['kind'], string> = {
+  request: 'text-blue-600 dark:text-blue-400',
+  response: 'text-emerald-600 dark:text-emerald-400',
+  error: 'text-rose-600 dark:text-rose-400',
+  notification: 'text-slate-500 dark:text-slate-400',
+};
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleTimeString(undefined, { hour12: false });
+
+const uniqueSorted = (values: (string | undefined)[]): string[] =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+
+/**
+ * Download the recorded session as one JSON object per line
+ */
+const exportAsJsonl = (entries: TrafficEntry[]): void => {
+  const jsonl = entries.map(entry => JSON.stringify(entry)).join('\n');
+  const url = URL.createObjectURL(new Blob([jsonl], { type: 'application/x-ndjson' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `mcp-traffic-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const TrafficInspector: React.FC = () => {
+  const { getTraffic, setTrafficRecording, clearTraffic } = useMcpCommunication();
+
+  const [recording, setRecording] = useState(false);
+  const [entries, setEntries] = useState<TrafficEntry[]>([]);
+  const [methodFilter, setMethodFilter] = useState(ALL);
+  const [toolFilter, setToolFilter] = useState(ALL);
+  const [tabFilter, setTabFilter] = useState(ALL);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const traffic = await getTraffic();
+      setRecording(traffic.recording);
+      setEntries(traffic.entries);
+    } catch (loadError) {
+      logger.warn('Failed to load protocol traffic:', loadError);
+    }
+  }, [getTraffic]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [recording, refresh]);
+
+  const handleToggleRecording = async () => {
+    setError(null);
+    try {
+      await setTrafficRecording(!recording);
+      setRecording(!recording);
+    } catch (toggleError) {
+      logger.error('Failed to change traffic recording:', toggleError);
+      setError(toggleError instanceof Error ? toggleError.message : String(toggleError));
+    }
+  };
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await clearTraffic();
+      setEntries([]);
+      setExpanded(null);
+    } catch (clearError) {
+      logger.error('Failed to clear traffic:', clearError);
+      setError(clearError instanceof Error ? clearError.message : String(clearError));
+    }
+  };
+
+  const methods = uniqueSorted(entries.map(entry => entry.method));
+  const tools = uniqueSorted(entries.map(entry => entry.toolName));
+  const tabs = uniqueSorted(entries.map(entry => (entry.tabId === undefined ? undefined : String(entry.tabId))));
+
+  const visibleEntries = entries.filter(
+    entry =>
+      (methodFilter === ALL || entry.method === methodFilter) &&
+      (toolFilter === ALL || entry.toolName === toolFilter) &&
+      (tabFilter === ALL || String(entry.tabId) === tabFilter),
+  );
+
+  return (
+    <Card className="border-slate-200 dark:border-slate-700 dark:bg-slate-800">
+      <CardContent className="p-4">
+        <Typography variant="h4" className="mb-1 text-slate-700 dark:text-slate-300">
+          Protocol Traffic
+        </Typography>
+        <p className="mb-4 text-xs text-slate-500 dark:text-slate-400">
+          Records the JSON-RPC messages exchanged with your servers, keeping the latest 1000. Payloads can contain tool
+          arguments and results, so check an export before sharing it.
+        </p>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              variant={recording ? 'default' : 'outline'}
+              onClick={handleToggleRecording}
+              className="h-7 px-3 text-xs">
+              {recording ? 'Stop recording' : 'Start recording'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={refresh} className="h-7 px-3 text-xs">
+              Refresh
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => exportAsJsonl(entries)}
+              disabled={entries.length === 0}
+              className="h-7 px-3 text-xs">
+              Export JSONL
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="h-7 px-3 text-xs">
+              Clear
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <select
+              value={methodFilter}
+              onChange={e => setMethodFilter(e.target.value)}
+              className={selectClassName}
+              aria-label="Filter by method">
+              <option value={ALL}>All methods</option>
+              {methods.map(method => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+            <select
+              value={toolFilter}
+              onChange={e => setToolFilter(e.target.value)}
+              className={selectClassName}
+              aria-label="Filter by tool">
+              <option value={ALL}>All tools</option>
+              {tools.map(tool => (
+                <option key={tool} value={tool}>
+                  {tool}
+                </option>
+              ))}
+            </select>
+            <select
+              value={tabFilter}
+              onChange={e => setTabFilter(e.target.value)}
+              className={selectClassName}
+              aria-label="Filter by tab">
+              <option value={ALL}>All tabs</option>
+              {tabs.map(tab => (
+                <option key={tab} value={tab}>
+                  Tab {tab}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="max-h-80 overflow-y-auto rounded-lg border border-slate-200 dark:border-slate-700">
+            {visibleEntries.length === 0 ? (
+              <p className="p-3 text-xs text-slate-500 dark:text-slate-400">
+                {recording ? 'No messages yet' : 'Nothing recorded'}
+              </p>
+            ) : (
+              visibleEntries.map(entry => (
+                <div key={entry.seq} className="border-b border-slate-100 dark:border-slate-700 last:border-b-0">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === entry.seq ? null : entry.seq)}
+                    className="flex w-full items-center gap-2 px-2 py-1 text-left text-xs hover:bg-slate-50 dark:hover:bg-slate-700/50"
+                    title={entry.serverUri}>
+                    <span className="font-mono text-slate-400">{formatTime(entry.timestamp)}</span>
+                    <span className="text-slate-500 dark:text-slate-400">
+                      {entry.direction === 'outgoing' ? '→' : '←'}
+                    </span>
+                    <span className={cn('font-medium', kindClassNames[entry.kind])}>{entry.kind}</span>
+                    <span className="flex-1 truncate text-slate-700 dark:text-slate-300">
+                      {entry.method ?? ''}
+                      {entry.toolName ? ` ${entry.toolName}` : ''}
+                    </span>
+                    {entry.durationMs !== undefined && (
+                      <span className="text-slate-400 dark:text-slate-500">{entry.durationMs}ms</span>
+                    )}
+                  </button>
+                  {expanded === entry.seq && (
+                    <pre className="max-h-60 overflow-auto bg-slate-50 px-2 py-1 text-[11px] text-slate-700 dark:bg-slate-900 dark:text-slate-300 whitespace-pre-wrap break-all">
+                      {JSON.stringify(entry.message, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrafficInspector;
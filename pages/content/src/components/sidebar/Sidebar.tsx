@@ -5,6 +5,10 @@ import { useUIStore } from '@src/stores/ui.store';
 import ServerStatus from './ServerStatus/ServerStatus';
 import AvailableTools from './AvailableTools/AvailableTools';
 import InstructionManager from './Instructions/InstructionManager';
+import Resources from './Resources/Resources';
+import Prompts from './Prompts/Prompts';
+import SamplingApproval from './Sampling/SamplingApproval';
+import ElicitationForm from './Elicitation/ElicitationForm';
 import InputArea from './InputArea/InputArea';
 import Settings from './Settings/Settings';
 import { useMcpCommunication } from '@src/hooks/useMcpCommunication';
@@ -47,18 +51,24 @@ const Sidebar: React.FC<SidebarProps> = ({ initialPreferences }) => {
   const currentAdapter = useCurrentAdapter();
 
   // Create a compatibility adapter for legacy components
-  const adapter = useMemo(() => ({
-    // Legacy methods for backward compatibility
-    insertTextIntoInput: (text: string) => currentAdapter.insertText(text),
-    triggerSubmission: () => currentAdapter.submitForm(),
-    supportsFileUpload: () => currentAdapter.hasCapability('file-attachment'),
-    attachFile: (file: File) => currentAdapter.attachFile(file),
-    // Pass through other properties that might be needed
-    name: currentAdapter.activeAdapterName || 'Unknown',
-    isReady: currentAdapter.isReady,
-    status: currentAdapter.status,
-    capabilities: currentAdapter.capabilities
-  }), [currentAdapter]);
+  const adapter = useMemo(
+    () => ({
+      // Legacy methods for backward compatibility
+      insertTextIntoInput: (text: string) => currentAdapter.insertText(text),
+      triggerSubmission: () => currentAdapter.submitForm(),
+      supportsFileUpload: () => currentAdapter.hasCapability('file-attachment'),
+      attachFile: (file: File) => currentAdapter.attachFile(file),
+      supportsResponseReading: () => currentAdapter.hasCapability('response-reading'),
+      waitForResponse: (options?: { signal?: AbortSignal; timeout?: number }) =>
+        currentAdapter.waitForResponse(options),
+      // Pass through other properties that might be needed
+      name: currentAdapter.activeAdapterName || 'Unknown',
+      isReady: currentAdapter.isReady,
+      status: currentAdapter.status,
+      capabilities: currentAdapter.capabilities,
+    }),
+    [currentAdapter],
+  );
 
   // Use Zustand hooks for state management
   const { theme, setTheme } = useTheme();
@@ -271,7 +281,9 @@ const Sidebar: React.FC<SidebarProps> = ({ initialPreferences }) => {
   }, [sidebarVisible, isMinimized, isPushMode, sidebarWidth]);
 
   // Local UI state that doesn't need to be in the store
-  const [activeTab, setActiveTab] = useState<'availableTools' | 'instructions' | 'settings'>('availableTools');
+  const [activeTab, setActiveTab] = useState<'availableTools' | 'resources' | 'prompts' | 'instructions' | 'settings'>(
+    'availableTools',
+  );
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [isInputMinimized, setIsInputMinimized] = useState(false);
@@ -793,6 +805,8 @@ const Sidebar: React.FC<SidebarProps> = ({ initialPreferences }) => {
 
             {/* Status and Settings section */}
             <div className="py-4 px-4 space-y-4 overflow-y-auto flex-shrink-0">
+              <ElicitationForm />
+              <SamplingApproval adapter={adapter} />
               <ServerStatus status={serverStatus} />
 
               {/* Settings */}
@@ -840,9 +854,9 @@ const Sidebar: React.FC<SidebarProps> = ({ initialPreferences }) => {
                 </CardContent>
               </Card>
 
-              {/* Tabs for Tools/Instructions */}
+              {/* Tabs for Tools/Resources/Prompts/Instructions */}
               <div className="border-b border-slate-200 dark:border-slate-700 mb-2">
-                <div className="flex">
+                <div className="flex overflow-x-auto">
                   <button
                     className={cn(
                       'py-2 px-4 font-medium text-sm transition-all duration-200',
@@ -853,6 +867,26 @@ const Sidebar: React.FC<SidebarProps> = ({ initialPreferences }) => {
                     onClick={() => setActiveTab('availableTools')}>
                     Available Tools
                   </button>
+                  <button
+                    className={cn(
+                      'py-2 px-4 font-medium text-sm transition-all duration-200',
+                      activeTab === 'resources'
+                        ? 'border-b-2 border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400'
+                        : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-t-lg',
+                    )}
+                    onClick={() => setActiveTab('resources')}>
+                    Resources
+                  </button>
+                  <button
+                    className={cn(
+                      'py-2 px-4 font-medium text-sm transition-all duration-200',
+                      activeTab === 'prompts'
+                        ? 'border-b-2 border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400'
+                        : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-t-lg',
+                    )}
+                    onClick={() => setActiveTab('prompts')}>
+                    Prompts
+                  </button>
                   <button
                     className={cn(
                       'py-2 px-4 font-medium text-sm transition-all duration-200',
@@ -897,6 +931,24 @@ const Sidebar: React.FC<SidebarProps> = ({ initialPreferences }) => {
                 </Card>
               </div>
 
+              {/* Resources */}
+              <div
+                className={cn(
+                  'h-full overflow-y-auto scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600 scrollbar-track-transparent',
+                  { hidden: activeTab !== 'resources' },
+                )}>
+                <Resources adapter={adapter} />
+              </div>
+
+              {/* Prompts */}
+              <div
+                className={cn(
+                  'h-full overflow-y-auto scrollbar-thin scrollbar-thumb-slate-300 dark:scrollbar-thumb-slate-600 scrollbar-track-transparent',
+                  { hidden: activeTab !== 'prompts' },
+                )}>
+                <Prompts adapter={adapter} />
+              </div>
+
               {/* Instructions */}
               <div
                 className={cn(
@@ -25,7 +25,9 @@ interface IconProps {
     | 'tool'
     | 'box'
     | 'file-text'
-    | 'arrow-up-right';
+    | 'arrow-up-right'
+    | 'eye'
+    | 'eye-off';
   size?: 'sm' | 'md' | 'lg' | 'xs';
   className?: string;
 }
@@ -288,6 +290,34 @@ const Icon: React.FC<IconProps> = ({ name, size = 'md', className }) => {
             <polyline points="7 7 17 7 17 17"></polyline>
           </svg>
         );
+      case 'eye':
+        return (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round">
+            <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+            <circle cx="12" cy="12" r="3"></circle>
+          </svg>
+        );
+      case 'eye-off':
+        return (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round">
+            <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"></path>
+            <line x1="1" y1="1" x2="23" y2="23"></line>
+          </svg>
+        );
       default:
         return null;
     }
@@ -0,0 +1,142 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { eventBus } from '../events/event-bus';
+import { useConnectionStore } from '../stores/connection.store';
+import { useToolStore } from '../stores/tool.store';
+import { useUIStore } from '../stores/ui.store';
+import type { AdditionalServerStatus } from '../types/stores';
+import { callQueue } from './call-queue';
+import type { QueuedCallHandlers } from './call-queue';
+
+const secondServer = (status: AdditionalServerStatus['status']): AdditionalServerStatus => ({
+  id: 'second',
+  name: 'Second',
+  uri: 'http://localhost:3007/sse',
+  connectionType: 'sse',
+  enabled: true,
+  headerNames: [],
+  status,
+  toolCount: 1,
+});
+
+// Replaying awaits each call in turn, a macrotask lets the queue drain
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const connect = async () => {
+  useConnectionStore.setState({ status: 'connected' });
+  eventBus.emit('connection:status-changed', { status: 'connected' });
+  await flush();
+};
+
+const handlers = (overrides: Partial<QueuedCallHandlers> = {}): QueuedCallHandlers => ({
+  run: vi.fn(async () => {}),
+  confirm: vi.fn(async () => true),
+  onDropped: vi.fn(),
+  ...overrides,
+});
+
+describe('callQueue', () => {
+  beforeEach(() => {
+    useUIStore.setState(state => ({
+      preferences: { ...state.preferences, queueOfflineCalls: true, offlineQueueTtl: 1 },
+    }));
+    useConnectionStore.setState({ status: 'disconnected', additionalServers: [secondServer('disconnected')] });
+    useToolStore.setState({
+      availableTools: [
+        { name: 'read', description: '', input_schema: {}, annotations: { readOnlyHint: true } },
+        { name: 'delete', description: '', input_schema: {}, annotations: { destructiveHint: true } },
+        { name: 'write', description: '', input_schema: {} },
+        { name: 'remote', description: '', input_schema: {}, serverId: 'second' },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    callQueue.getQueued().forEach(call => callQueue.cancel(call.id));
+    vi.useRealTimers();
+  });
+
+  it('queues calls only when the user opted in and the server of the tool is down', () => {
+    expect(callQueue.shouldQueue('read')).toBe(true);
+
+    useConnectionStore.setState({ additionalServers: [secondServer('connected')] });
+    expect(callQueue.shouldQueue('remote')).toBe(false);
+
+    useUIStore.setState(state => ({ preferences: { ...state.preferences, queueOfflineCalls: false } }));
+    expect(callQueue.shouldQueue('read')).toBe(false);
+  });
+
+  it('replays calls in the order they were made once their server is connected', async () => {
+    const order: string[] = [];
+    const run = (label: string) => async () => {
+      order.push(label);
+    };
+
+    callQueue.enqueue('read', handlers({ run: run('first') }));
+    callQueue.enqueue('remote', handlers({ run: run('remote') }));
+    callQueue.enqueue('read', handlers({ run: run('second') }));
+
+    await connect();
+
+    // The call to the second server keeps waiting for it
+    expect(order).toEqual(['first', 'second']);
+    expect(callQueue.getQueued().map(call => call.toolName)).toEqual(['remote']);
+
+    useConnectionStore.setState({ additionalServers: [secondServer('connected')] });
+    await flush();
+
+    expect(order).toEqual(['first', 'second', 'remote']);
+    expect(callQueue.getQueued()).toEqual([]);
+  });
+
+  it('asks before replaying a destructive call', async () => {
+    const declined = handlers({ confirm: vi.fn(async () => false) });
+    const approved = handlers();
+    const unannotated = handlers();
+    const readOnly = handlers({ confirm: vi.fn(async () => false) });
+
+    callQueue.enqueue('delete', declined);
+    callQueue.enqueue('delete', approved);
+    callQueue.enqueue('write', unannotated);
+    callQueue.enqueue('read', readOnly);
+
+    await connect();
+
+    expect(declined.run).not.toHaveBeenCalled();
+    expect(declined.onDropped).toHaveBeenCalledWith('declined');
+    expect(approved.run).toHaveBeenCalledTimes(1);
+    expect(unannotated.confirm).toHaveBeenCalledTimes(1);
+    expect(readOnly.confirm).not.toHaveBeenCalled();
+    expect(readOnly.run).toHaveBeenCalledTimes(1);
+    expect(callQueue.getQueued()).toEqual([]);
+  });
+
+  it('drops calls whose TTL ran out before their server came back', () => {
+    vi.useFakeTimers();
+    const early = handlers();
+    const late = handlers();
+
+    callQueue.enqueue('read', early);
+    vi.advanceTimersByTime(30_000);
+    callQueue.enqueue('read', late);
+    vi.advanceTimersByTime(30_000);
+
+    expect(early.onDropped).toHaveBeenCalledWith('expired');
+    expect(late.onDropped).not.toHaveBeenCalled();
+    expect(callQueue.getQueued()).toHaveLength(1);
+
+    vi.advanceTimersByTime(30_000);
+    expect(late.onDropped).toHaveBeenCalledWith('expired');
+    expect(callQueue.getQueued()).toEqual([]);
+    expect(early.run).not.toHaveBeenCalled();
+  });
+
+  it('removes a cancelled call once', () => {
+    const call = handlers();
+    const { id } = callQueue.enqueue('read', call);
+
+    expect(callQueue.cancel(id)).toBe(true);
+    expect(callQueue.cancel(id)).toBe(false);
+    expect(call.onDropped).toHaveBeenCalledWith('cancelled');
+  });
+});
@@ -0,0 +1,183 @@
+import { eventBus } from '../events/event-bus';
+import { useConnectionStore } from '../stores/connection.store';
+import { useToolStore } from '../stores/tool.store';
+import { useUIStore, DEFAULT_OFFLINE_QUEUE_TTL } from '../stores/ui.store';
+import { isDestructiveTool } from '../utils/helpers';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('CallQueue');
+
+export type QueuedCallDropReason = 'expired' | 'declined' | 'cancelled';
+
+export interface QueuedCall {
+  id: string;
+  toolName: string;
+  queuedAt: number;
+  expiresAt: number;
+}
+
+export interface QueuedCallHandlers {
+  // Makes the call, settles once it finished
+  run: () => Promise<void>;
+  // Asks the user before a destructive call is replayed, resolves whether to run it
+  confirm: () => Promise<boolean>;
+  // The call left the queue without running
+  onDropped: (reason: QueuedCallDropReason) => void;
+}
+
+type QueueEntry = QueuedCall & QueuedCallHandlers;
+
+const findTool = (toolName: string) => useToolStore.getState().availableTools.find(tool => tool.name === toolName);
+
+/**
+ * Whether the server that owns a tool is connected, tools of additional servers carry their server id
+ */
+const isServerConnected = (toolName: string): boolean => {
+  const connection = useConnectionStore.getState();
+  const serverId = findTool(toolName)?.serverId;
+  const server = serverId ? connection.additionalServers.find(candidate => candidate.id === serverId) : undefined;
+  return server ? server.status === 'connected' : connection.status === 'connected';
+};
+
+/**
+ * Tool calls made while their server was disconnected. They are replayed one at a time in
+ * the order they were made once the server is connected, and dropped when their TTL runs out.
+ */
+class CallQueue {
+  private entries: QueueEntry[] = [];
+  private isReplaying = false;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    eventBus.on('connection:status-changed', ({ status }) => {
+      if (status === 'connected') {
+        this.replay();
+      }
+    });
+    // Additional servers report their status through the store only
+    useConnectionStore.subscribe((state, previous) => {
+      if (state.additionalServers !== previous.additionalServers) {
+        this.replay();
+      }
+    });
+  }
+
+  /**
+   * Whether a call should wait in the queue instead of failing, only when the user opted in
+   */
+  shouldQueue(toolName: string): boolean {
+    return !!useUIStore.getState().preferences.queueOfflineCalls && !isServerConnected(toolName);
+  }
+
+  enqueue(toolName: string, handlers: QueuedCallHandlers): QueuedCall {
+    const ttl = useUIStore.getState().preferences.offlineQueueTtl || DEFAULT_OFFLINE_QUEUE_TTL;
+    const queuedAt = Date.now();
+    const entry: QueueEntry = {
+      id: `queued_${queuedAt}_${Math.random().toString(36).substring(2, 9)}`,
+      toolName,
+      queuedAt,
+      expiresAt: queuedAt + ttl * 60_000,
+      ...handlers,
+    };
+
+    this.entries.push(entry);
+    this.scheduleExpiry();
+    logger.debug(`Queued ${toolName} until its server is connected, ${this.entries.length} calls waiting`);
+
+    return { id: entry.id, toolName, queuedAt, expiresAt: entry.expiresAt };
+  }
+
+  /**
+   * Remove a call that has not been replayed yet
+   * @returns Whether the call was still queued
+   */
+  cancel(id: string): boolean {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      return false;
+    }
+    this.drop(entry, 'cancelled');
+    return true;
+  }
+
+  getQueued(): QueuedCall[] {
+    return this.entries.map(({ id, toolName, queuedAt, expiresAt }) => ({ id, toolName, queuedAt, expiresAt }));
+  }
+
+  private async replay(): Promise<void> {
+    if (this.isReplaying) {
+      return;
+    }
+
+    this.isReplaying = true;
+    try {
+      // Calls whose server is still down keep their place, a call queued again while replaying goes last
+      let entry: QueueEntry | undefined;
+      while ((entry = this.entries.find(candidate => isServerConnected(candidate.toolName)))) {
+        this.entries = this.entries.filter(candidate => candidate !== entry);
+        this.scheduleExpiry();
+
+        if (isDestructiveTool(findTool(entry.toolName)?.annotations) && !(await this.confirm(entry))) {
+          continue;
+        }
+
+        logger.debug(`Replaying queued call to ${entry.toolName}`);
+        try {
+          await entry.run();
+        } catch (error) {
+          logger.warn(`Replayed call to ${entry.toolName} failed:`, error);
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  /**
+   * Wait for the user to approve a destructive call, until the call would have expired
+   */
+  private async confirm(entry: QueueEntry): Promise<boolean> {
+    let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<'expired'>(resolve => {
+      expiryTimer = setTimeout(() => resolve('expired'), Math.max(0, entry.expiresAt - Date.now()));
+    });
+
+    const answer = await Promise.race([entry.confirm(), expired]);
+    clearTimeout(expiryTimer);
+
+    if (answer !== true) {
+      entry.onDropped(answer === 'expired' ? 'expired' : 'declined');
+      return false;
+    }
+    return true;
+  }
+
+  private drop(entry: QueueEntry, reason: QueuedCallDropReason): void {
+    this.entries = this.entries.filter(candidate => candidate !== entry);
+    this.scheduleExpiry();
+    logger.debug(`Queued call to ${entry.toolName} ${reason}`);
+    entry.onDropped(reason);
+  }
+
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.entries.length === 0) {
+      return;
+    }
+
+    const nextExpiry = Math.min(...this.entries.map(entry => entry.expiresAt));
+    this.expiryTimer = setTimeout(
+      () => {
+        const now = Date.now();
+        this.entries.filter(entry => entry.expiresAt <= now).forEach(entry => this.drop(entry, 'expired'));
+        this.scheduleExpiry();
+      },
+      Math.max(0, nextExpiry - Date.now()),
+    );
+  }
+}
+
+export const callQueue = new CallQueue();
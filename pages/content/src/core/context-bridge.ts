@@ -12,12 +12,9 @@
 
 import { eventBus } from '../events/event-bus';
 import type { EventMap } from '../events/event-types';
-import type { 
-  BaseMessage, 
-  RequestMessage, 
-  ResponseMessage,
-  McpMessageType
-} from '../types/messages';
+import type { BaseMessage, RequestMessage, ResponseMessage, McpMessageType, McpRequestError } from '../types/messages';
+import { ErrorCategory } from '../types/messages';
+import { MCP_PROTOCOL_VERSION } from '../types/protocol';
 import { createLogger } from '@extension/shared/lib/logger';
 
 // Legacy compatibility interface
@@ -30,6 +27,7 @@ export interface ContextMessage {
   origin: 'content' | 'background' | 'popup' | 'options';
   timestamp: number;
   id?: string;
+  protocolVersion?: number;
 }
 
 export interface ContextBridgeConfig {
@@ -228,7 +226,7 @@ class ContextBridge {
         }
 
         if (message.error) {
-          pending.reject(new Error(message.error));
+          pending.reject(this.createResponseError(message));
         } else {
           // Return the payload if it exists, otherwise the whole message
           pending.resolve(message.payload !== undefined ? message.payload : message);
@@ -384,6 +382,7 @@ class ContextBridge {
       origin: 'content', // Assuming we're in content script context
       timestamp: Date.now(),
       id: messageId,
+      protocolVersion: MCP_PROTOCOL_VERSION,
     };
 
     if (this.config.enableLogging) {
@@ -424,7 +423,7 @@ class ContextBridge {
             // Handle successful response
             if (response) {
               if (response.error) {
-                reject(new Error(response.error));
+                reject(this.createResponseError(response));
               } else {
                 resolve(response.payload !== undefined ? response.payload : response);
               }
@@ -451,7 +450,7 @@ class ContextBridge {
 
             if (response) {
               if (response.error) {
-                reject(new Error(response.error));
+                reject(this.createResponseError(response));
               } else {
                 resolve(response.payload !== undefined ? response.payload : response);
               }
@@ -485,7 +484,22 @@ class ContextBridge {
   /**
    * Check if an error should not be retried
    */
-  private isNonRetryableError(error: Error): boolean {
+  private isNonRetryableError(error: McpRequestError): boolean {
+    // Sending again would run a timed out tool call a second time
+    if (error.category === ErrorCategory.TIMEOUT_ERROR) {
+      return true;
+    }
+
+    // The background rejected the message itself, it would reject it again
+    if (error.category === ErrorCategory.VALIDATION_ERROR) {
+      return true;
+    }
+
+    // The call may have run on the server already, the user decides whether to run it again
+    if (error.category === ErrorCategory.INTERRUPTED_ERROR) {
+      return true;
+    }
+
     const message = error.message.toLowerCase();
     return (
       message.includes('extension context invalidated') ||
@@ -495,6 +509,16 @@ class ContextBridge {
     );
   }
 
+  /**
+   * Error for a failed response, keeping the category the background assigned
+   */
+  private createResponseError(response: ResponseMessage): McpRequestError {
+    return Object.assign(new Error(response.error), {
+      category: response.errorCategory,
+      context: response.errorContext,
+    });
+  }
+
   /**
    * Broadcast a message to all contexts
    */
@@ -14,6 +14,9 @@ export { globalErrorHandler, GlobalErrorHandler } from './error-handler';
 export type { ErrorContext, ErrorReport } from './error-handler';
 
 export { performanceMonitor, PerformanceMonitor } from './performance';
+
+export { callQueue } from './call-queue';
+export type { QueuedCall, QueuedCallHandlers, QueuedCallDropReason } from './call-queue';
 export type { PerformanceMeasurement, MemoryUsage, PerformanceStats } from './performance';
 
 // Main initialization system (Session 10)
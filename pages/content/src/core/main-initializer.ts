@@ -16,6 +16,7 @@ import {
   initializeAllStores,
 } from '../stores';
 import { globalErrorHandler, performanceMonitor, circuitBreaker, contextBridge } from '../core';
+import { initializeSettingsSync } from './settings-sync';
 import { pluginRegistry, cleanupPluginSystem, createPluginContext } from '../plugins';
 import { initializeGlobalEventHandlers, cleanupGlobalEventHandlers } from '../events/event-handlers';
 import { logMessage } from '../utils/helpers';
@@ -117,6 +118,10 @@ async function initializeCoreServices(): Promise<void> {
     await initializeAllStores();
   });
   logger.debug('All stores initialized.');
+
+  // 6. Settings shared with other tabs and the options page
+  await initializeSettingsSync();
+  logger.debug('Settings sync initialized.');
 }
 
 /**
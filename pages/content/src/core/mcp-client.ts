@@ -1,11 +1,63 @@
 import { contextBridge } from './context-bridge';
 import { useConnectionStore } from '../stores/connection.store';
 import { useToolStore } from '../stores/tool.store';
+import { useResourceStore } from '../stores/resource.store';
+import { usePromptStore } from '../stores/prompt.store';
+import { useSamplingStore } from '../stores/sampling.store';
+import { useElicitationStore } from '../stores/elicitation.store';
+import { useUIStore } from '../stores/ui.store';
 import { eventBus } from '../events/event-bus';
-import type { ServerConfig, ConnectionStatus } from '../types/stores';
-import { logMessage } from '../utils/helpers';
+import type {
+  ServerConfig,
+  ServerConfigUpdate,
+  ConnectionStatus,
+  AdditionalServer,
+  AdditionalServerStatus,
+  ResourceContents,
+  Root,
+  Tool,
+  TransportSelection,
+  ReconnectState,
+} from '../types/stores';
+import type {
+  GetPromptResponse,
+  GetRootsResponse,
+  CallTimeouts,
+  GetTimeoutsResponse,
+  GetTrafficResponse,
+  GetProfilesResponse,
+  ServerProfile,
+  SaveProfileRequest,
+  McpRequestError,
+  SamplingResult,
+  ElicitationResponseRequest,
+  HeartbeatResponse,
+  SubscribeResponse,
+  UpdateTabStateRequest,
+} from '../types/messages';
+import { ErrorCategory } from '../types/messages';
+import { BROADCAST_TYPES } from '../types/protocol';
+import { logMessage, redactHeaders, withoutHeaderValues } from '../utils/helpers';
 import { pluginRegistry } from '../plugins';
 
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface CallToolOptions {
+  // Aborting cancels the call on the server
+  signal?: AbortSignal;
+  onProgress?: (progress: ToolProgress) => void;
+  // Milliseconds, overrides the timeout configured for the tool and its server
+  timeout?: number;
+}
+
+// The background times out calls itself and progress keeps extending them,
+// this only guards against a response that never arrives
+const TOOL_CALL_BRIDGE_TIMEOUT = 60 * 60 * 1000;
+
 /**
  * McpClient – Enhanced wrapper around ContextBridge for communicating with the
  * background script and managing MCP (Model Context Protocol) connections.
@@ -26,6 +78,11 @@ class McpClient {
   private isInitialized = false;
   private heartbeatInterval: number | null = null;
   private readonly HEARTBEAT_INTERVAL = 30000; // 30 seconds
+  private toolProgressListeners = new Map<string, (progress: ToolProgress) => void>();
+  // Fail calls in flight that the background lost when its worker restarted
+  private interruptedCallHandlers = new Map<string, (error: McpRequestError) => void>();
+  // Tools this tab had enabled before it was reloaded, applied once enablement has loaded
+  private restoredEnabledTools: string[] | null = null;
 
   private constructor() {
     this.initialize();
@@ -55,6 +112,9 @@ class McpClient {
       this.startHeartbeat();
       logMessage('[McpClient] Heartbeat started');
 
+      // Keep the background's view of this tab current
+      this.watchTabState();
+
       // Mark as initialized before requesting initial state to prevent race conditions
       this.isInitialized = true;
 
@@ -91,6 +151,9 @@ class McpClient {
     while (retryCount < maxRetries) {
       try {
         logMessage(`[McpClient] Requesting initial state from background (attempt ${retryCount + 1}/${maxRetries})...`);
+
+        // Broadcasts only reach subscribed tabs, subscribe before anything can change
+        await this.subscribe();
         
         // First, get current connection status with timeout
         try {
@@ -100,6 +163,9 @@ class McpClient {
             // Cast status to ConnectionStatus type since background returns a string
             const connectionStatus = statusResponse.status as ConnectionStatus;
             this.handleConnectionStatusChange(connectionStatus, undefined);
+            useConnectionStore.getState().setAuthRequired(!!statusResponse.authRequired);
+            useConnectionStore.getState().setTransport(statusResponse.transport ?? null);
+            useConnectionStore.getState().setReconnect(statusResponse.reconnect ?? null);
           }
         } catch (statusError) {
           logMessage(`[McpClient] Failed to get initial connection status: ${statusError instanceof Error ? statusError.message : String(statusError)}`);
@@ -123,6 +189,25 @@ class McpClient {
           });
         }
 
+        // Get saved server profiles
+        try {
+          await this.getProfiles();
+        } catch (profilesError) {
+          logMessage(
+            `[McpClient] Failed to get server profiles: ${profilesError instanceof Error ? profilesError.message : String(profilesError)}`,
+          );
+        }
+
+        // Get additional server statuses
+        try {
+          const servers = await this.getServers();
+          useConnectionStore.getState().setAdditionalServers(servers);
+        } catch (serversError) {
+          logMessage(
+            `[McpClient] Failed to get additional servers: ${serversError instanceof Error ? serversError.message : String(serversError)}`,
+          );
+        }
+
         // Get available tools to populate initial state (force refresh to ensure fresh data)
         try {
           const tools = await this.getAvailableTools(true);
@@ -168,7 +253,7 @@ class McpClient {
     contextBridge.onMessage('connection:status-changed', message => {
       try {
         // Extract status from the payload (should now be properly structured)
-        const { status, error, isConnected } = message.payload ?? {};
+        const { status, error, isConnected, authRequired, transport } = message.payload ?? {};
         
         // Log the raw message for debugging
         logMessage(`[McpClient] Received connection status message: ${JSON.stringify(message)}`);
@@ -177,6 +262,8 @@ class McpClient {
         if (status) {
           logMessage(`[McpClient] Processing status: ${status}, error: ${error}, isConnected: ${isConnected}`);
           this.handleConnectionStatusChange(status, error);
+          useConnectionStore.getState().setAuthRequired(!!authRequired);
+          useConnectionStore.getState().setTransport(transport ?? null);
         } else {
           logMessage(`[McpClient] Warning: No status in connection message payload. Received: ${JSON.stringify(message)}`);
         }
@@ -188,14 +275,91 @@ class McpClient {
     // Listen for tool-list updates (broadcast by background when primitives change)
     contextBridge.onMessage('mcp:tool-update', message => {
       try {
-        const tools = Array.isArray(message.payload) ? message.payload : [];
+        const payload = message.payload;
+        const tools = Array.isArray(payload) ? payload : Array.isArray(payload?.tools) ? payload.tools : [];
         logMessage(`[McpClient] Received tool update: ${tools.length} tools`);
         this.handleToolUpdate(tools);
+        useToolStore.getState().setTruncatedLists(Array.isArray(payload?.truncated) ? payload.truncated : []);
       } catch (error) {
         logMessage(`[McpClient] Error processing tool update: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
 
+    // Listen for resource list changes
+    contextBridge.onMessage('mcp:resources-updated', message => {
+      const { resources, resourceTemplates } = message.payload ?? {};
+      logMessage(`[McpClient] Received resources update: ${Array.isArray(resources) ? resources.length : 0} resources`);
+      useResourceStore
+        .getState()
+        .setResources(
+          Array.isArray(resources) ? resources : [],
+          Array.isArray(resourceTemplates) ? resourceTemplates : [],
+        );
+    });
+
+    // Listen for prompt list changes
+    contextBridge.onMessage('mcp:prompts-updated', message => {
+      const { prompts } = message.payload ?? {};
+      logMessage(`[McpClient] Received prompts update: ${Array.isArray(prompts) ? prompts.length : 0} prompts`);
+      usePromptStore.getState().setPrompts(Array.isArray(prompts) ? prompts : []);
+    });
+
+    // Servers asking the chat's model for a completion, the user has to approve each one
+    contextBridge.onMessage('mcp:sampling-request', message => {
+      const { requestId, serverName, params } = message.payload ?? {};
+      if (!requestId || !params) return;
+
+      logMessage(`[McpClient] Sampling request ${requestId} from ${serverName}`);
+      useSamplingStore.getState().addRequest({ requestId, serverName, params, receivedAt: Date.now() });
+      useUIStore.getState().setSidebarVisibility(true, 'sampling-request');
+    });
+
+    contextBridge.onMessage('mcp:sampling-cancelled', message => {
+      const { requestId, reason } = message.payload ?? {};
+      logMessage(`[McpClient] Sampling request ${requestId} cancelled: ${reason}`);
+      useSamplingStore.getState().removeRequest(requestId);
+    });
+
+    // Servers asking the user for input in the middle of a tool call
+    contextBridge.onMessage('mcp:elicitation-request', message => {
+      const { requestId, serverName, params } = message.payload ?? {};
+      if (!requestId || !params) return;
+
+      logMessage(`[McpClient] Elicitation request ${requestId} from ${serverName}`);
+      useElicitationStore.getState().addRequest({ requestId, serverName, params, receivedAt: Date.now() });
+      useUIStore.getState().setSidebarVisibility(true, 'elicitation-request');
+    });
+
+    contextBridge.onMessage('mcp:elicitation-cancelled', message => {
+      const { requestId, reason } = message.payload ?? {};
+      logMessage(`[McpClient] Elicitation request ${requestId} cancelled: ${reason}`);
+      useElicitationStore.getState().removeRequest(requestId);
+    });
+
+    // Listen for progress of tool calls started from this tab
+    contextBridge.onMessage('mcp:tool-progress', message => {
+      const { callId, progress, total, message: progressMessage } = message.payload ?? {};
+      const listener = callId ? this.toolProgressListeners.get(callId) : undefined;
+      if (listener && typeof progress === 'number') {
+        listener({ progress, total, message: progressMessage });
+      }
+    });
+
+    // A call from this tab will never be answered, the worker restarted while it ran
+    contextBridge.onMessage('mcp:tool-interrupted', message => {
+      const { callId, toolName, startedAt, message: interruptedMessage } = message.payload ?? {};
+      const handler = callId ? this.interruptedCallHandlers.get(callId) : undefined;
+      if (handler) {
+        logMessage(`[McpClient] Tool call interrupted by a worker restart: ${toolName}`);
+        handler(
+          Object.assign(new Error(interruptedMessage || `The extension restarted while ${toolName} was running`), {
+            category: ErrorCategory.INTERRUPTED_ERROR,
+            context: { reason: 'worker-restarted', toolName, startedAt },
+          }),
+        );
+      }
+    });
+
     // Listen for server config updates
     contextBridge.onMessage('mcp:server-config-updated', message => {
       try {
@@ -211,6 +375,26 @@ class McpClient {
       }
     });
 
+    // Listen for additional server status updates
+    contextBridge.onMessage('mcp:servers-updated', message => {
+      try {
+        const servers = Array.isArray(message.payload?.servers) ? message.payload.servers : [];
+        logMessage(`[McpClient] Received additional servers update: ${servers.length} servers`);
+        useConnectionStore.getState().setAdditionalServers(servers);
+      } catch (error) {
+        logMessage(
+          `[McpClient] Error processing servers update: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    });
+
+    // Countdown and attempt counter of the background's automatic reconnects
+    contextBridge.onMessage('mcp:reconnect-state', message => {
+      if (message.payload) {
+        useConnectionStore.getState().setReconnect(message.payload);
+      }
+    });
+
     // Listen for heartbeat responses
     contextBridge.onMessage('mcp:heartbeat-response', message => {
       try {
@@ -285,16 +469,26 @@ class McpClient {
     logMessage(`[McpClient] Received tool update with ${tools.length} tools`);
 
     // Normalize tool data to ensure consistent schema
-    const normalizedTools = tools.map(tool => ({
+    const normalizedTools = tools.map(tool => this.normalizeTool(tool));
+
+    useToolStore.getState().setAvailableTools(normalizedTools);
+    eventBus.emit('tool:list-updated', { tools: normalizedTools });
+  }
+
+  /**
+   * Normalize a tool received from the background script
+   */
+  private normalizeTool(tool: Pick<Tool, 'name'> & Partial<Tool>): Tool {
+    return {
       name: tool.name,
       description: tool.description || '',
       input_schema: tool.input_schema || tool.schema || {},
       // Legacy support
-      schema: typeof tool.schema === 'string' ? tool.schema : JSON.stringify(tool.input_schema || {})
-    }));
-
-    useToolStore.getState().setAvailableTools(normalizedTools);
-    eventBus.emit('tool:list-updated', { tools: normalizedTools });
+      schema: typeof tool.schema === 'string' ? tool.schema : JSON.stringify(tool.input_schema || {}),
+      ...(tool.output_schema && { output_schema: tool.output_schema }),
+      ...(tool.annotations && { annotations: tool.annotations }),
+      ...(tool.serverId && { serverId: tool.serverId }),
+    };
   }
 
   /**
@@ -346,7 +540,19 @@ class McpClient {
    */
   private async sendHeartbeat(): Promise<void> {
     try {
-      await contextBridge.sendMessage('background', 'mcp:heartbeat', { timestamp: Date.now() }, { timeout: 5000 });
+      const response: HeartbeatResponse = await contextBridge.sendMessage(
+        'background',
+        'mcp:heartbeat',
+        { timestamp: Date.now() },
+        { timeout: 5000 },
+      );
+
+      // The background was restarted and forgot this tab, broadcasts sent since then were missed
+      if (response && response.subscribed === false) {
+        logMessage('[McpClient] Background lost the tab subscription, subscribing again');
+        await this.subscribe();
+        await this.forceConnectionStatusCheck();
+      }
     } catch (error) {
       // Heartbeat failure might indicate connection issues
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -357,6 +563,73 @@ class McpClient {
     }
   }
 
+  /**
+   * Subscribe this tab to the background's broadcasts and pick up the state kept for it
+   */
+  private async subscribe(): Promise<void> {
+    const response: SubscribeResponse = await contextBridge.sendMessage(
+      'background',
+      'mcp:subscribe',
+      {
+        site: window.location.hostname,
+        topics: BROADCAST_TYPES,
+        visible: document.visibilityState === 'visible',
+      },
+      { timeout: 5000 },
+    );
+
+    const { enabledTools } = response.state;
+    if (enabledTools) {
+      const toolStore = useToolStore.getState();
+      if (toolStore.availableTools.length > 0 && !toolStore.isLoadingEnablement) {
+        toolStore.restoreEnabledTools(enabledTools);
+      } else {
+        this.restoredEnabledTools = enabledTools;
+      }
+    }
+    logMessage(
+      `[McpClient] Subscribed to background broadcasts (profile: ${response.state.activeProfileId ?? 'none'})`,
+    );
+  }
+
+  /**
+   * Report visibility and enabled tools to the background, which skips hidden tabs
+   * and refuses calls to tools disabled in this tab
+   */
+  private watchTabState(): void {
+    document.addEventListener('visibilitychange', () => {
+      this.updateTabState({ visible: document.visibilityState === 'visible' });
+    });
+
+    useToolStore.subscribe((state, previous) => {
+      if (state.isLoadingEnablement) {
+        return;
+      }
+
+      const loaded = previous.isLoadingEnablement;
+      if (loaded && this.restoredEnabledTools) {
+        // Enablement loads from storage shared by all tabs, a reloaded tab keeps its own
+        const restored = this.restoredEnabledTools;
+        this.restoredEnabledTools = null;
+        state.restoreEnabledTools(restored);
+        return;
+      }
+
+      if (loaded || state.enabledTools !== previous.enabledTools || state.availableTools !== previous.availableTools) {
+        this.updateTabState({
+          enabledTools: Array.from(state.enabledTools),
+          disabledTools: state.availableTools.map(tool => tool.name).filter(name => !state.enabledTools.has(name)),
+        });
+      }
+    });
+  }
+
+  private updateTabState(changes: UpdateTabStateRequest): void {
+    contextBridge.sendMessage('background', 'mcp:update-tab-state', changes, { timeout: 5000 }).catch(error => {
+      logMessage(`[McpClient] Failed to update tab state: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
   /* ------------------------------------------------------------------ */
   /* Public API wrappers                                                */
   /* ------------------------------------------------------------------ */
@@ -364,7 +637,7 @@ class McpClient {
   /**
    * Call a tool on the MCP server with enhanced error handling and validation
    */
-  async callTool(toolName: string, args: Record<string, unknown>): Promise<any> {
+  async callTool(toolName: string, args: Record<string, unknown>, options: CallToolOptions = {}): Promise<any> {
     if (!this.isInitialized) {
       throw new Error('McpClient not initialized');
     }
@@ -373,9 +646,20 @@ class McpClient {
       throw new Error('Tool name is required and must be a string');
     }
 
-    // Validate connection status before making the call
+    // Validate connection status of the server that owns the tool before making the call
     const connectionStore = useConnectionStore.getState();
-    if (connectionStore.status !== 'connected') {
+    const serverId = useToolStore.getState().availableTools.find(tool => tool.name === toolName)?.serverId;
+    const additionalServer = serverId
+      ? connectionStore.additionalServers.find(server => server.id === serverId)
+      : undefined;
+
+    if (additionalServer) {
+      if (additionalServer.status !== 'connected') {
+        throw new Error(
+          `Not connected to MCP server '${additionalServer.name}'. Current status: ${additionalServer.status}. Please check your connection.`,
+        );
+      }
+    } else if (connectionStore.status !== 'connected') {
       throw new Error(`Not connected to MCP server. Current status: ${connectionStore.status}. Please check your connection.`);
     }
 
@@ -388,13 +672,33 @@ class McpClient {
     // Generate execution ID for tracking
     const executionId = useToolStore.getState().startToolExecution(toolName, args);
 
+    // The execution ID doubles as the call ID for progress updates and cancellation
+    const { signal, onProgress, timeout } = options;
+    if (onProgress) {
+      this.toolProgressListeners.set(executionId, onProgress);
+    }
+    const handleAbort = () => {
+      this.cancelTool(executionId).catch(error => {
+        logMessage(`[McpClient] Failed to cancel tool call: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
     try {
-      const result = await contextBridge.sendMessage(
-        'background',
-        'mcp:call-tool',
-        { toolName, args, adapterName }, // Pass adapter name to background
-        { timeout: 30_000 }
-      );
+      if (signal?.aborted) {
+        throw new Error('Tool call cancelled');
+      }
+
+      const interrupted = new Promise<never>((_, reject) => this.interruptedCallHandlers.set(executionId, reject));
+      const result = await Promise.race([
+        contextBridge.sendMessage(
+          'background',
+          'mcp:call-tool',
+          { toolName, args, adapterName, callId: executionId, timeout, conversationId: window.location.pathname }, // Pass adapter name to background
+          { timeout: Math.max(TOOL_CALL_BRIDGE_TIMEOUT, (timeout ?? 0) + 5_000) },
+        ),
+        interrupted,
+      ]);
 
       logMessage(`[McpClient] Tool call successful: ${toolName}`);
 
@@ -428,14 +732,33 @@ class McpClient {
         callId: executionId
       });
 
-      // Check if this is a connection-related error
-      if (this.isConnectionError(errorMessage)) {
+      // Check if this is a connection-related error on the primary server, a slow tool is not one
+      const isTimeout = (error as McpRequestError)?.category === ErrorCategory.TIMEOUT_ERROR;
+      if (!additionalServer && !isTimeout && this.isConnectionError(errorMessage)) {
         logMessage(`[McpClient] Tool call failed due to connection issue, updating connection status`);
         connectionStore.setDisconnected(`Tool call failed: ${errorMessage}`);
       }
 
       throw error;
+    } finally {
+      this.toolProgressListeners.delete(executionId);
+      this.interruptedCallHandlers.delete(executionId);
+      signal?.removeEventListener('abort', handleAbort);
+    }
+  }
+
+  /**
+   * Cancel an in-flight tool call, the background notifies the server with notifications/cancelled
+   */
+  async cancelTool(callId: string): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
     }
+
+    logMessage(`[McpClient] Cancelling tool call: ${callId}`);
+
+    const response = await contextBridge.sendMessage('background', 'mcp:cancel-tool', { callId }, { timeout: 5_000 });
+    return !!response?.cancelled;
   }
 
   /**
@@ -470,25 +793,21 @@ class McpClient {
     logMessage(`[McpClient] Getting available tools (forceRefresh: ${forceRefresh})`);
 
     try {
-      const tools = await contextBridge.sendMessage(
+      const response = await contextBridge.sendMessage(
         'background',
         'mcp:get-tools',
         { forceRefresh },
         { timeout: 10_000 }
       );
 
-      // Validate and normalize tools
+      // Validate and normalize tools, older backgrounds answer with a bare array
+      const tools = Array.isArray(response) ? response : response?.tools;
       const validatedTools = Array.isArray(tools) ? tools : [];
-      const normalizedTools = validatedTools.map(tool => ({
-        name: tool.name,
-        description: tool.description || '',
-        input_schema: tool.input_schema || tool.schema || {},
-        // Legacy support
-        schema: typeof tool.schema === 'string' ? tool.schema : JSON.stringify(tool.input_schema || {})
-      }));
+      const normalizedTools = validatedTools.map(tool => this.normalizeTool(tool));
 
       // Update store for consumers
       useToolStore.getState().setAvailableTools(normalizedTools);
+      useToolStore.getState().setTruncatedLists(Array.isArray(response?.truncated) ? response.truncated : []);
 
       logMessage(`[McpClient] Retrieved ${normalizedTools.length} tools`);
       return normalizedTools;
@@ -499,6 +818,157 @@ class McpClient {
     }
   }
 
+  /**
+   * Retrieve resources and resource templates from every connected server
+   */
+  async getResources(forceRefresh = false): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Getting resources (forceRefresh: ${forceRefresh})`);
+
+    const resourceStore = useResourceStore.getState();
+    resourceStore.setLoading(true);
+
+    try {
+      const response = await contextBridge.sendMessage(
+        'background',
+        'mcp:get-resources',
+        { forceRefresh },
+        { timeout: 15_000 },
+      );
+
+      resourceStore.setResources(
+        Array.isArray(response?.resources) ? response.resources : [],
+        Array.isArray(response?.resourceTemplates) ? response.resourceTemplates : [],
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logMessage(`[McpClient] Failed to get resources: ${errorMessage}`);
+      resourceStore.setError(errorMessage);
+      throw error;
+    } finally {
+      resourceStore.setLoading(false);
+    }
+  }
+
+  /**
+   * Read a resource with resources/read, serverId routes it to an additional server
+   */
+  async readResource(uri: string, serverId?: string): Promise<ResourceContents[]> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Reading resource: ${uri}`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:read-resource',
+      { uri, serverId },
+      { timeout: 30_000 },
+    );
+
+    return Array.isArray(response?.contents) ? response.contents : [];
+  }
+
+  /**
+   * Retrieve prompts from every connected server
+   */
+  async getPrompts(forceRefresh = false): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Getting prompts (forceRefresh: ${forceRefresh})`);
+
+    const promptStore = usePromptStore.getState();
+    promptStore.setLoading(true);
+
+    try {
+      const response = await contextBridge.sendMessage(
+        'background',
+        'mcp:get-prompts',
+        { forceRefresh },
+        { timeout: 15_000 },
+      );
+
+      promptStore.setPrompts(Array.isArray(response?.prompts) ? response.prompts : []);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logMessage(`[McpClient] Failed to get prompts: ${errorMessage}`);
+      promptStore.setError(errorMessage);
+      throw error;
+    } finally {
+      promptStore.setLoading(false);
+    }
+  }
+
+  /**
+   * Fill a prompt with prompts/get, serverId routes it to an additional server
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}, serverId?: string): Promise<GetPromptResponse> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Getting prompt: ${name}`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:get-prompt',
+      { name, arguments: args, serverId },
+      { timeout: 30_000 },
+    );
+
+    return {
+      description: response?.description,
+      messages: Array.isArray(response?.messages) ? response.messages : [],
+    };
+  }
+
+  /**
+   * Answer a sampling request, without a result the request is rejected with the given error
+   */
+  async respondToSampling(requestId: string, response: { result?: SamplingResult; error?: string }): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Answering sampling request ${requestId}: ${response.result ? 'approved' : 'rejected'}`);
+    useSamplingStore.getState().removeRequest(requestId);
+
+    await contextBridge.sendMessage(
+      'background',
+      'mcp:sampling-response',
+      { requestId, ...response },
+      { timeout: 10_000 },
+    );
+  }
+
+  /**
+   * Answer an elicitation request with the user's accept, decline or cancel
+   */
+  async respondToElicitation(
+    requestId: string,
+    response: Omit<ElicitationResponseRequest, 'requestId'>,
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Answering elicitation request ${requestId}: ${response.action}`);
+    useElicitationStore.getState().removeRequest(requestId);
+
+    await contextBridge.sendMessage(
+      'background',
+      'mcp:elicitation-response',
+      { requestId, ...response },
+      { timeout: 10_000 },
+    );
+  }
+
   /**
    * Force a reconnect to the MCP SSE endpoint with enhanced state management
    */
@@ -618,7 +1088,14 @@ class McpClient {
   /**
    * Get current connection status from background script
    */
-  async getCurrentConnectionStatus(): Promise<{ status: string; isConnected: boolean; timestamp: number }> {
+  async getCurrentConnectionStatus(): Promise<{
+    status: string;
+    isConnected: boolean;
+    authRequired?: boolean;
+    transport?: TransportSelection;
+    reconnect?: ReconnectState;
+    timestamp: number;
+  }> {
     if (!this.isInitialized) {
       throw new Error('McpClient not initialized');
     }
@@ -645,12 +1122,12 @@ class McpClient {
   /**
    * Update server configuration in background storage
    */
-  async updateServerConfig(config: Partial<ServerConfig>): Promise<boolean> {
+  async updateServerConfig(config: ServerConfigUpdate): Promise<boolean> {
     if (!this.isInitialized) {
       throw new Error('McpClient not initialized');
     }
 
-    logMessage(`[McpClient] Updating server config: ${JSON.stringify(config)}`);
+    logMessage(`[McpClient] Updating server config: ${JSON.stringify(redactHeaders(config))}`);
 
     try {
       const response = await contextBridge.sendMessage(
@@ -664,7 +1141,7 @@ class McpClient {
 
       if (success) {
         // Update local store
-        useConnectionStore.getState().setServerConfig(config);
+        useConnectionStore.getState().setServerConfig(withoutHeaderValues(config));
         logMessage('[McpClient] Server config updated successfully');
       } else {
         logMessage('[McpClient] Server config update failed');
@@ -678,6 +1155,298 @@ class McpClient {
     }
   }
 
+  /**
+   * Get the additional servers and their connection status
+   */
+  async getServers(): Promise<AdditionalServerStatus[]> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const servers = await contextBridge.sendMessage('background', 'mcp:get-servers', {}, { timeout: 5_000 });
+    return Array.isArray(servers) ? servers : [];
+  }
+
+  /**
+   * Replace the list of additional servers. The background connects them
+   * asynchronously and reports progress through `mcp:servers-updated`.
+   */
+  async updateServers(servers: AdditionalServer[]): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Updating additional servers: ${servers.map(server => server.id).join(', ') || 'none'}`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:update-servers',
+      { servers },
+      { timeout: 10_000 },
+    );
+    return !!response?.success;
+  }
+
+  /**
+   * Reconnect a single additional server
+   */
+  async reconnectServer(serverId: string): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Reconnecting additional server: ${serverId}`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:reconnect-server',
+      { serverId },
+      { timeout: 35_000 },
+    );
+
+    if (!response?.isConnected && response?.error) {
+      logMessage(`[McpClient] Reconnect of ${serverId} failed: ${response.error}`);
+    }
+
+    return !!response?.isConnected;
+  }
+
+  /**
+   * Get the workspace roots of the primary server and of each additional server
+   */
+  async getRoots(): Promise<GetRootsResponse> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage('background', 'mcp:get-roots', {}, { timeout: 5_000 });
+    return { primary: response?.primary ?? [], servers: response?.servers ?? {} };
+  }
+
+  /**
+   * Replace the workspace roots of a server, the primary one without a server id.
+   * Connected servers are notified that the list changed.
+   */
+  async updateRoots(roots: Root[], serverId?: string): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Updating roots of ${serverId ?? 'primary server'}: ${roots.length} roots`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:update-roots',
+      { serverId, roots },
+      { timeout: 10_000 },
+    );
+    return !!response?.success;
+  }
+
+  /**
+   * Get the tool call timeouts per server and per tool, with the default that applies otherwise
+   */
+  async getTimeouts(): Promise<GetTimeoutsResponse> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage('background', 'mcp:get-timeouts', {}, { timeout: 5_000 });
+    return {
+      primary: response?.primary,
+      servers: response?.servers ?? {},
+      tools: response?.tools ?? {},
+      defaultTimeout: response?.defaultTimeout ?? 60_000,
+    };
+  }
+
+  /**
+   * Replace the tool call timeouts, calls already running keep theirs
+   */
+  async updateTimeouts(timeouts: CallTimeouts): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Updating call timeouts for ${Object.keys(timeouts.tools).length} tools`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:update-timeouts',
+      { timeouts },
+      { timeout: 5_000 },
+    );
+    return !!response?.success;
+  }
+
+  /**
+   * Get the saved server profiles and the one in use
+   */
+  async getProfiles(): Promise<GetProfilesResponse> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage('background', 'mcp:get-profiles', {}, { timeout: 5_000 });
+    return this.applyProfiles(response);
+  }
+
+  /**
+   * Save a server profile, replacing the one with the same id or name
+   *
+   * @param activate Mark it as the profile in use, for a profile made from the current setup
+   */
+  async saveProfile(profile: SaveProfileRequest['profile'], activate = false): Promise<ServerProfile> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Saving server profile '${profile.name}'`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:save-profile',
+      { profile, activate },
+      { timeout: 5_000 },
+    );
+    this.applyProfiles(response);
+    return response.profile;
+  }
+
+  async deleteProfile(profileId: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:delete-profile',
+      { profileId },
+      { timeout: 5_000 },
+    );
+    this.applyProfiles(response);
+  }
+
+  /**
+   * Switch the primary server to a profile. The background reconnects on its own
+   * and reports the new status and tools through its broadcasts.
+   */
+  async switchProfile(profileId: string): Promise<ServerProfile> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:switch-profile',
+      { profileId },
+      { timeout: 15_000 },
+    );
+    const { profile } = response;
+    logMessage(`[McpClient] Switched to server profile '${profile.name}'`);
+
+    this.applyProfiles(response);
+    useConnectionStore
+      .getState()
+      .setServerConfig({ uri: profile.uri, connectionType: profile.connectionType, headerNames: profile.headerNames });
+    if (profile.enabledTools) {
+      useToolStore.getState().setEnabledTools(profile.enabledTools);
+    }
+    return profile;
+  }
+
+  /**
+   * Add the profiles from a profile file
+   *
+   * @returns How many profiles were imported
+   */
+  async importProfiles(profiles: unknown[]): Promise<number> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:import-profiles',
+      { profiles },
+      { timeout: 5_000 },
+    );
+    this.applyProfiles(response);
+    return response.imported;
+  }
+
+  private applyProfiles(response: GetProfilesResponse | undefined): GetProfilesResponse {
+    const profiles = { profiles: response?.profiles ?? [], activeProfileId: response?.activeProfileId ?? null };
+    useConnectionStore.getState().setProfiles(profiles.profiles, profiles.activeProfileId);
+    return profiles;
+  }
+
+  /**
+   * Protocol messages the background recorded, oldest first, and whether it is recording
+   */
+  async getTraffic(): Promise<GetTrafficResponse> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage('background', 'mcp:get-traffic', {}, { timeout: 5_000 });
+    return {
+      recording: !!response?.recording,
+      entries: response?.entries ?? [],
+    };
+  }
+
+  /**
+   * Start or stop recording protocol messages, the setting outlives the browser session
+   */
+  async setTrafficRecording(enabled: boolean): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] ${enabled ? 'Starting' : 'Stopping'} protocol traffic recording`);
+
+    const response = await contextBridge.sendMessage(
+      'background',
+      'mcp:set-traffic-recording',
+      { enabled },
+      { timeout: 5_000 },
+    );
+    return !!response?.success;
+  }
+
+  /**
+   * Drop the recorded protocol messages
+   */
+  async clearTraffic(): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    const response = await contextBridge.sendMessage('background', 'mcp:clear-traffic', {}, { timeout: 5_000 });
+    return !!response?.success;
+  }
+
+  /**
+   * Run the OAuth sign in flow for the primary server or an additional one.
+   * The background opens the authorization page, so this waits for the user.
+   */
+  async signIn(serverId?: string): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('McpClient not initialized');
+    }
+
+    logMessage(`[McpClient] Signing in to ${serverId ?? 'primary server'}`);
+
+    const response = await contextBridge.sendMessage('background', 'mcp:sign-in', { serverId }, { timeout: 300_000 });
+
+    if (!response?.isConnected && response?.error) {
+      throw new Error(response.error);
+    }
+
+    return !!response?.isConnected;
+  }
+
   /**
    * Get current connection status
    */
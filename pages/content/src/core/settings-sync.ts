@@ -0,0 +1,186 @@
+import {
+  automationStorage,
+  DEFAULT_AUTOMATION_SETTINGS,
+  getActiveTemplate,
+  instructionStorage,
+  toolEnablementStorage,
+} from '@extension/storage';
+import type { AutomationSettings, InstructionSettings } from '@extension/storage';
+import { AutomationService } from '../services/automation.service';
+import { useToolStore } from '../stores/tool.store';
+import { useUIStore } from '../stores/ui.store';
+import type { UserPreferences } from '../types/stores';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('SettingsSync');
+
+const AUTOMATION_KEYS = Object.keys(DEFAULT_AUTOMATION_SETTINGS) as Array<keyof AutomationSettings>;
+
+const pickAutomation = (preferences: UserPreferences): AutomationSettings =>
+  Object.fromEntries(
+    AUTOMATION_KEYS.map(key => [key, preferences[key] ?? DEFAULT_AUTOMATION_SETTINGS[key]]),
+  ) as AutomationSettings;
+
+const sameAutomation = (a: AutomationSettings, b: AutomationSettings): boolean =>
+  AUTOMATION_KEYS.every(key => a[key] === b[key]);
+
+/**
+ * The sidebar preferences an instruction setting stands for
+ */
+const instructionPreferences = (settings: InstructionSettings) => ({
+  customInstructionsEnabled: settings.enabled,
+  customInstructions: getActiveTemplate(settings)?.content ?? '',
+});
+
+/**
+ * Write sidebar instruction preferences into the settings, edits go to the active template
+ */
+const withInstructionPreferences = (
+  settings: InstructionSettings | null,
+  preferences: UserPreferences,
+): InstructionSettings => {
+  const current: InstructionSettings = settings ?? { enabled: false, activeTemplateId: null, templates: [] };
+  const content = preferences.customInstructions || '';
+  const active = getActiveTemplate(current);
+
+  if (active) {
+    return {
+      ...current,
+      enabled: preferences.customInstructionsEnabled,
+      templates: current.templates.map(template => (template === active ? { ...active, content } : template)),
+    };
+  }
+  if (!content) {
+    return { ...current, enabled: preferences.customInstructionsEnabled };
+  }
+
+  const template = { id: `template_${Date.now()}`, name: 'Custom instructions', content };
+  return {
+    ...current,
+    enabled: preferences.customInstructionsEnabled,
+    activeTemplateId: template.id,
+    templates: [...current.templates, template],
+  };
+};
+
+const sameInstructions = (settings: InstructionSettings, preferences: UserPreferences): boolean => {
+  const expected = instructionPreferences(settings);
+  return (
+    expected.customInstructionsEnabled === preferences.customInstructionsEnabled &&
+    expected.customInstructions === (preferences.customInstructions || '')
+  );
+};
+
+/**
+ * Automation settings are shared by all tabs and the options page. Settings saved before
+ * they were shared come from the sidebar of the first tab that loads.
+ */
+async function syncAutomation(): Promise<void> {
+  const stored = await automationStorage.get();
+  if (!stored) {
+    await automationStorage.set(pickAutomation(useUIStore.getState().preferences));
+    logger.debug('Shared automation settings seeded from this tab');
+  }
+
+  const applyStored = () => {
+    const settings = automationStorage.getSnapshot();
+    const { preferences, updatePreferences } = useUIStore.getState();
+    if (settings && !sameAutomation(settings, pickAutomation(preferences))) {
+      logger.debug('Automation settings changed elsewhere, applying them');
+      updatePreferences(pickAutomation({ ...preferences, ...settings }));
+      AutomationService.getInstance()
+        .updateAutomationStateOnWindow()
+        .catch(error => {
+          logger.warn('Failed to update the automation state on window:', error);
+        });
+    }
+  };
+  applyStored();
+  automationStorage.subscribe(applyStored);
+
+  useUIStore.subscribe((state, previous) => {
+    if (state.preferences === previous.preferences) {
+      return;
+    }
+    const settings = pickAutomation(state.preferences);
+    const current = automationStorage.getSnapshot();
+    if (!current || !sameAutomation(current, settings)) {
+      automationStorage.set(settings).catch(error => logger.warn('Failed to share automation settings:', error));
+    }
+  });
+}
+
+async function syncInstructions(): Promise<void> {
+  const stored = await instructionStorage.get();
+  if (!stored) {
+    await instructionStorage.set(withInstructionPreferences(null, useUIStore.getState().preferences));
+    logger.debug('Shared instruction settings seeded from this tab');
+  }
+
+  const applyStored = () => {
+    const settings = instructionStorage.getSnapshot();
+    const { preferences, updatePreferences } = useUIStore.getState();
+    if (settings && !sameInstructions(settings, preferences)) {
+      logger.debug('Instruction settings changed elsewhere, applying them');
+      updatePreferences(instructionPreferences(settings));
+    }
+  };
+  applyStored();
+  instructionStorage.subscribe(applyStored);
+
+  useUIStore.subscribe((state, previous) => {
+    if (state.preferences === previous.preferences) {
+      return;
+    }
+    const current = instructionStorage.getSnapshot();
+    if (!current || !sameInstructions(current, state.preferences)) {
+      instructionStorage
+        .set(settings => withInstructionPreferences(settings, state.preferences))
+        .catch(error => logger.warn('Failed to share instruction settings:', error));
+    }
+  });
+}
+
+/**
+ * Tabs keep their own enabled tools, so only the tools whose state changed are applied
+ */
+async function syncToolEnablement(): Promise<void> {
+  let known = new Set(await toolEnablementStorage.get());
+
+  toolEnablementStorage.subscribe(() => {
+    const stored = new Set(toolEnablementStorage.getSnapshot() ?? []);
+    const enabledTools = new Set(useToolStore.getState().enabledTools);
+    let changed = false;
+
+    stored.forEach(name => {
+      if (!known.has(name) && !enabledTools.has(name)) {
+        enabledTools.add(name);
+        changed = true;
+      }
+    });
+    known.forEach(name => {
+      if (!stored.has(name) && enabledTools.delete(name)) {
+        changed = true;
+      }
+    });
+    known = stored;
+
+    // Set directly, saving would write this tab's tools back to storage
+    if (changed) {
+      logger.debug('Tool enablement changed elsewhere, applying it');
+      useToolStore.setState({ enabledTools });
+    }
+  });
+}
+
+/**
+ * Keep the settings the options page manages in sync with this tab's stores
+ */
+export async function initializeSettingsSync(): Promise<void> {
+  const results = await Promise.allSettled([syncAutomation(), syncInstructions(), syncToolEnablement()]);
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      logger.warn('Failed to sync settings with the options page:', result.reason);
+    }
+  });
+}
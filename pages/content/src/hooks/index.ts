@@ -8,11 +8,17 @@ export {
   useCurrentSite,
   useConnectionStatus,
   useServerConfig,
+  useAdditionalServers,
+  useServerProfiles,
   useAvailableTools,
   useDetectedTools,
   useToolExecution,
   useToolEnablement,
   useToolActions,
+  useResources,
+  usePrompts,
+  useSamplingRequests,
+  useElicitationRequests,
   useSidebar,
   useSidebarState,
   useUserPreferences,
@@ -69,6 +69,17 @@ export function useCurrentAdapter() {
     }
   }, [plugin, emit]);
 
+  const waitForResponse = useCallback(
+    async (options?: { signal?: AbortSignal; timeout?: number }): Promise<string> => {
+      if (!plugin || !plugin.waitForResponse || !plugin.capabilities.includes('response-reading')) {
+        throw new Error('The active adapter cannot read assistant replies');
+      }
+
+      return await plugin.waitForResponse(options);
+    },
+    [plugin],
+  );
+
   const hasCapability = useCallback((capability: AdapterCapability): boolean => {
     return currentCapabilities.includes(capability);
   }, [currentCapabilities]);
@@ -82,6 +93,7 @@ export function useCurrentAdapter() {
     insertText,
     submitForm,
     attachFile,
+    waitForResponse,
     hasCapability,
     isReady: !!plugin && status === 'active' && !error
   };
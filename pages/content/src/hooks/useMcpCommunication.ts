@@ -1,9 +1,16 @@
 import { useCallback, useEffect, useState, useMemo } from 'react';
 import { mcpClient } from '../core/mcp-client';
-import { useConnectionStatus, useAvailableTools, useServerConfig, useToolEnablement } from './useStores';
+import {
+  useConnectionStatus,
+  useAvailableTools,
+  useServerConfig,
+  useToolEnablement,
+  useAdditionalServers,
+} from './useStores';
 import { useToolStore } from '../stores/tool.store';
-import { logMessage } from '../utils/helpers';
-import type { ServerConfig, Tool, ConnectionType } from '../types/stores';
+import { logMessage, redactHeaders, withoutHeaderValues } from '../utils/helpers';
+import type { ServerConfigUpdate, Tool, ConnectionType, AdditionalServer, Root } from '../types/stores';
+import type { SamplingResult, ElicitationResponseRequest, CallTimeouts, SaveProfileRequest } from '../types/messages';
 
 /**
  * useMcpCommunication – Enhanced facade over mcpClient that provides a stable,
@@ -25,6 +32,7 @@ export const useMcpCommunication = () => {
   const { tools } = useAvailableTools();
   const { config, setConfig } = useServerConfig();
   const { isToolEnabled, isLoadingEnablement } = useToolEnablement();
+  const { servers: additionalServers } = useAdditionalServers();
   const toolActions = useToolStore();
 
   // Local state for operation tracking
@@ -62,35 +70,39 @@ export const useMcpCommunication = () => {
   /**
    * Enhanced tool calling with validation and error handling
    */
-  const callTool = useCallback(async (toolName: string, args: Record<string, unknown>) => {
-    if (!isInitialized) {
-      throw new Error('Communication layer not initialized');
-    }
+  const callTool = useCallback(
+    async (toolName: string, args: Record<string, unknown>) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
 
-    if (!connection.isConnected) {
-      throw new Error('Not connected to MCP server');
-    }
+      // Validate tool exists in available tools
+      const availableTool = tools.find(tool => tool.name === toolName);
+      if (!availableTool) {
+        throw new Error(`Tool '${toolName}' not found in available tools. Please refresh the tool list.`);
+      }
 
-    // Validate tool exists in available tools
-    const availableTool = tools.find(tool => tool.name === toolName);
-    if (!availableTool) {
-      throw new Error(`Tool '${toolName}' not found in available tools. Please refresh the tool list.`);
-    }
+      // Tools from additional servers don't depend on the primary connection, mcpClient checks their server
+      if (!connection.isConnected && !availableTool.serverId) {
+        throw new Error('Not connected to MCP server');
+      }
 
-    try {
-      setLastOperationTime(Date.now());
-      logMessage(`[useMcpCommunication] Calling tool: ${toolName}`);
+      try {
+        setLastOperationTime(Date.now());
+        logMessage(`[useMcpCommunication] Calling tool: ${toolName}`);
 
-      const result = await mcpClient.callTool(toolName, args);
+        const result = await mcpClient.callTool(toolName, args);
 
-      logMessage(`[useMcpCommunication] Tool call successful: ${toolName}`);
-      return result;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logMessage(`[useMcpCommunication] Tool call failed: ${toolName} - ${errorMessage}`);
-      throw new Error(`Tool execution failed: ${errorMessage}`);
-    }
-  }, [isInitialized, connection.isConnected, tools]);
+        logMessage(`[useMcpCommunication] Tool call successful: ${toolName}`);
+        return result;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logMessage(`[useMcpCommunication] Tool call failed: ${toolName} - ${errorMessage}`);
+        throw new Error(`Tool execution failed: ${errorMessage}`);
+      }
+    },
+    [isInitialized, connection.isConnected, tools],
+  );
 
   /**
    * Enhanced tool refresh with better error handling and validation
@@ -191,45 +203,314 @@ export const useMcpCommunication = () => {
   /**
    * Enhanced server config update with validation
    */
-  const updateServerConfig = useCallback(async (cfg: Partial<ServerConfig>) => {
+  const updateServerConfig = useCallback(
+    async (cfg: ServerConfigUpdate) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      // Basic validation
+      if (cfg.uri && typeof cfg.uri !== 'string') {
+        throw new Error('Server URI must be a string');
+      }
+
+      if (cfg.connectionType && !['auto', 'sse', 'websocket', 'streamable-http'].includes(cfg.connectionType)) {
+        throw new Error('Connection type must be "auto", "sse", "websocket", or "streamable-http"');
+      }
+
+      if (cfg.timeout && (typeof cfg.timeout !== 'number' || cfg.timeout <= 0)) {
+        throw new Error('Timeout must be a positive number');
+      }
+
+      try {
+        setLastOperationTime(Date.now());
+        logMessage(`[useMcpCommunication] Updating server config: ${JSON.stringify(redactHeaders(cfg))}`);
+
+        const success = await mcpClient.updateServerConfig(cfg);
+
+        if (success) {
+          // Update local store with merged config
+          setConfig({ ...config, ...withoutHeaderValues(cfg) });
+          logMessage('[useMcpCommunication] Server config updated successfully');
+        } else {
+          logMessage('[useMcpCommunication] Server config update failed');
+        }
+
+        return success;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logMessage(`[useMcpCommunication] Failed to update server config: ${errorMessage}`);
+        throw new Error(`Failed to update server configuration: ${errorMessage}`);
+      }
+    },
+    [isInitialized, config, setConfig],
+  );
+
+  /**
+   * Replace the list of additional servers connected alongside the primary one
+   */
+  const updateAdditionalServers = useCallback(
+    async (servers: AdditionalServer[]) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      if (servers.some(server => !['auto', 'sse', 'websocket', 'streamable-http'].includes(server.connectionType))) {
+        throw new Error('Connection type must be "auto", "sse", "websocket", or "streamable-http"');
+      }
+
+      try {
+        setLastOperationTime(Date.now());
+        return await mcpClient.updateServers(servers);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logMessage(`[useMcpCommunication] Failed to update additional servers: ${errorMessage}`);
+        throw new Error(`Failed to update servers: ${errorMessage}`);
+      }
+    },
+    [isInitialized],
+  );
+
+  /**
+   * Reconnect a single additional server
+   */
+  const reconnectServer = useCallback(
+    async (serverId: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.reconnectServer(serverId);
+    },
+    [isInitialized],
+  );
+
+  /**
+   * Workspace roots offered to servers through the roots capability
+   */
+  const getRoots = useCallback(async () => {
     if (!isInitialized) {
       throw new Error('Communication layer not initialized');
     }
 
-    // Basic validation
-    if (cfg.uri && typeof cfg.uri !== 'string') {
-      throw new Error('Server URI must be a string');
+    return await mcpClient.getRoots();
+  }, [isInitialized]);
+
+  const updateRoots = useCallback(
+    async (roots: Root[], serverId?: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      if (roots.some(root => !root.uri.startsWith('file://'))) {
+        throw new Error('Root URIs must start with file://');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.updateRoots(roots, serverId);
+    },
+    [isInitialized],
+  );
+
+  /**
+   * Tool call timeouts per server and per tool
+   */
+  const getTimeouts = useCallback(async () => {
+    if (!isInitialized) {
+      throw new Error('Communication layer not initialized');
     }
 
-    if (cfg.connectionType && !['sse', 'websocket', 'streamable-http'].includes(cfg.connectionType)) {
-      throw new Error('Connection type must be either "sse", "websocket", or "streamable-http"');
+    return await mcpClient.getTimeouts();
+  }, [isInitialized]);
+
+  const updateTimeouts = useCallback(
+    async (timeouts: CallTimeouts) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.updateTimeouts(timeouts);
+    },
+    [isInitialized],
+  );
+
+  /**
+   * Named primary server profiles
+   */
+  const saveProfile = useCallback(
+    async (profile: SaveProfileRequest['profile'], activate = false) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.saveProfile(profile, activate);
+    },
+    [isInitialized],
+  );
+
+  const deleteProfile = useCallback(
+    async (profileId: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.deleteProfile(profileId);
+    },
+    [isInitialized],
+  );
+
+  const switchProfile = useCallback(
+    async (profileId: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.switchProfile(profileId);
+    },
+    [isInitialized],
+  );
+
+  const importProfiles = useCallback(
+    async (profiles: unknown[]) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.importProfiles(profiles);
+    },
+    [isInitialized],
+  );
+
+  /**
+   * Protocol traffic the background recorded
+   */
+  const getTraffic = useCallback(async () => {
+    if (!isInitialized) {
+      throw new Error('Communication layer not initialized');
     }
 
-    if (cfg.timeout && (typeof cfg.timeout !== 'number' || cfg.timeout <= 0)) {
-      throw new Error('Timeout must be a positive number');
+    return await mcpClient.getTraffic();
+  }, [isInitialized]);
+
+  const setTrafficRecording = useCallback(
+    async (enabled: boolean) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.setTrafficRecording(enabled);
+    },
+    [isInitialized],
+  );
+
+  const clearTraffic = useCallback(async () => {
+    if (!isInitialized) {
+      throw new Error('Communication layer not initialized');
     }
 
-    try {
+    setLastOperationTime(Date.now());
+    return await mcpClient.clearTraffic();
+  }, [isInitialized]);
+
+  /**
+   * OAuth sign in, waits for the user to finish the authorization page
+   */
+  const signIn = useCallback(
+    async (serverId?: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
       setLastOperationTime(Date.now());
-      logMessage(`[useMcpCommunication] Updating server config: ${JSON.stringify(cfg)}`);
+      return await mcpClient.signIn(serverId);
+    },
+    [isInitialized],
+  );
 
-      const success = await mcpClient.updateServerConfig(cfg);
+  /**
+   * Load resources and resource templates into the resource store
+   */
+  const getResources = useCallback(
+    async (forceRefresh = false) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
 
-      if (success) {
-        // Update local store with merged config
-        setConfig({ ...config, ...cfg });
-        logMessage('[useMcpCommunication] Server config updated successfully');
-      } else {
-        logMessage('[useMcpCommunication] Server config update failed');
+      setLastOperationTime(Date.now());
+      await mcpClient.getResources(forceRefresh);
+    },
+    [isInitialized],
+  );
+
+  const readResource = useCallback(
+    async (uri: string, serverId?: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
       }
 
-      return success;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logMessage(`[useMcpCommunication] Failed to update server config: ${errorMessage}`);
-      throw new Error(`Failed to update server configuration: ${errorMessage}`);
-    }
-  }, [isInitialized, config, setConfig]);
+      setLastOperationTime(Date.now());
+      return await mcpClient.readResource(uri, serverId);
+    },
+    [isInitialized],
+  );
+
+  /**
+   * Load prompts into the prompt store
+   */
+  const getPrompts = useCallback(
+    async (forceRefresh = false) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      await mcpClient.getPrompts(forceRefresh);
+    },
+    [isInitialized],
+  );
+
+  const getPrompt = useCallback(
+    async (name: string, args: Record<string, string>, serverId?: string) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      return await mcpClient.getPrompt(name, args, serverId);
+    },
+    [isInitialized],
+  );
+
+  const respondToSampling = useCallback(
+    async (requestId: string, response: { result?: SamplingResult; error?: string }) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      await mcpClient.respondToSampling(requestId, response);
+    },
+    [isInitialized],
+  );
+
+  const respondToElicitation = useCallback(
+    async (requestId: string, response: Omit<ElicitationResponseRequest, 'requestId'>) => {
+      if (!isInitialized) {
+        throw new Error('Communication layer not initialized');
+      }
+
+      setLastOperationTime(Date.now());
+      await mcpClient.respondToElicitation(requestId, response);
+    },
+    [isInitialized],
+  );
 
   /* ---------------------------------------------------------------------- */
   /* Legacy compatibility layer                                             */
@@ -283,9 +564,12 @@ export const useMcpCommunication = () => {
         ? (tool as any).schema
         : JSON.stringify(tool.input_schema || {}),
       // Keep original input_schema for new components
-      input_schema: tool.input_schema
+      input_schema: tool.input_schema,
+      output_schema: tool.output_schema,
+      annotations: tool.annotations,
+      serverId: tool.serverId,
     }));
-    
+
     // Then filter out disabled tools
     const enabledTools = normalized.filter(tool => isToolEnabled(tool.name));
     
@@ -340,6 +624,7 @@ export const useMcpCommunication = () => {
     availableTools: normalizedTools,
     lastConnectionError: connection.error || '',
     serverConfig: config,
+    additionalServers,
 
     /* -------------------------------------------------------------------- */
     /* Enhanced status information                                          */
@@ -363,6 +648,26 @@ export const useMcpCommunication = () => {
     }, [isInitialized]),
     getServerConfig,
     updateServerConfig,
+    updateAdditionalServers,
+    reconnectServer,
+    getRoots,
+    updateRoots,
+    getTimeouts,
+    updateTimeouts,
+    saveProfile,
+    deleteProfile,
+    switchProfile,
+    importProfiles,
+    getTraffic,
+    setTrafficRecording,
+    clearTraffic,
+    signIn,
+    getResources,
+    readResource,
+    getPrompts,
+    getPrompt,
+    respondToSampling,
+    respondToElicitation,
 
     /* -------------------------------------------------------------------- */
     /* Legacy compatibility                                                 */
@@ -2,6 +2,10 @@
 import { useAppStore } from '../stores/app.store';
 import { useConnectionStore } from '../stores/connection.store';
 import { useToolStore } from '../stores/tool.store';
+import { useResourceStore } from '../stores/resource.store';
+import { usePromptStore } from '../stores/prompt.store';
+import { useSamplingStore } from '../stores/sampling.store';
+import { useElicitationStore } from '../stores/elicitation.store';
 import type { AppState } from '../stores/app.store';
 import { useUIStore } from '../stores/ui.store';
 import { useAdapterStore } from '../stores/adapter.store';
@@ -63,9 +67,12 @@ export const useConnectionStatus = () =>
       serverConfig: state.serverConfig,
       lastConnectedAt: state.lastConnectedAt,
       connectionAttempts: state.connectionAttempts,
-      maxRetryAttempts: state.serverConfig.retryAttempts
-    })
-  ));
+      maxRetryAttempts: state.serverConfig.retryAttempts,
+      authRequired: state.authRequired,
+      transport: state.transport,
+      reconnect: state.reconnect,
+    })),
+  );
 
 export const useServerConfig = () =>
   useConnectionStore(useShallow(
@@ -75,10 +82,27 @@ export const useServerConfig = () =>
     })
   ));
 
+export const useAdditionalServers = () =>
+  useConnectionStore(
+    useShallow(state => ({
+      servers: state.additionalServers,
+      setServers: state.setAdditionalServers,
+    })),
+  );
+
+export const useServerProfiles = () =>
+  useConnectionStore(
+    useShallow(state => ({
+      profiles: state.profiles,
+      activeProfileId: state.activeProfileId,
+    })),
+  );
+
 export const useAvailableTools = () =>
   useToolStore(useShallow(
     (state) => ({
       tools: state.availableTools,
+      truncatedLists: state.truncatedLists,
       setAvailableTools: state.setAvailableTools
     })
   ));
@@ -127,6 +151,43 @@ export const useToolActions = () =>
     })
   ));
 
+// Resource Store hooks
+export const useResources = () =>
+  useResourceStore(
+    useShallow(state => ({
+      resources: state.resources,
+      resourceTemplates: state.resourceTemplates,
+      isLoading: state.isLoading,
+      error: state.error,
+    })),
+  );
+
+// Prompt Store hooks
+export const usePrompts = () =>
+  usePromptStore(
+    useShallow(state => ({
+      prompts: state.prompts,
+      isLoading: state.isLoading,
+      error: state.error,
+    })),
+  );
+
+// Sampling Store hooks
+export const useSamplingRequests = () =>
+  useSamplingStore(
+    useShallow(state => ({
+      requests: state.requests,
+    })),
+  );
+
+// Elicitation Store hooks
+export const useElicitationRequests = () =>
+  useElicitationStore(
+    useShallow(state => ({
+      requests: state.requests,
+    })),
+  );
+
 // UI Store hooks
 export const useSidebar = () =>
   useUIStore(useShallow(
@@ -5,6 +5,11 @@ import type {
   DetectedTool 
 } from '../plugin-types';
 
+// A reply counts as finished once its text stopped changing for this long
+const RESPONSE_SETTLE_MS = 3000;
+const RESPONSE_POLL_INTERVAL = 500;
+const DEFAULT_RESPONSE_TIMEOUT = 5 * 60 * 1000;
+
 /**
  * BaseAdapterPlugin provides a foundational class for all adapter plugins.
  * It includes common lifecycle methods and utility functions that can be overridden or extended by specific adapters.
@@ -16,6 +21,8 @@ export abstract class BaseAdapterPlugin implements AdapterPlugin {
   abstract readonly capabilities: AdapterCapability[];
 
   protected context!: PluginContext;
+  // Matches every assistant reply on the page, adapters that set it support 'response-reading'
+  protected readonly responseSelector?: string;
   protected currentStatus: 'pending' | 'initializing' | 'active' | 'inactive' | 'error' | 'disabled' = 'pending';
 
   constructor() {
@@ -90,6 +97,54 @@ export abstract class BaseAdapterPlugin implements AdapterPlugin {
     return null;
   }
 
+  /**
+   * Resolve with the text of the next assistant reply once it stopped streaming.
+   * Call it before submitting so replies already on the page are not picked up.
+   */
+  async waitForResponse(options: { signal?: AbortSignal; timeout?: number } = {}): Promise<string> {
+    const selector = this.responseSelector;
+    if (!selector) {
+      throw new Error(`${this.name} cannot read assistant replies`);
+    }
+
+    const { signal, timeout = DEFAULT_RESPONSE_TIMEOUT } = options;
+    const initialCount = document.querySelectorAll(selector).length;
+    const startedAt = Date.now();
+    let lastText = '';
+    let stableSince = startedAt;
+
+    return new Promise((resolve, reject) => {
+      const finish = (error: Error | null, text = '') => {
+        clearInterval(timer);
+        signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve(text);
+      };
+      const onAbort = () => finish(new Error('Stopped waiting for the assistant reply'));
+
+      const timer = setInterval(() => {
+        if (Date.now() - startedAt > timeout) {
+          finish(new Error('Timed out waiting for the assistant reply'));
+          return;
+        }
+
+        const replies = document.querySelectorAll<HTMLElement>(selector);
+        if (replies.length <= initialCount) return;
+
+        const text = (replies[replies.length - 1].innerText || '').trim();
+        if (!text || text !== lastText) {
+          lastText = text;
+          stableSince = Date.now();
+        } else if (Date.now() - stableSince >= RESPONSE_SETTLE_MS) {
+          finish(null, text);
+        }
+      }, RESPONSE_POLL_INTERVAL);
+
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   // Utility methods
   isSupported(): boolean | Promise<boolean> {
     // By default, if an adapter is defined for a hostname, it's considered supported.
@@ -22,9 +22,12 @@ export class ChatGPTAdapter extends BaseAdapterPlugin {
     'text-insertion',
     'form-submission',
     'file-attachment',
-    'dom-manipulation'
+    'dom-manipulation',
+    'response-reading',
   ];
 
+  protected readonly responseSelector = '[data-message-author-role="assistant"]';
+
   // CSS selectors for ChatGPT's UI elements
   // Updated selectors based on current ChatGPT interface
   private readonly selectors = {
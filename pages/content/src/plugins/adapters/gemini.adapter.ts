@@ -23,9 +23,12 @@ export class GeminiAdapter extends BaseAdapterPlugin {
     'text-insertion',
     'form-submission',
     'file-attachment',
-    'dom-manipulation'
+    'dom-manipulation',
+    'response-reading',
   ];
 
+  protected readonly responseSelector = 'model-response message-content';
+
   // CSS selectors for Gemini's UI elements - loaded from configuration
   private config: AdapterConfig | null = null;
 
@@ -22,7 +22,8 @@ export type AdapterCapability =
   | 'url-navigation'
   | 'element-selection'
   | 'screenshot-capture'
-  | 'dom-manipulation';
+  | 'dom-manipulation'
+  | 'response-reading';
 
 export type PluginType = 
   | 'sidebar'
@@ -92,6 +93,7 @@ export interface AdapterPlugin {
   selectElement?(selector: string): Promise<HTMLElement | null>;
   navigateToUrl?(url: string): Promise<boolean>;
   executeScript?<T>(script: string | (() => T)): Promise<T | null>;
+  waitForResponse?(options?: { signal?: AbortSignal; timeout?: number }): Promise<string>;
 
   // Utility methods
   isSupported(): boolean | Promise<boolean>;
@@ -103,6 +105,18 @@ export interface AdapterPlugin {
   onHostChanged?(newHost: string, oldHost?: string): void;
 }
 
+/**
+ * The adapter the sidebar hands to its panels, a thin layer over the active plugin
+ */
+export interface SidebarAdapter {
+  insertTextIntoInput(text: string): Promise<boolean>;
+  supportsFileUpload(): boolean;
+  attachFile(file: File): Promise<boolean>;
+  triggerSubmission(): Promise<boolean>;
+  supportsResponseReading(): boolean;
+  waitForResponse(options?: { signal?: AbortSignal; timeout?: number }): Promise<string>;
+}
+
 export interface AdapterConfig {
   id: string; // Unique identifier for the adapter configuration
   name: string; // Display name for the adapter configuration
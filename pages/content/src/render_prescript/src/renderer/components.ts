@@ -6,6 +6,18 @@ import { storeExecutedFunction, generateContentSignature } from '../mcpexecute/s
 import { checkAndDisplayFunctionHistory, createHistoryPanel, updateHistoryPanel } from './functionHistory';
 import { extractJSONParameters, stripLanguageTags, extractCleanContent } from '../parser/jsonFunctionParser';
 import { createLogger } from '@extension/shared/lib/logger';
+import { ErrorCategory } from '@src/types/messages';
+import type { McpRequestError } from '@src/types/messages';
+import {
+  createStructuredTree,
+  validateStructuredContent,
+  getPreferredInsertForm,
+  setPreferredInsertForm,
+} from './structuredResult';
+import type { InsertForm } from './structuredResult';
+import { prepareToolArguments, formatArgumentFeedback } from './toolArguments';
+import { callQueue } from '@src/core/call-queue';
+import type { QueuedCall, QueuedCallDropReason } from '@src/core/call-queue';
 
 // Add type declarations for the global adapter and mcpClient access
 
@@ -572,6 +584,48 @@ export const smoothlyUpdateBlockContent = (
   }, transitionDuration + 50);
 };
 
+interface ToolProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Show the running state of a tool call in its loading indicator, including
+ * the progress the server reports with notifications/progress
+ *
+ * @param loadingIndicator Loading indicator element
+ * @param update Latest progress update, or null before the server reported any
+ */
+const renderToolProgress = (loadingIndicator: HTMLDivElement, update: ToolProgressUpdate | null): void => {
+  const percent =
+    update?.total && update.total > 0 ? Math.min(100, Math.round((update.progress / update.total) * 100)) : null;
+
+  let label = update?.message || 'Running...';
+  if (percent !== null) {
+    label += ` (${percent}%)`;
+  } else if (update) {
+    label += ` (${update.progress})`;
+  }
+
+  // The message comes from the server, set it as text only
+  loadingIndicator.replaceChildren(
+    createOptimizedElement('div', { className: 'function-progress-text', textContent: label }),
+  );
+
+  if (percent !== null) {
+    const bar = createOptimizedElement('div', { className: 'function-progress-bar' });
+    const fill = createOptimizedElement('div', {
+      className: 'function-progress-fill',
+      styles: { width: `${percent}%` },
+    });
+    bar.appendChild(fill);
+    loadingIndicator.appendChild(bar);
+  }
+
+  loadingIndicator.style.display = 'block';
+};
+
 /**
  * Optimized execute button creation with efficient DOM operations
  * Performance improvements: batch DOM operations, use ElementPool, cache queries
@@ -689,11 +743,24 @@ export const addExecuteButton = (blockDiv: HTMLDivElement, rawContent: string):
     },
   }) as HTMLDivElement;
 
+  // Cancel button, only shown while the call is running
+  const cancelButton = createOptimizedElement('button', {
+    className: 'cancel-tool-button',
+    innerHTML: '<span>Cancel</span>',
+    styles: {
+      display: 'none',
+    },
+    attributes: {
+      title: 'Cancel the running tool call',
+    },
+  }) as HTMLButtonElement;
+
   // Cache DOM references for performance
   const buttonText = executeButton.querySelector('span')!;
 
-  // Optimized click handler with better performance and mcpClient integration
-  executeButton.onclick = async () => {
+  // Optimized click handler with better performance and mcpClient integration,
+  // a timeout overrides the configured one when retrying a call that timed out
+  const executeCall = async (timeout?: number, ignoreArgumentErrors = false) => {
     // Batch button state changes
     executeButton.disabled = true;
     buttonText.style.display = 'none';
@@ -718,6 +785,8 @@ export const addExecuteButton = (blockDiv: HTMLDivElement, rawContent: string):
     const resetButtonState = () => {
       executeButton.disabled = false;
       buttonText.style.display = '';
+      cancelButton.style.display = 'none';
+      cancelButton.onclick = null;
 
       if (executeButton.contains(spinner)) {
         executeButton.removeChild(spinner);
@@ -744,16 +813,58 @@ export const addExecuteButton = (blockDiv: HTMLDivElement, rawContent: string):
         return;
       }
 
-      logger.debug(`Executing function ${functionName}, call_id: ${callId} with arguments:`, parameters);
+      // Arguments are converted to the types the tool asks for, a mismatch is shown instead of calling the server
+      const prepared = prepareToolArguments(functionName, parameters);
+      if (prepared.errors.length > 0 && !ignoreArgumentErrors) {
+        resetButtonState();
+        resultsPanel.style.display = 'block';
+        displayResult(
+          resultsPanel,
+          loadingIndicator,
+          false,
+          `The arguments do not match the input schema of ${functionName}, the tool was not called.`,
+        );
+        appendArgumentErrors(
+          resultsPanel,
+          prepared.errors,
+          formatArgumentFeedback(functionName, callId, prepared),
+          () => executeCall(timeout, true),
+        );
+        return;
+      }
+      const args = prepared.args;
+
+      // With the offline queue on, a call to a disconnected server waits for it instead of failing
+      if (callQueue.shouldQueue(functionName)) {
+        resetButtonState();
+        queueCall(timeout, ignoreArgumentErrors);
+        return;
+      }
+
+      logger.debug(`Executing function ${functionName}, call_id: ${callId} with arguments:`, args);
 
       // Show results panel and loading indicator
       resultsPanel.style.display = 'block';
       resultsPanel.innerHTML = '';
+      renderToolProgress(loadingIndicator, null);
       resultsPanel.appendChild(loadingIndicator);
 
+      // Aborting makes the background send notifications/cancelled to the server
+      const abortController = new AbortController();
+      cancelButton.disabled = false;
+      cancelButton.style.display = 'flex';
+      cancelButton.onclick = () => {
+        cancelButton.disabled = true;
+        abortController.abort();
+      };
+
       // Call tool using the new mcpClient async API
       try {
-        const result = await mcpClient.callTool(functionName, parameters);
+        const result = await mcpClient.callTool(functionName, args, {
+          signal: abortController.signal,
+          onProgress: (progress: ToolProgressUpdate) => renderToolProgress(loadingIndicator, progress),
+          timeout,
+        });
 
         resetButtonState();
         displayResult(resultsPanel, loadingIndicator, true, result);
@@ -773,7 +884,21 @@ export const addExecuteButton = (blockDiv: HTMLDivElement, rawContent: string):
         let errorMessage = toolError instanceof Error ? toolError.message : String(toolError);
 
         // Check for connection-related errors and provide better user feedback
-        if (errorMessage.includes('not connected') || errorMessage.includes('connection')) {
+        if (abortController.signal.aborted) {
+          errorMessage = 'Tool call cancelled.';
+        } else if ((toolError as McpRequestError)?.category === ErrorCategory.TIMEOUT_ERROR) {
+          const usedTimeout: number | undefined = toolError.context?.timeout;
+          displayResult(
+            resultsPanel,
+            loadingIndicator,
+            false,
+            usedTimeout
+              ? `Timed out after ${usedTimeout / 1000}s without a result or progress update.`
+              : 'Timed out without a result or progress update.',
+          );
+          appendRetryButton(resultsPanel, usedTimeout, retryTimeout => executeCall(retryTimeout, ignoreArgumentErrors));
+          return;
+        } else if (errorMessage.includes('not connected') || errorMessage.includes('connection')) {
           errorMessage = 'Connection lost. Please check your MCP server connection.';
         } else if (errorMessage.includes('timeout')) {
           errorMessage = 'Request timed out. Please try again.';
@@ -800,8 +925,47 @@ export const addExecuteButton = (blockDiv: HTMLDivElement, rawContent: string):
     }
   };
 
+  // Show the call as queued until the queue replays or drops it
+  const queueCall = (timeout: number | undefined, ignoreArgumentErrors: boolean) => {
+    const leaveQueuedState = () => {
+      executeButton.disabled = false;
+      buttonText.textContent = 'Run';
+      cancelButton.style.display = 'none';
+      cancelButton.onclick = null;
+    };
+
+    executeButton.disabled = true;
+    buttonText.textContent = 'Queued';
+    resultsPanel.style.display = 'block';
+    resultsPanel.innerHTML = '';
+
+    const queued = callQueue.enqueue(functionName, {
+      run: () => {
+        leaveQueuedState();
+        return executeCall(timeout, ignoreArgumentErrors);
+      },
+      confirm: () => {
+        cancelButton.style.display = 'none';
+        return askToReplay(resultsPanel, functionName);
+      },
+      onDropped: reason => {
+        leaveQueuedState();
+        resultsPanel.innerHTML = '';
+        displayResult(resultsPanel, loadingIndicator, false, QUEUE_DROP_MESSAGES[reason]);
+      },
+    });
+
+    renderQueuedCall(resultsPanel, queued);
+    cancelButton.disabled = false;
+    cancelButton.style.display = 'flex';
+    cancelButton.onclick = () => callQueue.cancel(queued.id);
+  };
+
+  executeButton.onclick = () => executeCall();
+
   // Batch DOM operations
   fragment.appendChild(executeButton);
+  fragment.appendChild(cancelButton);
   blockDiv.appendChild(fragment);
 
   // Efficiently determine target parent
@@ -1255,6 +1419,187 @@ const attachResultAsFile = async (
   return { success: false, message: null };
 };
 
+/**
+ * Offer to run a timed out call again with twice the timeout it had
+ *
+ * @param resultsPanel Results panel showing the timeout error
+ * @param usedTimeout Timeout of the failed call in milliseconds, if known
+ * @param retry Runs the call with the given timeout
+ */
+const appendRetryButton = (
+  resultsPanel: HTMLDivElement,
+  usedTimeout: number | undefined,
+  retry: (timeout: number) => void,
+): void => {
+  const nextTimeout = Math.min((usedTimeout ?? 60_000) * 2, 60 * 60 * 1000);
+
+  const retryButton = createOptimizedElement('button', {
+    className: 'retry-timeout-button',
+    innerHTML: `<span>Retry with ${nextTimeout / 1000}s timeout</span>`,
+    attributes: {
+      title: 'Run the tool again and wait longer for a result',
+    },
+  }) as HTMLButtonElement;
+
+  retryButton.onclick = () => {
+    retryButton.disabled = true;
+    retry(nextTimeout);
+  };
+
+  resultsPanel.appendChild(retryButton);
+};
+
+const QUEUE_DROP_MESSAGES: Record<QueuedCallDropReason, string> = {
+  expired: 'The queued call expired before the server came back, the tool was not called.',
+  declined: 'The queued call was skipped, the tool was not called.',
+  cancelled: 'The queued call was cancelled, the tool was not called.',
+};
+
+/**
+ * Show that a call waits in the offline queue
+ */
+const renderQueuedCall = (resultsPanel: HTMLDivElement, queued: QueuedCall): void => {
+  const expiresAt = new Date(queued.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  resultsPanel.appendChild(
+    createOptimizedElement('div', {
+      className: 'function-queued-state',
+      textContent: `Queued, runs when the server is connected again. Expires at ${expiresAt}.`,
+    }),
+  );
+};
+
+/**
+ * Ask before a queued destructive call is replayed
+ *
+ * @returns Whether the user chose to run it
+ */
+const askToReplay = (resultsPanel: HTMLDivElement, functionName: string): Promise<boolean> =>
+  new Promise(resolve => {
+    const prompt = createOptimizedElement('div', { className: 'auto-execute-confirmation' });
+    const message = createOptimizedElement('span', {
+      textContent: `The server is back. ${functionName} may delete or overwrite data, run it now?`,
+    });
+    const runButton = createOptimizedElement('button', {
+      className: 'auto-execute-confirm-button',
+      textContent: 'Run',
+    }) as HTMLButtonElement;
+    const skipButton = createOptimizedElement('button', {
+      className: 'auto-execute-skip-button',
+      textContent: 'Skip',
+    }) as HTMLButtonElement;
+
+    const answer = (run: boolean) => {
+      prompt.remove();
+      resolve(run);
+    };
+    runButton.onclick = () => answer(true);
+    skipButton.onclick = () => answer(false);
+
+    prompt.append(message, runButton, skipButton);
+    resultsPanel.appendChild(prompt);
+  });
+
+/**
+ * Insert text into the chat input through the current adapter
+ *
+ * @param text Text to insert
+ * @returns Whether the adapter accepted the text
+ */
+const insertIntoChat = async (text: string): Promise<boolean> => {
+  const adapter = getCurrentAdapter();
+  if (!adapter || !adapterSupportsCapability('text-insertion')) {
+    logger.error('Current adapter does not support text insertion.');
+    return false;
+  }
+
+  let inserted = false;
+  if (typeof adapter.insertText === 'function') {
+    try {
+      inserted = await adapter.insertText(text);
+    } catch (error) {
+      logger.error('Adapter insertText method failed:', error);
+    }
+  }
+  // The legacy insertTextIntoInput path inserts from this event
+  if (inserted || typeof adapter.insertTextIntoInput === 'function') {
+    requestAnimationFrame(() => {
+      document.dispatchEvent(
+        new CustomEvent('mcp:tool-execution-complete', {
+          detail: {
+            result: text,
+            isFileAttachment: false,
+            fileName: '',
+            skipAutoInsertCheck: true,
+          },
+        }),
+      );
+    });
+    return true;
+  }
+  return false;
+};
+
+/**
+ * List why a call's arguments were rejected, with actions to tell the model or run the call regardless
+ *
+ * @param resultsPanel Results panel showing the validation error
+ * @param errors One message per problem with the arguments
+ * @param feedback Correction message for the model
+ * @param runAnyway Runs the call without checking the arguments
+ */
+const appendArgumentErrors = (
+  resultsPanel: HTMLDivElement,
+  errors: string[],
+  feedback: string,
+  runAnyway: () => void,
+): void => {
+  const errorList = createOptimizedElement('ul', {
+    className: 'argument-error-list',
+  });
+  errors.forEach(error => {
+    const item = document.createElement('li');
+    item.textContent = error;
+    errorList.appendChild(item);
+  });
+
+  const actions = createOptimizedElement('div', {
+    className: 'argument-error-actions',
+  });
+
+  const sendButton = createOptimizedElement('button', {
+    className: 'argument-error-button',
+    innerHTML: '<span>Send error to model</span>',
+    attributes: {
+      title: 'Insert the validation errors and the expected schema into the chat',
+    },
+  }) as HTMLButtonElement;
+  const sendButtonText = sendButton.querySelector('span')!;
+  sendButton.onclick = async () => {
+    sendButton.disabled = true;
+    const inserted = await insertIntoChat(feedback);
+    sendButtonText.textContent = inserted ? 'Inserted!' : 'Insert failed';
+    setTimeout(() => {
+      sendButtonText.textContent = 'Send error to model';
+      sendButton.disabled = false;
+    }, 2000);
+  };
+
+  const runButton = createOptimizedElement('button', {
+    className: 'argument-error-button',
+    innerHTML: '<span>Run anyway</span>',
+    attributes: {
+      title: 'Call the tool with the arguments as they are',
+    },
+  }) as HTMLButtonElement;
+  runButton.onclick = () => {
+    runButton.disabled = true;
+    runAnyway();
+  };
+
+  actions.append(sendButton, runButton);
+  resultsPanel.append(errorList, actions);
+};
+
 /**
  * Optimized result display with efficient DOM operations and batch processing
  * Performance improvements: reduce DOM queries, batch operations, efficient element creation
@@ -1282,7 +1627,9 @@ export const displayResult = (
     }
 
     // Batch remove existing result content
-    const existingResults = resultsPanel.querySelectorAll('.function-result-success, .function-result-error');
+    const existingResults = resultsPanel.querySelectorAll(
+      '.function-result-success, .function-result-error, .function-result-warning',
+    );
     existingResults.forEach(el => resultsPanel.removeChild(el));
 
     // Remove previous button container
@@ -1388,6 +1735,33 @@ export const displayResult = (
       resultContent.textContent = rawResultText;
     }
 
+    // Structured results show as a tree, the user picks which form gets inserted
+    const structuredContent = result && typeof result === 'object' ? result.structuredContent : undefined;
+    const hasStructuredContent = structuredContent !== undefined && structuredContent !== null;
+    const textForm = rawResultText;
+    const structuredForm = hasStructuredContent ? JSON.stringify(structuredContent, null, 2) : '';
+
+    if (hasStructuredContent) {
+      resultContent.replaceChildren(createStructuredTree(structuredContent));
+
+      const schemaErrors = validateStructuredContent(functionName, structuredContent);
+      if (schemaErrors.length > 0) {
+        logger.warn(`Structured result of ${functionName} does not match its output schema:`, schemaErrors);
+        const shown = schemaErrors.slice(0, 3).join('; ');
+        const more = schemaErrors.length > 3 ? ` (and ${schemaErrors.length - 3} more)` : '';
+        resultsPanel.appendChild(
+          createOptimizedElement('div', {
+            className: 'function-result-warning',
+            textContent: `Result does not match the tool's output schema: ${shown}${more}`,
+          }),
+        );
+      }
+
+      if (getPreferredInsertForm() === 'structured') {
+        rawResultText = structuredForm;
+      }
+    }
+
     // Add result to panel
     resultsPanel.appendChild(resultContent);
 
@@ -1618,6 +1992,25 @@ export const displayResult = (
       );
     };
 
+    // Choice of inserting the text or the structured form, remembered for later results
+    if (hasStructuredContent) {
+      const formSelect = createOptimizedElement('select', {
+        className: 'insert-form-select',
+        innerHTML: '<option value="text">Text</option><option value="structured">Structured</option>',
+        attributes: {
+          title: 'Which form of the result to insert',
+          'aria-label': 'Insert form',
+        },
+      }) as HTMLSelectElement;
+      formSelect.value = getPreferredInsertForm();
+      formSelect.onchange = () => {
+        const form = formSelect.value as InsertForm;
+        setPreferredInsertForm(form);
+        rawResultText = form === 'structured' ? structuredForm : textForm;
+      };
+      buttonContainer.appendChild(formSelect);
+    }
+
     // Efficiently build button container
     buttonContainer.appendChild(insertButton);
 
@@ -13,6 +13,7 @@ import { getPreviousExecution, getPreviousExecutionLegacy, generateContentSignat
 import type { ParamValueElement } from '../core/types';
 import { extractJSONFunctionInfo, extractJSONParameters } from '../parser/jsonFunctionParser';
 import { createLogger } from '@extension/shared/lib/logger';
+import { automationService } from '@src/services/automation.service';
 
 // Define custom property for tracking scroll state
 
@@ -1118,7 +1119,11 @@ const AutoExecutionUtils = {
           }
 
           const executeButton = currentBlock.querySelector<HTMLButtonElement>('.execute-button');
-          if (executeButton) {
+          if (executeButton && automationService.requiresConfirmation(functionDetails.functionName)) {
+            logger.debug(`Auto-execute: ${functionDetails.functionName} is destructive, asking before running it`);
+            AutoExecutionUtils.askForConfirmation(currentBlock, executeButton, functionDetails.functionName);
+            executionTracker.cleanupBlock(blockId);
+          } else if (executeButton) {
             logger.debug(`Auto-execute: Executing function ${functionDetails.functionName}`);
             executeButton.click();
             executionTracker.cleanupBlock(blockId);
@@ -1139,6 +1144,28 @@ const AutoExecutionUtils = {
     setupAutoExecution();
   },
 
+  askForConfirmation: (block: HTMLDivElement, executeButton: HTMLButtonElement, functionName: string): void => {
+    if (block.querySelector('.auto-execute-confirmation')) return;
+
+    const prompt = DOMUtils.createElement<HTMLDivElement>('div', 'auto-execute-confirmation');
+    const message = DOMUtils.createElement<HTMLSpanElement>('span');
+    DOMUtils.setContent(message, `${functionName} may delete or overwrite data. Run it?`);
+
+    const runButton = DOMUtils.createElement<HTMLButtonElement>('button', 'auto-execute-confirm-button');
+    DOMUtils.setContent(runButton, 'Run');
+    runButton.onclick = () => {
+      prompt.remove();
+      executeButton.click();
+    };
+
+    const skipButton = DOMUtils.createElement<HTMLButtonElement>('button', 'auto-execute-skip-button');
+    DOMUtils.setContent(skipButton, 'Skip');
+    skipButton.onclick = () => prompt.remove();
+
+    prompt.append(message, runButton, skipButton);
+    block.appendChild(prompt);
+  },
+
   findReplacementBlock: (functionDetails: any): HTMLDivElement | null => {
     const potentialBlocks = document.querySelectorAll<HTMLDivElement>('.function-block');
     for (const block of potentialBlocks) {
@@ -0,0 +1,96 @@
+import { getJsonType, validateJsonSchema } from '@src/utils/jsonSchema';
+import { useToolStore } from '@src/stores/tool.store';
+
+export type InsertForm = 'text' | 'structured';
+
+const INSERT_FORM_KEY = 'mcp_structured_insert_form';
+
+// Containers deeper than this start collapsed
+const EXPANDED_DEPTH = 1;
+
+/**
+ * The form of structured results the user last chose to insert, text unless they picked otherwise
+ */
+export const getPreferredInsertForm = (): InsertForm =>
+  localStorage.getItem(INSERT_FORM_KEY) === 'structured' ? 'structured' : 'text';
+
+export const setPreferredInsertForm = (form: InsertForm): void => {
+  localStorage.setItem(INSERT_FORM_KEY, form);
+};
+
+/**
+ * Problems with a result's structuredContent, checked against the output schema the tool declared
+ *
+ * @param functionName Name the tool was called with
+ * @param structuredContent The result's structured content
+ * @returns One message per mismatch, empty when the tool has no output schema
+ */
+export const validateStructuredContent = (functionName: string, structuredContent: unknown): string[] => {
+  const tool = useToolStore.getState().availableTools.find(availableTool => availableTool.name === functionName);
+  return tool?.output_schema ? validateJsonSchema(structuredContent, tool.output_schema) : [];
+};
+
+const createTypeLabel = (type: string, text: string): HTMLSpanElement => {
+  const label = document.createElement('span');
+  label.className = `structured-type structured-type-${type}`;
+  label.textContent = text;
+  return label;
+};
+
+const createKeyLabel = (key: string | null): HTMLSpanElement | null => {
+  if (key === null) return null;
+  const label = document.createElement('span');
+  label.className = 'structured-key';
+  label.textContent = `${key}: `;
+  return label;
+};
+
+/**
+ * Render a JSON value as a tree, objects and arrays collapse and every value is labelled with its type
+ *
+ * @param value Value to render
+ * @param key Property name or array index the value sits under, null for the root
+ * @param depth Nesting depth, used to collapse deeper containers
+ */
+export const createStructuredTree = (value: unknown, key: string | null = null, depth = 0): HTMLElement => {
+  const type = getJsonType(value);
+
+  if (type !== 'object' && type !== 'array') {
+    const leaf = document.createElement('div');
+    leaf.className = 'structured-leaf';
+    const keyLabel = createKeyLabel(key);
+    if (keyLabel) leaf.appendChild(keyLabel);
+
+    const valueLabel = document.createElement('span');
+    valueLabel.className = `structured-value structured-value-${type}`;
+    valueLabel.textContent = type === 'string' ? JSON.stringify(value) : String(value);
+    leaf.append(valueLabel, createTypeLabel(type, type));
+    return leaf;
+  }
+
+  const entries: [string, unknown][] =
+    type === 'array'
+      ? (value as unknown[]).map((item, index) => [String(index), item])
+      : Object.entries(value as Record<string, unknown>);
+
+  const details = document.createElement('details');
+  details.className = 'structured-node';
+  details.open = depth < EXPANDED_DEPTH;
+
+  const summary = document.createElement('summary');
+  const keyLabel = createKeyLabel(key);
+  if (keyLabel) summary.appendChild(keyLabel);
+  summary.appendChild(
+    createTypeLabel(type, type === 'array' ? `array[${entries.length}]` : `object{${entries.length}}`),
+  );
+  details.appendChild(summary);
+
+  const children = document.createElement('div');
+  children.className = 'structured-children';
+  entries.forEach(([childKey, childValue]) => {
+    children.appendChild(createStructuredTree(childValue, childKey, depth + 1));
+  });
+  details.appendChild(children);
+
+  return details;
+};
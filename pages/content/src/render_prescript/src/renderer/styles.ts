@@ -958,6 +958,211 @@ export const styles = `
     margin-top: var(--spacing-md);
   }
   
+  /* Tool call progress and cancel */
+  .function-progress-text {
+    font-size: 12px;
+    opacity: 0.8;
+  }
+
+  .function-progress-bar {
+    height: 4px;
+    margin-top: 6px;
+    border-radius: 2px;
+    background-color: rgba(128, 128, 128, 0.2);
+    overflow: hidden;
+  }
+
+  .function-progress-fill {
+    height: 100%;
+    background-color: var(--light-primary);
+    transition: width var(--transition-normal);
+  }
+
+  .cancel-tool-button {
+    padding: var(--spacing-sm) var(--spacing-lg);
+    border-radius: var(--border-radius-sm);
+    font-size: 13px;
+    font-weight: 500;
+    cursor: pointer;
+    align-items: center;
+    justify-content: center;
+    background: transparent;
+    color: var(--light-error);
+    border: 1px solid currentColor;
+  }
+
+  .function-block.theme-dark .cancel-tool-button {
+    color: var(--dark-error);
+  }
+
+  .cancel-tool-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  .function-result-warning {
+    margin-bottom: var(--spacing-sm);
+    padding: var(--spacing-sm);
+    border-radius: var(--border-radius-sm);
+    font-size: 12px;
+    color: #b06000;
+    background-color: rgba(249, 171, 0, 0.12);
+  }
+
+  .function-block.theme-dark .function-result-warning {
+    color: #fdd663;
+  }
+
+  .structured-node summary {
+    cursor: pointer;
+  }
+
+  .structured-children {
+    padding-left: var(--spacing-lg);
+  }
+
+  .structured-leaf {
+    padding-left: var(--spacing-lg);
+    font-family: monospace;
+    font-size: 12px;
+    line-height: 1.6;
+  }
+
+  .structured-key {
+    font-family: monospace;
+    font-size: 12px;
+    font-weight: 600;
+  }
+
+  .structured-type {
+    margin-left: var(--spacing-sm);
+    font-size: 10px;
+    opacity: 0.6;
+  }
+
+  .structured-value-string {
+    color: #188038;
+  }
+
+  .structured-value-number,
+  .structured-value-integer {
+    color: #1a73e8;
+  }
+
+  .structured-value-boolean,
+  .structured-value-null {
+    color: #a142f4;
+  }
+
+  .insert-form-select {
+    margin-right: var(--spacing-sm);
+    padding: 2px var(--spacing-sm);
+    border-radius: var(--border-radius-sm);
+    font-size: 12px;
+    background: transparent;
+    color: inherit;
+    border: 1px solid rgba(128, 128, 128, 0.4);
+  }
+
+  .function-queued-state {
+    padding: var(--spacing-sm);
+    border-radius: var(--border-radius-sm);
+    font-size: 13px;
+    color: #b06000;
+    background-color: rgba(249, 171, 0, 0.12);
+  }
+
+  .function-block.theme-dark .function-queued-state {
+    color: #fdd663;
+  }
+
+  .auto-execute-confirmation {
+    display: flex;
+    align-items: center;
+    gap: var(--spacing-sm);
+    margin-top: var(--spacing-sm);
+    padding: var(--spacing-sm);
+    border-radius: var(--border-radius-sm);
+    font-size: 13px;
+    color: var(--light-error);
+    border: 1px solid currentColor;
+  }
+
+  .function-block.theme-dark .auto-execute-confirmation {
+    color: var(--dark-error);
+  }
+
+  .auto-execute-confirmation span {
+    flex: 1;
+  }
+
+  .auto-execute-confirm-button,
+  .auto-execute-skip-button {
+    padding: 2px var(--spacing-md);
+    border-radius: var(--border-radius-sm);
+    font-size: 12px;
+    cursor: pointer;
+    background: transparent;
+    color: inherit;
+    border: 1px solid currentColor;
+  }
+
+  .retry-timeout-button {
+    display: flex;
+    margin-top: var(--spacing-sm);
+    padding: var(--spacing-sm) var(--spacing-lg);
+    border-radius: var(--border-radius-sm);
+    font-size: 13px;
+    font-weight: 500;
+    cursor: pointer;
+    background: transparent;
+    color: var(--light-primary);
+    border: 1px solid currentColor;
+  }
+
+  .function-block.theme-dark .retry-timeout-button {
+    color: var(--dark-primary);
+  }
+
+  .retry-timeout-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
+  .argument-error-list {
+    margin: var(--spacing-sm) 0 0;
+    padding-left: var(--spacing-lg);
+    font-family: monospace;
+    font-size: 12px;
+  }
+
+  .argument-error-actions {
+    display: flex;
+    flex-wrap: wrap;
+    gap: var(--spacing-sm);
+    margin-top: var(--spacing-sm);
+  }
+
+  .argument-error-button {
+    padding: var(--spacing-sm) var(--spacing-md);
+    border-radius: var(--border-radius-sm);
+    font-size: 13px;
+    font-weight: 500;
+    cursor: pointer;
+    background: transparent;
+    color: var(--light-primary);
+    border: 1px solid currentColor;
+  }
+
+  .function-block.theme-dark .argument-error-button {
+    color: var(--dark-primary);
+  }
+
+  .argument-error-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+
   .function-results-loading {
     padding: 10px;
     color: var(--light-text-secondary);
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useToolStore } from '@src/stores/tool.store';
+import { formatArgumentFeedback, prepareToolArguments } from './toolArguments';
+
+const inputSchema = {
+  type: 'object',
+  properties: { query: { type: 'string' }, limit: { type: 'integer' } },
+  required: ['query'],
+};
+
+describe('prepareToolArguments', () => {
+  beforeEach(() => {
+    useToolStore.setState({
+      availableTools: [
+        { name: 'search', description: '', input_schema: inputSchema },
+        { name: 'legacy', description: '', input_schema: undefined, schema: JSON.stringify(inputSchema) },
+      ],
+    });
+  });
+
+  it('converts arguments to the types of the input schema', () => {
+    expect(prepareToolArguments('search', { query: 'cats', limit: '5' })).toEqual({
+      args: { query: 'cats', limit: 5 },
+      errors: [],
+      schema: inputSchema,
+    });
+  });
+
+  it('reads the schema from its JSON text when the tool has no input schema object', () => {
+    expect(prepareToolArguments('legacy', { query: 'cats', limit: '5' }).args).toEqual({ query: 'cats', limit: 5 });
+  });
+
+  it('reports what still does not match after conversion', () => {
+    const prepared = prepareToolArguments('search', { limit: 'many' });
+
+    expect(prepared.args).toEqual({ limit: 'many' });
+    expect(prepared.errors).toContain('$.limit: expected integer, got string');
+  });
+
+  it('passes arguments of unknown tools through unchanged', () => {
+    expect(prepareToolArguments('unknown', { limit: '5' })).toEqual({ args: { limit: '5' }, errors: [] });
+  });
+});
+
+describe('formatArgumentFeedback', () => {
+  it('wraps the problems and the expected schema like a tool result', () => {
+    const feedback = formatArgumentFeedback('search', 'call-1', {
+      args: {},
+      errors: ['$: missing required property query'],
+      schema: inputSchema,
+    });
+
+    expect(feedback.startsWith('<function_result call_id="call-1">')).toBe(true);
+    expect(feedback).toContain('- $: missing required property query');
+    expect(feedback).toContain(`Expected input schema: ${JSON.stringify(inputSchema)}`);
+    expect(feedback.endsWith('</function_result>')).toBe(true);
+  });
+});
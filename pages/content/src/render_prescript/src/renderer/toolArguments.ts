@@ -0,0 +1,54 @@
+import { coerceToSchema, validateToolArguments } from '@src/utils/jsonSchema';
+import type { JsonSchema } from '@src/utils/jsonSchema';
+import { useToolStore } from '@src/stores/tool.store';
+
+export interface PreparedArguments {
+  args: Record<string, unknown>;
+  errors: string[];
+  schema?: JsonSchema;
+}
+
+const getInputSchema = (functionName: string): JsonSchema | undefined => {
+  const tool = useToolStore.getState().availableTools.find(availableTool => availableTool.name === functionName);
+  if (!tool) return undefined;
+  if (tool.input_schema && typeof tool.input_schema === 'object') return tool.input_schema;
+  try {
+    return typeof tool.schema === 'string' ? JSON.parse(tool.schema) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Arguments the model wrote, converted to the types the tool's input schema asks for and checked against it
+ *
+ * @param functionName Name the tool is called with
+ * @param parameters Arguments as extracted from the function block
+ * @returns The converted arguments and one message per problem, unchanged arguments when the tool has no schema
+ */
+export const prepareToolArguments = (functionName: string, parameters: Record<string, unknown>): PreparedArguments => {
+  const schema = getInputSchema(functionName);
+  if (!schema) {
+    return { args: parameters, errors: [] };
+  }
+
+  const args = coerceToSchema(parameters, schema) as Record<string, unknown>;
+  return { args, errors: validateToolArguments(args, schema), schema };
+};
+
+/**
+ * Message telling the model why its call was not run, in the same wrapper as a tool result
+ *
+ * @param functionName Name the tool was called with
+ * @param callId Call id of the function block
+ * @param prepared Outcome of prepareToolArguments for the call
+ */
+export const formatArgumentFeedback = (functionName: string, callId: string, prepared: PreparedArguments): string =>
+  [
+    `<function_result call_id="${callId}">`,
+    `Error: the arguments for ${functionName} do not match its input schema, the tool was not called.`,
+    ...prepared.errors.map(error => `- ${error}`),
+    `Expected input schema: ${JSON.stringify(prepared.schema)}`,
+    'Correct the arguments and call the tool again.',
+    '</function_result>',
+  ].join('\n');
@@ -8,7 +8,8 @@
  * Features:
  * - Auto Insert: Automatically insert function execution results into the current page
  * - Auto Submit: Automatically submit forms after auto-insertion
- * - Auto Execute: Log when tool execution is completed (extensible for future features)
+ * - Auto Execute: Log when tool execution is completed (extensible for future features),
+ *   tools marked destructive are never run without the user confirming
  * 
  * The service listens for 'mcp:tool-execution-complete' events and performs actions
  * based on the current automation state from the user preferences store.
@@ -17,6 +18,8 @@
 import { useUserPreferences } from '../hooks/useStores';
 import { useCurrentAdapter } from '../hooks/useAdapter';
 import { eventBus } from '../events/event-bus';
+import { useToolStore } from '../stores/tool.store';
+import { isDestructiveTool } from '../utils/helpers';
 import { createLogger } from '@extension/shared/lib/logger';
 
 // Store references for accessing state outside React components
@@ -159,6 +162,15 @@ export class AutomationService {
     logger.debug('[AutomationService] Automation service cleaned up');
   }
 
+  /**
+   * Whether Auto Execute has to ask before running a tool, true for tools
+   * whose annotations don't rule out destructive updates
+   */
+  public requiresConfirmation(toolName: string): boolean {
+    const tool = useToolStore.getState().availableTools.find(availableTool => availableTool.name === toolName);
+    return isDestructiveTool(tool?.annotations);
+  }
+
   /**
    * Set up the main event listener for tool execution completion
    */
@@ -1,7 +1,14 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { eventBus } from '../events';
-import type { ConnectionStatus, ServerConfig } from '../types/stores';
+import type {
+  AdditionalServerStatus,
+  ConnectionStatus,
+  ReconnectState,
+  ServerConfig,
+  TransportSelection,
+} from '../types/stores';
+import type { ServerProfile } from '../types/messages';
 import { createLogger } from '@extension/shared/lib/logger';
 
 
@@ -14,6 +21,16 @@ export interface ConnectionState {
   connectionAttempts: number;
   error: string | null;
   isReconnecting: boolean;
+  additionalServers: AdditionalServerStatus[];
+  // The primary server answered 401 and waits for OAuth sign in
+  authRequired: boolean;
+  // How the primary server's transport was chosen, null while disconnected
+  transport: TransportSelection | null;
+  // Automatic reconnect attempts, null until the background reports them
+  reconnect: ReconnectState | null;
+  // Saved primary server setups, the active one is null after a change by hand
+  profiles: ServerProfile[];
+  activeProfileId: string | null;
 
   // Actions
   setStatus: (status: ConnectionStatus) => void;
@@ -25,6 +42,11 @@ export interface ConnectionState {
   setDisconnected: (error?: string) => void;
   startReconnecting: () => void;
   stopReconnecting: () => void;
+  setAdditionalServers: (servers: AdditionalServerStatus[]) => void;
+  setAuthRequired: (authRequired: boolean) => void;
+  setTransport: (transport: TransportSelection | null) => void;
+  setReconnect: (reconnect: ReconnectState | null) => void;
+  setProfiles: (profiles: ServerProfile[], activeProfileId: string | null) => void;
 }
 
 const defaultServerConfig: ServerConfig = {
@@ -35,13 +57,35 @@ const defaultServerConfig: ServerConfig = {
   retryDelay: 2000, // ms
 };
 
-const initialState: Omit<ConnectionState, 'setStatus' | 'setServerConfig' | 'setLastError' | 'incrementAttempts' | 'resetAttempts' | 'setConnected' | 'setDisconnected' | 'startReconnecting' | 'stopReconnecting'> = {
+const initialState: Omit<
+  ConnectionState,
+  | 'setStatus'
+  | 'setServerConfig'
+  | 'setLastError'
+  | 'incrementAttempts'
+  | 'resetAttempts'
+  | 'setConnected'
+  | 'setDisconnected'
+  | 'startReconnecting'
+  | 'stopReconnecting'
+  | 'setAdditionalServers'
+  | 'setAuthRequired'
+  | 'setTransport'
+  | 'setReconnect'
+  | 'setProfiles'
+> = {
   status: 'disconnected',
   serverConfig: defaultServerConfig,
   lastConnectedAt: null,
   connectionAttempts: 0,
   error: null,
   isReconnecting: false,
+  additionalServers: [],
+  authRequired: false,
+  transport: null,
+  reconnect: null,
+  profiles: [],
+  activeProfileId: null,
 };
 
 export const useConnectionStore = create<ConnectionState>()(
@@ -120,6 +164,33 @@ export const useConnectionStore = create<ConnectionState>()(
           logger.debug('[ConnectionStore] Reconnecting stopped.');
         }
       },
+
+      setAdditionalServers: (servers: AdditionalServerStatus[]) => {
+        set({ additionalServers: servers });
+        logger.debug(`[ConnectionStore] Additional servers updated: ${servers.length}`);
+      },
+
+      setAuthRequired: (authRequired: boolean) => {
+        if (get().authRequired === authRequired) return;
+        set({ authRequired });
+        logger.debug(`[ConnectionStore] Sign in required: ${authRequired}`);
+      },
+
+      setTransport: (transport: TransportSelection | null) => {
+        set({ transport });
+        if (transport) {
+          logger.debug(`[ConnectionStore] Transport: ${transport.reason}`);
+        }
+      },
+
+      setReconnect: (reconnect: ReconnectState | null) => {
+        set({ reconnect });
+      },
+
+      setProfiles: (profiles: ServerProfile[], activeProfileId: string | null) => {
+        set({ profiles, activeProfileId });
+        logger.debug(`[ConnectionStore] Server profiles updated: ${profiles.length}`);
+      },
     }),
     { name: 'ConnectionStore', store: 'connection' } // For Redux DevTools extension
   )
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { ElicitationRequest } from '../types/stores';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('useElicitationStore');
+
+export interface ElicitationState {
+  // Oldest first, the UI handles one request at a time
+  requests: ElicitationRequest[];
+
+  // Actions
+  addRequest: (request: ElicitationRequest) => void;
+  removeRequest: (requestId: string) => void;
+}
+
+const initialState: Omit<ElicitationState, 'addRequest' | 'removeRequest'> = {
+  requests: [],
+};
+
+export const useElicitationStore = create<ElicitationState>()(
+  devtools(
+    set => ({
+      ...initialState,
+
+      addRequest: (request: ElicitationRequest) => {
+        set(state => ({ requests: [...state.requests, request] }));
+        logger.debug(`[ElicitationStore] Request ${request.requestId} from ${request.serverName} queued`);
+      },
+
+      removeRequest: (requestId: string) => {
+        set(state => ({ requests: state.requests.filter(request => request.requestId !== requestId) }));
+      },
+    }),
+    { name: 'ElicitationStore', store: 'elicitation' },
+  ),
+);
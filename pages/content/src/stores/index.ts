@@ -1,6 +1,10 @@
 import { useAppStore } from './app.store';
 import { useConnectionStore } from './connection.store';
 import { useToolStore } from './tool.store';
+import { useResourceStore } from './resource.store';
+import { usePromptStore } from './prompt.store';
+import { useSamplingStore } from './sampling.store';
+import { useElicitationStore } from './elicitation.store';
 import { useUIStore } from './ui.store';
 import { useAdapterStore } from './adapter.store';
 import { useConfigStore } from './config.store';
@@ -18,6 +22,18 @@ export type { ConnectionState } from './connection.store';
 export { useToolStore } from './tool.store';
 export type { ToolState } from './tool.store';
 
+export { useResourceStore } from './resource.store';
+export type { ResourceState } from './resource.store';
+
+export { usePromptStore } from './prompt.store';
+export type { PromptState } from './prompt.store';
+
+export { useSamplingStore } from './sampling.store';
+export type { SamplingState } from './sampling.store';
+
+export { useElicitationStore } from './elicitation.store';
+export type { ElicitationState } from './elicitation.store';
+
 export { useUIStore } from './ui.store';
 export type { UIState } from './ui.store';
 
@@ -58,6 +74,10 @@ export async function initializeAllStores(): Promise<void> {
   // simply accessing them might be enough if their creation side effects are sufficient.
   useConnectionStore.getState(); 
   useToolStore.getState();
+  useResourceStore.getState();
+  usePromptStore.getState();
+  useSamplingStore.getState();
+  useElicitationStore.getState();
   useUIStore.getState();
   useAdapterStore.getState();
   
@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { Prompt } from '../types/stores';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('usePromptStore');
+
+export interface PromptState {
+  prompts: Prompt[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  setPrompts: (prompts: Prompt[]) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+const initialState: Omit<PromptState, 'setPrompts' | 'setLoading' | 'setError'> = {
+  prompts: [],
+  isLoading: false,
+  error: null,
+};
+
+export const usePromptStore = create<PromptState>()(
+  devtools(
+    set => ({
+      ...initialState,
+
+      setPrompts: (prompts: Prompt[]) => {
+        set({ prompts, error: null });
+        logger.debug(`[PromptStore] ${prompts.length} prompts`);
+      },
+
+      setLoading: (isLoading: boolean) => {
+        set({ isLoading });
+      },
+
+      setError: (error: string | null) => {
+        set({ error });
+        if (error) {
+          logger.error('[PromptStore] Error set:', error);
+        }
+      },
+    }),
+    { name: 'PromptStore', store: 'prompt' },
+  ),
+);
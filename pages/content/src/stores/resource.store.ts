@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { Resource, ResourceTemplate } from '../types/stores';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('useResourceStore');
+
+export interface ResourceState {
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  setResources: (resources: Resource[], resourceTemplates: ResourceTemplate[]) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+const initialState: Omit<ResourceState, 'setResources' | 'setLoading' | 'setError'> = {
+  resources: [],
+  resourceTemplates: [],
+  isLoading: false,
+  error: null,
+};
+
+export const useResourceStore = create<ResourceState>()(
+  devtools(
+    set => ({
+      ...initialState,
+
+      setResources: (resources: Resource[], resourceTemplates: ResourceTemplate[]) => {
+        set({ resources, resourceTemplates, error: null });
+        logger.debug(`[ResourceStore] ${resources.length} resources, ${resourceTemplates.length} templates`);
+      },
+
+      setLoading: (isLoading: boolean) => {
+        set({ isLoading });
+      },
+
+      setError: (error: string | null) => {
+        set({ error });
+        if (error) {
+          logger.error('[ResourceStore] Error set:', error);
+        }
+      },
+    }),
+    { name: 'ResourceStore', store: 'resource' },
+  ),
+);
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { SamplingRequest } from '../types/stores';
+import { createLogger } from '@extension/shared/lib/logger';
+
+const logger = createLogger('useSamplingStore');
+
+export interface SamplingState {
+  // Oldest first, the UI handles one request at a time
+  requests: SamplingRequest[];
+
+  // Actions
+  addRequest: (request: SamplingRequest) => void;
+  removeRequest: (requestId: string) => void;
+}
+
+const initialState: Omit<SamplingState, 'addRequest' | 'removeRequest'> = {
+  requests: [],
+};
+
+export const useSamplingStore = create<SamplingState>()(
+  devtools(
+    set => ({
+      ...initialState,
+
+      addRequest: (request: SamplingRequest) => {
+        set(state => ({ requests: [...state.requests, request] }));
+        logger.debug(`[SamplingStore] Request ${request.requestId} from ${request.serverName} queued`);
+      },
+
+      removeRequest: (requestId: string) => {
+        set(state => ({ requests: state.requests.filter(request => request.requestId !== requestId) }));
+      },
+    }),
+    { name: 'SamplingStore', store: 'sampling' },
+  ),
+);
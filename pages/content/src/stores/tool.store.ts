@@ -2,7 +2,7 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { eventBus } from '../events';
 import { getToolEnablementState, saveToolEnablementState } from '../utils/storage';
-import type { Tool, DetectedTool, ToolExecution } from '../types/stores';
+import type { Tool, DetectedTool, ToolExecution, PrimitiveListKind } from '../types/stores';
 import { createLogger } from '@extension/shared/lib/logger';
 
 
@@ -10,6 +10,8 @@ const logger = createLogger('useToolStore');
 
 export interface ToolState {
   availableTools: Tool[];
+  // Lists a server paged beyond the page cap, so some entries are missing
+  truncatedLists: PrimitiveListKind[];
   detectedTools: DetectedTool[];
   toolExecutions: Record<string, ToolExecution>; // Store executions by ID
   isExecuting: boolean;
@@ -20,6 +22,7 @@ export interface ToolState {
   
   // Actions
   setAvailableTools: (tools: Tool[]) => void;
+  setTruncatedLists: (lists: PrimitiveListKind[]) => void;
   addDetectedTool: (tool: DetectedTool) => void;
   clearDetectedTools: () => void;
   startToolExecution: (toolName: string, parameters: Record<string, any>) => string; // Returns execution ID
@@ -31,12 +34,34 @@ export interface ToolState {
   disableTool: (toolName: string) => void;
   enableAllTools: () => void;
   disableAllTools: () => void;
+  setEnabledTools: (toolNames: string[]) => void;
+  // Replaces the enabled tools of this tab only, storage shared by all tabs is left as is
+  restoreEnabledTools: (toolNames: string[]) => void;
   isToolEnabled: (toolName: string) => boolean;
   loadToolEnablementState: () => Promise<void>;
 }
 
-const initialState: Omit<ToolState, 'setAvailableTools' | 'addDetectedTool' | 'clearDetectedTools' | 'startToolExecution' | 'updateToolExecution' | 'completeToolExecution' | 'getToolExecution' | 'enableTool' | 'disableTool' | 'enableAllTools' | 'disableAllTools' | 'isToolEnabled' | 'loadToolEnablementState'> = {
+const initialState: Omit<
+  ToolState,
+  | 'setAvailableTools'
+  | 'setTruncatedLists'
+  | 'addDetectedTool'
+  | 'clearDetectedTools'
+  | 'startToolExecution'
+  | 'updateToolExecution'
+  | 'completeToolExecution'
+  | 'getToolExecution'
+  | 'enableTool'
+  | 'disableTool'
+  | 'enableAllTools'
+  | 'disableAllTools'
+  | 'setEnabledTools'
+  | 'restoreEnabledTools'
+  | 'isToolEnabled'
+  | 'loadToolEnablementState'
+> = {
   availableTools: [],
+  truncatedLists: [],
   detectedTools: [],
   toolExecutions: {},
   isExecuting: false,
@@ -59,6 +84,13 @@ export const useToolStore = create<ToolState>()(
         get().loadToolEnablementState();
       },
 
+      setTruncatedLists: (lists: PrimitiveListKind[]) => {
+        set({ truncatedLists: lists });
+        if (lists.length > 0) {
+          logger.warn('[ToolStore] Server lists truncated at the page limit:', lists);
+        }
+      },
+
       addDetectedTool: (tool: DetectedTool) => {
         set(state => ({ detectedTools: [...state.detectedTools, tool] }));
         logger.debug('[ToolStore] Tool detected:', tool);
@@ -184,6 +216,21 @@ export const useToolStore = create<ToolState>()(
         logger.debug('[ToolStore] All tools disabled');
       },
 
+      setEnabledTools: (toolNames: string[]) => {
+        const newEnabledTools = new Set(toolNames);
+        set({ enabledTools: newEnabledTools });
+        // Save to storage asynchronously
+        saveToolEnablementState(newEnabledTools).catch(error =>
+          logger.error('[ToolStore] Failed to save tool enablement state:', error),
+        );
+        logger.debug(`Enabled tools replaced: ${toolNames.length} tools`);
+      },
+
+      restoreEnabledTools: (toolNames: string[]) => {
+        set({ enabledTools: new Set(toolNames) });
+        logger.debug(`Enabled tools restored for this tab: ${toolNames.length} tools`);
+      },
+
       isToolEnabled: (toolName: string): boolean => {
         return get().enabledTools.has(toolName);
       },
@@ -44,6 +44,9 @@ const initialSidebarState: SidebarState = {
   width: 320, // Default width from app.store, could be synced or independent
 };
 
+// Minutes a call queued while the server is down waits for it
+export const DEFAULT_OFFLINE_QUEUE_TTL = 10;
+
 const initialUserPreferences: UserPreferences = {
   autoSubmit: false,
   autoInsert: false,   // New automation field
@@ -59,6 +62,8 @@ const initialUserPreferences: UserPreferences = {
   autoInsertDelay: 2,  // Default delay in seconds
   autoExecuteDelay: 2,  // Default delay in seconds
   autoSubmitDelay: 2,   // Default delay in seconds
+  queueOfflineCalls: false,
+  offlineQueueTtl: DEFAULT_OFFLINE_QUEUE_TTL,
 };
 
 const initialState: Omit<UIState, 'toggleSidebar' | 'toggleMinimize' | 'resizeSidebar' | 'setSidebarVisibility' | 'updatePreferences' | 'addNotification' | 'addRemoteNotification' | 'removeNotification' | 'dismissNotification' | 'clearNotifications' | 'openModal' | 'closeModal' | 'setGlobalLoading' | 'setTheme' | 'setMCPEnabled'> = {
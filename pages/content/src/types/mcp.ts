@@ -5,6 +5,8 @@
  * functionality in the extension.
  */
 
+import type { ToolAnnotations } from './stores';
+
 // Primitive types from MCP
 export type PrimitiveType = 'resource' | 'tool' | 'prompt';
 
@@ -26,6 +28,7 @@ export interface Tool {
   name: string;
   description?: string;
   schema: string; // JSON string of the tool's input schema
+  annotations?: ToolAnnotations;
 }
 
 // Callback types for MCP operations
@@ -4,7 +4,30 @@
  * These types ensure consistency between the context bridge, MCP client, and background script
  */
 
-import type { ServerConfig, ConnectionStatus, Tool } from './stores';
+import type {
+  ServerConfig,
+  ServerConfigUpdate,
+  HeaderUpdate,
+  ConnectionType,
+  ConnectionStatus,
+  Tool,
+  AdditionalServer,
+  AdditionalServerStatus,
+  PrimitiveListKind,
+  Resource,
+  ResourceTemplate,
+  ResourceContents,
+  Prompt,
+  PromptMessage,
+  SamplingRequestParams,
+  ElicitationRequestParams,
+  ElicitationValue,
+  Root,
+  TransportSelection,
+  ReconnectState,
+} from './stores';
+import { MCP_PROTOCOL_VERSION } from './protocol';
+import type { BroadcastType } from './protocol';
 
 // Base message structure for all communication
 export interface BaseMessage {
@@ -13,6 +36,8 @@ export interface BaseMessage {
   origin: 'content' | 'background' | 'popup' | 'options';
   timestamp: number;
   id?: string;
+  // MCP_PROTOCOL_VERSION of the sender, see ./protocol
+  protocolVersion?: number;
 }
 
 // Request message structure
@@ -27,6 +52,8 @@ export interface ResponseMessage<T = any> extends BaseMessage {
   error?: string;
   success?: boolean;
   processingTime?: number;
+  errorCategory?: ErrorCategory;
+  errorContext?: Record<string, unknown>;
 }
 
 // MCP-specific message types and payloads
@@ -35,18 +62,36 @@ export interface ResponseMessage<T = any> extends BaseMessage {
 export interface CallToolRequest {
   toolName: string;
   args: Record<string, unknown>;
+  // Identifies the call for progress updates and cancellation
+  callId?: string;
+  // Milliseconds, overrides the configured timeout for this call
+  timeout?: number;
+  adapterName?: string;
+  // Conversation of the calling tab, usually the page path
+  conversationId?: string;
 }
 
-export interface CallToolResponse {
-  result: any;
+// The result as the server returned it
+export type CallToolResponse = unknown;
+
+export interface CancelToolRequest {
+  callId: string;
+}
+
+export interface CancelToolResponse {
+  cancelled: boolean;
 }
 
 // Connection status
-export interface GetConnectionStatusRequest {}
+export type GetConnectionStatusRequest = Record<string, never>;
 
 export interface GetConnectionStatusResponse {
   status: ConnectionStatus;
   isConnected: boolean;
+  // The server answered 401 and waits for the user to sign in
+  authRequired?: boolean;
+  transport?: TransportSelection;
+  reconnect?: ReconnectState;
   timestamp: number;
 }
 
@@ -57,10 +102,84 @@ export interface GetToolsRequest {
 
 export interface GetToolsResponse {
   tools: Tool[];
+  // Lists that were cut off at the page cap
+  truncated?: PrimitiveListKind[];
+}
+
+// Resources
+export interface GetResourcesRequest {
+  forceRefresh?: boolean;
+}
+
+export interface GetResourcesResponse {
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+}
+
+export interface ReadResourceRequest {
+  uri: string;
+  // Unset for resources of the primary server
+  serverId?: string;
+}
+
+export interface ReadResourceResponse {
+  contents: ResourceContents[];
+}
+
+// Prompts
+export interface GetPromptsRequest {
+  forceRefresh?: boolean;
+}
+
+export interface GetPromptsResponse {
+  prompts: Prompt[];
+}
+
+export interface GetPromptRequest {
+  name: string;
+  arguments?: Record<string, string>;
+  // Unset for prompts of the primary server
+  serverId?: string;
+}
+
+export interface GetPromptResponse {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+// Sampling
+export interface SamplingResult {
+  role: 'assistant';
+  content: { type: 'text'; text: string };
+  model: string;
+  stopReason?: string;
+}
+
+export interface SamplingResponseRequest {
+  requestId: string;
+  // Unset when the user rejected the request
+  result?: SamplingResult;
+  error?: string;
+}
+
+export interface SamplingResponseResponse {
+  received: boolean;
+}
+
+// Elicitation
+export interface ElicitationResponseRequest {
+  requestId: string;
+  action: 'accept' | 'decline' | 'cancel';
+  // Only sent with accept
+  content?: Record<string, ElicitationValue>;
+}
+
+export interface ElicitationResponseResponse {
+  received: boolean;
 }
 
 // Force reconnect
-export interface ForceReconnectRequest {}
+export type ForceReconnectRequest = Record<string, never>;
 
 export interface ForceReconnectResponse {
   isConnected: boolean;
@@ -69,20 +188,185 @@ export interface ForceReconnectResponse {
 }
 
 // Server configuration
-export interface GetServerConfigRequest {}
+export type GetServerConfigRequest = Record<string, never>;
 
-export interface GetServerConfigResponse {
-  config: ServerConfig;
-}
+export type GetServerConfigResponse = Pick<ServerConfig, 'uri' | 'connectionType' | 'headerNames'>;
 
 export interface UpdateServerConfigRequest {
-  config: Partial<ServerConfig>;
+  config: ServerConfigUpdate;
 }
 
 export interface UpdateServerConfigResponse {
   success: boolean;
 }
 
+// Additional servers
+export type GetServersRequest = Record<string, never>;
+
+export type GetServersResponse = AdditionalServerStatus[];
+
+export interface UpdateServersRequest {
+  servers: AdditionalServer[];
+}
+
+export interface UpdateServersResponse {
+  success: boolean;
+}
+
+export interface ReconnectServerRequest {
+  serverId: string;
+}
+
+export interface ReconnectServerResponse {
+  isConnected: boolean;
+  error?: string;
+}
+
+// Workspace roots, the primary server's list is the one without a server id
+export type GetRootsRequest = Record<string, never>;
+
+export interface GetRootsResponse {
+  primary: Root[];
+  servers: Record<string, Root[]>;
+}
+
+export interface UpdateRootsRequest {
+  serverId?: string;
+  roots: Root[];
+}
+
+export interface UpdateRootsResponse {
+  success: boolean;
+}
+
+// Tool call timeouts in milliseconds. A tool's own timeout wins over its server's,
+// tools are keyed by the name the page calls them with.
+export interface CallTimeouts {
+  primary?: number;
+  servers: Record<string, number>;
+  tools: Record<string, number>;
+}
+
+export type GetTimeoutsRequest = Record<string, never>;
+
+export interface GetTimeoutsResponse extends CallTimeouts {
+  // Used when neither the tool nor its server has a timeout
+  defaultTimeout: number;
+}
+
+export interface UpdateTimeoutsRequest {
+  timeouts: CallTimeouts;
+}
+
+export interface UpdateTimeoutsResponse {
+  success: boolean;
+}
+
+// A named primary server setup to switch between, shared between people as a profile file
+export interface ServerProfile {
+  id: string;
+  name: string;
+  uri: string;
+  connectionType: ConnectionType;
+  // Header values stay in the background
+  headerNames: string[];
+  // Timeouts of the primary server and its tools, additional servers keep theirs
+  timeouts: Pick<CallTimeouts, 'primary' | 'tools'>;
+  // Names of the tools left enabled, the current selection is kept when missing
+  enabledTools?: string[];
+}
+
+export type GetProfilesRequest = Record<string, never>;
+
+export interface GetProfilesResponse {
+  profiles: ServerProfile[];
+  // Null once the primary server was changed by hand
+  activeProfileId: string | null;
+}
+
+export interface SaveProfileRequest {
+  // A profile without id, or with an unknown one, is added, one with the same name is replaced.
+  // Null header values take the value the primary server has stored for that header.
+  profile: Omit<ServerProfile, 'id' | 'headerNames'> & { id?: string; headers: HeaderUpdate };
+  // Mark the profile as the one in use, without reconnecting
+  activate?: boolean;
+}
+
+export interface SaveProfileResponse extends GetProfilesResponse {
+  profile: ServerProfile;
+}
+
+export interface DeleteProfileRequest {
+  profileId: string;
+}
+
+export type DeleteProfileResponse = GetProfilesResponse;
+
+export interface SwitchProfileRequest {
+  profileId: string;
+}
+
+export interface SwitchProfileResponse extends GetProfilesResponse {
+  profile: ServerProfile;
+}
+
+export interface ImportProfilesRequest {
+  // Profiles read from a file, ids are ignored and a taken name gets a number appended
+  profiles: unknown[];
+}
+
+export interface ImportProfilesResponse extends GetProfilesResponse {
+  imported: number;
+}
+
+// A JSON-RPC message the background recorded on a server connection
+export interface TrafficEntry {
+  seq: number;
+  timestamp: number;
+  direction: 'outgoing' | 'incoming';
+  kind: 'request' | 'response' | 'error' | 'notification';
+  serverUri: string;
+  transportType: string;
+  // For responses and errors, the method of the request they answer
+  method?: string;
+  requestId?: string | number;
+  toolName?: string;
+  tabId?: number;
+  durationMs?: number;
+  message: Record<string, unknown>;
+}
+
+export type GetTrafficRequest = Record<string, never>;
+
+export interface GetTrafficResponse {
+  recording: boolean;
+  entries: TrafficEntry[];
+}
+
+export interface SetTrafficRecordingRequest {
+  enabled: boolean;
+}
+
+export interface SetTrafficRecordingResponse {
+  success: boolean;
+}
+
+export type ClearTrafficRequest = Record<string, never>;
+
+export interface ClearTrafficResponse {
+  success: boolean;
+}
+
+// OAuth sign in, without a server id it targets the primary server
+export interface SignInRequest {
+  serverId?: string;
+}
+
+export interface SignInResponse {
+  isConnected: boolean;
+  error?: string;
+}
+
 // Heartbeat
 export interface HeartbeatRequest {
   timestamp: number;
@@ -92,6 +376,40 @@ export interface HeartbeatResponse {
   timestamp: number;
   isConnected: boolean;
   receivedTimestamp: number;
+  // False once the background lost the tab's subscription, e.g. after it was restarted
+  subscribed: boolean;
+}
+
+// What the background keeps for each tab
+export interface TabState {
+  // Handed back to the tab when it reloads
+  enabledTools?: string[];
+  // Tools the tab listed and the user disabled there, calls to them are refused.
+  // Tools the tab did not know of yet, e.g. added by a server since, are allowed.
+  disabledTools?: string[];
+  // Profile the tab last switched to, or the active one when it subscribed
+  activeProfileId: string | null;
+}
+
+export interface SubscribeRequest {
+  // Hostname of the chat site, the subscription ends when the tab navigates elsewhere
+  site: string;
+  topics: BroadcastType[];
+  visible: boolean;
+}
+
+export interface SubscribeResponse {
+  state: TabState;
+}
+
+export interface UpdateTabStateRequest {
+  visible?: boolean;
+  enabledTools?: string[];
+  disabledTools?: string[];
+}
+
+export interface UpdateTabStateResponse {
+  success: boolean;
 }
 
 // Broadcast message types (one-way messages from background to content)
@@ -100,15 +418,71 @@ export interface ConnectionStatusChangedBroadcast {
   status: ConnectionStatus;
   error?: string;
   isConnected: boolean;
+  authRequired?: boolean;
+  transport?: TransportSelection;
   timestamp: number;
 }
 
+export type ReconnectStateBroadcast = ReconnectState;
+
 export interface ToolUpdateBroadcast {
   tools: Tool[];
+  truncated?: PrimitiveListKind[];
+}
+
+export interface ResourcesUpdatedBroadcast {
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+}
+
+export interface PromptsUpdatedBroadcast {
+  prompts: Prompt[];
+}
+
+export interface SamplingRequestBroadcast {
+  requestId: string;
+  serverName: string;
+  params: SamplingRequestParams;
+}
+
+export interface SamplingCancelledBroadcast {
+  requestId: string;
+  reason: string;
+}
+
+export interface ElicitationRequestBroadcast {
+  requestId: string;
+  serverName: string;
+  params: ElicitationRequestParams;
+}
+
+export interface ElicitationCancelledBroadcast {
+  requestId: string;
+  reason: string;
 }
 
 export interface ServerConfigUpdatedBroadcast {
-  config: ServerConfig;
+  config: GetServerConfigResponse;
+}
+
+export interface ServersUpdatedBroadcast {
+  servers: AdditionalServerStatus[];
+}
+
+// Sent only to the tab that started the call
+export interface ToolProgressBroadcast {
+  callId: string;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+// Sent to the tab that started a call the background lost when its worker restarted
+export interface ToolInterruptedBroadcast {
+  callId: string;
+  toolName: string;
+  startedAt: number;
+  message: string;
 }
 
 export interface HeartbeatResponseBroadcast {
@@ -119,15 +493,50 @@ export interface HeartbeatResponseBroadcast {
 // Message type union for better type safety
 export type McpMessageType = 
   | 'mcp:call-tool'
+  | 'mcp:cancel-tool'
   | 'mcp:get-connection-status'
   | 'mcp:get-tools'
+  | 'mcp:get-resources'
+  | 'mcp:read-resource'
+  | 'mcp:get-prompts'
+  | 'mcp:get-prompt'
+  | 'mcp:sampling-response'
+  | 'mcp:elicitation-response'
   | 'mcp:force-reconnect'
   | 'mcp:get-server-config'
   | 'mcp:update-server-config'
+  | 'mcp:get-servers'
+  | 'mcp:update-servers'
+  | 'mcp:reconnect-server'
+  | 'mcp:get-roots'
+  | 'mcp:update-roots'
+  | 'mcp:get-timeouts'
+  | 'mcp:update-timeouts'
+  | 'mcp:get-profiles'
+  | 'mcp:save-profile'
+  | 'mcp:delete-profile'
+  | 'mcp:switch-profile'
+  | 'mcp:import-profiles'
+  | 'mcp:get-traffic'
+  | 'mcp:set-traffic-recording'
+  | 'mcp:clear-traffic'
+  | 'mcp:sign-in'
   | 'mcp:heartbeat'
+  | 'mcp:subscribe'
+  | 'mcp:update-tab-state'
   | 'connection:status-changed'
   | 'mcp:tool-update'
+  | 'mcp:tool-progress'
+  | 'mcp:tool-interrupted'
+  | 'mcp:resources-updated'
+  | 'mcp:prompts-updated'
+  | 'mcp:sampling-request'
+  | 'mcp:sampling-cancelled'
+  | 'mcp:elicitation-request'
+  | 'mcp:elicitation-cancelled'
   | 'mcp:server-config-updated'
+  | 'mcp:servers-updated'
+  | 'mcp:reconnect-state'
   | 'mcp:heartbeat-response';
 
 // Utility type for request/response mapping
@@ -136,6 +545,10 @@ export interface McpMessageMap {
     request: CallToolRequest;
     response: CallToolResponse;
   };
+  'mcp:cancel-tool': {
+    request: CancelToolRequest;
+    response: CancelToolResponse;
+  };
   'mcp:get-connection-status': {
     request: GetConnectionStatusRequest;
     response: GetConnectionStatusResponse;
@@ -144,6 +557,30 @@ export interface McpMessageMap {
     request: GetToolsRequest;
     response: GetToolsResponse;
   };
+  'mcp:get-resources': {
+    request: GetResourcesRequest;
+    response: GetResourcesResponse;
+  };
+  'mcp:read-resource': {
+    request: ReadResourceRequest;
+    response: ReadResourceResponse;
+  };
+  'mcp:get-prompts': {
+    request: GetPromptsRequest;
+    response: GetPromptsResponse;
+  };
+  'mcp:get-prompt': {
+    request: GetPromptRequest;
+    response: GetPromptResponse;
+  };
+  'mcp:sampling-response': {
+    request: SamplingResponseRequest;
+    response: SamplingResponseResponse;
+  };
+  'mcp:elicitation-response': {
+    request: ElicitationResponseRequest;
+    response: ElicitationResponseResponse;
+  };
   'mcp:force-reconnect': {
     request: ForceReconnectRequest;
     response: ForceReconnectResponse;
@@ -156,10 +593,82 @@ export interface McpMessageMap {
     request: UpdateServerConfigRequest;
     response: UpdateServerConfigResponse;
   };
+  'mcp:get-servers': {
+    request: GetServersRequest;
+    response: GetServersResponse;
+  };
+  'mcp:update-servers': {
+    request: UpdateServersRequest;
+    response: UpdateServersResponse;
+  };
+  'mcp:reconnect-server': {
+    request: ReconnectServerRequest;
+    response: ReconnectServerResponse;
+  };
+  'mcp:get-roots': {
+    request: GetRootsRequest;
+    response: GetRootsResponse;
+  };
+  'mcp:update-roots': {
+    request: UpdateRootsRequest;
+    response: UpdateRootsResponse;
+  };
+  'mcp:get-timeouts': {
+    request: GetTimeoutsRequest;
+    response: GetTimeoutsResponse;
+  };
+  'mcp:update-timeouts': {
+    request: UpdateTimeoutsRequest;
+    response: UpdateTimeoutsResponse;
+  };
+  'mcp:get-profiles': {
+    request: GetProfilesRequest;
+    response: GetProfilesResponse;
+  };
+  'mcp:save-profile': {
+    request: SaveProfileRequest;
+    response: SaveProfileResponse;
+  };
+  'mcp:delete-profile': {
+    request: DeleteProfileRequest;
+    response: DeleteProfileResponse;
+  };
+  'mcp:switch-profile': {
+    request: SwitchProfileRequest;
+    response: SwitchProfileResponse;
+  };
+  'mcp:import-profiles': {
+    request: ImportProfilesRequest;
+    response: ImportProfilesResponse;
+  };
+  'mcp:get-traffic': {
+    request: GetTrafficRequest;
+    response: GetTrafficResponse;
+  };
+  'mcp:set-traffic-recording': {
+    request: SetTrafficRecordingRequest;
+    response: SetTrafficRecordingResponse;
+  };
+  'mcp:clear-traffic': {
+    request: ClearTrafficRequest;
+    response: ClearTrafficResponse;
+  };
+  'mcp:sign-in': {
+    request: SignInRequest;
+    response: SignInResponse;
+  };
   'mcp:heartbeat': {
     request: HeartbeatRequest;
     response: HeartbeatResponse;
   };
+  'mcp:subscribe': {
+    request: SubscribeRequest;
+    response: SubscribeResponse;
+  };
+  'mcp:update-tab-state': {
+    request: UpdateTabStateRequest;
+    response: UpdateTabStateResponse;
+  };
 }
 
 // Error categories for better error handling
@@ -168,6 +677,8 @@ export enum ErrorCategory {
   TOOL_ERROR = 'tool_error',
   VALIDATION_ERROR = 'validation_error',
   TIMEOUT_ERROR = 'timeout_error',
+  // The background restarted while the request was in flight
+  INTERRUPTED_ERROR = 'interrupted_error',
   UNKNOWN_ERROR = 'unknown_error'
 }
 
@@ -176,23 +687,61 @@ export interface McpError {
   category: ErrorCategory;
   message: string;
   code?: string | number;
-  context?: Record<string, any>;
+  context?: Record<string, unknown>;
   timestamp: number;
 }
 
+// A failed request as thrown by the context bridge
+export type McpRequestError = Error & Partial<Pick<McpError, 'category' | 'context'>>;
+
 // Message validation helpers
 export function isValidMessageType(type: string): type is McpMessageType {
   const validTypes: McpMessageType[] = [
     'mcp:call-tool',
+    'mcp:cancel-tool',
     'mcp:get-connection-status',
     'mcp:get-tools',
+    'mcp:get-resources',
+    'mcp:read-resource',
+    'mcp:get-prompts',
+    'mcp:get-prompt',
+    'mcp:sampling-response',
+    'mcp:elicitation-response',
     'mcp:force-reconnect',
     'mcp:get-server-config',
     'mcp:update-server-config',
+    'mcp:get-servers',
+    'mcp:update-servers',
+    'mcp:reconnect-server',
+    'mcp:get-roots',
+    'mcp:update-roots',
+    'mcp:get-timeouts',
+    'mcp:update-timeouts',
+    'mcp:get-profiles',
+    'mcp:save-profile',
+    'mcp:delete-profile',
+    'mcp:switch-profile',
+    'mcp:import-profiles',
+    'mcp:get-traffic',
+    'mcp:set-traffic-recording',
+    'mcp:clear-traffic',
+    'mcp:sign-in',
     'mcp:heartbeat',
+    'mcp:subscribe',
+    'mcp:update-tab-state',
     'connection:status-changed',
     'mcp:tool-update',
+    'mcp:tool-progress',
+    'mcp:tool-interrupted',
+    'mcp:resources-updated',
+    'mcp:prompts-updated',
+    'mcp:sampling-request',
+    'mcp:sampling-cancelled',
+    'mcp:elicitation-request',
+    'mcp:elicitation-cancelled',
     'mcp:server-config-updated',
+    'mcp:servers-updated',
+    'mcp:reconnect-state',
     'mcp:heartbeat-response'
   ];
   
@@ -210,6 +759,7 @@ export function createRequestMessage<T extends keyof McpMessageMap>(
     origin: 'content',
     timestamp: Date.now(),
     id: id || `msg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+    protocolVersion: MCP_PROTOCOL_VERSION,
     expectResponse: true
   };
 }
@@ -218,16 +768,16 @@ export function createResponseMessage<T extends keyof McpMessageMap>(
   type: T,
   payload: McpMessageMap[T]['response'],
   originalMessage: RequestMessage,
-  success: boolean = true,
   processingTime?: number
 ): ResponseMessage<McpMessageMap[T]['response']> {
   return {
-    type,
+    type: `${type}:response`,
     payload,
     origin: 'background',
     timestamp: Date.now(),
     id: originalMessage.id,
-    success,
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    success: true,
     processingTime
   };
 }
@@ -238,11 +788,14 @@ export function createErrorResponse(
   processingTime?: number
 ): ResponseMessage {
   return {
-    type: originalMessage.type,
+    type: `${originalMessage.type}:response`,
     origin: 'background',
     timestamp: Date.now(),
     id: originalMessage.id,
+    protocolVersion: MCP_PROTOCOL_VERSION,
     error: typeof error === 'string' ? error : error.message,
+    errorCategory: typeof error === 'string' ? undefined : error.category,
+    errorContext: typeof error === 'string' ? undefined : error.context,
     success: false,
     processingTime
   };
@@ -0,0 +1,143 @@
+/**
+ * Request/response protocol between content scripts and the background
+ *
+ * Every request type in McpMessageMap has a payload schema here, the background checks
+ * requests against it before a handler runs. Bump the version when a request or
+ * response changes in a way an older content script would not understand.
+ */
+
+import { validateJsonSchema } from '../utils/jsonSchema';
+import type { JsonSchema } from '../utils/jsonSchema';
+import type { McpMessageMap } from './messages';
+
+export const MCP_PROTOCOL_VERSION = 1;
+
+export type McpRequestType = keyof McpMessageMap;
+export type McpRequestPayload<T extends McpRequestType> = McpMessageMap[T]['request'];
+export type McpResponsePayload<T extends McpRequestType> = McpMessageMap[T]['response'];
+
+// Messages the background sends to every subscribed tab, other messages go to a single tab
+export type BroadcastType =
+  | 'connection:status-changed'
+  | 'mcp:tool-update'
+  | 'mcp:resources-updated'
+  | 'mcp:prompts-updated'
+  | 'mcp:server-config-updated'
+  | 'mcp:servers-updated'
+  | 'mcp:reconnect-state';
+
+export const BROADCAST_TYPES: BroadcastType[] = [
+  'connection:status-changed',
+  'mcp:tool-update',
+  'mcp:resources-updated',
+  'mcp:prompts-updated',
+  'mcp:server-config-updated',
+  'mcp:servers-updated',
+  'mcp:reconnect-state',
+];
+
+const text = { type: 'string' };
+const id = { type: 'string', minLength: 1 };
+const flag = { type: 'boolean' };
+const record = { type: 'object' };
+const list = { type: 'array' };
+const noPayload = { type: 'object' };
+
+const payload = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({
+  type: 'object',
+  properties,
+  required,
+});
+
+const refreshable = payload({ forceRefresh: flag });
+
+export const REQUEST_SCHEMAS: Record<McpRequestType, JsonSchema> = {
+  'mcp:call-tool': payload(
+    {
+      toolName: id,
+      args: record,
+      adapterName: text,
+      callId: text,
+      timeout: { type: 'number', minimum: 0 },
+      conversationId: text,
+    },
+    ['toolName'],
+  ),
+  'mcp:cancel-tool': payload({ callId: id }, ['callId']),
+  'mcp:get-connection-status': noPayload,
+  'mcp:get-tools': refreshable,
+  'mcp:get-resources': refreshable,
+  'mcp:read-resource': payload({ uri: id, serverId: text }, ['uri']),
+  'mcp:get-prompts': refreshable,
+  'mcp:get-prompt': payload({ name: id, arguments: { type: 'object', additionalProperties: text }, serverId: text }, [
+    'name',
+  ]),
+  'mcp:sampling-response': payload({ requestId: id, result: record, error: text }, ['requestId']),
+  'mcp:elicitation-response': payload(
+    { requestId: id, action: { enum: ['accept', 'decline', 'cancel'] }, content: record },
+    ['requestId', 'action'],
+  ),
+  'mcp:force-reconnect': noPayload,
+  'mcp:get-server-config': noPayload,
+  'mcp:update-server-config': payload(
+    {
+      config: payload(
+        {
+          uri: id,
+          connectionType: { enum: ['auto', 'sse', 'websocket', 'streamable-http'] },
+          headers: record,
+        },
+        ['uri'],
+      ),
+    },
+    ['config'],
+  ),
+  'mcp:get-servers': noPayload,
+  'mcp:update-servers': payload({ servers: list }, ['servers']),
+  'mcp:reconnect-server': payload({ serverId: id }, ['serverId']),
+  'mcp:get-roots': noPayload,
+  'mcp:update-roots': payload({ serverId: text, roots: list }, ['roots']),
+  'mcp:get-timeouts': noPayload,
+  'mcp:update-timeouts': payload({ timeouts: record }, ['timeouts']),
+  'mcp:get-profiles': noPayload,
+  'mcp:save-profile': payload({ profile: record, activate: flag }, ['profile']),
+  'mcp:delete-profile': payload({ profileId: id }, ['profileId']),
+  'mcp:switch-profile': payload({ profileId: id }, ['profileId']),
+  'mcp:import-profiles': payload({ profiles: list }, ['profiles']),
+  'mcp:get-traffic': noPayload,
+  'mcp:set-traffic-recording': payload({ enabled: flag }, ['enabled']),
+  'mcp:clear-traffic': noPayload,
+  'mcp:sign-in': payload({ serverId: text }),
+  'mcp:heartbeat': payload({ timestamp: { type: 'number' } }),
+  'mcp:subscribe': payload({ site: text, topics: { type: 'array', items: { enum: BROADCAST_TYPES } }, visible: flag }, [
+    'site',
+    'topics',
+    'visible',
+  ]),
+  'mcp:update-tab-state': payload({
+    visible: flag,
+    enabledTools: { type: 'array', items: text },
+    disabledTools: { type: 'array', items: text },
+  }),
+};
+
+export function isRequestType(type: unknown): type is McpRequestType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(REQUEST_SCHEMAS, type);
+}
+
+/**
+ * Messages without a version come from senders that predate versioning and are accepted
+ */
+export function isSupportedProtocolVersion(version: unknown): boolean {
+  return version === undefined || version === MCP_PROTOCOL_VERSION;
+}
+
+/**
+ * Check a request payload against the schema of its type
+ * @param type Request type
+ * @param value Payload as received, a missing payload counts as an empty object
+ * @returns One message per problem, empty when the payload is valid
+ */
+export function validateRequestPayload(type: McpRequestType, value: unknown): string[] {
+  return validateJsonSchema(value ?? {}, REQUEST_SCHEMAS[type], 'payload');
+}
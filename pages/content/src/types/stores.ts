@@ -8,7 +8,19 @@ export interface GlobalSettings {
   notifications: boolean;
 }
 
-export type ConnectionType = 'sse' | 'websocket' | 'streamable-http';
+// 'auto' lets the background probe Streamable HTTP, then SSE, or WebSocket for ws:// URLs
+export type ConnectionType = 'auto' | 'sse' | 'websocket' | 'streamable-http';
+
+// The transport a connection ended up on and why, shown to the user
+export interface TransportSelection {
+  type: Exclude<ConnectionType, 'auto'>;
+  uri: string;
+  reason: string;
+}
+
+// Header values are credentials the background keeps to itself, pages only ever see header names.
+// In an update a null value keeps the value stored for that header.
+export type HeaderUpdate = Record<string, string | null>;
 
 export interface ServerConfig {
   uri: string;
@@ -16,10 +28,64 @@ export interface ServerConfig {
   timeout: number;
   retryAttempts: number;
   retryDelay: number;
+  // Names of the extra HTTP headers (e.g. Authorization) sent by the SSE and Streamable HTTP transports
+  headerNames?: string[];
 }
 
+// A server config change, new header values only travel from the page to the background
+export type ServerConfigUpdate = Partial<Omit<ServerConfig, 'headerNames'>> & { headers?: HeaderUpdate };
+
 export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error' | 'reconnecting';
 
+// The background's automatic reconnect attempts for the primary server
+export interface ReconnectState {
+  attempt: number;
+  // 0 means attempts never stop
+  maxAttempts: number;
+  nextAttemptAt: number | null;
+  isAttempting: boolean;
+  isOffline: boolean;
+  gaveUp: boolean;
+}
+
+// Primitive lists a server can page through with nextCursor
+export type PrimitiveListKind = 'tools' | 'resources' | 'prompts';
+
+// An extra MCP server connected alongside the primary one. Its tools are named `<id>.<tool>`.
+export interface AdditionalServer {
+  id: string;
+  name: string;
+  uri: string;
+  connectionType: ConnectionType;
+  enabled: boolean;
+  headers?: HeaderUpdate;
+}
+
+export interface AdditionalServerStatus extends Omit<AdditionalServer, 'headers'> {
+  headerNames: string[];
+  status: ConnectionStatus;
+  error?: string;
+  toolCount: number;
+  authRequired?: boolean;
+  truncated?: PrimitiveListKind[];
+  transport?: TransportSelection;
+}
+
+// A file:// URI the user lets a server work in
+export interface Root {
+  uri: string;
+  name?: string;
+}
+
+// Hints from tools/list about how a tool behaves, servers are not bound by them
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 export interface Tool {
   name: string;
   description: string;
@@ -27,6 +93,133 @@ export interface Tool {
   schema?: any;
   // Newer field preferred going forward
   input_schema: any; // Keeping 'any' as per original spec, can be refined later
+  // JSON Schema the tool's structuredContent follows
+  output_schema?: Record<string, unknown>;
+  annotations?: ToolAnnotations;
+  // Id of the additional server that provides this tool, unset for the primary server
+  serverId?: string;
+}
+
+// A resource listed by resources/list, serverId is set for additional servers
+export interface Resource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  serverId?: string;
+}
+
+// A parameterized resource listed by resources/templates/list, e.g. `file:///{path}`
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  serverId?: string;
+}
+
+// One entry of a resources/read result, either text or base64 encoded binary
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+// A declared argument of a prompt, values are always strings
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// A prompt listed by prompts/list, serverId is set for additional servers
+export interface Prompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgument[];
+  serverId?: string;
+}
+
+// Content of a prompts/get message, embedded resources carry their contents inline
+export type PromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: ResourceContents }
+  | { type: 'resource_link'; uri: string; name: string; mimeType?: string };
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: PromptContent;
+}
+
+export interface SamplingMessage {
+  role: 'user' | 'assistant';
+  content: PromptContent | PromptContent[];
+}
+
+// Parameters of a sampling/createMessage request, the model hints are advisory only
+export interface SamplingRequestParams {
+  messages: SamplingMessage[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    hints?: { name?: string }[];
+  };
+}
+
+// A sampling request from a server waiting for the user in this tab
+export interface SamplingRequest {
+  requestId: string;
+  serverName: string;
+  params: SamplingRequestParams;
+  receivedAt: number;
+}
+
+// A field of an elicitation form, the spec limits these to flat primitive types
+export interface ElicitationField {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  title?: string;
+  description?: string;
+  default?: string | number | boolean | string[];
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  // Single choice, either plain values with optional labels or titled options
+  enum?: string[];
+  enumNames?: string[];
+  oneOf?: { const: string; title: string }[];
+  // Multiple choice for array fields
+  items?: { enum?: string[]; anyOf?: { const: string; title: string }[] };
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type ElicitationValue = string | number | boolean | string[];
+
+export interface ElicitationRequestParams {
+  message: string;
+  requestedSchema: {
+    type: 'object';
+    properties: Record<string, ElicitationField>;
+    required?: string[];
+  };
+}
+
+// An elicitation request from a server waiting for the user in this tab
+export interface ElicitationRequest {
+  requestId: string;
+  serverName: string;
+  params: ElicitationRequestParams;
+  receivedAt: number;
 }
 
 export interface DetectedTool {
@@ -68,6 +261,8 @@ export interface UserPreferences {
   isMinimized: boolean;
   customInstructions: string;
   customInstructionsEnabled: boolean;
+  queueOfflineCalls: boolean; // Park calls made while the server is down and replay them once it is back
+  offlineQueueTtl: number; // Minutes a parked call waits before it expires
 }
 
 export interface Notification {
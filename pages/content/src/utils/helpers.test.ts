@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { isDestructiveTool } from './helpers';
+
+describe('isDestructiveTool', () => {
+  it('treats tools as destructive when the server says nothing about it', () => {
+    expect(isDestructiveTool(undefined)).toBe(true);
+    expect(isDestructiveTool({})).toBe(true);
+    expect(isDestructiveTool({ title: 'Write file' })).toBe(true);
+    expect(isDestructiveTool({ destructiveHint: true })).toBe(true);
+  });
+
+  it('trusts tools that say they are read-only or not destructive', () => {
+    expect(isDestructiveTool({ readOnlyHint: true })).toBe(false);
+    expect(isDestructiveTool({ readOnlyHint: true, destructiveHint: true })).toBe(false);
+    expect(isDestructiveTool({ title: 'Append note', destructiveHint: false })).toBe(false);
+  });
+});
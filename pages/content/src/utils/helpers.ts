@@ -10,6 +10,7 @@
  * @param message The message to log
  */
 import { createLogger } from '@extension/shared/lib/logger';
+import type { ResourceContents, PromptContent, ToolAnnotations, HeaderUpdate } from '../types/stores';
 
 const logger = createLogger('logMessage');
 
@@ -17,6 +18,118 @@ export const logMessage = (message: string): void => {
   logger.debug(`: ${message}`);
 };
 
+/**
+ * Replace header values with a placeholder so credentials never reach the logs
+ * @param config Any object that may carry a `headers` map
+ */
+export const redactHeaders = <T extends { headers?: HeaderUpdate }>(config: T): T => {
+  if (!config.headers) {
+    return config;
+  }
+  return {
+    ...config,
+    headers: Object.fromEntries(Object.keys(config.headers).map(name => [name, '***'])),
+  };
+};
+
+/**
+ * The part of a config update the stores keep, header names without their values
+ * @param config A config update that may carry new header values
+ */
+export const withoutHeaderValues = <T extends { headers?: HeaderUpdate }>({
+  headers,
+  ...config
+}: T): Omit<T, 'headers'> & { headerNames?: string[] } =>
+  headers ? { ...config, headerNames: Object.keys(headers) } : config;
+
+/**
+ * Whether a tool may destroy data. Following the MCP spec defaults, a tool is destructive
+ * unless it says it is read-only or not destructive, also when it has no annotations at all.
+ * @param annotations Annotations the server listed for the tool
+ */
+export const isDestructiveTool = (annotations?: ToolAnnotations): boolean =>
+  !annotations?.readOnlyHint && annotations?.destructiveHint !== false;
+
+const getFileName = (content: ResourceContents, fallback: string): string => {
+  try {
+    const segment = new URL(content.uri).pathname.split('/').filter(Boolean).pop();
+    if (segment) return decodeURIComponent(segment);
+  } catch {
+    // Not every resource URI is a valid URL
+  }
+  return fallback;
+};
+
+/**
+ * Turn resource contents into a File the adapter can attach, base64 blobs are decoded
+ * @param content Text or blob contents of a resource
+ * @param fallbackName File name used when the URI has no usable last segment
+ */
+export const resourceContentsToFile = (content: ResourceContents, fallbackName: string): File => {
+  const type = content.mimeType || (content.blob !== undefined ? 'application/octet-stream' : 'text/plain');
+  const data =
+    content.blob !== undefined ? Uint8Array.from(atob(content.blob), c => c.charCodeAt(0)) : content.text || '';
+  return new File([data], getFileName(content, fallbackName), { type });
+};
+
+/**
+ * Flatten prompt or sampling messages into chat input text. Role labels are only added
+ * when the messages mix user and assistant turns. Embedded resources and media become
+ * files when the adapter can attach them, otherwise text resources are inlined.
+ * @param messages Messages from prompts/get or sampling/createMessage
+ * @param canAttach Whether the active adapter supports file attachment
+ */
+export const messagesToChatInput = (
+  messages: { role: 'user' | 'assistant'; content: PromptContent | PromptContent[] }[],
+  canAttach: boolean,
+): { text: string; files: File[] } => {
+  const labelRoles = new Set(messages.map(message => message.role)).size > 1;
+  const parts: string[] = [];
+  const files: File[] = [];
+
+  messages.forEach((message, index) => {
+    const contents = Array.isArray(message.content) ? message.content : [message.content];
+    const texts: string[] = [];
+
+    for (const content of contents) {
+      switch (content.type) {
+        case 'text':
+          texts.push(content.text);
+          break;
+        case 'resource':
+          if (canAttach) {
+            files.push(resourceContentsToFile(content.resource, `resource-${index + 1}`));
+          } else if (content.resource.text !== undefined) {
+            texts.push(content.resource.text);
+          }
+          break;
+        case 'image':
+        case 'audio':
+          if (canAttach) {
+            const extension = content.mimeType.split('/')[1] || 'bin';
+            files.push(
+              resourceContentsToFile(
+                { uri: '', mimeType: content.mimeType, blob: content.data },
+                `${content.type}-${index + 1}.${extension}`,
+              ),
+            );
+          }
+          break;
+        case 'resource_link':
+          texts.push(content.uri);
+          break;
+      }
+    }
+
+    const text = texts.join('\n\n');
+    if (text) {
+      parts.push(labelRoles ? `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}` : text);
+    }
+  });
+
+  return { text: parts.join('\n\n'), files };
+};
+
 /**
  * Injects CSS into a Shadow DOM with proper error handling
  *
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { coerceToSchema, validateToolArguments } from './jsonSchema';
+
+describe('coerceToSchema', () => {
+  it('converts numbers and booleans sent as strings', () => {
+    const schema = {
+      type: 'object',
+      properties: { count: { type: 'integer' }, ratio: { type: 'number' }, force: { type: 'boolean' } },
+    };
+
+    expect(coerceToSchema({ count: '3', ratio: '0.5', force: 'TRUE' }, schema)).toEqual({
+      count: 3,
+      ratio: 0.5,
+      force: true,
+    });
+  });
+
+  it('leaves values that cannot be converted for validation to report', () => {
+    expect(coerceToSchema('1.5', { type: 'integer' })).toBe('1.5');
+    expect(coerceToSchema('yes', { type: 'boolean' })).toBe('yes');
+  });
+
+  it('parses arrays and objects sent as JSON text', () => {
+    const schema = {
+      type: 'object',
+      properties: { tags: { type: 'array', items: { type: 'string' } }, options: { type: 'object' } },
+    };
+
+    expect(coerceToSchema({ tags: '["a", "b"]', options: '{"depth": 2}' }, schema)).toEqual({
+      tags: ['a', 'b'],
+      options: { depth: 2 },
+    });
+  });
+
+  it('splits a comma separated list of plain values and wraps single values', () => {
+    expect(coerceToSchema('a, b,c', { type: 'array', items: { type: 'string' } })).toEqual(['a', 'b', 'c']);
+    expect(coerceToSchema('only', { type: 'array', items: { type: 'string' } })).toEqual(['only']);
+    expect(coerceToSchema(['1', '2'], { type: 'array', items: { type: 'number' } })).toEqual([1, 2]);
+  });
+
+  it('matches enum values written in the wrong case', () => {
+    expect(coerceToSchema('Desc', { type: 'string', enum: ['asc', 'desc'] })).toBe('desc');
+  });
+
+  it('coerces properties an object schema allows through additionalProperties', () => {
+    expect(coerceToSchema({ a: '1' }, { type: 'object', additionalProperties: { type: 'number' } })).toEqual({ a: 1 });
+  });
+});
+
+describe('validateToolArguments', () => {
+  const schema = {
+    type: 'object',
+    properties: { path: { type: 'string' }, limit: { type: 'integer', minimum: 1 } },
+    required: ['path'],
+  };
+
+  it('accepts arguments that match the schema', () => {
+    expect(validateToolArguments({ path: '/tmp', limit: 10 }, schema)).toEqual([]);
+  });
+
+  it('reports wrong types, out of range values and missing parameters', () => {
+    expect(validateToolArguments({ limit: 0 }, schema)).toContain('$.limit: must be at least 1');
+    expect(validateToolArguments({ path: 3 }, schema)).toEqual(['$.path: expected string, got integer']);
+  });
+
+  it('reports parameters the schema does not list', () => {
+    expect(validateToolArguments({ path: '/tmp', recursive: true }, schema)).toEqual([
+      '$.recursive: is not a parameter of this tool',
+    ]);
+  });
+
+  it('allows unlisted parameters when the schema says so', () => {
+    expect(validateToolArguments({ path: '/tmp', recursive: true }, { ...schema, additionalProperties: true })).toEqual(
+      [],
+    );
+  });
+
+  it('accepts anything without a schema', () => {
+    expect(validateToolArguments({ anything: 1 }, undefined)).toEqual([]);
+  });
+});
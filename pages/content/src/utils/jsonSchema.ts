@@ -0,0 +1,285 @@
+// JSON Schema validation for tool schemas
+//
+// Covers the keywords tool schemas use in practice. Schema compilers such as Ajv
+// generate code at runtime, which the extension's content security policy blocks.
+// References ($ref) and formats are not checked.
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON type of a value as schemas name it, integers are reported as 'integer'
+ * @param value Any JSON value
+ */
+export function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = getJsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The schema under a keyword such as items, undefined when the keyword holds no schema
+ */
+const getSubschema = (schema: JsonSchema, keyword: string): JsonSchema | boolean | undefined => {
+  const subschema = schema[keyword];
+  if (typeof subschema === 'boolean') return subschema;
+  return getJsonType(subschema) === 'object' ? (subschema as JsonSchema) : undefined;
+};
+
+const getProperties = (schema: JsonSchema): Record<string, JsonSchema> =>
+  getJsonType(schema.properties) === 'object' ? (schema.properties as Record<string, JsonSchema>) : {};
+
+/**
+ * Check a value against a JSON Schema
+ * @param value Value to check
+ * @param schema Schema to check it against, boolean schemas are supported
+ * @param path Location of the value, used in the messages
+ * @returns One message per problem found, empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema | boolean | undefined, path = '$'): string[] {
+  if (schema === undefined || schema === true) return [];
+  if (schema === false) return [`${path}: no value is allowed here`];
+
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      // Nothing below applies to a value of the wrong type
+      return [`${path}: expected ${types.join(' or ')}, got ${getJsonType(value)}`];
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isEqual(value, option))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          errors.push(`${path}: must match ${schema.pattern}`);
+        }
+      } catch {
+        // A pattern JavaScript can't compile says nothing about the value
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    const items = getSubschema(schema, 'items');
+    if (items !== undefined) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, items, `${path}[${index}]`)));
+    }
+  }
+
+  if (getJsonType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = getProperties(schema);
+    const additionalProperties = getSubschema(schema, 'additionalProperties');
+
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required) {
+        if (!(name in object)) {
+          errors.push(`${path}.${name}: is required`);
+        }
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (name in properties) {
+        errors.push(...validateJsonSchema(propertyValue, properties[name], `${path}.${name}`));
+      } else if (additionalProperties === false) {
+        errors.push(`${path}.${name}: is not allowed`);
+      } else {
+        errors.push(...validateJsonSchema(propertyValue, additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((subschema: JsonSchema) => errors.push(...validateJsonSchema(value, subschema, path)));
+  }
+  if (
+    Array.isArray(schema.anyOf) &&
+    !schema.anyOf.some((subschema: JsonSchema) => validateJsonSchema(value, subschema, path).length === 0)
+  ) {
+    errors.push(`${path}: does not match any of the allowed shapes`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (subschema: JsonSchema) => validateJsonSchema(value, subschema, path).length === 0,
+    ).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed shapes, matches ${matches}`);
+    }
+  }
+
+  return errors;
+}
+
+const NUMERIC_STRING = /^\s*-?\d+(\.\d+)?([eE][+-]?\d+)?\s*$/;
+
+const getSchemaTypes = (schema: JsonSchema): string[] => {
+  if (Array.isArray(schema.type)) return schema.type;
+  if (typeof schema.type === 'string') return [schema.type];
+  if (schema.properties) return ['object'];
+  if (schema.items) return ['array'];
+  return [];
+};
+
+const parseJsonText = (value: string, type: 'array' | 'object'): unknown => {
+  const trimmed = value.trim();
+  const [open, close] = type === 'array' ? ['[', ']'] : ['{', '}'];
+  if (!trimmed.startsWith(open) || !trimmed.endsWith(close)) return undefined;
+  try {
+    const parsed = JSON.parse(trimmed);
+    return getJsonType(parsed) === type ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const convertToType = (value: unknown, type: string, schema: JsonSchema): unknown => {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      if (typeof value === 'string' && NUMERIC_STRING.test(value)) {
+        const number = Number(value);
+        return type === 'integer' && !Number.isInteger(number) ? undefined : number;
+      }
+      return undefined;
+    case 'boolean':
+      if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === 'true';
+      }
+      return undefined;
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+    case 'null':
+      return typeof value === 'string' && value.trim() === 'null' ? null : undefined;
+    case 'array': {
+      if (typeof value === 'string') {
+        const parsed = parseJsonText(value, 'array');
+        if (parsed !== undefined) return parsed;
+        // "a, b, c" for a list of plain values
+        const items = getSubschema(schema, 'items');
+        const itemTypes = typeof items === 'object' ? getSchemaTypes(items) : [];
+        if (value.includes(',') && !itemTypes.some(itemType => itemType === 'object' || itemType === 'array')) {
+          return value.split(',').map(item => item.trim());
+        }
+      }
+      return value === undefined || value === null ? undefined : [value];
+    }
+    case 'object':
+      return typeof value === 'string' ? parseJsonText(value, 'object') : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Bring a value closer to what a schema expects. Numbers and booleans sent as strings,
+ * arrays and objects sent as JSON text, and single values where a list is expected are
+ * converted, recursively for properties and items. Anything that can't be converted is
+ * left as it is for validation to report.
+ * @param value Value to convert
+ * @param schema Schema the value should follow
+ */
+export function coerceToSchema(value: unknown, schema: JsonSchema | boolean | undefined): unknown {
+  if (!schema || schema === true) return value;
+
+  let coerced = value;
+  const types = getSchemaTypes(schema);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    for (const type of types) {
+      const converted = convertToType(value, type, schema);
+      if (converted !== undefined) {
+        coerced = converted;
+        break;
+      }
+    }
+  }
+
+  // Enum values in the wrong case
+  if (typeof coerced === 'string' && Array.isArray(schema.enum) && !schema.enum.includes(coerced)) {
+    const match = schema.enum.find(
+      (option: unknown) => typeof option === 'string' && option.toLowerCase() === (coerced as string).toLowerCase(),
+    );
+    if (match !== undefined) coerced = match;
+  }
+
+  const items = getSubschema(schema, 'items');
+  if (Array.isArray(coerced) && items !== undefined) {
+    return coerced.map(item => coerceToSchema(item, items));
+  }
+
+  if (getJsonType(coerced) === 'object') {
+    const properties = getProperties(schema);
+    return Object.fromEntries(
+      Object.entries(coerced as Record<string, unknown>).map(([name, propertyValue]) => {
+        const propertySchema = properties[name] ?? getSubschema(schema, 'additionalProperties');
+        return [name, coerceToSchema(propertyValue, propertySchema)];
+      }),
+    );
+  }
+
+  return coerced;
+}
+
+/**
+ * Check tool arguments against the tool's input schema. Unlike plain JSON Schema,
+ * top level properties the schema doesn't list are reported unless it explicitly
+ * allows additional properties, since models tend to make parameters up.
+ * @param args Arguments for the call
+ * @param schema The tool's input schema
+ */
+export function validateToolArguments(args: Record<string, unknown>, schema: JsonSchema | undefined): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+
+  const errors = validateJsonSchema(args, schema);
+  if (schema.properties && schema.additionalProperties === undefined) {
+    for (const name of Object.keys(args)) {
+      if (!(name in getProperties(schema))) {
+        errors.push(`$.${name}: is not a parameter of this tool`);
+      }
+    }
+  }
+  return errors;
+}
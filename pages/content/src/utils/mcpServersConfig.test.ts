@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { parseMcpServersConfig } from './mcpServersConfig';
+
+const parse = (config: unknown) => parseMcpServersConfig(JSON.stringify(config));
+
+describe('parseMcpServersConfig', () => {
+  it('reads remote servers with their transport and headers', () => {
+    const entries = parse({
+      mcpServers: {
+        docs: { url: 'https://example.com/mcp', headers: { Authorization: 'Bearer abc' } },
+        events: { serverUrl: 'http://localhost:3006/sse', disabled: true },
+        socket: { url: 'wss://example.com/ws' },
+        typed: { url: 'https://example.com/api', type: 'http' },
+      },
+    });
+
+    expect(entries).toEqual([
+      {
+        name: 'docs',
+        server: {
+          name: 'docs',
+          uri: 'https://example.com/mcp',
+          connectionType: 'streamable-http',
+          enabled: true,
+          headers: { Authorization: 'Bearer abc' },
+        },
+      },
+      {
+        name: 'events',
+        server: {
+          name: 'events',
+          uri: 'http://localhost:3006/sse',
+          connectionType: 'sse',
+          enabled: false,
+          headers: {},
+        },
+      },
+      {
+        name: 'socket',
+        server: {
+          name: 'socket',
+          uri: 'wss://example.com/ws',
+          connectionType: 'websocket',
+          enabled: true,
+          headers: {},
+        },
+      },
+      {
+        name: 'typed',
+        server: {
+          name: 'typed',
+          uri: 'https://example.com/api',
+          connectionType: 'streamable-http',
+          enabled: true,
+          headers: {},
+        },
+      },
+    ]);
+  });
+
+  it('accepts the servers variant and a bare map of servers', () => {
+    expect(parse({ servers: { a: { url: 'https://a.example.com/sse' } } })[0].name).toBe('a');
+    expect(parse({ b: { url: 'https://b.example.com/sse' } })[0].name).toBe('b');
+  });
+
+  it('connects to the server an mcp-remote command points at, with env references in headers filled in', () => {
+    const [entry] = parse({
+      mcpServers: {
+        remote: {
+          command: 'npx',
+          args: ['-y', 'mcp-remote@latest', 'https://example.com/mcp', '--header', 'Authorization: Bearer ${TOKEN}'],
+          env: { TOKEN: 'secret' },
+        },
+      },
+    });
+
+    expect(entry.server).toEqual({
+      name: 'remote',
+      uri: 'https://example.com/mcp',
+      connectionType: 'streamable-http',
+      enabled: true,
+      headers: { Authorization: 'Bearer secret' },
+    });
+  });
+
+  it('keeps env references it cannot fill in', () => {
+    const [entry] = parse({
+      mcpServers: {
+        remote: { command: 'npx', args: ['mcp-remote', 'https://example.com/sse', '--header', 'X-Key:${MISSING}'] },
+      },
+    });
+
+    expect(entry.server?.headers).toEqual({ 'X-Key': '${MISSING}' });
+  });
+
+  it('describes stdio servers with commands that bridge them', () => {
+    const [entry] = parse({
+      mcpServers: {
+        files: {
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-filesystem', '/my files'],
+          env: { ROOT: '/' },
+        },
+      },
+    });
+
+    expect(entry.server).toBeUndefined();
+    expect(entry.stdio?.commandLine).toBe("npx -y @modelcontextprotocol/server-filesystem '/my files'");
+    expect(entry.stdio?.env).toEqual(['ROOT']);
+    expect(JSON.parse(entry.stdio!.config)).toEqual({
+      mcpServers: {
+        files: {
+          command: 'npx',
+          args: ['-y', '@modelcontextprotocol/server-filesystem', '/my files'],
+          env: { ROOT: '/' },
+        },
+      },
+    });
+    expect(entry.stdio?.bridges.map(bridge => bridge.uri)).toEqual([
+      'http://localhost:3006/sse',
+      'http://localhost:3006/mcp',
+      'http://localhost:8000/sse',
+    ]);
+  });
+
+  it('reports entries it cannot read without failing the others', () => {
+    expect(
+      parse({
+        mcpServers: {
+          invalid: { url: 'not a url' },
+          badHeaders: { url: 'https://example.com/mcp', headers: { 'X-Key': { nested: true } } },
+          empty: {},
+          scalar: 3,
+        },
+      }),
+    ).toEqual([
+      { name: 'invalid', error: 'Invalid URL: not a url' },
+      { name: 'badHeaders', error: 'header X-Key must be a string' },
+      { name: 'empty', error: 'Entry has neither a url nor a command' },
+      { name: 'scalar', error: 'Entry is not an object' },
+    ]);
+  });
+
+  it('rejects text that is not a config', () => {
+    expect(() => parseMcpServersConfig('{ mcpServers')).toThrow(/^Not valid JSON/);
+    expect(() => parse([])).toThrow('Expected a JSON object with an mcpServers field');
+    expect(() => parse({ mcpServers: {} })).toThrow('No servers found in the config');
+  });
+});
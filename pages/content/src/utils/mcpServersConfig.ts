@@ -0,0 +1,218 @@
+// Reading server definitions from the `{ "mcpServers": { ... } }` config format
+//
+// Desktop clients document servers in this format. Remote servers carry a url with an
+// optional type and headers, stdio servers a command the extension cannot run itself.
+
+import type { AdditionalServer, ConnectionType } from '../types/stores';
+
+export type ImportedServer = Omit<AdditionalServer, 'id'>;
+
+export interface BridgeCommand {
+  label: string;
+  // Shell command that serves the stdio server over the network
+  command: string;
+  // Address to add once the command runs
+  uri: string;
+  connectionType: ConnectionType;
+}
+
+export interface ServerConfigEntry {
+  // Key of the entry in the config
+  name: string;
+  // Set when the entry describes a server the extension can connect to
+  server?: ImportedServer;
+  // Set for stdio servers, which a browser cannot start
+  stdio?: {
+    commandLine: string;
+    // Names of the environment variables the server expects
+    env: string[];
+    // config.json holding just this server, for the proxy
+    config: string;
+    bridges: BridgeCommand[];
+  };
+  // Why the entry could not be read
+  error?: string;
+}
+
+// Bridges that already point at a remote server, the url is taken from their arguments
+const REMOTE_BRIDGES = ['mcp-remote', 'supergateway'];
+
+// Default ports of the bridges suggested for stdio servers
+const PROXY_PORT = 3006;
+const SUPERGATEWAY_PORT = 8000;
+
+const TRANSPORT_TYPES: Record<string, ConnectionType> = {
+  sse: 'sse',
+  http: 'streamable-http',
+  'streamable-http': 'streamable-http',
+  streamablehttp: 'streamable-http',
+  streamable_http: 'streamable-http',
+  ws: 'websocket',
+  websocket: 'websocket',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const quoteArgument = (arg: string): string => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`);
+
+/**
+ * Transport for a url, from the entry's type when it names one, otherwise from the url itself
+ */
+const getConnectionType = (url: string, type: unknown): ConnectionType => {
+  const declared = typeof type === 'string' ? TRANSPORT_TYPES[type.toLowerCase()] : undefined;
+  if (declared) return declared;
+  if (/^wss?:/i.test(url)) return 'websocket';
+  if (/\/sse\/?(\?.*)?$/i.test(url)) return 'sse';
+  if (/\/mcp\/?(\?.*)?$/i.test(url)) return 'streamable-http';
+  return 'auto';
+};
+
+const readHeaders = (headers: unknown): Record<string, string> => {
+  if (headers === undefined) return {};
+  if (!isObject(headers)) throw new Error('headers must be an object');
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new Error(`header ${name} must be a string`);
+    }
+    result[name] = String(value);
+  }
+  return result;
+};
+
+const readRemote = (name: string, url: string, entry: Record<string, unknown>): ServerConfigEntry => {
+  try {
+    new URL(url);
+  } catch {
+    return { name, error: `Invalid URL: ${url}` };
+  }
+
+  try {
+    return {
+      name,
+      server: {
+        name,
+        uri: url,
+        connectionType: getConnectionType(url, entry.type ?? entry.transport),
+        enabled: entry.disabled !== true,
+        headers: readHeaders(entry.headers),
+      },
+    };
+  } catch (headerError) {
+    return { name, error: headerError instanceof Error ? headerError.message : String(headerError) };
+  }
+};
+
+/**
+ * The remote server a bridge command such as `npx mcp-remote <url> --header "Name: value"` connects to
+ */
+const readBridgedRemote = (name: string, args: string[], entry: Record<string, unknown>): ServerConfigEntry | null => {
+  if (!args.some(arg => REMOTE_BRIDGES.some(bridge => arg === bridge || arg.startsWith(`${bridge}@`)))) {
+    return null;
+  }
+
+  const url = args.find(arg => /^(https?|wss?):\/\//i.test(arg));
+  if (!url) return null;
+
+  const headers: Record<string, string> = {};
+  args.forEach((arg, index) => {
+    if (arg !== '--header') return;
+    const header = args[index + 1] ?? '';
+    const separator = header.indexOf(':');
+    if (separator > 0) {
+      // Values often reference the entry's env, e.g. "Authorization: Bearer ${TOKEN}"
+      headers[header.slice(0, separator).trim()] = header
+        .slice(separator + 1)
+        .trim()
+        .replace(/\$\{(\w+)\}/g, (reference, variable) => {
+          const value = isObject(entry.env) ? entry.env[variable] : undefined;
+          return typeof value === 'string' ? value : reference;
+        });
+    }
+  });
+
+  return readRemote(name, url, { ...entry, headers });
+};
+
+const describeStdio = (name: string, entry: Record<string, unknown>, args: string[]): ServerConfigEntry => {
+  // readEntry only describes entries whose command is a string
+  const command = String(entry.command).trim();
+  const commandLine = [command, ...args].map(quoteArgument).join(' ');
+  const proxy = 'npx -y @srbhptl39/mcp-superassistant-proxy@latest --config ./config.json';
+
+  return {
+    name,
+    stdio: {
+      commandLine,
+      env: isObject(entry.env) ? Object.keys(entry.env) : [],
+      config: JSON.stringify({ mcpServers: { [name]: { command, args, env: entry.env } } }, null, 2),
+      bridges: [
+        {
+          label: 'MCP SuperAssistant Proxy, SSE',
+          command: `${proxy} --outputTransport sse`,
+          uri: `http://localhost:${PROXY_PORT}/sse`,
+          connectionType: 'sse',
+        },
+        {
+          label: 'MCP SuperAssistant Proxy, Streamable HTTP',
+          command: `${proxy} --outputTransport streamableHttp`,
+          uri: `http://localhost:${PROXY_PORT}/mcp`,
+          connectionType: 'streamable-http',
+        },
+        {
+          label: 'supergateway, SSE',
+          command: `npx -y supergateway --stdio ${quoteArgument(commandLine)} --port ${SUPERGATEWAY_PORT}`,
+          uri: `http://localhost:${SUPERGATEWAY_PORT}/sse`,
+          connectionType: 'sse',
+        },
+      ],
+    },
+  };
+};
+
+const readEntry = (name: string, entry: unknown): ServerConfigEntry => {
+  if (!isObject(entry)) {
+    return { name, error: 'Entry is not an object' };
+  }
+
+  const url = entry.url ?? entry.serverUrl;
+  if (typeof url === 'string' && url.trim()) {
+    return readRemote(name, url.trim(), entry);
+  }
+
+  if (typeof entry.command === 'string' && entry.command.trim()) {
+    const args = Array.isArray(entry.args) ? entry.args.map(String) : [];
+    return readBridgedRemote(name, args, entry) ?? describeStdio(name, entry, args);
+  }
+
+  return { name, error: 'Entry has neither a url nor a command' };
+};
+
+/**
+ * Read server definitions from a desktop client config
+ *
+ * Accepts `{ "mcpServers": { ... } }`, the `{ "servers": { ... } }` variant and the bare map of servers.
+ * @param text Config as pasted by the user
+ * @returns One entry per server in config order
+ * @throws When the text is not JSON or holds no servers
+ */
+export function parseMcpServersConfig(text: string): ServerConfigEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    throw new Error(`Not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error('Expected a JSON object with an mcpServers field');
+  }
+
+  const servers = isObject(parsed.mcpServers) ? parsed.mcpServers : isObject(parsed.servers) ? parsed.servers : parsed;
+  const entries = Object.entries(servers).map(([name, entry]) => readEntry(name, entry));
+  if (entries.length === 0) {
+    throw new Error('No servers found in the config');
+  }
+  return entries;
+}
@@ -0,0 +1,17 @@
+import { resolve } from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+const rootDir = resolve(import.meta.dirname);
+const srcDir = resolve(rootDir, 'src');
+
+// Unit tests run in node without the page build plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@src': srcDir,
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});
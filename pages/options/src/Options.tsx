@@ -0,0 +1,31 @@
+import { withErrorBoundary, withSuspense } from '@extension/shared';
+import AutomationSection from '@src/components/AutomationSection';
+import InstructionsSection from '@src/components/InstructionsSection';
+import PrivacySection from '@src/components/PrivacySection';
+import ServersSection from '@src/components/ServersSection';
+import ToolsSection from '@src/components/ToolsSection';
+
+const Options = () => {
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900 dark:bg-slate-900 dark:text-slate-100">
+      <main className="mx-auto max-w-3xl space-y-6 px-6 py-10">
+        <header>
+          <h1 className="text-2xl font-bold">MCP SuperAssistant</h1>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Settings are shared with every open chat tab and apply right away.
+          </p>
+        </header>
+        <ServersSection />
+        <AutomationSection />
+        <ToolsSection />
+        <InstructionsSection />
+        <PrivacySection />
+      </main>
+    </div>
+  );
+};
+
+export default withErrorBoundary(
+  withSuspense(Options, <div className="p-6 text-sm">Loading settings...</div>),
+  <div className="p-6 text-sm text-rose-600">The settings could not be loaded.</div>,
+);
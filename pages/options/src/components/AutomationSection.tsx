@@ -0,0 +1,73 @@
+import { useStorage } from '@extension/shared';
+import { automationStorage, DEFAULT_AUTOMATION_SETTINGS } from '@extension/storage';
+import type { AutomationSettings } from '@extension/storage';
+import { Card, Switch } from '@extension/ui';
+import { inputClassName } from '@src/lib/styles';
+
+type Action = {
+  key: 'autoExecute' | 'autoInsert' | 'autoSubmit';
+  delayKey: 'autoExecuteDelay' | 'autoInsertDelay' | 'autoSubmitDelay';
+  label: string;
+  description: string;
+};
+
+// In the order they happen to a tool call
+const ACTIONS: Action[] = [
+  {
+    key: 'autoExecute',
+    delayKey: 'autoExecuteDelay',
+    label: 'Auto Execute',
+    description: 'Run detected tool calls, destructive tools still ask first',
+  },
+  {
+    key: 'autoInsert',
+    delayKey: 'autoInsertDelay',
+    label: 'Auto Insert',
+    description: 'Insert tool results into the chat input',
+  },
+  {
+    key: 'autoSubmit',
+    delayKey: 'autoSubmitDelay',
+    label: 'Auto Submit',
+    description: 'Send the message once a result is inserted',
+  },
+];
+
+const AutomationSection = () => {
+  const stored = useStorage<typeof automationStorage, AutomationSettings | null>(automationStorage);
+  const settings: AutomationSettings = { ...DEFAULT_AUTOMATION_SETTINGS, ...stored };
+
+  return (
+    <Card title="Automation" description="What happens with a tool call the assistant writes.">
+      <div className="space-y-4">
+        {ACTIONS.map(action => (
+          <div key={action.key} className="flex items-center gap-4">
+            <Switch
+              checked={settings[action.key]}
+              onCheckedChange={checked => automationStorage.update({ [action.key]: checked })}
+              aria-label={action.label}
+            />
+            <div className="flex-1">
+              <div className="text-sm font-medium">{action.label}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">{action.description}</div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+              Delay (seconds)
+              <input
+                type="number"
+                min="0"
+                value={settings[action.delayKey]}
+                onChange={event =>
+                  automationStorage.update({ [action.delayKey]: Math.max(0, parseInt(event.target.value) || 0) })
+                }
+                className={`${inputClassName} w-20`}
+              />
+            </label>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default AutomationSection;
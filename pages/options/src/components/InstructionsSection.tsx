@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { useStorage } from '@extension/shared';
+import { DEFAULT_INSTRUCTION_SETTINGS, instructionStorage } from '@extension/storage';
+import type { InstructionSettings, InstructionTemplate } from '@extension/storage';
+import { Card, Switch } from '@extension/ui';
+import { buttonClassName, inputClassName, secondaryButtonClassName } from '@src/lib/styles';
+
+const InstructionsSection = () => {
+  const stored = useStorage<typeof instructionStorage, InstructionSettings | null>(instructionStorage);
+  const settings: InstructionSettings = { ...DEFAULT_INSTRUCTION_SETTINGS, ...stored };
+  const [editingId, setEditingId] = useState<string | null>(settings.activeTemplateId);
+  const [draft, setDraft] = useState<InstructionTemplate | null>(null);
+
+  const editing = settings.templates.find(template => template.id === editingId);
+
+  // A template changed elsewhere replaces the draft, e.g. edited in a tab's sidebar
+  useEffect(() => {
+    setDraft(editing ?? null);
+  }, [editing]);
+
+  const addTemplate = async () => {
+    const template = { id: `template_${Date.now()}`, name: `Template ${settings.templates.length + 1}`, content: '' };
+    await instructionStorage.saveTemplate(template);
+    setEditingId(template.id);
+  };
+
+  const isDirty = !!draft && !!editing && (draft.name !== editing.name || draft.content !== editing.content);
+
+  return (
+    <Card
+      title="Custom Instructions"
+      description="Added to the tool instructions inserted into the chat. The active template is used in every tab.">
+      <div className="mb-4 flex items-center gap-3">
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={enabled => instructionStorage.update({ enabled })}
+          aria-label="Use custom instructions"
+        />
+        <span className="text-sm">Use custom instructions</span>
+      </div>
+
+      <div className="flex gap-4">
+        <ul className="w-48 shrink-0 space-y-1">
+          {settings.templates.map(template => (
+            <li key={template.id}>
+              <button
+                type="button"
+                onClick={() => setEditingId(template.id)}
+                className={`w-full truncate rounded-md px-2 py-1.5 text-left text-sm ${
+                  template.id === editingId
+                    ? 'bg-blue-50 text-blue-700 dark:bg-slate-700 dark:text-blue-300'
+                    : 'hover:bg-slate-100 dark:hover:bg-slate-700'
+                }`}>
+                {template.name}
+                {template.id === settings.activeTemplateId && (
+                  <span className="ml-1 text-xs text-emerald-600 dark:text-emerald-400">(active)</span>
+                )}
+              </button>
+            </li>
+          ))}
+          <li>
+            <button type="button" className={`${secondaryButtonClassName} mt-2 w-full`} onClick={addTemplate}>
+              New template
+            </button>
+          </li>
+        </ul>
+
+        {draft ? (
+          <div className="flex-1 space-y-3">
+            <input
+              value={draft.name}
+              onChange={event => setDraft({ ...draft, name: event.target.value })}
+              className={inputClassName}
+              aria-label="Template name"
+            />
+            <textarea
+              value={draft.content}
+              onChange={event => setDraft({ ...draft, content: event.target.value })}
+              rows={8}
+              className={inputClassName}
+              placeholder="Instructions for the assistant..."
+            />
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className={buttonClassName}
+                disabled={!isDirty}
+                onClick={() => instructionStorage.saveTemplate({ ...draft, name: draft.name.trim() || editing!.name })}>
+                Save
+              </button>
+              <button
+                type="button"
+                className={secondaryButtonClassName}
+                disabled={draft.id === settings.activeTemplateId}
+                onClick={() => instructionStorage.update({ activeTemplateId: draft.id })}>
+                Make active
+              </button>
+              <button
+                type="button"
+                className={secondaryButtonClassName}
+                onClick={() => instructionStorage.deleteTemplate(draft.id)}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="flex-1 text-sm text-slate-500 dark:text-slate-400">
+            {settings.templates.length > 0 ? 'Select a template to edit it.' : 'No templates yet.'}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default InstructionsSection;
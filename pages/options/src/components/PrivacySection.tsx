@@ -0,0 +1,24 @@
+import { useStorage } from '@extension/shared';
+import { analyticsConsentStorage } from '@extension/storage';
+import { Card, Switch } from '@extension/ui';
+
+const PrivacySection = () => {
+  const consent = useStorage(analyticsConsentStorage);
+
+  return (
+    <Card title="Privacy">
+      <div className="flex items-start gap-4">
+        <Switch checked={consent} onCheckedChange={analyticsConsentStorage.toggle} aria-label="Usage analytics" />
+        <div>
+          <div className="text-sm font-medium">Share usage analytics</div>
+          <div className="text-xs text-slate-500 dark:text-slate-400">
+            Page views on chat sites with their title and address, names of the tools that ran, connection changes,
+            errors and browser details. Tool arguments and results are not sent.
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default PrivacySection;
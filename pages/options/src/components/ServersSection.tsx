@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, Switch } from '@extension/ui';
+import type { GetConnectionStatusResponse, GetServerConfigResponse } from '../../../content/src/types/messages';
+import type { AdditionalServer, AdditionalServerStatus, ConnectionType } from '../../../content/src/types/stores';
+import { errorMessage, sendRequest } from '@src/lib/background';
+import { buttonClassName, inputClassName, secondaryButtonClassName } from '@src/lib/styles';
+
+// Storage keys the background keeps the server settings in, a change means the servers changed
+const SERVER_STORAGE_KEYS = ['mcpServerUrl', 'mcpConnectionType', 'mcpServerHeaders', 'mcpAdditionalServers'];
+
+const CONNECTION_TYPES: Array<{ value: ConnectionType; label: string }> = [
+  { value: 'auto', label: 'Auto detect' },
+  { value: 'streamable-http', label: 'Streamable HTTP' },
+  { value: 'sse', label: 'SSE' },
+  { value: 'websocket', label: 'WebSocket' },
+];
+
+const statusDotClassName: Record<string, string> = {
+  connected: 'bg-emerald-500',
+  connecting: 'bg-amber-400',
+  reconnecting: 'bg-amber-400',
+  error: 'bg-rose-500',
+  disconnected: 'bg-slate-400',
+};
+
+/**
+ * Build a namespace id from a display name, the sidebar names servers the same way
+ */
+const createServerId = (name: string, existingIds: string[]): string => {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'server';
+
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+};
+
+// Header values never leave the background, null keeps the stored value of each header
+const toDefinition = ({
+  id,
+  name,
+  uri,
+  connectionType,
+  enabled,
+  headerNames,
+}: AdditionalServerStatus): AdditionalServer => ({
+  id,
+  name,
+  uri,
+  connectionType,
+  enabled,
+  headers: Object.fromEntries(headerNames.map(header => [header, null])),
+});
+
+const StatusDot = ({ status }: { status: string }) => (
+  <span className={`inline-block h-2 w-2 shrink-0 rounded-full ${statusDotClassName[status] ?? 'bg-slate-400'}`} />
+);
+
+const ServersSection = () => {
+  const [primary, setPrimary] = useState<GetServerConfigResponse | null>(null);
+  const [primaryStatus, setPrimaryStatus] = useState<GetConnectionStatusResponse | null>(null);
+  const [uri, setUri] = useState('');
+  const [connectionType, setConnectionType] = useState<ConnectionType>('auto');
+  const [servers, setServers] = useState<AdditionalServerStatus[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newUri, setNewUri] = useState('');
+  const [newType, setNewType] = useState<ConnectionType>('auto');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [config, status, additional] = await Promise.all([
+        sendRequest('mcp:get-server-config', {}),
+        sendRequest('mcp:get-connection-status', {}),
+        sendRequest('mcp:get-servers', {}),
+      ]);
+      setPrimary(config);
+      setUri(config.uri ?? '');
+      setConnectionType(config.connectionType ?? 'auto');
+      setPrimaryStatus(status);
+      setServers(additional);
+    } catch (loadError) {
+      setError(errorMessage(loadError));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+
+    // Servers changed from a tab's sidebar
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'local' && SERVER_STORAGE_KEYS.some(key => key in changes)) {
+        load();
+      }
+    };
+    chrome.storage.onChanged.addListener(onChanged);
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }, [load]);
+
+  const save = async (request: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await request();
+      return true;
+    } catch (saveError) {
+      setError(errorMessage(saveError));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const savePrimary = () => {
+    try {
+      new URL(uri.trim());
+    } catch {
+      setError(`Invalid URI: ${uri}`);
+      return;
+    }
+    save(() => sendRequest('mcp:update-server-config', { config: { uri: uri.trim(), connectionType } }));
+  };
+
+  const saveServers = (next: AdditionalServer[]) => save(() => sendRequest('mcp:update-servers', { servers: next }));
+
+  const addServer = async () => {
+    const name = newName.trim();
+    const serverUri = newUri.trim();
+    if (!name || !serverUri) {
+      setError('Name and URI are required');
+      return;
+    }
+
+    const existing = servers.map(toDefinition);
+    const server: AdditionalServer = {
+      id: createServerId(
+        name,
+        existing.map(item => item.id),
+      ),
+      name,
+      uri: serverUri,
+      connectionType: newType,
+      enabled: true,
+    };
+    if (await saveServers([...existing, server])) {
+      setNewName('');
+      setNewUri('');
+    }
+  };
+
+  const isPrimaryChanged = !!primary && (uri.trim() !== primary.uri || connectionType !== primary.connectionType);
+
+  return (
+    <Card
+      title="Servers"
+      description="The MCP servers tools come from. Headers, roots and profiles are managed in the sidebar.">
+      {error && <p className="mb-3 text-sm text-rose-600">{error}</p>}
+
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-medium">
+        {primaryStatus && <StatusDot status={primaryStatus.status} />}
+        Primary server
+      </h3>
+      <div className="flex gap-2">
+        <input
+          value={uri}
+          onChange={event => setUri(event.target.value)}
+          placeholder="http://localhost:3006/mcp"
+          className={inputClassName}
+          aria-label="Primary server URI"
+        />
+        <select
+          value={connectionType}
+          onChange={event => setConnectionType(event.target.value as ConnectionType)}
+          className={`${inputClassName} w-44`}
+          aria-label="Primary server transport">
+          {CONNECTION_TYPES.map(type => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className={buttonClassName}
+          disabled={!isPrimaryChanged || isSaving}
+          onClick={savePrimary}>
+          Save
+        </button>
+      </div>
+
+      <h3 className="mb-2 mt-6 text-sm font-medium">Additional servers</h3>
+      {servers.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No additional servers.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {servers.map(server => (
+            <li key={server.id} className="flex items-center gap-3 py-2">
+              <Switch
+                checked={server.enabled}
+                disabled={isSaving}
+                onCheckedChange={enabled =>
+                  saveServers(
+                    servers.map(item =>
+                      item.id === server.id ? { ...toDefinition(item), enabled } : toDefinition(item),
+                    ),
+                  )
+                }
+                aria-label={`Enable ${server.name}`}
+              />
+              <StatusDot status={server.enabled ? server.status : 'disconnected'} />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm">
+                  {server.name} <span className="font-mono text-xs text-slate-500">{server.id}</span>
+                </div>
+                <div className="truncate text-xs text-slate-500 dark:text-slate-400">{server.error || server.uri}</div>
+              </div>
+              <button
+                type="button"
+                className={secondaryButtonClassName}
+                disabled={isSaving}
+                onClick={() => saveServers(servers.filter(item => item.id !== server.id).map(toDefinition))}>
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <input
+          value={newName}
+          onChange={event => setNewName(event.target.value)}
+          placeholder="Name"
+          className={`${inputClassName} w-40`}
+          aria-label="New server name"
+        />
+        <input
+          value={newUri}
+          onChange={event => setNewUri(event.target.value)}
+          placeholder="https://example.com/mcp"
+          className={inputClassName}
+          aria-label="New server URI"
+        />
+        <select
+          value={newType}
+          onChange={event => setNewType(event.target.value as ConnectionType)}
+          className={`${inputClassName} w-44`}
+          aria-label="New server transport">
+          {CONNECTION_TYPES.map(type => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <button type="button" className={buttonClassName} disabled={isSaving} onClick={addServer}>
+          Add
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default ServersSection;
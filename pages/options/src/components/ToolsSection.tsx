@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useStorage } from '@extension/shared';
+import { toolEnablementStorage } from '@extension/storage';
+import { Card, Switch } from '@extension/ui';
+import type { Tool } from '../../../content/src/types/stores';
+import { errorMessage, sendRequest } from '@src/lib/background';
+import { secondaryButtonClassName } from '@src/lib/styles';
+
+const ToolsSection = () => {
+  const stored = useStorage(toolEnablementStorage);
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTools = useCallback(async (forceRefresh = false) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const { tools } = await sendRequest('mcp:get-tools', { forceRefresh });
+      setTools([...tools].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (loadError) {
+      setError(errorMessage(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTools();
+  }, [loadTools]);
+
+  // Tabs enable every tool until the list is saved once
+  const enabledTools = new Set(stored.length > 0 ? stored : tools.map(tool => tool.name));
+
+  const setEnabled = (name: string, enabled: boolean) => {
+    const next = new Set(enabledTools);
+    if (enabled) {
+      next.add(name);
+    } else {
+      next.delete(name);
+    }
+    toolEnablementStorage.set(Array.from(next));
+  };
+
+  return (
+    <Card title="Tools" description="Tools the assistant is told about in every open chat tab.">
+      <div className="mb-3 flex gap-2">
+        <button
+          type="button"
+          className={secondaryButtonClassName}
+          onClick={() => toolEnablementStorage.set(tools.map(tool => tool.name))}
+          disabled={tools.length === 0}>
+          Enable all
+        </button>
+        <button type="button" className={secondaryButtonClassName} onClick={() => loadTools(true)} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-rose-600">{error}</p>}
+
+      {tools.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          {isLoading ? 'Loading tools...' : 'No tools, connect a server to list its tools.'}
+        </p>
+      ) : (
+        <ul className="max-h-96 divide-y divide-slate-100 overflow-y-auto dark:divide-slate-700">
+          {tools.map(tool => (
+            <li key={tool.name} className="flex items-start gap-3 py-2">
+              <Switch
+                checked={enabledTools.has(tool.name)}
+                onCheckedChange={enabled => setEnabled(tool.name, enabled)}
+                aria-label={tool.name}
+                className="mt-0.5"
+              />
+              <div className="min-w-0">
+                <div className="font-mono text-sm">{tool.name}</div>
+                {tool.description && (
+                  <div className="truncate text-xs text-slate-500 dark:text-slate-400">{tool.description}</div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export default ToolsSection;
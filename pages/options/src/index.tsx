@@ -0,0 +1,14 @@
+import { createRoot } from 'react-dom/client';
+import '@extension/ui/lib/global.css';
+import Options from '@src/Options';
+
+function init() {
+  const appContainer = document.querySelector('#app-container');
+  if (!appContainer) {
+    throw new Error('Can not find #app-container');
+  }
+  const root = createRoot(appContainer);
+  root.render(<Options />);
+}
+
+init();
@@ -0,0 +1,24 @@
+import { createRequestMessage } from '../../../content/src/types/messages';
+import type { McpMessageMap, ResponseMessage } from '../../../content/src/types/messages';
+import type { McpRequestType, McpResponsePayload } from '../../../content/src/types/protocol';
+
+/**
+ * Send a request to the background over the protocol content scripts use
+ * @throws When the background answers with an error
+ */
+export async function sendRequest<T extends McpRequestType>(
+  type: T,
+  payload: McpMessageMap[T]['request'],
+): Promise<McpResponsePayload<T>> {
+  const response: ResponseMessage<McpResponsePayload<T>> | undefined = await chrome.runtime.sendMessage({
+    ...createRequestMessage(type, payload),
+    origin: 'options',
+  });
+
+  if (!response?.success) {
+    throw new Error(response?.error || `The background did not answer ${type}`);
+  }
+  return response.payload as McpResponsePayload<T>;
+}
+
+export const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
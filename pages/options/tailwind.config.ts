@@ -0,0 +1,10 @@
+import { withUI } from '@extension/ui';
+import type { Config } from 'tailwindcss';
+
+export default withUI({
+  content: ['./index.html', './src/**/*.{js,jsx,ts,tsx}'],
+  darkMode: 'media',
+  theme: {
+    extend: {},
+  },
+} satisfies Config);